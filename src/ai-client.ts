@@ -1,8 +1,22 @@
 import { requestUrl, type RequestUrlResponse } from "obsidian";
 import type { CooSettings, ReasoningEffort } from "./types";
-import { getRegisterDocumentPrompt } from "./prompts";
+import { getRegisterDocumentPrompt, getSnapshotUpdatePrompt } from "./prompts";
+import {
+	getProvider,
+	type LlmProvider,
+	type ProviderRequest,
+} from "./providers";
+import type { UsageMeter } from "./usage-ledger";
+import { shiftCitations } from "./citations";
+import { t } from "./i18n";
 
-const API_URL = "https://api.openai.com/v1/responses";
+export { parseResponse } from "./providers";
+
+/** One prior conversation turn, sent explicitly (local conversation mode). */
+export interface ChatMessage {
+	role: "user" | "assistant";
+	content: string;
+}
 
 export interface ChatCompletionParams {
 	settings: CooSettings;
@@ -10,172 +24,339 @@ export interface ChatCompletionParams {
 	userPrompt: string;
 	/** Chain head from a prior stored response. */
 	previousResponseId?: string;
+	/** Prior turns to send ahead of userPrompt, oldest first. */
+	history?: ChatMessage[];
 	/** Whether OpenAI stores the response (default true — needed for chaining). */
 	store?: boolean;
 	/** Override reasoning effort; defaults to settings.reasoningEffort. */
 	reasoningEffort?: ReasoningEffort;
 	/** Override web search; defaults to settings.webSearchEnabled. */
 	webSearchEnabled?: boolean;
+	/** Aborting it rejects the call with CooCancelledError. */
+	signal?: AbortSignal;
+	/**
+	 * Ledger to bill the call to: budgets are checked before it is sent, and
+	 * its token usage recorded once it completes.
+	 */
+	meter?: UsageMeter;
+	/** Called before each retry of a rate-limited or failed call. */
+	onRetry?: (retry: RetryInfo) => void;
+}
+
+/** A retry about to happen, for progress feedback ("Retrying in 4s…"). */
+export interface RetryInfo {
+	/** The attempt about to be made (2 for the first retry). */
+	attempt: number;
+	delayMs: number;
+	/** HTTP status of the failed attempt; 0 for a network error. */
+	status: number;
+}
+
+/** Tokens billed for one call, as reported by the provider. */
+export interface TokenUsage {
+	inputTokens: number;
+	outputTokens: number;
+}
+
+/** A web source cited by the answer (web search). */
+export interface Citation {
+	url: string;
+	title: string;
+	/**
+	 * The span of answer text the source backs, as offsets into `text`;
+	 * absent when the provider doesn't say where.
+	 */
+	start?: number;
+	end?: number;
 }
 
 export interface ResponseResult {
 	text: string;
 	responseId: string;
+	/** Absent when the provider didn't report usage. */
+	usage?: TokenUsage;
+	/** Web-search sources, when the answer cites any. */
+	citations?: Citation[];
 }
 
-/** API error carrying the HTTP status, so callers can react (e.g. expired id). */
+/**
+ * API error carrying the HTTP status, so callers can react (e.g. expired id).
+ * Status 0 is a network error (no response). `retryAfterMs` is the server's
+ * requested wait, when it sent one.
+ */
 export class CooApiError extends Error {
 	status: number;
-	constructor(status: number, message: string) {
+	retryAfterMs?: number;
+	constructor(status: number, message: string, retryAfterMs?: number) {
 		super(message);
 		this.name = "CooApiError";
 		this.status = status;
+		this.retryAfterMs = retryAfterMs;
 	}
 }
 
-function resolveReasoning(params: ChatCompletionParams): ReasoningEffort {
-	return params.reasoningEffort ?? params.settings.reasoningEffort;
+/** Thrown when a request is cancelled; callers swallow it without a notice. */
+export class CooCancelledError extends Error {
+	constructor() {
+		super("Request cancelled.");
+		this.name = "CooCancelledError";
+	}
 }
 
-function resolveWebSearch(params: ChatCompletionParams): boolean {
-	return params.webSearchEnabled ?? params.settings.webSearchEnabled;
+/** Throw CooCancelledError if the signal has already been aborted. */
+export function throwIfCancelled(signal: AbortSignal | undefined): void {
+	if (signal?.aborted) throw new CooCancelledError();
 }
 
-function buildRequestBody(
-	params: ChatCompletionParams,
-): Record<string, unknown> {
-	const { settings, systemPrompt, userPrompt, previousResponseId, store = true } = params;
-
-	const body: Record<string, unknown> = {
-		model: settings.model,
-		input: userPrompt,
-		instructions: systemPrompt,
-		store,
-	};
+/**
+ * Reject with CooCancelledError as soon as the signal aborts. requestUrl can't
+ * be aborted, so the underlying request still completes — its result is just
+ * never seen, which is what guarantees a cancelled call has no effect.
+ */
+function abortable<T>(promise: Promise<T>, signal: AbortSignal | undefined): Promise<T> {
+	if (!signal) return promise;
+	throwIfCancelled(signal);
+	let onAbort = (): void => undefined;
+	const aborted = new Promise<never>((_resolve, reject) => {
+		onAbort = () => reject(new CooCancelledError());
+		signal.addEventListener("abort", onAbort, { once: true });
+	});
+	// Long-lived signals outlast many calls; don't leave a listener per call.
+	return Promise.race([promise, aborted]).finally(() =>
+		signal.removeEventListener("abort", onAbort),
+	);
+}
 
-	if (previousResponseId) {
-		body.previous_response_id = previousResponseId;
-	}
+/** Progress text for an upcoming retry, e.g. "Rate limited — retrying in 4s…". */
+export function describeRetry(retry: RetryInfo): string {
+	const seconds = Math.max(1, Math.ceil(retry.delayMs / 1000));
+	const key =
+		retry.status === 429
+			? "retry.rateLimited"
+			: retry.status === 0
+				? "retry.network"
+				: "retry.server";
+	return t(key, { seconds });
+}
+
+/** First backoff delay; each retry doubles it, up to MAX_RETRY_DELAY_MS. */
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30_000;
 
-	const reasoning = resolveReasoning(params);
-	if (reasoning !== "none") {
-		body.reasoning = { effort: reasoning };
+/** Statuses worth retrying: rate limits, server errors, overload, network errors. */
+export function isRetryableStatus(status: number): boolean {
+	return [0, 429, 500, 502, 503, 504, 529].includes(status);
+}
+
+/**
+ * Parse a duration like "1s", "6m0s" or "250ms" (the OpenAI rate-limit reset
+ * headers) into milliseconds, or null if it isn't one.
+ */
+function parseDuration(value: string): number | null {
+	const parts = [...value.matchAll(/(\d+(?:\.\d+)?)(ms|h|m|s)/g)];
+	if (parts.length === 0 || parts.map((p) => p[0]).join("") !== value.trim()) {
+		return null;
 	}
+	const unitMs: Record<string, number> = { ms: 1, s: 1000, m: 60_000, h: 3_600_000 };
+	return parts.reduce(
+		(total, [, amount, unit]) => total + Number(amount) * (unitMs[unit ?? "s"] ?? 0),
+		0,
+	);
+}
 
-	if (resolveWebSearch(params)) {
-		body.tools = [{ type: "web_search" }];
+/**
+ * How long the server asks us to wait before retrying, in ms, or null when it
+ * doesn't say. Reads `retry-after-ms`, then `retry-after` (seconds or an HTTP
+ * date). For a 429 only, falls back to the OpenAI `x-ratelimit-reset-*`
+ * duration of the limit that was hit (its `x-ratelimit-remaining-*` is 0);
+ * the other limit's reset says nothing about when to retry.
+ */
+export function parseRetryAfter(
+	headers: Record<string, string>,
+	status: number,
+	now: number = Date.now(),
+): number | null {
+	const get = (name: string): string | undefined => {
+		const key = Object.keys(headers).find((k) => k.toLowerCase() === name);
+		return key === undefined ? undefined : headers[key];
+	};
+
+	const ms = Number(get("retry-after-ms"));
+	if (get("retry-after-ms") !== undefined && Number.isFinite(ms)) return Math.max(0, ms);
+
+	const retryAfter = get("retry-after");
+	if (retryAfter !== undefined) {
+		const seconds = Number(retryAfter);
+		if (retryAfter.trim() !== "" && Number.isFinite(seconds)) {
+			return Math.max(0, seconds * 1000);
+		}
+		const date = Date.parse(retryAfter);
+		if (!Number.isNaN(date)) return Math.max(0, date - now);
 	}
 
-	return body;
+	if (status !== 429) return null;
+	const resets = ["requests", "tokens"]
+		.filter((limit) => get(`x-ratelimit-remaining-${limit}`)?.trim() === "0")
+		.map((limit) => get(`x-ratelimit-reset-${limit}`))
+		.filter((v): v is string => v !== undefined)
+		.map(parseDuration)
+		.filter((v): v is number => v !== null);
+	return resets.length > 0 ? Math.max(...resets) : null;
 }
 
-function extractApiError(body: string): string {
-	try {
-		const json = JSON.parse(body) as { error?: { message?: string } };
-		if (json.error?.message) return json.error.message;
-	} catch {
-		// not JSON
-	}
-	return body.slice(0, 200);
-}
-
-function mapHttpError(status: number, body: string): string {
-	const detail = extractApiError(body);
-
-	switch (status) {
-		case 400:
-			return `Bad request: ${detail}`;
-		case 401:
-			return "Invalid API key. Please check your key in Coo settings.";
-		case 429:
-			return "Rate limited by OpenAI. Please wait a moment and try again.";
-		case 500:
-		case 502:
-		case 503:
-			return "OpenAI service error. Please try again later.";
-		default:
-			return `OpenAI API error (${status}): ${detail}`;
-	}
+/**
+ * Delay before retry number `retry` (1 for the first): exponential from
+ * BASE_RETRY_DELAY_MS, capped, with jitter in the upper half so concurrent
+ * clients spread out.
+ */
+export function backoffDelay(retry: number, random: () => number = Math.random): number {
+	const ceiling = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** (retry - 1));
+	return Math.round(ceiling / 2 + random() * (ceiling / 2));
+}
+
+/** Wait `ms`, rejecting with CooCancelledError if the signal aborts first. */
+function sleep(ms: number, signal: AbortSignal | undefined): Promise<void> {
+	throwIfCancelled(signal);
+	return new Promise((resolve, reject) => {
+		const onAbort = (): void => {
+			clearTimeout(timer);
+			reject(new CooCancelledError());
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener("abort", onAbort);
+			resolve();
+		}, ms);
+		signal?.addEventListener("abort", onAbort, { once: true });
+	});
 }
 
 /**
- * Parse a Responses API body into { text, responseId }.
- * `text` is "" if the model returned no output (caller decides whether that's an error).
+ * Run one API call, retrying rate limits, server errors and network errors
+ * (see isRetryableStatus). Waits the server's Retry-After when given, else
+ * backs off exponentially; a Retry-After that would overrun the time limit
+ * falls back to backoff. Gives up — rethrowing the last error — after
+ * `settings.maxAttempts` attempts, or when even the backoff would overrun
+ * `settings.retryTimeout` seconds from the first attempt.
+ *
+ * The time limit bounds the waiting between attempts only: an attempt already
+ * under way runs until the provider answers or the request is cancelled.
  */
-export function parseResponse(responseText: string): ResponseResult {
-	const data = JSON.parse(responseText) as {
-		id?: string;
-		output_text?: string;
-		output?: Array<{
-			type?: string;
-			content?: Array<{ type?: string; text?: string }>;
-		}>;
-	};
+async function withRetry<T>(
+	params: ChatCompletionParams,
+	run: () => Promise<T>,
+): Promise<T> {
+	const { settings, signal } = params;
+	const maxAttempts = Math.max(1, Math.floor(settings.maxAttempts));
+	const deadline = Date.now() + settings.retryTimeout * 1000;
 
-	const responseId = data.id ?? "";
-
-	// Try top-level output_text first, then extract from output array
-	let text = data.output_text?.trim();
-	if (!text && data.output) {
-		for (const item of data.output) {
-			if (item.type === "message" && item.content) {
-				for (const block of item.content) {
-					if (block.type === "output_text" && block.text) {
-						text = block.text.trim();
-						break;
-					}
-				}
+	for (let attempt = 1; ; attempt++) {
+		try {
+			return await run();
+		} catch (err) {
+			if (
+				!(err instanceof CooApiError) ||
+				!isRetryableStatus(err.status) ||
+				attempt >= maxAttempts
+			) {
+				throw err;
 			}
-			if (text) break;
+			const backoff = backoffDelay(attempt);
+			const fits = (ms: number): boolean => Date.now() + ms <= deadline;
+			const delayMs =
+				err.retryAfterMs !== undefined && fits(err.retryAfterMs) ? err.retryAfterMs : backoff;
+			if (!fits(delayMs)) throw err;
+			params.onRetry?.({ attempt: attempt + 1, delayMs, status: err.status });
+			await sleep(delayMs, signal);
 		}
 	}
+}
 
-	return { text: text ?? "", responseId };
+/** Refuse the call (CooBudgetError) when a budget in settings is used up. */
+async function checkBudget(params: ChatCompletionParams): Promise<void> {
+	const { meter } = params;
+	if (meter) await meter.ledger.checkBudget(params.settings, meter.notePath);
 }
 
-async function apiFetch(
-	apiKey: string,
-	body: Record<string, unknown>,
-): Promise<RequestUrlResponse> {
+/** Record a completed call's usage, when metered and reported. */
+async function recordUsage(
+	params: ChatCompletionParams,
+	usage: TokenUsage | undefined,
+): Promise<void> {
+	const { meter } = params;
+	if (meter && usage) await meter.ledger.record(params.settings, meter, usage);
+}
+
+/** A transport failure (no HTTP response), as a retryable status-0 error. */
+function networkError(err: unknown): CooApiError {
+	const detail = err instanceof Error ? err.message : String(err);
+	return new CooApiError(0, t("error.network", { detail }));
+}
+
+async function apiFetch(request: ProviderRequest): Promise<RequestUrlResponse> {
 	// requestUrl with throw: false mirrors fetch semantics: it returns the
 	// response (status + body) for 4xx/5xx instead of throwing, so callApi can
 	// read the error body and map HTTP codes to user-friendly notices.
 	return requestUrl({
-		url: API_URL,
+		url: request.url,
 		method: "POST",
 		contentType: "application/json",
-		headers: {
-			Authorization: `Bearer ${apiKey}`,
-		},
-		body: JSON.stringify(body),
+		headers: request.headers,
+		body: JSON.stringify(request.body),
 		throw: false,
 	});
 }
 
+/**
+ * Open a streaming POST. requestUrl buffers the whole body, so streaming needs
+ * the global fetch, which the Obsidian lint rules otherwise steer away from;
+ * this is the one place that uses it.
+ */
+function streamingFetch(
+	request: ProviderRequest,
+	signal: AbortSignal | undefined,
+): Promise<Response> {
+	// eslint-disable-next-line no-restricted-globals
+	return fetch(request.url, {
+		method: "POST",
+		headers: { "Content-Type": "application/json", ...request.headers },
+		body: JSON.stringify(request.body),
+		signal,
+	});
+}
+
 /** Low-level call: returns { text, responseId } without throwing on empty text. */
 async function callApi(params: ChatCompletionParams): Promise<ResponseResult> {
-	if (!params.settings.apiKey) {
-		throw new Error(
-			"API key not configured. Please set it in Coo settings.",
-		);
+	const provider = getProvider(params.settings);
+	if (provider.requiresApiKey && !params.settings.apiKey) {
+		throw new Error(t("error.noApiKey"));
 	}
 
-	const body = buildRequestBody(params);
-	const response = await apiFetch(params.settings.apiKey, body);
-	const responseText = response.text;
-
-	if (response.status >= 400) {
-		throw new CooApiError(
-			response.status,
-			mapHttpError(response.status, responseText),
+	await checkBudget(params);
+	const request = provider.buildRequest(params, false);
+	const responseText = await withRetry(params, async () => {
+		const response = await abortable(
+			apiFetch(request).catch((err: unknown) => {
+				throw networkError(err);
+			}),
+			params.signal,
 		);
-	}
+		if (response.status >= 400) {
+			throw new CooApiError(
+				response.status,
+				provider.mapHttpError(response.status, response.text),
+				parseRetryAfter(response.headers, response.status) ?? undefined,
+			);
+		}
+		return response.text;
+	});
 
-	return parseResponse(responseText);
+	const result = provider.parseResponse(responseText);
+	await recordUsage(params, result.usage);
+	return result;
 }
 
 /**
- * Non-streaming response via Responses API.
+ * Non-streaming completion through the provider selected in settings.
  * Throws if the model returns no text.
  */
 export async function chatCompletion(
@@ -183,32 +364,209 @@ export async function chatCompletion(
 ): Promise<ResponseResult> {
 	const result = await callApi(params);
 	if (!result.text) {
-		throw new Error("The assistant didn't return any text.");
+		throw new Error(t("error.noText"));
 	}
 	return result;
 }
 
+/**
+ * Split buffered stream text into complete payloads, returning the unfinished
+ * tail to carry into the next chunk. SSE payloads are the `data:` lines (event
+ * names and comments are dropped); NDJSON payloads are the non-empty lines.
+ */
+export function splitStreamPayloads(
+	buffer: string,
+	format: LlmProvider["streamFormat"],
+): { payloads: string[]; rest: string } {
+	const lines = buffer.split("\n");
+	const rest = lines.pop() ?? "";
+	const payloads: string[] = [];
+	for (const raw of lines) {
+		const line = raw.replace(/\r$/, "");
+		if (format === "ndjson") {
+			if (line.trim()) payloads.push(line);
+		} else if (line.startsWith("data:")) {
+			payloads.push(line.slice(5).trim());
+		}
+	}
+	return { payloads, rest };
+}
+
+/**
+ * Streaming completion: calls `onDelta` with each text fragment as it arrives
+ * and resolves with the full text once the stream ends. Throws (like
+ * chatCompletion) if the model returns no text.
+ */
+export async function streamCompletion(
+	params: ChatCompletionParams,
+	onDelta: (delta: string) => void,
+): Promise<ResponseResult> {
+	const provider = getProvider(params.settings);
+	if (provider.requiresApiKey && !params.settings.apiKey) {
+		throw new Error(t("error.noApiKey"));
+	}
+
+	const { signal } = params;
+	throwIfCancelled(signal);
+	await checkBudget(params);
+
+	// fetch rejects with an AbortError once the signal fires; report that as a
+	// cancellation rather than a failure.
+	const cancellable = async <T>(promise: Promise<T>): Promise<T> => {
+		try {
+			return await promise;
+		} catch (err) {
+			throwIfCancelled(signal);
+			throw err;
+		}
+	};
+
+	const request = provider.buildRequest(params, true);
+	// Only opening the stream is retried; once text has arrived, a failure ends
+	// the call.
+	const response = await withRetry(params, async () => {
+		const opened = await cancellable(
+			streamingFetch(request, signal).catch((err: unknown) => {
+				throwIfCancelled(signal);
+				throw networkError(err);
+			}),
+		);
+		if (!opened.ok) {
+			const headers: Record<string, string> = {};
+			opened.headers.forEach((value, key) => {
+				headers[key] = value;
+			});
+			throw new CooApiError(
+				opened.status,
+				provider.mapHttpError(opened.status, await cancellable(opened.text())),
+				parseRetryAfter(headers, opened.status) ?? undefined,
+			);
+		}
+		return opened;
+	});
+	if (!response.body) {
+		throw new Error(t("error.noStreaming"));
+	}
+
+	const reader = response.body.getReader();
+	const decoder = new TextDecoder();
+	let buffer = "";
+	let text = "";
+	let responseId = "";
+	let usage: TokenUsage | undefined;
+	const citations: Citation[] = [];
+
+	const handle = (payloads: string[]): void => {
+		for (const payload of payloads) {
+			const event = provider.parseStreamEvent(payload);
+			if (!event) continue;
+			if (event.error) throw new Error(event.error);
+			if (event.responseId) responseId = event.responseId;
+			if (event.citation) citations.push(event.citation);
+			if (event.usage) {
+				usage = {
+					inputTokens: event.usage.inputTokens ?? usage?.inputTokens ?? 0,
+					outputTokens: event.usage.outputTokens ?? usage?.outputTokens ?? 0,
+				};
+			}
+			if (event.delta) {
+				text += event.delta;
+				onDelta(event.delta);
+			}
+		}
+	};
+
+	for (;;) {
+		const { done, value } = await cancellable(reader.read());
+		if (done) break;
+		// Drop anything that arrives after a cancel, before the stream errors out.
+		throwIfCancelled(signal);
+		buffer += decoder.decode(value, { stream: true });
+		const { payloads, rest } = splitStreamPayloads(buffer, provider.streamFormat);
+		buffer = rest;
+		handle(payloads);
+	}
+	// Flush a final payload that wasn't newline-terminated.
+	handle(splitStreamPayloads(`${buffer}\n`, provider.streamFormat).payloads);
+	await recordUsage(params, usage);
+
+	const trimmed = text.trim();
+	if (!trimmed) {
+		throw new Error(t("error.noText"));
+	}
+	// Citation offsets index the untrimmed text.
+	const lead = text.length - text.trimStart().length;
+	return {
+		text: trimmed,
+		responseId,
+		usage,
+		...(citations.length > 0
+			? { citations: shiftCitations(citations, -lead) }
+			: {}),
+	};
+}
+
 /**
  * Register a note as the conversation root.
  * Sends the full note text with the registration prompt (store: true) and
  * returns the response_id (R0) to chain future asks from. The acknowledgment
- * text is discarded — only the id matters.
+ * text is discarded — only the id matters. Only valid for providers that
+ * support chaining.
  */
 export async function registerNote(
 	settings: CooSettings,
 	noteText: string,
+	signal?: AbortSignal,
+	meter?: UsageMeter,
+	systemPrompt: string = getRegisterDocumentPrompt(),
 ): Promise<string> {
+	if (!getProvider(settings).supportsChaining) {
+		throw new Error(t("error.noRegistration"));
+	}
+
 	const result = await callApi({
 		settings,
-		systemPrompt: getRegisterDocumentPrompt(),
+		systemPrompt,
 		userPrompt: noteText,
 		store: true,
 		reasoningEffort: "none",
 		webSearchEnabled: false,
+		signal,
+		meter,
+	});
+
+	if (!result.responseId) {
+		throw new Error(t("error.registrationFailed"));
+	}
+	return result.responseId;
+}
+
+/**
+ * Chain a snapshot update onto a registered note: `input` lists the changed
+ * paragraphs (see buildSnapshotUpdateInput). Returns the new chain head; like
+ * registration, the acknowledgment text is discarded.
+ */
+export async function updateNoteSnapshot(
+	settings: CooSettings,
+	previousResponseId: string,
+	input: string,
+	signal?: AbortSignal,
+	meter?: UsageMeter,
+): Promise<string> {
+	const result = await callApi({
+		settings,
+		systemPrompt: getSnapshotUpdatePrompt(),
+		userPrompt: input,
+		previousResponseId,
+		store: true,
+		reasoningEffort: "none",
+		webSearchEnabled: false,
+		signal,
+		meter,
 	});
 
 	if (!result.responseId) {
-		throw new Error("Registration failed: no response id returned.");
+		throw new Error(t("error.snapshotFailed"));
 	}
 	return result.responseId;
 }
@@ -0,0 +1,29 @@
+/**
+ * Registry of in-flight requests, owned by the plugin so the "Cancel pending
+ * requests" command can reach every Ask, Rewrite and Translate. Each request
+ * gets its own AbortController; callers pass its signal down through
+ * chatCompletion and release it when done.
+ */
+export class PendingRequests {
+	private controllers = new Set<AbortController>();
+
+	/** Start tracking a new request and return its controller. */
+	start(): AbortController {
+		const controller = new AbortController();
+		this.controllers.add(controller);
+		return controller;
+	}
+
+	/** Stop tracking a request (finished, failed or cancelled). */
+	finish(controller: AbortController): void {
+		this.controllers.delete(controller);
+	}
+
+	/** Abort every tracked request. Returns how many were aborted. */
+	cancelAll(): number {
+		const count = this.controllers.size;
+		for (const controller of this.controllers) controller.abort();
+		this.controllers.clear();
+		return count;
+	}
+}
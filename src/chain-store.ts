@@ -0,0 +1,361 @@
+import type { DataAdapter } from "obsidian";
+import { snapshotOf } from "./snapshot";
+import type { ProviderId } from "./types";
+
+/**
+ * The per-note chain store behind chain-data.json, owned by the plugin.
+ *
+ * The file is loaded once and served from memory. Every mutation runs through
+ * a single queue, so concurrent asks (or an Ask racing a rename) can't
+ * interleave their read-modify-write and lose a head. Persistence is debounced;
+ * `flush` writes immediately (on unload).
+ *
+ * The file can also change underneath us — vault sync from another device
+ * rewrites it. Before every read and write the store checks the file's mtime,
+ * and on a change merges the disk copy in three ways against the last version
+ * it saw: keys only one side touched take that side; keys both sides touched
+ * keep the more recently updated entry (an update beats a delete). That
+ * merge is why it keeps its own queue rather than a JsonFileStore.
+ */
+
+/** One note's chain: its head plus the snapshot the server holds. */
+export interface ChainEntry {
+	/** Latest response_id. */
+	head: string;
+	/** Paragraph hashes of the registered note (see snapshot.ts); [] if unknown. */
+	snapshot: string[];
+	/** When the snapshot was last registered or updated (epoch ms). */
+	snapshotAt: number;
+	/** When the head last advanced (epoch ms); 0 if unknown (older data). */
+	updatedAt: number;
+	/** The provider holding the chain, whose retention window it expires by. */
+	provider: ProviderId;
+}
+
+export type ChainMap = Record<string, ChainEntry>;
+
+const DEFAULT_DEBOUNCE_MS = 1000;
+
+/**
+ * Normalize a stored value. Older versions stored the bare head string; those
+ * load with an unknown snapshot. Chains saved without a provider are OpenAI's,
+ * the only provider that chained then.
+ */
+function toEntry(value: unknown): ChainEntry | undefined {
+	if (typeof value === "string") {
+		return { head: value, snapshot: [], snapshotAt: 0, updatedAt: 0, provider: "openai" };
+	}
+	if (value && typeof value === "object") {
+		const entry = value as Partial<ChainEntry>;
+		if (typeof entry.head !== "string") return undefined;
+		return {
+			head: entry.head,
+			snapshot: Array.isArray(entry.snapshot) ? entry.snapshot : [],
+			snapshotAt: entry.snapshotAt ?? 0,
+			updatedAt: entry.updatedAt ?? 0,
+			provider: entry.provider ?? "openai",
+		};
+	}
+	return undefined;
+}
+
+/** Parse chain-data.json, tolerating a missing, corrupt or non-object file. */
+export function parseChainMap(raw: string | null): ChainMap {
+	if (raw === null) return {};
+	try {
+		const parsed = JSON.parse(raw) as unknown;
+		if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+			const map: ChainMap = {};
+			for (const [notePath, value] of Object.entries(parsed)) {
+				const entry = toEntry(value);
+				if (entry) map[notePath] = entry;
+			}
+			return map;
+		}
+		return {};
+	} catch {
+		return {};
+	}
+}
+
+function cloneChainMap(map: ChainMap): ChainMap {
+	return JSON.parse(JSON.stringify(map)) as ChainMap;
+}
+
+function sameEntry(a: ChainEntry | undefined, b: ChainEntry | undefined): boolean {
+	return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Three-way merge of our in-memory map and the disk copy against `base`, the
+ * disk copy we last saw. See the module comment for the rules.
+ */
+export function mergeChainMaps(
+	base: ChainMap,
+	ours: ChainMap,
+	disk: ChainMap,
+): ChainMap {
+	const merged: ChainMap = {};
+	const keys = new Set([
+		...Object.keys(base),
+		...Object.keys(ours),
+		...Object.keys(disk),
+	]);
+	for (const key of keys) {
+		const b = base[key];
+		const o = ours[key];
+		const d = disk[key];
+		const oursChanged = !sameEntry(o, b);
+		const diskChanged = !sameEntry(d, b);
+
+		let pick: ChainEntry | undefined;
+		if (oursChanged && diskChanged) {
+			if (!o || !d) pick = o ?? d;
+			else pick = o.updatedAt >= d.updatedAt ? o : d;
+		} else {
+			pick = oursChanged ? o : d;
+		}
+		if (pick) merged[key] = pick;
+	}
+	return merged;
+}
+
+/**
+ * Where a chain stored under `key` belongs after `oldPath` is renamed to
+ * `newPath`: the new path for the note itself, the re-rooted path for a note
+ * inside a renamed folder, or null if the rename doesn't affect it.
+ */
+export function remapChainPath(
+	key: string,
+	oldPath: string,
+	newPath: string,
+): string | null {
+	if (key === oldPath) return newPath;
+	if (key.startsWith(`${oldPath}/`)) return newPath + key.slice(oldPath.length);
+	return null;
+}
+
+export class ChainStore {
+	private adapter: DataAdapter;
+	private path: string;
+	private debounceMs: number;
+
+	/** In-memory map; null until first loaded. */
+	private map: ChainMap | null = null;
+	/** The disk copy as last read or written — the merge base. */
+	private base: ChainMap = {};
+	/** The file's mtime when last read or written (null: no file). */
+	private diskMtime: number | null = null;
+	/** Tail of the operation queue. */
+	private queue: Promise<unknown> = Promise.resolve();
+	private saveTimer: ReturnType<typeof setTimeout> | null = null;
+	private dirty = false;
+
+	/**
+	 * Called when a debounced save fails. The changes stay pending, so the
+	 * next save (or `flush`) writes them.
+	 */
+	onSaveError: (err: unknown) => void = () => undefined;
+
+	constructor(adapter: DataAdapter, path: string, debounceMs = DEFAULT_DEBOUNCE_MS) {
+		this.adapter = adapter;
+		this.path = path;
+		this.debounceMs = debounceMs;
+	}
+
+	/** Get a note's chain entry, if any. */
+	async get(notePath: string): Promise<ChainEntry | undefined> {
+		return this.enqueue((map) => map[notePath]);
+	}
+
+	/** Get the current chain head (latest response_id) for a note, if any. */
+	async getHead(notePath: string): Promise<string | undefined> {
+		return (await this.get(notePath))?.head;
+	}
+
+	/** Advance the chain head for a note, keeping its snapshot. */
+	async setHead(notePath: string, responseId: string, provider: ProviderId): Promise<void> {
+		await this.mutate((map) => {
+			const existing = map[notePath];
+			map[notePath] = {
+				head: responseId,
+				snapshot: existing?.snapshot ?? [],
+				snapshotAt: existing?.snapshotAt ?? 0,
+				updatedAt: Date.now(),
+				provider,
+			};
+			return true;
+		});
+	}
+
+	/**
+	 * Record that the server now holds `document` (registration or snapshot
+	 * update) with `responseId` as the head.
+	 */
+	async setSnapshot(
+		notePath: string,
+		responseId: string,
+		document: string,
+		provider: ProviderId,
+	): Promise<void> {
+		await this.mutate((map) => {
+			const now = Date.now();
+			map[notePath] = {
+				head: responseId,
+				snapshot: snapshotOf(document),
+				snapshotAt: now,
+				updatedAt: now,
+				provider,
+			};
+			return true;
+		});
+	}
+
+	/** Clear the chain for a note (next Ask will re-register from scratch). */
+	async clear(notePath: string): Promise<void> {
+		await this.mutate((map) => {
+			if (!(notePath in map)) return false;
+			delete map[notePath];
+			return true;
+		});
+	}
+
+	/**
+	 * Move chains along with a renamed/moved note or folder. Any chain already
+	 * at a destination path is replaced — it belonged to a note that is gone.
+	 */
+	async move(oldPath: string, newPath: string): Promise<void> {
+		await this.mutate((map) => {
+			let changed = false;
+			for (const [key, entry] of Object.entries(map)) {
+				const target = remapChainPath(key, oldPath, newPath);
+				if (target === null) continue;
+				delete map[key];
+				map[target] = entry;
+				changed = true;
+			}
+			return changed;
+		});
+	}
+
+	/** Drop the chains of a deleted note, or of every note in a deleted folder. */
+	async drop(path: string): Promise<void> {
+		await this.mutate((map) => {
+			let changed = false;
+			for (const key of Object.keys(map)) {
+				if (key === path || key.startsWith(`${path}/`)) {
+					delete map[key];
+					changed = true;
+				}
+			}
+			return changed;
+		});
+	}
+
+	/**
+	 * Garbage-collect chains: those whose note no longer exists, and those
+	 * whose head hasn't advanced within `maxAgeMs` of the chain's provider
+	 * (the server has discarded the stored responses). Chains of unknown age,
+	 * or of a provider without a retention window, are kept. Returns how many
+	 * were removed.
+	 */
+	async prune(
+		noteExists: (path: string) => boolean,
+		maxAgeMs: (provider: ProviderId) => number | undefined = () => undefined,
+		now: number = Date.now(),
+	): Promise<number> {
+		let removed = 0;
+		await this.mutate((map) => {
+			for (const [key, entry] of Object.entries(map)) {
+				const maxAge = maxAgeMs(entry.provider);
+				const expired =
+					maxAge !== undefined &&
+					entry.updatedAt > 0 &&
+					now - entry.updatedAt > maxAge;
+				if (!noteExists(key) || expired) {
+					delete map[key];
+					removed++;
+				}
+			}
+			return removed > 0;
+		});
+		return removed;
+	}
+
+	/** Write pending changes now instead of waiting for the debounce. */
+	async flush(): Promise<void> {
+		if (this.saveTimer !== null) {
+			clearTimeout(this.saveTimer);
+			this.saveTimer = null;
+		}
+		await this.enqueue(() => undefined, () => this.save());
+	}
+
+	/**
+	 * Run `fn` on the up-to-date map, after every earlier operation. `after`
+	 * runs inside the same queue slot (used for saving).
+	 */
+	private enqueue<T>(
+		fn: (map: ChainMap) => T,
+		after?: () => Promise<void>,
+	): Promise<T> {
+		const run = async (): Promise<T> => {
+			const map = await this.syncFromDisk();
+			const result = fn(map);
+			if (after) await after();
+			return result;
+		};
+		const next = this.queue.then(run, run);
+		this.queue = next.catch(() => undefined);
+		return next;
+	}
+
+	/** Apply a change; `fn` returns whether it changed anything. */
+	private async mutate(fn: (map: ChainMap) => boolean): Promise<void> {
+		// Mark dirty inside the queue slot, so a flush queued right behind this
+		// change always sees it.
+		const changed = await this.enqueue((map) => {
+			const result = fn(map);
+			if (result) this.dirty = true;
+			return result;
+		});
+		if (changed) this.scheduleSave();
+	}
+
+	private scheduleSave(): void {
+		if (this.saveTimer !== null) clearTimeout(this.saveTimer);
+		this.saveTimer = setTimeout(() => {
+			this.saveTimer = null;
+			this.enqueue(() => undefined, () => this.save()).catch((err: unknown) =>
+				this.onSaveError(err),
+			);
+		}, this.debounceMs);
+	}
+
+	/**
+	 * Load the map on first use, and fold in external changes whenever the
+	 * file's mtime has moved since we last read or wrote it.
+	 */
+	private async syncFromDisk(): Promise<ChainMap> {
+		const stat = await this.adapter.stat(this.path);
+		const mtime = stat?.mtime ?? null;
+		if (this.map !== null && mtime === this.diskMtime) return this.map;
+
+		const raw = stat ? await this.adapter.read(this.path) : null;
+		const disk = parseChainMap(raw);
+		this.map =
+			this.map === null ? cloneChainMap(disk) : mergeChainMaps(this.base, this.map, disk);
+		this.base = disk;
+		this.diskMtime = mtime;
+		return this.map;
+	}
+
+	/** Must run inside the queue, after syncFromDisk. */
+	private async save(): Promise<void> {
+		if (!this.dirty || this.map === null) return;
+		await this.adapter.write(this.path, JSON.stringify(this.map, null, 2));
+		this.dirty = false;
+		this.base = cloneChainMap(this.map);
+		this.diskMtime = (await this.adapter.stat(this.path))?.mtime ?? null;
+	}
+}
@@ -1,140 +1,247 @@
-import type { App } from "obsidian";
-import type { CooSettings } from "./types";
+import type { CooSettings, ReasoningEffort } from "./types";
 import {
 	chatCompletion,
+	streamCompletion,
 	registerNote,
+	updateNoteSnapshot,
+	throwIfCancelled,
 	CooApiError,
+	type ChatCompletionParams,
 	type ResponseResult,
+	type RetryInfo,
 } from "./ai-client";
+import { getProvider } from "./providers";
+import { buildLocalHistory, buildSnapshotUpdateInput } from "./prompts";
+import { STALE_THRESHOLD, diffSnapshot } from "./snapshot";
+import type { ChainEntry, ChainStore } from "./chain-store";
+import type { NoteHistory } from "./editor-ops";
+import type { UsageKind, UsageLedger, UsageMeter } from "./usage-ledger";
 
 /**
  * Per-note conversation chaining via OpenAI's stored `previous_response_id`.
  *
- * Each note's chain head (the latest response_id) is stored in a plugin-side
- * JSON file keyed by note path. On the first Ask for a note, the whole note is
- * registered (priming call, store: true) to obtain R0; each Ask then chains from
- * the stored head and advances it.
+ * Each note's chain head (the latest response_id) is kept in the ChainStore
+ * (chain-data.json), keyed by note path. On the first Ask for a note, the whole
+ * note is registered (priming call, store: true) to obtain R0; each Ask then
+ * chains from the stored head and advances it.
  *
- * Notes are live and editable, so the registered snapshot can go stale. The
- * "re-register" command captures a fresh snapshot and resets the chain.
+ * Notes are live and editable, so the registered snapshot can go stale. Each
+ * entry keeps paragraph hashes of what was registered (coo callouts excluded);
+ * on Ask, a lightly edited note gets a snapshot-update turn carrying just the
+ * changed paragraphs, and one that has diverged past STALE_THRESHOLD is
+ * re-registered. The "re-register" command forces a fresh snapshot.
+ *
+ * Each answer callout records its own response_id, so a drill-down into an
+ * older answer branches from that answer rather than from the latest head:
+ * a note holds a tree of threads, and the head is just the newest leaf.
+ *
+ * In local conversation mode — chosen in settings, and the only mode for
+ * providers without server-side storage — none of this applies: each Ask
+ * rebuilds the conversation from the note itself and sends it with store: false.
  */
 
-const CHAIN_FILE = "chain-data.json";
-
-type ChainMap = Record<string, string>;
-
-function chainFilePath(pluginDir: string): string {
-	return `${pluginDir}/${CHAIN_FILE}`;
-}
-
-async function readMap(
-	app: App,
-	pluginDir: string,
-): Promise<ChainMap> {
-	const adapter = app.vault.adapter;
-	const path = chainFilePath(pluginDir);
-	if (!(await adapter.exists(path))) return {};
-	try {
-		const raw = await adapter.read(path);
-		const parsed = JSON.parse(raw) as unknown;
-		if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
-			return parsed as ChainMap;
-		}
-		return {};
-	} catch {
-		return {};
-	}
-}
-
-async function writeMap(
-	app: App,
-	pluginDir: string,
-	map: ChainMap,
-): Promise<void> {
-	const path = chainFilePath(pluginDir);
-	await app.vault.adapter.write(path, JSON.stringify(map, null, 2));
-}
+/**
+ * How the registered snapshot compares to the note, for the composer's status
+ * line: "local" (no snapshot in use), "unregistered" (first Ask will
+ * register), "fresh", "changed" (next Ask sends a snapshot update), "stale"
+ * (next Ask re-registers), or "unknown" (chain predates snapshot tracking;
+ * next Ask re-registers).
+ */
+export type SnapshotStatus =
+	| "local"
+	| "unregistered"
+	| "fresh"
+	| "changed"
+	| "stale"
+	| "unknown";
 
-/** Get the current chain head (latest response_id) for a note, if any. */
-export async function getChainHead(
-	app: App,
-	pluginDir: string,
-	notePath: string,
-): Promise<string | undefined> {
-	const map = await readMap(app, pluginDir);
-	return map[notePath];
+/** Classify a note's snapshot against its current document (callouts removed). */
+export function classifySnapshot(
+	entry: ChainEntry | undefined,
+	document: string,
+): Exclude<SnapshotStatus, "local"> {
+	if (!entry) return "unregistered";
+	if (entry.snapshot.length === 0) return "unknown";
+	const { divergence } = diffSnapshot(entry.snapshot, document);
+	if (divergence === 0) return "fresh";
+	return divergence > STALE_THRESHOLD ? "stale" : "changed";
 }
 
-/** Advance the chain head for a note. */
-export async function setChainHead(
-	app: App,
-	pluginDir: string,
+/** The snapshot status shown in the composer for a note. */
+export async function getSnapshotStatus(
+	chains: ChainStore,
 	notePath: string,
-	responseId: string,
-): Promise<void> {
-	const map = await readMap(app, pluginDir);
-	map[notePath] = responseId;
-	await writeMap(app, pluginDir, map);
+	settings: CooSettings,
+	document: string,
+): Promise<SnapshotStatus> {
+	if (!usesServerChaining(settings)) return "local";
+	return classifySnapshot(await chains.get(notePath), document);
 }
 
-/** Clear the chain for a note (next Ask will re-register from scratch). */
-export async function clearChain(
-	app: App,
-	pluginDir: string,
-	notePath: string,
-): Promise<void> {
-	const map = await readMap(app, pluginDir);
-	if (!(notePath in map)) return;
-	delete map[notePath];
-	await writeMap(app, pluginDir, map);
+/**
+ * Whether Ask chains stored responses server-side (register + previous
+ * response id), rather than sending the conversation locally.
+ */
+export function usesServerChaining(settings: CooSettings): boolean {
+	return (
+		getProvider(settings).supportsChaining &&
+		settings.conversationMode === "server"
+	);
 }
 
 export interface AskChainedParams {
-	app: App;
-	pluginDir: string;
+	chains: ChainStore;
 	notePath: string;
 	/** Full note text, used to register the note on first Ask / re-register. */
 	noteText: string;
+	/**
+	 * The note split into text + callout Q&A: sent as turns in local mode, and
+	 * its text is what the snapshot is checked against in server mode.
+	 */
+	history: NoteHistory;
 	settings: CooSettings;
 	systemPrompt: string;
 	userPrompt: string;
+	/** System prompt for registering the note; the built-in one when absent. */
+	registerPrompt?: string;
+	/**
+	 * Response to chain from instead of the note's head — the drilled answer's
+	 * own response_id, to branch a thread from it.
+	 */
+	branchFrom?: string;
+	/** When set, the answer is streamed and each text fragment passed here. */
+	onDelta?: (delta: string) => void;
+	/** Cancels the Ask; a cancelled Ask never advances the chain head. */
+	signal?: AbortSignal;
+	/** Ledger every call of the Ask (registration, update, answer) is billed to. */
+	ledger?: UsageLedger;
+	/** Called before each retry of the answer call (see ai-client withRetry). */
+	onRetry?: (retry: RetryInfo) => void;
+	/** Overrides for the answer call (quick actions); absent ones follow settings. */
+	reasoningEffort?: ReasoningEffort;
+	webSearchEnabled?: boolean;
+}
+
+function meterFor(
+	ledger: UsageLedger | undefined,
+	kind: UsageKind,
+	notePath: string,
+): UsageMeter | undefined {
+	return ledger ? { ledger, kind, notePath } : undefined;
 }
 
 /**
  * Run an Ask, transparently registering the note on first use and chaining
- * from the stored head. If a chained call is rejected (HTTP 400 — typically an
+ * from the stored head (or from `branchFrom`). A note edited since
+ * registration is brought up to date first (snapshot update, or
+ * re-registration when stale — which drops the branch, as a fresh registration
+ * has no history). Only an update on the head is recorded as the snapshot. If a chained call is rejected (HTTP 400 — typically an
  * expired/invalid response_id after OpenAI evicts the stored response), the
  * chain is reset and the Ask is retried once from a fresh registration.
+ *
+ * Cancellation is checked before every chain-head write, so a cancelled Ask
+ * leaves the stored chain exactly as it was.
  */
 export async function askChained(params: AskChainedParams): Promise<ResponseResult> {
-	const { app, pluginDir, notePath, noteText, settings, systemPrompt, userPrompt } = params;
+	const { chains, notePath, noteText, history, settings, systemPrompt, userPrompt, registerPrompt, branchFrom, onDelta, signal, ledger, onRetry, reasoningEffort, webSearchEnabled } = params;
+	const complete = (p: ChatCompletionParams): Promise<ResponseResult> =>
+		onDelta ? streamCompletion(p, onDelta) : chatCompletion(p);
 
-	let head = await getChainHead(app, pluginDir, notePath);
-	if (!head) {
-		head = await registerNote(settings, noteText);
-		await setChainHead(app, pluginDir, notePath, head);
+	if (!usesServerChaining(settings)) {
+		return complete({
+			settings,
+			systemPrompt,
+			userPrompt,
+			history: buildLocalHistory(history),
+			store: false,
+			reasoningEffort,
+			webSearchEnabled,
+			signal,
+			meter: meterFor(ledger, "ask", notePath),
+			onRetry,
+		});
 	}
 
-	const askParams = {
+	const register = async (): Promise<string> => {
+		const newHead = await registerNote(
+			settings,
+			noteText,
+			signal,
+			meterFor(ledger, "register", notePath),
+			registerPrompt,
+		);
+		throwIfCancelled(signal);
+		await chains.setSnapshot(notePath, newHead, history.document, settings.provider);
+		return newHead;
+	};
+
+	const entry = await chains.get(notePath);
+	const from = branchFrom ?? entry?.head ?? "";
+	let head: string;
+	switch (classifySnapshot(entry, history.document)) {
+		case "unregistered":
+		case "stale":
+		case "unknown":
+			// No snapshot to diff against for "unknown" — register afresh.
+			head = await register();
+			break;
+		case "changed": {
+			const { added, removedCount } = diffSnapshot(
+				entry?.snapshot ?? [],
+				history.document,
+			);
+			try {
+				head = await updateNoteSnapshot(
+					settings,
+					from,
+					buildSnapshotUpdateInput(added, removedCount),
+					signal,
+					meterFor(ledger, "snapshot", notePath),
+				);
+			} catch (err) {
+				// Expired server-side head: register afresh, as for Ask below.
+				if (!(err instanceof CooApiError && err.status === 400)) throw err;
+				head = await register();
+				break;
+			}
+			throwIfCancelled(signal);
+			// An update on a branch reaches that branch only; the other branches
+			// still hold the old text, so the recorded snapshot stays as it was.
+			if (branchFrom === undefined) {
+				await chains.setSnapshot(notePath, head, history.document, settings.provider);
+			}
+			break;
+		}
+		default:
+			head = from;
+	}
+
+	const askParams: ChatCompletionParams = {
 		settings,
 		systemPrompt,
 		userPrompt,
 		previousResponseId: head,
-		// Reasoning + web search follow the user's settings (Ask only — Rewrite/Translate are pinned off).
-		webSearchEnabled: settings.webSearchEnabled,
+		// Reasoning + web search follow the user's settings unless overridden
+		// (Ask only — Rewrite/Translate are pinned off).
+		reasoningEffort,
+		webSearchEnabled: webSearchEnabled ?? settings.webSearchEnabled,
+		signal,
+		meter: meterFor(ledger, "ask", notePath),
+		onRetry,
 	};
 
 	try {
-		const result = await chatCompletion(askParams);
-		await setChainHead(app, pluginDir, notePath, result.responseId);
+		const result = await complete(askParams);
+		throwIfCancelled(signal);
+		await chains.setHead(notePath, result.responseId, settings.provider);
 		return result;
 	} catch (err) {
 		if (err instanceof CooApiError && err.status === 400) {
 			// Stale/expired response_id — re-register and retry once.
-			const newHead = await registerNote(settings, noteText);
-			await setChainHead(app, pluginDir, notePath, newHead);
-			const retry = await chatCompletion({ ...askParams, previousResponseId: newHead });
-			await setChainHead(app, pluginDir, notePath, retry.responseId);
+			const newHead = await register();
+			const retry = await complete({ ...askParams, previousResponseId: newHead });
+			throwIfCancelled(signal);
+			await chains.setHead(notePath, retry.responseId, settings.provider);
 			return retry;
 		}
 		throw err;
@@ -143,17 +250,25 @@ export async function askChained(params: AskChainedParams): Promise<ResponseResu
 
 /**
  * Re-register the note: capture a fresh snapshot and reset the chain.
- * Used by the explicit "re-register note" command when the note has changed
- * substantially and the registered context has gone stale.
+ * Used by the explicit "re-register note" command. `document` is the note
+ * without its coo callouts, recorded as the new snapshot.
  */
 export async function reRegisterNote(
-	app: App,
-	pluginDir: string,
+	chains: ChainStore,
 	notePath: string,
 	noteText: string,
+	document: string,
 	settings: CooSettings,
+	ledger?: UsageLedger,
+	registerPrompt?: string,
 ): Promise<string> {
-	const head = await registerNote(settings, noteText);
-	await setChainHead(app, pluginDir, notePath, head);
+	const head = await registerNote(
+		settings,
+		noteText,
+		undefined,
+		meterFor(ledger, "register", notePath),
+		registerPrompt,
+	);
+	await chains.setSnapshot(notePath, head, document, settings.provider);
 	return head;
 }
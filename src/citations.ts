@@ -0,0 +1,157 @@
+import type { Citation } from "./ai-client";
+import type { CitationStyle } from "./types";
+import { hashText } from "./snapshot";
+
+/**
+ * Rendering of web-search citations inside an answer callout.
+ *
+ * Providers report each cited source with the span of answer text it backs
+ * (see Citation). OpenAI also writes its own inline link into the answer —
+ * "([site.com](url))" — and the span covers that link; such spans are
+ * replaced by the chosen style rather than kept alongside it. Citations
+ * without a span (or whose span is plain prose) get a marker at the span's end,
+ * or go to a "Sources" list when they have no position at all.
+ *
+ * - "footnotes": numbered Markdown footnotes. Labels carry a per-answer prefix
+ *   so footnotes from different callouts in one note never collide.
+ * - "links": the inline links, as the model wrote them.
+ * - "hidden": no sources; the model's inline links are removed.
+ */
+
+/** Move every citation span by `delta` characters (e.g. after trimming a prefix). */
+export function shiftCitations(citations: Citation[], delta: number): Citation[] {
+	return citations.map((c) =>
+		c.start === undefined || c.end === undefined
+			? c
+			: { ...c, start: c.start + delta, end: c.end + delta },
+	);
+}
+
+/** The host of a URL without "www.", for compact link text; the URL if unparsable. */
+function hostOf(url: string): string {
+	try {
+		return new URL(url).hostname.replace(/^www\./, "");
+	} catch {
+		return url;
+	}
+}
+
+function linkOf(citation: Citation): string {
+	const label = (citation.title || hostOf(citation.url)).replace(/[[\]]/g, "");
+	return `[${label}](${citation.url})`;
+}
+
+/**
+ * The range to replace for a span that is the model's own inline link, widened
+ * to swallow its wrapping parentheses and the space before them; null when the
+ * span is prose to keep.
+ */
+function inlineLinkRange(
+	text: string,
+	start: number,
+	end: number,
+): { from: number; to: number } | null {
+	if (!text.slice(start, end).includes("](")) return null;
+	let from = start;
+	let to = end;
+	if (text[from - 1] === "(" && text[to] === ")") {
+		from--;
+		to++;
+	}
+	if (text[from - 1] === " ") from--;
+	return { from, to };
+}
+
+/**
+ * Apply citations to an answer: markers in the text plus, for footnotes, the
+ * footnote definitions, and a "Sources" list for citations with no position.
+ * `seed` (the response id, or the text) makes footnote labels unique per
+ * answer.
+ */
+export function renderCitations(
+	text: string,
+	citations: Citation[],
+	style: CitationStyle,
+	seed: string,
+): string {
+	if (citations.length === 0) return text;
+
+	const valid = (c: Citation): boolean =>
+		c.start !== undefined &&
+		c.end !== undefined &&
+		c.start >= 0 &&
+		c.end >= c.start &&
+		c.end <= text.length;
+	const positioned = citations
+		.filter(valid)
+		.sort((a, b) => (a.end ?? 0) - (b.end ?? 0));
+
+	// Footnote numbers go by first appearance of each URL.
+	const numbers = new Map<string, number>();
+	for (const c of positioned) {
+		if (!numbers.has(c.url)) numbers.set(c.url, numbers.size + 1);
+	}
+	const prefix = `coo-${hashText(seed).slice(0, 6)}`;
+
+	const edits: Array<{ from: number; to: number; insert: string }> = [];
+	for (const c of positioned) {
+		const start = c.start ?? 0;
+		const end = c.end ?? 0;
+		const inline = inlineLinkRange(text, start, end);
+		let marker: string;
+		switch (style) {
+			case "footnotes":
+				marker = `[^${prefix}-${numbers.get(c.url) ?? 0}]`;
+				break;
+			case "links":
+				// The model's own link already reads as one.
+				if (inline) continue;
+				marker = ` (${linkOf({ ...c, title: hostOf(c.url) })})`;
+				break;
+			case "hidden":
+				marker = "";
+				if (!inline) continue;
+				break;
+		}
+		edits.push(
+			inline
+				? { from: inline.from, to: inline.to, insert: marker }
+				: { from: end, to: end, insert: marker },
+		);
+	}
+
+	// Apply from the end so earlier offsets stay valid; skip overlaps. Markers
+	// at the same spot are applied last-first so they read in citation order.
+	let out = text;
+	let limit = Infinity;
+	for (const edit of [...edits].reverse().sort((a, b) => b.from - a.from)) {
+		if (edit.to > limit) continue;
+		out = out.slice(0, edit.from) + edit.insert + out.slice(edit.to);
+		limit = edit.from;
+	}
+
+	if (style === "hidden") return out;
+
+	const tail: string[] = [];
+	if (style === "footnotes" && numbers.size > 0) {
+		const byUrl = new Map(positioned.map((c) => [c.url, c]));
+		for (const [url, n] of numbers) {
+			const c = byUrl.get(url);
+			if (c) tail.push(`[^${prefix}-${n}]: ${linkOf(c)}`);
+		}
+	}
+
+	const unpositioned = citations.filter(
+		(c, i) =>
+			!valid(c) &&
+			!numbers.has(c.url) &&
+			citations.findIndex((o) => o.url === c.url) === i,
+	);
+	if (unpositioned.length > 0) {
+		if (tail.length > 0) tail.push("");
+		tail.push("**Sources**");
+		unpositioned.forEach((c, i) => tail.push(`${i + 1}. ${linkOf(c)}`));
+	}
+
+	return tail.length > 0 ? `${out}\n\n${tail.join("\n")}` : out;
+}
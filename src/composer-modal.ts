@@ -1,15 +1,36 @@
-import { App, Editor, Modal, Notice, type EditorPosition } from "obsidian";
-import type { CooSettings } from "./types";
-import { DEFAULT_ASK_QUESTION } from "./types";
-import { chatCompletion } from "./ai-client";
-import { askChained } from "./chain";
+import { App, Editor, Modal, Notice, setIcon, type EditorPosition } from "obsidian";
+import type { CooSettings, QuickAction, ReasoningEffort, RewriteMode } from "./types";
+import { getResponseLanguage } from "./languages";
+import { t, type MessageKey } from "./i18n";
+import {
+	chatCompletion,
+	CooCancelledError,
+	describeRetry,
+	type RetryInfo,
+} from "./ai-client";
+import type { PendingRequests } from "./cancellation";
+import type { ChainStore } from "./chain-store";
+import type { UsageLedger } from "./usage-ledger";
+import { noteTitleOf, type PromptTemplates } from "./prompt-templates";
+import type { RewriteHistory } from "./rewrite-history";
+import { newBlockId, type SidecarEntry, type SidecarStore } from "./sidecar";
+import {
+	askChained,
+	getSnapshotStatus,
+	usesServerChaining,
+	type SnapshotStatus,
+} from "./chain";
 import {
-	getBlockActionSystemPrompt,
-	getRewriteSystemPrompt,
 	buildAskInput,
 	buildRewriteInput,
+	buildTransformInput,
+	getTransformSystemPrompt,
+	getRewriteTask,
 	parseMinorTag,
+	REWRITE_MODES,
+	DEFAULT_SHORTEN_PERCENT,
 } from "./prompts";
+import { fillQuickActionPrompt, quickActionOverrides } from "./quick-actions";
 import {
 	getParagraphText,
 	extractMarkdownPrefix,
@@ -17,17 +38,49 @@ import {
 	findCalloutBlocks,
 	appendCallout,
 	appendCalloutAfter,
+	findCalloutInsertLine,
 	getCalloutBody,
+	getCalloutResponseId,
+	getCalloutRef,
+	getNoteHistory,
+	getTextAround,
 	replaceParagraphAndRemoveCallouts,
+	formatCalloutBlock,
+	renderAnswer,
+	ensureCooBlockId,
+	splitCooBlockId,
+	stripCooBlockIds,
 	highlightSelection,
+	StreamingCallout,
 	type CalloutBlock,
+	type CalloutExtras,
 } from "./editor-ops";
+import { shiftCitations } from "./citations";
+import { RewritePreview, type RewritePreviewOptions } from "./rewrite-preview";
 
 interface ParagraphBounds {
 	startLine: number;
 	endLine: number;
 }
 
+/** Composer status-line text per snapshot status ("local" shows nothing). */
+const SNAPSHOT_STATUS_TEXT: Record<Exclude<SnapshotStatus, "local">, MessageKey> = {
+	unregistered: "composer.snapshot.unregistered",
+	fresh: "composer.snapshot.fresh",
+	changed: "composer.snapshot.changed",
+	stale: "composer.snapshot.stale",
+	unknown: "composer.snapshot.unknown",
+};
+
+/** How much of the note around the paragraph "Match note voice" sends along, in characters. */
+const MAX_VOICE_CONTEXT = 8000;
+
+/** Reasoning and web-search overrides for one request (quick actions). */
+interface RequestOverrides {
+	reasoningEffort?: ReasoningEffort;
+	webSearchEnabled?: boolean;
+}
+
 /** The editor range of the focal selection, used to highlight it while open. */
 interface SelectionRange {
 	from: EditorPosition;
@@ -39,48 +92,94 @@ interface SelectionRange {
  *
  * The modal is the command bar; the note is the canvas. Ask answers and
  * rewrites write straight into the note (not into this modal):
- *   - Ask   → answer appended as a %%...%% note under the paragraph (chains)
+ *   - Ask   → answer appended as a %%...%% note under the paragraph (chains),
+ *     or kept in the sidecar with sidecar storage (see sidecar.ts)
  *   - Rewrite → paragraph rewritten in place, notes removed (one-shot)
- * Undo everywhere is native Ctrl+Z.
+ *   - quick actions → a saved prompt, run as an Ask or as an in-place
+ *     rewrite of the paragraph (see quick-actions.ts)
+ * Rewrites are reviewed first as a diff in the composer (see
+ * rewrite-preview.ts) unless the preview is turned off. Undo everywhere is
+ * native Ctrl+Z; applied rewrites are also archived (see rewrite-history.ts)
+ * so they can be restored after the undo stack is gone.
+ *
+ * While a request runs, its button turns into Cancel. Cancelling — or closing
+ * the composer — aborts the request so it never writes into the note.
  */
 export class CooComposer extends Modal {
 	private settings: CooSettings;
+	private pending: PendingRequests;
 	private editor: Editor;
-	private pluginDir: string;
+	private chains: ChainStore;
+	private ledger: UsageLedger;
+	private templates: PromptTemplates;
+	private history: RewriteHistory;
+	private sidecar: SidecarStore;
 	private notePath: string;
 	private selectedText: string;
 	private bounds: ParagraphBounds;
 	private wholeDoc: boolean;
 	private drillTarget: CalloutBlock | null;
 	private selectionRange: SelectionRange | null;
+	/** A quick action to run as soon as the composer opens (its command). */
+	private initialAction: QuickAction | null;
+	/** A question to ask as soon as the composer opens (threads view re-ask). */
+	private initialQuestion: string | null;
 
 	private inputEl: HTMLTextAreaElement;
 	private askBtn: HTMLButtonElement;
 	private rewriteBtn: HTMLButtonElement;
+	/** Rewrite options: mode, its parameter (percent or tone), free-text instruction. */
+	private rewriteModeEl: HTMLSelectElement;
+	private shortenPercentEl: HTMLInputElement;
+	private toneEl: HTMLInputElement;
+	private instructionEl: HTMLInputElement;
 	private toolbar: HTMLDivElement;
+	/** Every request button, with how to restore its label after Cancel. */
+	private actionButtons: Array<{ el: HTMLButtonElement; render: () => void }> = [];
+	private quickActionButtons = new Map<string, HTMLButtonElement>();
+	/** The rewrite under review, if any; the input and toolbar hide meanwhile. */
+	private preview: RewritePreview | null = null;
+	/** Request progress ("Retrying in 4s…"); empty when there is none. */
+	private requestStatusEl: HTMLDivElement;
+	/** The in-flight request, if any. */
+	private controller: AbortController | null = null;
 
 	constructor(
 		app: App,
 		settings: CooSettings,
+		pending: PendingRequests,
 		editor: Editor,
-		pluginDir: string,
+		chains: ChainStore,
+		ledger: UsageLedger,
+		templates: PromptTemplates,
+		history: RewriteHistory,
+		sidecar: SidecarStore,
 		notePath: string,
 		selectedText: string,
 		bounds: ParagraphBounds,
 		wholeDoc: boolean,
 		drillTarget: CalloutBlock | null,
 		selectionRange: SelectionRange | null,
+		initialAction: QuickAction | null = null,
+		initialQuestion: string | null = null,
 	) {
 		super(app);
 		this.settings = settings;
+		this.pending = pending;
 		this.editor = editor;
-		this.pluginDir = pluginDir;
+		this.chains = chains;
+		this.ledger = ledger;
+		this.templates = templates;
+		this.history = history;
+		this.sidecar = sidecar;
 		this.notePath = notePath;
 		this.selectedText = selectedText;
 		this.bounds = bounds;
 		this.wholeDoc = wholeDoc;
 		this.drillTarget = drillTarget;
 		this.selectionRange = selectionRange;
+		this.initialAction = initialAction;
+		this.initialQuestion = initialQuestion;
 	}
 
 	onOpen(): void {
@@ -91,14 +190,14 @@ export class CooComposer extends Modal {
 		this.containerEl.addClass("coo-composer-open");
 		if (this.wholeDoc) contentEl.addClass("is-whole-doc");
 
-		contentEl.createEl("h3", { text: "coo discuss" });
+		contentEl.createEl("h3", { text: t("composer.title") });
 
 		// Whole-document mode: signal it clearly so the truncated preview below
 		// isn't mistaken for a single paragraph.
 		if (this.wholeDoc) {
 			contentEl.createDiv({
 				cls: "coo-whole-doc-hint",
-				text: "Asking about the whole document",
+				text: t("composer.wholeDocument"),
 			});
 		}
 
@@ -107,16 +206,28 @@ export class CooComposer extends Modal {
 		if (this.drillTarget) {
 			contentEl.createDiv({
 				cls: "coo-whole-doc-hint",
-				text: "Asking about this answer",
+				text: t("composer.thisAnswer"),
 			});
 		}
 
+		// Snapshot status: whether the server's copy of the note is current, and
+		// what the next Ask will do about it. Filled in once the chain loads.
+		const statusEl = contentEl.createDiv({ cls: "coo-snapshot-status" });
+		void getSnapshotStatus(
+			this.chains,
+			this.notePath,
+			this.settings,
+			getNoteHistory(this.editor).document,
+		).then((status) => {
+			if (status === "local") return;
+			statusEl.setText(t(SNAPSHOT_STATUS_TEXT[status]));
+			statusEl.addClass(`is-${status}`);
+		});
+
 		// Passage preview: the answer body when drilling, else the paragraph (or
 		// the whole note in whole-doc mode, where bounds span the document).
 		const preview = contentEl.createDiv({ cls: "coo-selection-preview" });
-		const passage = this.drillTarget
-			? getCalloutBody(this.editor, this.drillTarget)
-			: getParagraphText(this.editor, this.bounds.startLine, this.bounds.endLine);
+		const passage = this.currentPassage();
 		preview.setText(
 			passage.length > 300 ? passage.slice(0, 300) + "..." : passage,
 		);
@@ -136,11 +247,12 @@ export class CooComposer extends Modal {
 		// "pre-populated". Which scope you're asking about (whole document, an
 		// answer, or a paragraph) is signalled by the hint + preview above, so
 		// the placeholder can just be the question itself.
+		const language = getResponseLanguage(this.settings);
 		this.inputEl = contentEl.createEl("textarea", {
 			attr: {
-				placeholder:
-					DEFAULT_ASK_QUESTION[this.settings.responseLanguage],
+				placeholder: language.defaultQuestion,
 				rows: "2",
+				dir: language.direction,
 			},
 		});
 		this.inputEl.addClass("coo-composer-input");
@@ -155,44 +267,189 @@ export class CooComposer extends Modal {
 			}
 		});
 
-		// Toolbar: Rewrite (left) + Ask (right)
+		// Rewrite options — only for a paragraph, like the Rewrite button.
+		const rewriteOptions = contentEl.createDiv({ cls: "coo-rewrite-options" });
+		this.rewriteModeEl = rewriteOptions.createEl("select", {
+			cls: "dropdown",
+			attr: { "aria-label": t("composer.rewriteMode") },
+		});
+		for (const { mode, label } of REWRITE_MODES) {
+			this.rewriteModeEl.createEl("option", { value: mode, text: t(label) });
+		}
+		this.shortenPercentEl = rewriteOptions.createEl("input", {
+			type: "number",
+			cls: "coo-rewrite-percent",
+			attr: { min: "1", max: "90", "aria-label": t("composer.shortenPercent") },
+		});
+		this.shortenPercentEl.value = String(DEFAULT_SHORTEN_PERCENT);
+		this.toneEl = rewriteOptions.createEl("input", {
+			type: "text",
+			cls: "coo-rewrite-tone",
+			attr: { placeholder: t("composer.tonePlaceholder") },
+		});
+		this.instructionEl = rewriteOptions.createEl("input", {
+			type: "text",
+			cls: "coo-rewrite-instruction",
+			attr: { placeholder: t("composer.instructionPlaceholder") },
+		});
+		this.instructionEl.addEventListener("keydown", (e: KeyboardEvent) => {
+			if (e.isComposing || e.key !== "Enter") return;
+			e.preventDefault();
+			if (!this.controller) void this.handleRewrite();
+		});
+		const showModeParams = (): void => {
+			const mode = this.rewriteModeEl.value as RewriteMode;
+			this.shortenPercentEl.toggle(mode === "shorten");
+			this.toneEl.toggle(mode === "tone");
+		};
+		this.rewriteModeEl.addEventListener("change", showModeParams);
+		showModeParams();
+		if (this.wholeDoc || this.drillTarget) rewriteOptions.hide();
+
+		this.requestStatusEl = contentEl.createDiv({ cls: "coo-request-status" });
+
+		// Toolbar: Rewrite and the quick-action chips (left) + Ask (right)
 		this.toolbar = contentEl.createDiv({ cls: "coo-input-toolbar" });
+		const actionsEl = this.toolbar.createDiv({ cls: "coo-toolbar-actions" });
+		// Rewriting folds a single paragraph — not meaningful (and destructive)
+		// for the whole document, and not applicable when drilling into an answer.
+		const canReplace = !this.wholeDoc && !this.drillTarget;
+
+		this.rewriteBtn = this.addActionButton(
+			actionsEl,
+			"coo-rewrite-btn",
+			(el) => el.setText(t("composer.rewrite")),
+			() => this.handleRewrite(),
+		);
+		if (!canReplace) this.rewriteBtn.hide();
+
+		for (const action of this.settings.quickActions) {
+			const chip = this.addActionButton(
+				actionsEl,
+				"coo-quick-action",
+				(el) => {
+					el.empty();
+					setIcon(el.createSpan({ cls: "coo-quick-action-icon" }), action.icon);
+					el.createSpan({ text: action.name });
+				},
+				() => this.handleQuickAction(action),
+			);
+			chip.setAttr("aria-label", action.prompt);
+			if (action.target === "replace" && !canReplace) chip.hide();
+			this.quickActionButtons.set(action.id, chip);
+		}
 
-		this.rewriteBtn = this.toolbar.createEl("button", { text: "Rewrite" });
-		this.rewriteBtn.addClass("coo-rewrite-btn");
-		this.rewriteBtn.addEventListener("click", () => {
-			void this.handleRewrite();
-		});
-		// Rewrite folds a single paragraph — not meaningful (and destructive) for
-		// the whole document, and not applicable when drilling into an answer.
-		if (this.wholeDoc || this.drillTarget) this.rewriteBtn.hide();
+		this.askBtn = this.addActionButton(
+			this.toolbar,
+			"coo-ask-btn",
+			(el) => el.setText(t("composer.ask")),
+			() => this.handleAsk(),
+		);
 
-		this.askBtn = this.toolbar.createEl("button", { text: "Ask" });
-		this.askBtn.addClass("coo-ask-btn");
-		this.askBtn.addEventListener("click", () => {
+		if (this.initialAction) {
+			void this.handleQuickAction(this.initialAction);
+		} else if (this.initialQuestion) {
+			this.inputEl.value = this.initialQuestion;
 			void this.handleAsk();
-		});
+		} else {
+			window.setTimeout(() => this.inputEl.focus(), 50);
+		}
+	}
 
-		window.setTimeout(() => this.inputEl.focus(), 50);
+	/**
+	 * Add a request button: `render` draws its label, `run` starts its request.
+	 * Clicking it while any request runs cancels that request instead.
+	 */
+	private addActionButton(
+		parent: HTMLElement,
+		cls: string,
+		render: (el: HTMLButtonElement) => void,
+		run: () => Promise<void>,
+	): HTMLButtonElement {
+		const el = parent.createEl("button", { cls });
+		render(el);
+		el.addEventListener("click", () => {
+			if (this.controller) {
+				this.cancel();
+				return;
+			}
+			void run();
+		});
+		this.actionButtons.push({ el, render: () => render(el) });
+		return el;
 	}
 
 	onClose(): void {
+		// Closing mid-request abandons it: nothing lands in the note.
+		this.cancel();
 		this.contentEl.empty();
 	}
 
-	private setLoading(loading: boolean, busy?: "ask" | "rewrite"): void {
+	/**
+	 * Review a rewrite before applying it, or apply it right away when the
+	 * preview is off. Regenerate and Reject return to the composer.
+	 */
+	private reviewRewrite(
+		options: Omit<RewritePreviewOptions, "onReject">,
+	): void {
+		if (!this.settings.rewritePreview) {
+			options.onAccept(options.rewritten, false);
+			return;
+		}
+		this.closePreview();
+		this.contentEl.addClass("is-previewing");
+		this.preview = new RewritePreview(this.contentEl, {
+			...options,
+			onRegenerate: () => {
+				this.closePreview();
+				options.onRegenerate();
+			},
+			onReject: () => this.closePreview(),
+		});
+	}
+
+	private closePreview(): void {
+		this.preview?.destroy();
+		this.preview = null;
+		this.contentEl.removeClass("is-previewing");
+	}
+
+	/** Abort the in-flight request, if any. */
+	private cancel(): void {
+		this.controller?.abort();
+	}
+
+	/** Track a new request with the plugin-wide registry. */
+	private startRequest(): AbortSignal {
+		this.controller = this.pending.start();
+		return this.controller.signal;
+	}
+
+	private finishRequest(): void {
+		if (this.controller) this.pending.finish(this.controller);
+		this.controller = null;
+		this.requestStatusEl.setText("");
+	}
+
+	/** Show an upcoming retry in the request status line. */
+	private showRetry = (retry: RetryInfo): void => {
+		this.requestStatusEl.setText(describeRetry(retry));
+	};
+
+	/**
+	 * While loading, the busy button becomes Cancel (and stays clickable); the
+	 * input and the other buttons are disabled.
+	 */
+	private setLoading(loading: boolean, busy?: HTMLButtonElement): void {
 		this.inputEl.disabled = loading;
-		this.askBtn.disabled = loading;
-		this.rewriteBtn.disabled = loading;
-		if (loading) {
-			if (busy === "rewrite") {
-				this.rewriteBtn.setText("Thinking...");
-			} else {
-				this.askBtn.setText("Thinking...");
-			}
-		} else {
-			this.askBtn.setText("Ask");
-			this.rewriteBtn.setText("Rewrite");
+		this.rewriteModeEl.disabled = loading;
+		this.instructionEl.disabled = loading;
+		this.shortenPercentEl.disabled = loading;
+		this.toneEl.disabled = loading;
+		for (const { el, render } of this.actionButtons) {
+			el.disabled = loading && el !== busy;
+			if (loading && el === busy) el.setText(t("composer.cancel"));
+			else if (!loading) render();
 		}
 	}
 
@@ -201,84 +458,259 @@ export class CooComposer extends Modal {
 		// input is "pre-populated" via its placeholder, and Ask/Enter submits it.
 		const question =
 			this.inputEl.value.trim() ||
-			DEFAULT_ASK_QUESTION[this.settings.responseLanguage];
+			getResponseLanguage(this.settings).defaultQuestion;
+		await this.runAsk(question, question, this.askBtn);
+	}
 
-		this.setLoading(true, "ask");
+	/**
+	 * Run a quick action: a "callout" action asks its prompt (titled with the
+	 * action's name); a "replace" action rewrites the paragraph in place.
+	 */
+	private async handleQuickAction(action: QuickAction): Promise<void> {
+		const button = this.quickActionButtons.get(action.id);
+		if (action.target === "replace") {
+			if (this.wholeDoc || this.drillTarget) {
+				new Notice(t("composer.actionNeedsParagraph", { action: action.name }));
+				// Opened just to run this action: nothing else to do here.
+				if (action === this.initialAction) this.close();
+				return;
+			}
+			await this.runTransform(action, button);
+			return;
+		}
+		const question = fillQuickActionPrompt(action, this.settings, {
+			passage: this.currentPassage(),
+			selection: this.selectedText,
+			noteTitle: noteTitleOf(this.notePath),
+		});
+		await this.runAsk(question, action.name, button, quickActionOverrides(action));
+	}
+
+	/** The passage the composer is about: the drilled answer, else the paragraph. */
+	private currentPassage(): string {
+		return this.drillTarget
+			? getCalloutBody(this.editor, this.drillTarget)
+			: stripCooBlockIds(
+					getParagraphText(this.editor, this.bounds.startLine, this.bounds.endLine),
+				);
+	}
 
+	/** The paragraph split into its Markdown prefix, its text and its coo block id. */
+	private paragraphParts(): { prefix: string; content: string; blockId: string | null } {
+		const { prefix, content } = extractMarkdownPrefix(
+			getParagraphText(this.editor, this.bounds.startLine, this.bounds.endLine),
+		);
+		const { text, blockId } = splitCooBlockId(content);
+		return { prefix, content: text, blockId };
+	}
+
+	/**
+	 * Ask `question` and write the answer as a callout titled `title`.
+	 * `busy` is the button that turns into Cancel meanwhile.
+	 */
+	private async runAsk(
+		question: string,
+		title: string,
+		busy: HTMLButtonElement | undefined,
+		overrides: RequestOverrides = {},
+	): Promise<void> {
+
+		this.setLoading(true, busy);
+		const signal = this.startRequest();
+
+		// Sidecar storage keeps new answers out of the note; a drill-down still
+		// stacks under the callout it is about.
+		const toSidecar = this.settings.qaStorage === "sidecar" && !this.drillTarget;
+		let stream: StreamingCallout | null = null;
 		try {
-			const passage = this.drillTarget
-				? getCalloutBody(this.editor, this.drillTarget)
-				: getParagraphText(
-						this.editor,
-						this.bounds.startLine,
-						this.bounds.endLine,
-					);
+			const passage = this.currentPassage();
 			const userPrompt = buildAskInput(passage, this.selectedText, question);
-			const systemPrompt = getBlockActionSystemPrompt(
-				this.settings.responseLanguage,
-			);
+			const noteTitle = noteTitleOf(this.notePath);
+			const systemPrompt = this.templates.systemPrompt("ask", this.settings, {
+				passage,
+				selection: this.selectedText,
+				question,
+				noteTitle,
+			});
+
+			// Snapshot the note before a streamed callout starts writing into it.
+			const noteText = this.editor.getValue();
+			const inline = getNoteHistory(this.editor);
+			const sidecarPairs = (await this.sidecar.list(this.notePath)).map((e) => ({
+				question: e.question.replace(/^\[Minor\]\s*/i, ""),
+				answer: e.answer,
+			}));
+			const history = { ...inline, pairs: [...inline.pairs, ...sidecarPairs] };
+			// Drilling into an answer branches from that answer's own response.
+			const branchFrom = this.drillTarget
+				? (getCalloutResponseId(this.editor, this.drillTarget) ?? undefined)
+				: undefined;
+			// ...and records which answer it drilled into, for the threads view.
+			const parent = this.drillTarget
+				? getCalloutRef(this.editor, this.drillTarget)
+				: undefined;
+
+			// Streaming: the callout appears right away (under the drilled answer,
+			// or after the paragraph's notes) and fills in as text arrives.
+			if (this.settings.streamingEnabled && !toSidecar) {
+				const afterLine = this.drillTarget
+					? this.drillTarget.endLine
+					: findCalloutInsertLine(this.editor, this.bounds.endLine);
+				stream = new StreamingCallout(this.editor, afterLine, title);
+			}
+			const activeStream = stream;
 
 			const result = await askChained({
-				app: this.app,
-				pluginDir: this.pluginDir,
+				chains: this.chains,
 				notePath: this.notePath,
-				noteText: this.editor.getValue(),
+				noteText,
+				history,
 				settings: this.settings,
 				systemPrompt,
 				userPrompt,
+				registerPrompt: this.templates.systemPrompt("register", this.settings, {
+					noteTitle,
+				}),
+				branchFrom,
+				ledger: this.ledger,
+				onRetry: this.showRetry,
+				...overrides,
+				onDelta: activeStream
+					? (delta) => activeStream.append(delta)
+					: undefined,
+				signal,
 			});
 
 			// A skippable-concept answer begins with **Minor** —; lift that flag
 			// into the callout title (visible when collapsed) and keep the body
 			// clean. Title/body are otherwise unchanged.
-			const { isMinor, body } = parseMinorTag(result.text);
-			const title = isMinor ? `[Minor] ${question}` : question;
+			const { isMinor, body, offset } = parseMinorTag(result.text);
+			const calloutTitle = isMinor ? `[Minor] ${title}` : title;
+			const extras: CalloutExtras = {
+				// Record the response so a later drill-down can branch from it.
+				// Only stored (server-chained) responses can be continued.
+				responseId: usesServerChaining(this.settings)
+					? result.responseId
+					: undefined,
+				// Source offsets index the full answer; re-base them onto the body.
+				citations: shiftCitations(result.citations ?? [], -offset),
+				citationStyle: this.settings.citationStyle,
+				parent,
+			};
 
 			// Answer writes straight into the note as a collapsed callout (title =
-			// the question, optionally prefixed with [Minor]; body = the answer,
-			// markdown renders). When drilling, the new answer stacks right under
-			// the answer it's about.
-			if (this.drillTarget) {
-				appendCalloutAfter(this.editor, this.drillTarget.endLine, title, body);
+			// the question or quick action, optionally prefixed with [Minor]; body =
+			// the answer, markdown renders). When drilling, the new answer stacks
+			// right under the answer it's about. A streamed callout is finalized in
+			// place.
+			if (toSidecar) {
+				await this.addToSidecar(calloutTitle, body, extras);
+				this.close();
+				new Notice(t("composer.addedToSidecar"), 2000);
+				return;
+			}
+			if (stream) {
+				stream.finish(calloutTitle, body, extras);
+			} else if (this.drillTarget) {
+				appendCalloutAfter(
+					this.editor,
+					this.drillTarget.endLine,
+					calloutTitle,
+					body,
+					extras,
+				);
 			} else {
-				appendCallout(this.editor, this.bounds.endLine, title, body);
+				appendCallout(this.editor, this.bounds.endLine, calloutTitle, body, extras);
 			}
 
 			this.close();
-			new Notice("Added note.", 2000);
+			new Notice(t("composer.added"), 2000);
 		} catch (err) {
+			stream?.abort();
+			if (err instanceof CooCancelledError) return;
 			const message =
-				err instanceof Error ? err.message : "An unexpected error occurred.";
+				err instanceof Error ? err.message : t("error.unexpected");
 			new Notice(message, 5000);
 		} finally {
+			this.finishRequest();
 			this.setLoading(false);
 		}
 	}
 
+	/**
+	 * Keep an answer in the sidecar, anchored to the paragraph by its coo block
+	 * id (added on first use), or to the whole note in whole-doc mode.
+	 */
+	private async addToSidecar(
+		question: string,
+		content: string,
+		extras: CalloutExtras,
+	): Promise<void> {
+		const answer = renderAnswer(content, extras);
+		if (!answer) return;
+		const block = this.wholeDoc
+			? ""
+			: ensureCooBlockId(this.editor, this.bounds.endLine, () =>
+					newBlockId(this.editor.getValue()),
+				);
+		await this.sidecar.add(this.notePath, [
+			{
+				block,
+				question,
+				answer,
+				...(extras.responseId ? { responseId: extras.responseId } : {}),
+			},
+		]);
+	}
+
 	private async handleRewrite(): Promise<void> {
 		// Defensive — the button is hidden in whole-doc mode and drill mode.
 		if (this.wholeDoc || this.drillTarget) return;
 
-		const notes = getCalloutQaPairs(this.editor, this.bounds.endLine);
-		if (notes.length === 0) {
-			new Notice("No notes yet. Ask a question first.");
+		// Only "integrate" folds the notes in (and removes them); other modes
+		// work without notes and leave them in place.
+		const mode = this.rewriteModeEl.value as RewriteMode;
+		const integrate = mode === "integrate";
+		const { prefix, content, blockId } = this.paragraphParts();
+		const sidecarNotes =
+			integrate && blockId
+				? (await this.sidecar.list(this.notePath)).filter((e) => e.block === blockId)
+				: [];
+		const notes = integrate
+			? [
+					...getCalloutQaPairs(this.editor, this.bounds.endLine),
+					...sidecarNotes.map(({ question, answer }) => ({ question, answer })),
+				]
+			: [];
+		if (integrate && notes.length === 0) {
+			new Notice(t("composer.noNotesYet"));
 			return;
 		}
 
-		this.setLoading(true, "rewrite");
+		this.setLoading(true, this.rewriteBtn);
+		const signal = this.startRequest();
 
 		try {
-			const paragraphText = getParagraphText(
-				this.editor,
-				this.bounds.startLine,
-				this.bounds.endLine,
-			);
-			const { prefix, content } = extractMarkdownPrefix(paragraphText);
-
-			const userPrompt = buildRewriteInput(content, notes);
-			const systemPrompt = getRewriteSystemPrompt(
-				this.settings.responseLanguage,
-			);
+			const userPrompt = buildRewriteInput(content, notes, {
+				task: getRewriteTask(mode, {
+					percent: Number(this.shortenPercentEl.value) || undefined,
+					tone: this.toneEl.value,
+				}),
+				instruction: this.instructionEl.value,
+				context:
+					mode === "voice"
+						? getTextAround(
+								this.editor,
+								this.bounds.startLine,
+								this.bounds.endLine,
+								MAX_VOICE_CONTEXT,
+							)
+						: undefined,
+			});
+			const systemPrompt = this.templates.systemPrompt("rewrite", this.settings, {
+				passage: content,
+				noteTitle: noteTitleOf(this.notePath),
+			});
 
 			// Rewrite is one-shot: no chaining, no web search, reasoning off (like Translate).
 			const result = await chatCompletion({
@@ -288,27 +720,136 @@ export class CooComposer extends Modal {
 				store: false,
 				reasoningEffort: "none",
 				webSearchEnabled: false,
+				signal,
+				meter: { ledger: this.ledger, kind: "rewrite", notePath: this.notePath },
+				onRetry: this.showRetry,
 			});
 
 			const calloutBlocks = findCalloutBlocks(
 				this.editor,
 				this.bounds.endLine,
 			);
-			replaceParagraphAndRemoveCallouts(
-				this.editor,
-				this.bounds.startLine,
-				this.bounds.endLine,
-				calloutBlocks,
-				prefix + result.text,
-			);
+			this.reviewRewrite({
+				original: content,
+				rewritten: result.text,
+				canKeepNotes: integrate,
+				onAccept: (text, keepNotes) => {
+					// Folding the notes in removes them — the sidecar's too, and
+					// with them the paragraph's block id.
+					const removeNotes = integrate && !keepNotes;
+					const id = blockId && !removeNotes ? ` ^${blockId}` : "";
+					void this.applyRewrite(
+						t(`rewriteMode.${mode}`),
+						prefix + text + id,
+						removeNotes ? calloutBlocks : [],
+						removeNotes ? sidecarNotes : [],
+					);
+				},
+				onRegenerate: () => void this.handleRewrite(),
+			});
+		} catch (err) {
+			if (err instanceof CooCancelledError) return;
+			const message =
+				err instanceof Error ? err.message : t("error.unexpected");
+			new Notice(message, 5000);
+		} finally {
+			this.finishRequest();
+			this.setLoading(false);
+		}
+	}
 
-			new Notice("Rewritten.");
-			this.close();
+	/**
+	 * Archive what an accepted rewrite replaces in the rewrite history — the
+	 * sidecar notes as callouts, so a restore brings them back into the note —
+	 * then write it over the paragraph (and `calloutBlocks`) and remove
+	 * `sidecarNotes`. Nothing is written unless the archive succeeds.
+	 */
+	private async applyRewrite(
+		label: string,
+		text: string,
+		calloutBlocks: CalloutBlock[] = [],
+		sidecarNotes: SidecarEntry[] = [],
+	): Promise<void> {
+		const { startLine, endLine } = this.bounds;
+		const original = getParagraphText(this.editor, startLine, endLine);
+		const lastBlock = calloutBlocks[calloutBlocks.length - 1];
+		const callouts =
+			(lastBlock
+				? this.editor.getRange(
+						{ line: endLine, ch: this.editor.getLine(endLine).length },
+						{ line: lastBlock.endLine, ch: this.editor.getLine(lastBlock.endLine).length },
+					)
+				: "") +
+			sidecarNotes
+				.map((e) => `\n\n${formatCalloutBlock(e.question, e.answer, { responseId: e.responseId })}`)
+				.join("");
+		try {
+			await this.history.record(this.notePath, { label, original, callouts, rewritten: text });
+		} catch (err) {
+			const error = err instanceof Error ? err.message : t("error.unexpected");
+			new Notice(t("composer.archiveFailed", { error }), 5000);
+			return;
+		}
+		replaceParagraphAndRemoveCallouts(this.editor, startLine, endLine, calloutBlocks, text);
+		try {
+			await this.sidecar.removeMany(this.notePath, sidecarNotes.map((entry) => entry.id));
+		} catch (err) {
+			const error = err instanceof Error ? err.message : t("error.unexpected");
+			new Notice(t("composer.sidecarRemoveFailed", { error }), 5000);
+		}
+		new Notice(t("composer.rewritten"));
+		this.close();
+	}
+
+	/**
+	 * Rewrite the paragraph in place following a "replace" quick action's
+	 * prompt. One-shot like Rewrite, but needs no notes and keeps the callouts.
+	 */
+	private async runTransform(
+		action: QuickAction,
+		busy: HTMLButtonElement | undefined,
+	): Promise<void> {
+		this.setLoading(true, busy);
+		const signal = this.startRequest();
+
+		try {
+			const { prefix, content, blockId } = this.paragraphParts();
+			const instruction = fillQuickActionPrompt(action, this.settings, {
+				passage: content,
+				selection: this.selectedText,
+				noteTitle: noteTitleOf(this.notePath),
+			});
+			const overrides = quickActionOverrides(action);
+
+			const result = await chatCompletion({
+				settings: this.settings,
+				systemPrompt: getTransformSystemPrompt(getResponseLanguage(this.settings).name),
+				userPrompt: buildTransformInput(content, instruction),
+				store: false,
+				// Pinned off like Rewrite unless the action says otherwise.
+				reasoningEffort: overrides.reasoningEffort ?? "none",
+				webSearchEnabled: overrides.webSearchEnabled ?? false,
+				signal,
+				meter: { ledger: this.ledger, kind: "rewrite", notePath: this.notePath },
+				onRetry: this.showRetry,
+			});
+
+			this.reviewRewrite({
+				original: content,
+				rewritten: result.text,
+				// The notes stay either way.
+				canKeepNotes: false,
+				onAccept: (text) =>
+					void this.applyRewrite(action.name, prefix + text + (blockId ? ` ^${blockId}` : "")),
+				onRegenerate: () => void this.runTransform(action, busy),
+			});
 		} catch (err) {
+			if (err instanceof CooCancelledError) return;
 			const message =
-				err instanceof Error ? err.message : "An unexpected error occurred.";
+				err instanceof Error ? err.message : t("error.unexpected");
 			new Notice(message, 5000);
 		} finally {
+			this.finishRequest();
 			this.setLoading(false);
 		}
 	}
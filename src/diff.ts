@@ -0,0 +1,173 @@
+/**
+ * Word-level diff for the rewrite preview.
+ *
+ * Text is split into words, whitespace runs and single punctuation marks (CJK
+ * characters count as words of their own, since those scripts don't space
+ * words), and diffed by longest common subsequence. Changes are grouped into
+ * hunks — runs of deletions and insertions — that can be accepted or rejected
+ * one by one; hunks separated only by whitespace merge into one.
+ */
+
+export type DiffOp = "equal" | "insert" | "delete";
+
+export interface DiffPart {
+	op: DiffOp;
+	text: string;
+}
+
+/** Unchanged text, or one change (a hunk) with its original and rewritten text. */
+export type DiffSegment =
+	| { kind: "equal"; text: string }
+	| { kind: "change"; hunk: number; before: string; after: string };
+
+/** Above this many LCS cells the changed middle is treated as one replacement. */
+const MAX_LCS_CELLS = 4_000_000;
+
+const TOKEN =
+	/\s+|[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]|[\p{L}\p{N}\p{M}_'’-]+|[^\s]/gu;
+
+export function tokenize(text: string): string[] {
+	return text.match(TOKEN) ?? [];
+}
+
+/** Append a part, merging it into the previous one when the op matches. */
+function push(parts: DiffPart[], op: DiffOp, text: string): void {
+	if (!text) return;
+	const last = parts[parts.length - 1];
+	if (last && last.op === op) last.text += text;
+	else parts.push({ op, text });
+}
+
+/** Diff two texts word by word; deletions come before insertions in a change. */
+export function diffWords(before: string, after: string): DiffPart[] {
+	const a = tokenize(before);
+	const b = tokenize(after);
+
+	// Common prefix and suffix are cheap and usually most of a rewrite.
+	let start = 0;
+	while (start < a.length && start < b.length && a[start] === b[start]) start++;
+	let endA = a.length;
+	let endB = b.length;
+	while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+		endA--;
+		endB--;
+	}
+
+	const parts: DiffPart[] = [];
+	push(parts, "equal", a.slice(0, start).join(""));
+	const midA = a.slice(start, endA);
+	const midB = b.slice(start, endB);
+
+	if ((midA.length + 1) * (midB.length + 1) > MAX_LCS_CELLS) {
+		push(parts, "delete", midA.join(""));
+		push(parts, "insert", midB.join(""));
+	} else {
+		diffMiddle(parts, midA, midB);
+	}
+
+	push(parts, "equal", a.slice(endA).join(""));
+	return parts;
+}
+
+/** LCS table walk over the changed middle. */
+function diffMiddle(parts: DiffPart[], a: string[], b: string[]): void {
+	const n = a.length;
+	const m = b.length;
+	const width = m + 1;
+	// lcs[i * width + j]: LCS length of a[i..] and b[j..].
+	const lcs = new Uint32Array((n + 1) * width);
+	for (let i = n - 1; i >= 0; i--) {
+		for (let j = m - 1; j >= 0; j--) {
+			lcs[i * width + j] =
+				a[i] === b[j]
+					? (lcs[(i + 1) * width + j + 1] ?? 0) + 1
+					: Math.max(lcs[(i + 1) * width + j] ?? 0, lcs[i * width + j + 1] ?? 0);
+		}
+	}
+
+	// Walk the table, buffering each change so deletions precede insertions.
+	let deleted = "";
+	let inserted = "";
+	const flush = (): void => {
+		push(parts, "delete", deleted);
+		push(parts, "insert", inserted);
+		deleted = "";
+		inserted = "";
+	};
+	let i = 0;
+	let j = 0;
+	while (i < n || j < m) {
+		if (i < n && j < m && a[i] === b[j]) {
+			flush();
+			push(parts, "equal", a[i] ?? "");
+			i++;
+			j++;
+		} else if (
+			j >= m ||
+			(i < n && (lcs[(i + 1) * width + j] ?? 0) >= (lcs[i * width + j + 1] ?? 0))
+		) {
+			deleted += a[i] ?? "";
+			i++;
+		} else {
+			inserted += b[j] ?? "";
+			j++;
+		}
+	}
+	flush();
+}
+
+/**
+ * Group a diff into equal text and numbered hunks. A whitespace-only equal run
+ * between two changes is folded into one hunk, so a rewritten phrase is one
+ * decision rather than one per word.
+ */
+export function diffSegments(before: string, after: string): DiffSegment[] {
+	const segments: DiffSegment[] = [];
+	let hunk = 0;
+	const parts = diffWords(before, after);
+
+	for (let k = 0; k < parts.length; k++) {
+		const part = parts[k];
+		if (!part) continue;
+		const last = segments[segments.length - 1];
+		if (part.op === "equal") {
+			const next = parts[k + 1];
+			if (last?.kind === "change" && next && next.op !== "equal" && !part.text.trim()) {
+				last.before += part.text;
+				last.after += part.text;
+			} else {
+				segments.push({ kind: "equal", text: part.text });
+			}
+			continue;
+		}
+		if (last?.kind === "change") {
+			if (part.op === "delete") last.before += part.text;
+			else last.after += part.text;
+		} else {
+			segments.push({
+				kind: "change",
+				hunk: hunk++,
+				before: part.op === "delete" ? part.text : "",
+				after: part.op === "insert" ? part.text : "",
+			});
+		}
+	}
+	return segments;
+}
+
+/** The number of hunks in a segment list. */
+export function countHunks(segments: DiffSegment[]): number {
+	return segments.filter((s) => s.kind === "change").length;
+}
+
+/** The text with accepted hunks rewritten and the rest left as the original. */
+export function applySegments(
+	segments: DiffSegment[],
+	accepted: ReadonlySet<number>,
+): string {
+	return segments
+		.map((s) =>
+			s.kind === "equal" ? s.text : accepted.has(s.hunk) ? s.after : s.before,
+		)
+		.join("");
+}
@@ -1,4 +1,10 @@
 import type { Editor, EditorPosition } from "obsidian";
+import { Transaction } from "@codemirror/state";
+import type { EditorView } from "@codemirror/view";
+import type { Citation } from "./ai-client";
+import type { CitationStyle, TranslateMode } from "./types";
+import { renderCitations } from "./citations";
+import { hashText } from "./snapshot";
 
 interface SelectionContext {
 	selectedText: string;
@@ -21,12 +27,35 @@ export interface CalloutBlock {
 	endLine: number;
 }
 
+/** What the callout readers need of an editor; see textLines for plain text. */
+export type LineSource = Pick<Editor, "getLine" | "lineCount">;
+
 /** A callout's question (its title) and answer (its body). */
 export interface CalloutQaPair {
 	question: string;
 	answer: string;
 }
 
+/** What an answer callout carries besides its question and answer. */
+export interface CalloutExtras {
+	/** Recorded as the hidden id line (see CALLOUT_ID_PATTERN). */
+	responseId?: string;
+	/** The drilled answer's ref (see getCalloutRef), as the hidden parent line. */
+	parent?: string;
+	/** Web-search sources; offsets index the content as passed. */
+	citations?: Citation[];
+	/** How citations are rendered; "footnotes" when unset. */
+	citationStyle?: CitationStyle;
+}
+
+/** A note split into its own text and the Q&A held in its coo callouts. */
+export interface NoteHistory {
+	/** The note with every coo callout removed. */
+	document: string;
+	/** Every coo callout's Q&A, in document order. */
+	pairs: CalloutQaPair[];
+}
+
 /**
  * Get the current editor selection with position info.
  * Returns null if nothing is selected.
@@ -207,6 +236,56 @@ export function extractMarkdownPrefix(text: string): MarkdownPrefix {
 	return { prefix: "", content: text };
 }
 
+/**
+ * The hidden last body line of a coo callout that records the response_id of
+ * its answer: "> %%coo-id: resp_…%%". An Obsidian comment, so it never shows
+ * in reading view; it lets a drill-down chain from that answer's own response.
+ */
+const CALLOUT_ID_PATTERN = /^>\s*%%coo-id:\s*(\S+?)\s*%%\s*$/;
+
+/**
+ * The hidden body line of a drill-down answer naming the answer it drilled
+ * into: "> %%coo-parent: resp_…%%" (that answer's ref, see getCalloutRef). The
+ * threads view nests drill-downs by it.
+ */
+const CALLOUT_PARENT_PATTERN = /^>\s*%%coo-parent:\s*(\S+?)\s*%%\s*$/;
+
+function isCalloutIdLine(line: string): boolean {
+	return CALLOUT_ID_PATTERN.test(line) || CALLOUT_PARENT_PATTERN.test(line);
+}
+
+/**
+ * Get the response_id recorded in a coo callout, or null for callouts written
+ * without one (older notes, local conversation mode).
+ */
+export function getCalloutResponseId(
+	editor: LineSource,
+	block: CalloutBlock,
+): string | null {
+	for (let i = block.startLine + 1; i <= block.endLine; i++) {
+		const match = editor.getLine(i).match(CALLOUT_ID_PATTERN);
+		if (match) return match[1] ?? null;
+	}
+	return null;
+}
+
+/**
+ * A stable reference to a coo callout, for drill-downs to name their parent:
+ * its response id, or a hash of its answer when it has none (local mode).
+ */
+export function getCalloutRef(editor: LineSource, block: CalloutBlock): string {
+	return getCalloutResponseId(editor, block) ?? `h-${hashText(getCalloutBody(editor, block))}`;
+}
+
+/** The ref of the answer a drill-down callout drilled into, or null. */
+function getCalloutParent(editor: LineSource, block: CalloutBlock): string | null {
+	for (let i = block.startLine + 1; i <= block.endLine; i++) {
+		const match = editor.getLine(i).match(CALLOUT_PARENT_PATTERN);
+		if (match) return match[1] ?? null;
+	}
+	return null;
+}
+
 /**
  * Strip the "> " (or ">") prefix from a callout body line.
  */
@@ -248,6 +327,31 @@ export function findCalloutBlocks(
 	return blocks;
 }
 
+/** Every coo callout in the note, in order, wherever it stands. */
+export function findAllCalloutBlocks(editor: LineSource): CalloutBlock[] {
+	const blocks: CalloutBlock[] = [];
+	let i = 0;
+	while (i < editor.lineCount()) {
+		if (!isCalloutStart(editor.getLine(i))) {
+			i++;
+			continue;
+		}
+		const startLine = i;
+		i++;
+		while (i < editor.lineCount() && editor.getLine(i).startsWith(">")) {
+			i++;
+		}
+		blocks.push({ startLine, endLine: i - 1 });
+	}
+	return blocks;
+}
+
+/** A note's text as a LineSource, for reading callouts without an editor. */
+export function textLines(text: string): LineSource {
+	const lines = text.split("\n");
+	return { getLine: (line) => lines[line] ?? "", lineCount: () => lines.length };
+}
+
 /**
  * Find the coo callout whose body contains a position, or null if the position
  * is not inside a coo callout body. Used by drill-down: selecting text inside an
@@ -288,13 +392,16 @@ export function findCalloutContaining(
 }
 
 /**
- * Get the answer body of a single coo callout block (the title/question is not
- * included). Used by drill-down to read the answer a selection sits inside.
+ * Get the answer body of a single coo callout block (the title/question and the
+ * hidden response-id line are not included). Used by drill-down to read the
+ * answer a selection sits inside.
  */
-export function getCalloutBody(editor: Editor, block: CalloutBlock): string {
+export function getCalloutBody(editor: LineSource, block: CalloutBlock): string {
 	const lines: string[] = [];
 	for (let i = block.startLine + 1; i <= block.endLine; i++) {
-		lines.push(stripCalloutBody(editor.getLine(i)));
+		const line = editor.getLine(i);
+		if (isCalloutIdLine(line)) continue;
+		lines.push(stripCalloutBody(line));
 	}
 	return lines.join("\n").trim();
 }
@@ -303,7 +410,7 @@ export function getCalloutBody(editor: Editor, block: CalloutBlock): string {
  * Extract the title (the question) from a coo callout's start line, stripping
  * the "> [!coo]- " prefix. Returns "" when there is no title text.
  */
-function getCalloutTitle(editor: Editor, block: CalloutBlock): string {
+export function getCalloutTitle(editor: LineSource, block: CalloutBlock): string {
 	const line = editor.getLine(block.startLine);
 	const match = line.match(/^>\s*\[!coo\][-+]?\s*(.*)$/i);
 	return match ? (match[1] ?? "").trim() : "";
@@ -329,6 +436,81 @@ export function getCalloutQaPairs(
 	return pairs;
 }
 
+/**
+ * Split the whole note into its text and its coo callouts' Q&A, for local
+ * conversation mode: the callouts are the conversation, so they are lifted out
+ * of the document rather than sent twice. A "[Minor]" title prefix is dropped
+ * from the question. Callouts with no body are skipped. Coo block ids are
+ * dropped too, so anchoring a paragraph never reads as an edit.
+ */
+export function getNoteHistory(editor: Editor): NoteHistory {
+	const docLines: string[] = [];
+	const pairs: CalloutQaPair[] = [];
+	let i = 0;
+	while (i < editor.lineCount()) {
+		if (!isCalloutStart(editor.getLine(i))) {
+			docLines.push(editor.getLine(i));
+			i++;
+			continue;
+		}
+		const startLine = i;
+		i++;
+		while (i < editor.lineCount() && editor.getLine(i).startsWith(">")) {
+			i++;
+		}
+		const block = { startLine, endLine: i - 1 };
+		const answer = getCalloutBody(editor, block);
+		if (answer) {
+			const question = getCalloutTitle(editor, block).replace(/^\[Minor\]\s*/i, "");
+			pairs.push({ question, answer });
+		}
+	}
+	const document = stripCooBlockIds(docLines.join("\n"))
+		.replace(/\n{3,}/g, "\n\n")
+		.trim();
+	return { document, pairs };
+}
+
+/** Lines [from, to) of the note without its coo callouts, tidied like getNoteHistory's document. */
+function noteTextBetween(editor: Editor, from: number, to: number): string {
+	const lines: string[] = [];
+	let i = from;
+	while (i < to) {
+		if (isCalloutStart(editor.getLine(i))) {
+			i++;
+			while (i < to && editor.getLine(i).startsWith(">")) i++;
+			continue;
+		}
+		lines.push(editor.getLine(i));
+		i++;
+	}
+	return stripCooBlockIds(lines.join("\n"))
+		.replace(/\n{3,}/g, "\n\n")
+		.trim();
+}
+
+/**
+ * The note around lines [startLine, endLine] — the passage itself left out —
+ * as context for a rewrite, within `maxChars`: the text nearest the passage on
+ * either side, half the budget each, and a short side's unused half going to
+ * the other. Cut ends are marked with "…".
+ */
+export function getTextAround(
+	editor: Editor,
+	startLine: number,
+	endLine: number,
+	maxChars: number,
+): string {
+	const before = noteTextBetween(editor, 0, startLine);
+	const after = noteTextBetween(editor, endLine + 1, editor.lineCount());
+	const half = Math.floor(maxChars / 2);
+	const afterBudget = Math.max(half, maxChars - before.length);
+	const beforeBudget = Math.max(maxChars - afterBudget, maxChars - after.length);
+	const head = before.length > beforeBudget ? `…${before.slice(-beforeBudget)}` : before;
+	const tail = after.length > afterBudget ? `${after.slice(0, afterBudget)}…` : after;
+	return [head, tail].filter(Boolean).join("\n\n");
+}
+
 /**
  * Append a note as a new collapsed coo callout below the paragraph, after any
  * existing note callouts. The question becomes the callout title; the answer
@@ -362,20 +544,51 @@ export function normalizeMathDelimiters(text: string): string {
 	return out;
 }
 
+/**
+ * Render an answer's Markdown as it is stored: citations first (their offsets
+ * index the raw content), then math delimiters normalized so formulas render.
+ * Returns "" when the content is empty. The body of every callout, and the
+ * answer a sidecar entry keeps (see sidecar.ts).
+ */
+export function renderAnswer(content: string, extras: CalloutExtras = {}): string {
+	const { responseId, citations = [], citationStyle = "footnotes" } = extras;
+	const trimmed = content.trim();
+	if (!trimmed) return "";
+	const lead = content.length - content.trimStart().length;
+	const cited = renderCitations(
+		trimmed,
+		citations.map((c) =>
+			c.start === undefined || c.end === undefined
+				? c
+				: { ...c, start: c.start - lead, end: c.end - lead },
+		),
+		citationStyle,
+		responseId || trimmed,
+	);
+	return normalizeMathDelimiters(cited);
+}
+
 /**
  * Format a collapsed coo callout block string from a title (the question) and
- * content (the answer, markdown intact). Returns "" when the content is empty.
- * Math delimiters are normalized first so formulas render in the note. Shared
- * by appendCallout and appendCalloutAfter.
+ * content (the answer, markdown intact, rendered by renderAnswer). Returns ""
+ * when the content is empty. A response id is recorded as the hidden id line
+ * (see CALLOUT_ID_PATTERN). Shared by appendCallout, appendCalloutAfter,
+ * StreamingCallout and attachCallouts.
  */
-function formatCalloutBlock(title: string, content: string): string {
+export function formatCalloutBlock(
+	title: string,
+	content: string,
+	extras: CalloutExtras = {},
+): string {
 	const safeTitle = title.replace(/\n+/g, " ").trim() || "note";
-	const normalized = normalizeMathDelimiters(content.trim());
-	if (!normalized) return "";
+	const rendered = renderAnswer(content, extras);
+	if (!rendered) return "";
 
-	const body = normalized
+	const body = rendered
 		.split("\n")
 		.map((l) => (l.trim() === "" ? ">" : `> ${l}`));
+	if (extras.parent) body.push(`> %%coo-parent: ${extras.parent}%%`);
+	if (extras.responseId) body.push(`> %%coo-id: ${extras.responseId}%%`);
 	return [`> [!coo]- ${safeTitle}`, ...body].join("\n");
 }
 
@@ -394,27 +607,38 @@ function trailingSeparator(editor: Editor, afterLine: number): string {
 	return editor.getLine(afterLine + 1).trim() === "" ? "" : "\n";
 }
 
+/**
+ * The line a new callout for a paragraph is inserted after: the end of the last
+ * existing note callout, or the paragraph's last line when there are none.
+ */
+export function findCalloutInsertLine(
+	editor: Editor,
+	paragraphEndLine: number,
+): number {
+	const existing = findCalloutBlocks(editor, paragraphEndLine);
+	return existing.length > 0
+		? (existing[existing.length - 1]?.endLine ?? paragraphEndLine)
+		: paragraphEndLine;
+}
+
 /**
  * Append a note as a new collapsed coo callout below the paragraph, after any
  * existing note callouts. The question becomes the callout title; the answer
  * (with its markdown intact) becomes the body. A blank line separates the
  * callout block from the paragraph / previous callout so it renders as its own
- * block.
+ * block. `extras` adds the response id and sources (see CalloutExtras).
  */
 export function appendCallout(
 	editor: Editor,
 	paragraphEndLine: number,
 	title: string,
 	content: string,
+	extras: CalloutExtras = {},
 ): void {
-	const blockText = formatCalloutBlock(title, content);
+	const blockText = formatCalloutBlock(title, content, extras);
 	if (!blockText) return;
 
-	const existing = findCalloutBlocks(editor, paragraphEndLine);
-	const insertAfterLine =
-		existing.length > 0
-			? (existing[existing.length - 1]?.endLine ?? paragraphEndLine)
-			: paragraphEndLine;
+	const insertAfterLine = findCalloutInsertLine(editor, paragraphEndLine);
 	const lineText = editor.getLine(insertAfterLine);
 	const insertPos = { line: insertAfterLine, ch: lineText.length };
 	// Follow with a blank line when the next line isn't already blank, so a tight
@@ -427,15 +651,16 @@ export function appendCallout(
  * Append a note as a new collapsed coo callout immediately AFTER a specific
  * line. Used by drill-down: the new answer stacks right under the answer it is
  * about (mid-stack or last), with a blank line separating it from the line
- * above.
+ * above. `extras` adds the response id and sources (see CalloutExtras).
  */
 export function appendCalloutAfter(
 	editor: Editor,
 	afterLine: number,
 	title: string,
 	content: string,
+	extras: CalloutExtras = {},
 ): void {
-	const blockText = formatCalloutBlock(title, content);
+	const blockText = formatCalloutBlock(title, content, extras);
 	if (!blockText) return;
 
 	const lineText = editor.getLine(afterLine);
@@ -443,6 +668,385 @@ export function appendCalloutAfter(
 	editor.replaceRange(`\n\n${blockText}${trailingSeparator(editor, afterLine)}`, insertPos);
 }
 
+/** The Obsidian editor's underlying CodeMirror view (not in the public typings). */
+interface EditorWithView {
+	cm?: EditorView;
+}
+
+/**
+ * The CodeMirror view behind an Obsidian editor, or undefined when there is
+ * none (e.g. the unit-test mock). `Editor.cm` is not in the public typings;
+ * this is the one place that reaches for it.
+ */
+export function getEditorView(editor: Editor): EditorView | undefined {
+	return (editor as unknown as EditorWithView).cm;
+}
+
+/**
+ * replaceRange that stays out of the undo history, so intermediate streaming
+ * states never become undo steps. Falls back to a plain replaceRange when no
+ * CodeMirror view is reachable (e.g. the unit-test mock).
+ */
+function replaceRangeOutsideHistory(
+	editor: Editor,
+	text: string,
+	from: EditorPosition,
+	to: EditorPosition,
+): void {
+	const view = getEditorView(editor);
+	if (!view) {
+		editor.replaceRange(text, from, to);
+		return;
+	}
+	view.dispatch({
+		changes: {
+			from: editor.posToOffset(from),
+			to: editor.posToOffset(to),
+			insert: text,
+		},
+		annotations: Transaction.addToHistory.of(false),
+	});
+}
+
+/** The position just past `text` when it is inserted at `from`. */
+function endOfInsertion(from: EditorPosition, text: string): EditorPosition {
+	const lines = text.split("\n");
+	const last = lines[lines.length - 1] ?? "";
+	return lines.length === 1
+		? { line: from.line, ch: from.ch + last.length }
+		: { line: from.line + lines.length - 1, ch: last.length };
+}
+
+/**
+ * A coo callout that is written into the note while its answer streams in.
+ *
+ * The callout (expanded, so the text is visible as it arrives) is inserted
+ * immediately after `afterLine` and its body re-rendered on every append. All
+ * of that stays out of the undo history; `finish` then swaps the streamed block
+ * for the final collapsed callout (math normalized, as formatCalloutBlock does)
+ * in a single undoable edit, so one Ctrl+Z removes the whole answer.
+ */
+export class StreamingCallout {
+	private editor: Editor;
+	private from: EditorPosition;
+	private title: string;
+	private separator: string;
+	private text = "";
+	private written = "";
+
+	constructor(editor: Editor, afterLine: number, title: string) {
+		this.editor = editor;
+		this.from = { line: afterLine, ch: editor.getLine(afterLine).length };
+		this.title = title.replace(/\n+/g, " ").trim() || "note";
+		this.separator = trailingSeparator(editor, afterLine);
+		this.render();
+	}
+
+	/** Append a streamed text fragment to the callout body. */
+	append(delta: string): void {
+		this.text += delta;
+		this.render();
+	}
+
+	/**
+	 * Replace the streamed callout with the final one. An empty answer just
+	 * removes the streamed callout.
+	 */
+	finish(title: string, content: string, extras: CalloutExtras = {}): void {
+		const blockText = formatCalloutBlock(title, content, extras);
+		this.replaceWritten("");
+		if (!blockText) return;
+		this.editor.replaceRange(`\n\n${blockText}${this.separator}`, this.from);
+	}
+
+	/** Remove the streamed callout, leaving the note as it was. */
+	abort(): void {
+		this.replaceWritten("");
+	}
+
+	private render(): void {
+		const trimmed = this.text.trim();
+		const body = trimmed
+			? trimmed.split("\n").map((l) => (l.trim() === "" ? ">" : `> ${l}`))
+			: [];
+		const block = [`> [!coo]+ ${this.title}`, ...body].join("\n");
+		this.replaceWritten(`\n\n${block}${this.separator}`);
+	}
+
+	private replaceWritten(text: string): void {
+		const to = endOfInsertion(this.from, this.written);
+		replaceRangeOutsideHistory(this.editor, text, this.from, to);
+		this.written = text;
+	}
+}
+
+/** One coo callout in the threads view, with the drill-downs into it. */
+export interface CalloutThread {
+	block: CalloutBlock;
+	/** Its ref (see getCalloutRef). */
+	ref: string;
+	/** The title, without its "[Minor]" flag. */
+	question: string;
+	answer: string;
+	minor: boolean;
+	/** Drill-down answers into this one, in note order. */
+	children: CalloutThread[];
+}
+
+/** A paragraph and the coo callouts under it. */
+export interface ParagraphThreads {
+	paragraph: ParagraphBounds;
+	threads: CalloutThread[];
+}
+
+/**
+ * Every coo callout in the note, grouped by the paragraph above it (the last
+ * non-blank line before the callouts, and the paragraph around that line),
+ * with drill-downs nested under the answer they drilled into. Callouts before
+ * any text are left out; a drill-down whose parent is gone is top-level.
+ */
+export function getNoteThreads(editor: Editor): ParagraphThreads[] {
+	const groups: ParagraphThreads[] = [];
+	let refs = new Map<string, CalloutThread>();
+	let anchor = -1;
+	let groupAnchor = -1;
+	let i = 0;
+	while (i < editor.lineCount()) {
+		const line = editor.getLine(i);
+		if (!isCalloutStart(line)) {
+			if (!isEmptyLine(line)) anchor = i;
+			i++;
+			continue;
+		}
+		const startLine = i;
+		i++;
+		while (i < editor.lineCount() && editor.getLine(i).startsWith(">")) {
+			i++;
+		}
+		if (anchor < 0) continue;
+		const block = { startLine, endLine: i - 1 };
+
+		let current = groups[groups.length - 1];
+		if (!current || groupAnchor !== anchor) {
+			current = {
+				paragraph: findParagraphBounds(editor, anchor) ?? {
+					startLine: anchor,
+					endLine: anchor,
+				},
+				threads: [],
+			};
+			refs = new Map();
+			groupAnchor = anchor;
+			groups.push(current);
+		}
+		const title = getCalloutTitle(editor, block);
+		const ref = getCalloutRef(editor, block);
+		const thread: CalloutThread = {
+			block,
+			ref,
+			question: title.replace(/^\[Minor\]\s*/i, ""),
+			answer: getCalloutBody(editor, block),
+			minor: /^\[Minor\]/i.test(title),
+			children: [],
+		};
+		const parent = refs.get(getCalloutParent(editor, block) ?? "");
+		if (parent) parent.children.push(thread);
+		else current.threads.push(thread);
+		refs.set(ref, thread);
+	}
+	return groups;
+}
+
+/**
+ * Remove one coo callout from the note, with the blank lines separating it
+ * from the text above. One editor op.
+ */
+export function removeCallout(editor: Editor, block: CalloutBlock): void {
+	let above = block.startLine - 1;
+	while (above >= 0 && isEmptyLine(editor.getLine(above))) above--;
+	const endText = editor.getLine(block.endLine);
+	if (above >= 0) {
+		editor.replaceRange(
+			"",
+			{ line: above, ch: editor.getLine(above).length },
+			{ line: block.endLine, ch: endText.length },
+		);
+		return;
+	}
+	// At the top of the note: take the blank lines below it instead.
+	let below = block.endLine + 1;
+	while (below < editor.lineCount() && isEmptyLine(editor.getLine(below))) below++;
+	editor.replaceRange(
+		"",
+		{ line: 0, ch: 0 },
+		below < editor.lineCount()
+			? { line: below, ch: 0 }
+			: { line: block.endLine, ch: endText.length },
+	);
+}
+
+/**
+ * A coo block id closing a paragraph's last line: " ^coo-3f9a1c". Sidecar
+ * entries (see sidecar.ts) are anchored to paragraphs by these ids.
+ */
+const COO_BLOCK_ID_PATTERN = /[ \t]+\^(coo-[a-z0-9]+)[ \t]*$/;
+
+/** The coo block id at the end of a line, or null. */
+export function getCooBlockId(line: string): string | null {
+	return line.match(COO_BLOCK_ID_PATTERN)?.[1] ?? null;
+}
+
+/** Split a trailing coo block id off a paragraph's text. */
+export function splitCooBlockId(text: string): { text: string; blockId: string | null } {
+	const match = text.match(COO_BLOCK_ID_PATTERN);
+	if (!match) return { text, blockId: null };
+	return { text: text.slice(0, match.index), blockId: match[1] ?? null };
+}
+
+/** Remove the coo block ids from every line of a text (ids are not content). */
+export function stripCooBlockIds(text: string): string {
+	return text
+		.split("\n")
+		.map((line) => splitCooBlockId(line).text)
+		.join("\n");
+}
+
+/**
+ * The coo block id of the paragraph ending at `endLine`, appending a new one
+ * from `newId` when it has none. One editor op.
+ */
+export function ensureCooBlockId(
+	editor: Editor,
+	endLine: number,
+	newId: () => string,
+): string {
+	const line = editor.getLine(endLine);
+	const existing = getCooBlockId(line);
+	if (existing) return existing;
+	const id = newId();
+	const trimmed = line.trimEnd();
+	editor.replaceRange(
+		` ^${id}`,
+		{ line: endLine, ch: trimmed.length },
+		{ line: endLine, ch: line.length },
+	);
+	return id;
+}
+
+/** One Q&A lifted out of (or put back into) a note as a callout. */
+export interface DetachedCallout {
+	/** The coo block id of the paragraph it annotates; "" for none. */
+	block: string;
+	/** The callout title, "[Minor]" flag included. */
+	question: string;
+	/** The callout body as rendered Markdown. */
+	answer: string;
+	responseId?: string;
+}
+
+/**
+ * The note with every coo callout lifted out, and the callouts as Q&A. Each
+ * callout belongs to the paragraph above it (the last non-blank line before
+ * it), which gets a coo block id from `newId` if it has none; a callout with
+ * no paragraph above it has block "". The blank lines separating the removed
+ * callouts from the paragraph go with them. Empty callouts are dropped.
+ */
+export function detachCallouts(
+	editor: Editor,
+	newId: () => string,
+): { text: string; callouts: DetachedCallout[] } {
+	const out: string[] = [];
+	const callouts: DetachedCallout[] = [];
+	// Index in `out` of the last non-blank line: the paragraph a callout annotates.
+	let anchor = -1;
+	let i = 0;
+	while (i < editor.lineCount()) {
+		const line = editor.getLine(i);
+		if (!isCalloutStart(line)) {
+			if (!isEmptyLine(line)) anchor = out.length;
+			out.push(line);
+			i++;
+			continue;
+		}
+		const startLine = i;
+		i++;
+		while (i < editor.lineCount() && editor.getLine(i).startsWith(">")) {
+			i++;
+		}
+		const block = { startLine, endLine: i - 1 };
+
+		let blockId = "";
+		const anchorLine = out[anchor];
+		if (anchorLine !== undefined) {
+			blockId = getCooBlockId(anchorLine) ?? "";
+			if (!blockId) {
+				blockId = newId();
+				out[anchor] = `${anchorLine.trimEnd()} ^${blockId}`;
+			}
+		}
+		const answer = getCalloutBody(editor, block);
+		if (answer) {
+			const responseId = getCalloutResponseId(editor, block);
+			callouts.push({
+				block: blockId,
+				question: getCalloutTitle(editor, block),
+				answer,
+				...(responseId ? { responseId } : {}),
+			});
+		}
+		while (out.length - 1 > anchor && isEmptyLine(out[out.length - 1] ?? "")) {
+			out.pop();
+		}
+	}
+	return { text: out.join("\n"), callouts };
+}
+
+/**
+ * The note with `callouts` written back in as coo callouts: each after its
+ * paragraph's existing callouts, with the paragraph's coo block id removed.
+ * Callouts whose paragraph is gone (or that have none) go at the end.
+ */
+export function attachCallouts(editor: Editor, callouts: DetachedCallout[]): string {
+	const byBlock = new Map<string, DetachedCallout[]>();
+	for (const callout of callouts) {
+		byBlock.set(callout.block, [...(byBlock.get(callout.block) ?? []), callout]);
+	}
+	const format = (list: DetachedCallout[]): string[] =>
+		list
+			.map((c) => formatCalloutBlock(c.question, c.answer, { responseId: c.responseId }))
+			.filter((text) => text !== "");
+
+	const out: string[] = [];
+	let i = 0;
+	while (i < editor.lineCount()) {
+		const line = editor.getLine(i);
+		const id = getCooBlockId(line);
+		const list = id ? byBlock.get(id) : undefined;
+		if (!id || !list) {
+			out.push(line);
+			i++;
+			continue;
+		}
+		byBlock.delete(id);
+		out.push(splitCooBlockId(line).text);
+		const insertAfter = findCalloutInsertLine(editor, i);
+		for (let j = i + 1; j <= insertAfter; j++) out.push(editor.getLine(j));
+		for (const block of format(list)) out.push("", block);
+		i = insertAfter + 1;
+		if (i < editor.lineCount() && !isEmptyLine(editor.getLine(i))) out.push("");
+	}
+
+	const rest = format([...byBlock.values()].flat());
+	if (rest.length > 0) {
+		while (out.length > 0 && isEmptyLine(out[out.length - 1] ?? "")) out.pop();
+		for (const block of rest) {
+			if (out.length > 0) out.push("");
+			out.push(block);
+		}
+	}
+	return out.join("\n");
+}
+
 /**
  * Replace the paragraph (and any note callouts below it) with new text.
  * Used by Rewrite: the rewritten paragraph replaces the original + all its
@@ -481,6 +1085,190 @@ export function insertTranslationAfter(
 	editor.replaceRange(` (${safe})`, pos);
 }
 
+/** A ruby base and its annotation (a reading or translation; "" for none). */
+export interface RubySegment {
+	base: string;
+	annotation: string;
+}
+
+/**
+ * Lay the model's "segment|annotation" lines over `passage`. Whitespace the
+ * model left out between segments is put back from the passage. When the
+ * segments don't spell out the passage, the whole passage is annotated with
+ * the output on one line instead.
+ */
+export function parseRubySegments(output: string, passage: string): RubySegment[] {
+	const lines = output
+		.split("\n")
+		.map((line) => line.trim())
+		.filter((line) => line !== "");
+	const parsed = lines.map((line) => {
+		const bar = line.lastIndexOf("|");
+		return bar === -1
+			? { base: line, annotation: "" }
+			: { base: line.slice(0, bar).trim(), annotation: line.slice(bar + 1).trim() };
+	});
+
+	const segments: RubySegment[] = [];
+	let pos = 0;
+	for (const { base, annotation } of parsed) {
+		const at = base ? passage.indexOf(base, pos) : -1;
+		if (at === -1 || passage.slice(pos, at).trim() !== "") {
+			pos = -1;
+			break;
+		}
+		if (at > pos) segments.push({ base: passage.slice(pos, at), annotation: "" });
+		segments.push({ base, annotation });
+		pos = at + base.length;
+	}
+	if (pos === -1 || segments.length === 0 || passage.slice(pos).trim() !== "") {
+		const annotation = parsed.map((p) => p.annotation || p.base).join(" ");
+		return [{ base: passage, annotation }];
+	}
+	if (pos < passage.length) segments.push({ base: passage.slice(pos), annotation: "" });
+	return segments;
+}
+
+/** Escape text for an HTML element written into the note. */
+function escapeText(text: string): string {
+	return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/** Escape text for an HTML attribute written into the note. */
+function escapeHtml(text: string): string {
+	return escapeText(text).replace(/"/g, "&quot;");
+}
+
+function unescapeHtml(text: string): string {
+	return text
+		.replace(/&quot;/g, '"')
+		.replace(/&gt;/g, ">")
+		.replace(/&lt;/g, "<")
+		.replace(/&amp;/g, "&");
+}
+
+/** Ruby markup for segments; a segment without an annotation stays plain text. */
+export function formatRuby(segments: RubySegment[]): string {
+	return segments
+		.map(({ base, annotation }) =>
+			annotation
+				? `<ruby>${escapeText(base)}<rt>${escapeText(annotation)}</rt></ruby>`
+				: base,
+		)
+		.join("");
+}
+
+/**
+ * Text with its translation kept in a tooltip (see findTooltips). The text
+ * must be on one line: findTooltips doesn't look across lines.
+ */
+export function formatTooltip(text: string, translation: string): string {
+	return `<span class="coo-tooltip" title="${escapeHtml(translation)}">${escapeText(text)}</span>`;
+}
+
+/** A translation tooltip in the note: the whole span, its text, and the translation. */
+export interface TooltipMatch {
+	from: number;
+	to: number;
+	textFrom: number;
+	textTo: number;
+	translation: string;
+}
+
+/** Find the translation tooltips written by formatTooltip, as offsets into `text`. */
+export function findTooltips(text: string): TooltipMatch[] {
+	const matches: TooltipMatch[] = [];
+	for (const match of text.matchAll(/<span class="coo-tooltip" title="([^"]*)">(.*?)<\/span>/g)) {
+		const from = match.index;
+		const to = from + match[0].length;
+		matches.push({
+			from,
+			to,
+			textFrom: to - "</span>".length - (match[2] ?? "").length,
+			textTo: to - "</span>".length,
+			translation: unescapeHtml(match[1] ?? ""),
+		});
+	}
+	return matches;
+}
+
+/** The next unused translation footnote label in a note: "tr-1", "tr-2", ... */
+export function nextFootnoteLabel(document: string): string {
+	let max = 0;
+	for (const match of document.matchAll(/\[\^tr-(\d+)\]/g)) {
+		max = Math.max(max, Number(match[1]));
+	}
+	return `tr-${max + 1}`;
+}
+
+/**
+ * Write a translation of the selection `from`–`to` (which held `original`) as
+ * `mode` says. The selection is checked to still hold `original` first; when
+ * it doesn't, nothing changes and this returns false. Surrounding whitespace
+ * in the selection is kept. One editor op — Ctrl+Z reverts it.
+ */
+export function insertTranslation(
+	editor: Editor,
+	from: EditorPosition,
+	to: EditorPosition,
+	original: string,
+	translation: string,
+	mode: TranslateMode,
+): boolean {
+	if (editor.getRange(from, to) !== original) return false;
+	const safe = translation.replace(/\n+/g, " ").trim();
+	const core = original.trim();
+	switch (mode) {
+		case "inline":
+			insertTranslationAfter(editor, to, translation);
+			return true;
+		case "footnote": {
+			// One edit from the selection to the end of the note: the marker,
+			// the text after it, then the footnote definition at the end.
+			const label = nextFootnoteLabel(editor.getValue());
+			const last = editor.lineCount() - 1;
+			const end = { line: last, ch: editor.getLine(last).length };
+			const rest = editor.getRange(to, end);
+			const trailing = rest.endsWith("\n") ? "\n" : "";
+			editor.replaceRange(
+				`[^${label}]${rest.replace(/\n+$/, "")}\n\n[^${label}]: ${safe}${trailing}`,
+				to,
+				end,
+			);
+			return true;
+		}
+		case "below": {
+			// A line of its own below the paragraph, naming the original unless
+			// the whole paragraph was selected.
+			const bounds = findParagraphBounds(editor, to.line);
+			const endLine = bounds?.endLine ?? to.line;
+			const paragraph = bounds
+				? extractMarkdownPrefix(getParagraphText(editor, bounds.startLine, bounds.endLine)).content.trim()
+				: "";
+			const line = paragraph === core ? safe : `${core} — ${safe}`;
+			editor.replaceRange(`\n${line}`, {
+				line: endLine,
+				ch: editor.getLine(endLine).length,
+			});
+			return true;
+		}
+		case "replace":
+		case "ruby":
+		case "tooltip": {
+			const lead = original.slice(0, original.length - original.trimStart().length);
+			const trail = original.slice(original.trimEnd().length);
+			const text =
+				mode === "replace"
+					? safe
+					: mode === "ruby"
+						? formatRuby(parseRubySegments(translation, core))
+						: formatTooltip(core, safe);
+			editor.replaceRange(lead + text + trail, from, to);
+			return true;
+		}
+	}
+}
+
 /**
  * Wrap an editor range with Obsidian ==highlight== markers, so the selected word
  * stays visually highlighted in the note while the discuss modal is open. The
@@ -0,0 +1,109 @@
+import { App, Modal, Setting } from "obsidian";
+import { FLASHCARD_FORMATS, type FlashcardFormat } from "./flashcards";
+import { t } from "./i18n";
+
+export type FlashcardScope = "note" | "folder" | "vault";
+
+export interface FlashcardExportOptions {
+	scope: FlashcardScope;
+	/** The folder to export, for the "folder" scope. */
+	folder: string;
+	includeMinor: boolean;
+	format: FlashcardFormat;
+	/** Where to write, without the extension (the format's is added). */
+	path: string;
+}
+
+/**
+ * The options of "coo: Export flashcards": which notes, whether to include
+ * [Minor] answers, the format, and the file to write. `onExport` does the
+ * export.
+ */
+export class FlashcardExportModal extends Modal {
+	private options: FlashcardExportOptions;
+	/** The active note, or null when none is open (no "This note" scope). */
+	private notePath: string | null;
+	private onExport: (options: FlashcardExportOptions) => void;
+
+	constructor(
+		app: App,
+		notePath: string | null,
+		onExport: (options: FlashcardExportOptions) => void,
+	) {
+		super(app);
+		this.notePath = notePath;
+		this.onExport = onExport;
+		const folder = notePath?.includes("/") ? notePath.slice(0, notePath.lastIndexOf("/")) : "";
+		this.options = {
+			scope: notePath ? "note" : "vault",
+			folder,
+			includeMinor: false,
+			format: "csv",
+			path: "coo/flashcards",
+		};
+	}
+
+	onOpen(): void {
+		this.setTitle(t("flashcards.title"));
+		const { contentEl } = this;
+
+		let folderSetting: Setting | null = null;
+		new Setting(contentEl).setName(t("flashcards.scope")).addDropdown((dropdown) => {
+			if (this.notePath) dropdown.addOption("note", t("flashcards.scopeNote"));
+			dropdown
+				.addOption("folder", t("flashcards.scopeFolder"))
+				.addOption("vault", t("flashcards.scopeVault"))
+				.setValue(this.options.scope)
+				.onChange((value) => {
+					this.options.scope = value as FlashcardScope;
+					folderSetting?.settingEl.toggle(value === "folder");
+				});
+		});
+		folderSetting = new Setting(contentEl)
+			.setName(t("flashcards.folder"))
+			.setDesc(t("flashcards.folderDesc"))
+			.addText((text) =>
+				text.setValue(this.options.folder).onChange((value) => {
+					this.options.folder = value.trim();
+				}),
+			);
+		folderSetting.settingEl.toggle(this.options.scope === "folder");
+
+		new Setting(contentEl)
+			.setName(t("flashcards.includeMinor"))
+			.setDesc(t("flashcards.includeMinorDesc"))
+			.addToggle((toggle) =>
+				toggle.setValue(this.options.includeMinor).onChange((value) => {
+					this.options.includeMinor = value;
+				}),
+			);
+		new Setting(contentEl).setName(t("flashcards.format")).addDropdown((dropdown) => {
+			for (const { format, label } of FLASHCARD_FORMATS) dropdown.addOption(format, t(label));
+			dropdown.setValue(this.options.format).onChange((value) => {
+				this.options.format = value as FlashcardFormat;
+			});
+		});
+		new Setting(contentEl)
+			.setName(t("flashcards.exportTo"))
+			.setDesc(t("flashcards.exportToDesc"))
+			.addText((text) =>
+				text.setValue(this.options.path).onChange((value) => {
+					this.options.path = value.trim();
+				}),
+			);
+
+		new Setting(contentEl).addButton((button) =>
+			button
+				.setButtonText(t("flashcards.export"))
+				.setCta()
+				.onClick(() => {
+					this.close();
+					this.onExport({ ...this.options });
+				}),
+		);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
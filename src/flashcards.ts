@@ -0,0 +1,168 @@
+import type { MessageKey } from "./i18n";
+import { parseCooCallouts } from "./qa-index";
+
+/**
+ * Flashcard export: each coo answer is already a card — its question on the
+ * front, its answer on the back. Cards are collected from notes' callouts
+ * (and sidecar answers) and formatted for Anki's text import (CSV or TSV), for
+ * the Spaced Repetition plugin, or as a review note to read through.
+ */
+
+export type FlashcardFormat = "csv" | "tsv" | "spaced-repetition" | "review-note";
+
+export interface Flashcard {
+	question: string;
+	answer: string;
+	minor: boolean;
+	/** The note the answer is in. */
+	notePath: string;
+}
+
+/** A note's text and sidecar questions and answers, to collect cards from. */
+export interface FlashcardSource {
+	notePath: string;
+	document: string;
+	/** Sidecar answers; their questions may carry the "[Minor]" flag. */
+	sidecar?: Array<{ question: string; answer: string }>;
+}
+
+/** Each format's menu label and file extension. */
+export const FLASHCARD_FORMATS: ReadonlyArray<{
+	format: FlashcardFormat;
+	label: MessageKey;
+	extension: string;
+}> = [
+	{ format: "csv", label: "flashcards.formatCsv", extension: "csv" },
+	{ format: "tsv", label: "flashcards.formatTsv", extension: "tsv" },
+	{ format: "spaced-repetition", label: "flashcards.formatSpacedRepetition", extension: "md" },
+	{ format: "review-note", label: "flashcards.formatReviewNote", extension: "md" },
+];
+
+/**
+ * Where an export to `path` is written: with the format's extension, and
+ * numbered ("flashcards 2.csv") when `exists` says that one is taken.
+ */
+export function flashcardExportPath(
+	path: string,
+	format: FlashcardFormat,
+	exists: (path: string) => boolean = () => false,
+): string {
+	const extension = FLASHCARD_FORMATS.find((f) => f.format === format)?.extension ?? "md";
+	const base = path.replace(/\.(csv|tsv|md)$/i, "");
+	let candidate = `${base}.${extension}`;
+	for (let n = 2; exists(candidate); n++) candidate = `${base} ${n}.${extension}`;
+	return candidate;
+}
+
+/** Every card in `sources`, in order; without minor ones unless `includeMinor`. */
+export function collectFlashcards(
+	sources: FlashcardSource[],
+	includeMinor: boolean,
+): Flashcard[] {
+	const cards: Flashcard[] = [];
+	for (const { notePath, document, sidecar = [] } of sources) {
+		const pairs = [
+			...parseCooCallouts(document),
+			...sidecar.map((e) => ({
+				question: e.question.replace(/^\[Minor\]\s*/i, ""),
+				answer: e.answer.trim(),
+				minor: /^\[Minor\]/i.test(e.question),
+			})),
+		];
+		for (const { question, answer, minor } of pairs) {
+			if (!question.trim() || !answer) continue;
+			if (minor && !includeMinor) continue;
+			cards.push({ question: question.trim(), answer, minor, notePath });
+		}
+	}
+	return cards;
+}
+
+/** The export file's text. */
+export function formatFlashcards(cards: Flashcard[], format: FlashcardFormat): string {
+	switch (format) {
+		case "csv":
+			return formatAnki(cards, ",", quoteCsv);
+		case "tsv":
+			return formatAnki(cards, "\t", (field) => field.replace(/\t/g, " "));
+		case "spaced-repetition":
+			return formatSpacedRepetition(cards);
+		case "review-note":
+			return formatReviewNote(cards);
+	}
+}
+
+/**
+ * Anki's text import: front, back and a tag naming the source note, one card
+ * per row. Header lines set the separator, allow HTML (line breaks become
+ * <br>, so "&", "<" and ">" in the text are escaped) and mark the tags column,
+ * so the import needs no options.
+ */
+function formatAnki(
+	cards: Flashcard[],
+	separator: string,
+	escape: (field: string) => string,
+): string {
+	const header = [
+		`#separator:${separator === "," ? "Comma" : "Tab"}`,
+		"#html:true",
+		"#tags column:3",
+	];
+	const rows = cards.map((card) =>
+		[htmlField(card.question), htmlField(card.answer), noteTag(card.notePath)]
+			.map(escape)
+			.join(separator),
+	);
+	return `${[...header, ...rows].join("\n")}\n`;
+}
+
+/** Text as an HTML field: "&", "<" and ">" escaped, line breaks as <br>. */
+function htmlField(text: string): string {
+	return text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/\r?\n/g, "<br>");
+}
+
+function quoteCsv(field: string): string {
+	return /[",\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+/** An Anki tag for a note: its path without ".md", spaces as underscores. */
+function noteTag(notePath: string): string {
+	return notePath.replace(/\.md$/, "").replace(/\s+/g, "_");
+}
+
+/**
+ * The Spaced Repetition plugin's syntax under a #flashcards deck tag:
+ * "question::answer" for one-line answers, and question, "?", answer for
+ * longer ones. Cards are separated by blank lines, so blank lines inside an
+ * answer are dropped.
+ */
+function formatSpacedRepetition(cards: Flashcard[]): string {
+	const blocks = cards.map((card) => {
+		const question = card.question.replace(/\s*\n\s*/g, " ");
+		const answer = card.answer.replace(/\n\s*\n/g, "\n");
+		return answer.includes("\n") ? `${question}\n?\n${answer}` : `${question}::${answer}`;
+	});
+	return `#flashcards\n\n${blocks.join("\n\n")}\n`;
+}
+
+/** A note with the cards under a link to each source note, answers folded. */
+function formatReviewNote(cards: Flashcard[]): string {
+	const sections: string[] = [];
+	let current: string | null = null;
+	for (const card of cards) {
+		if (card.notePath !== current) {
+			current = card.notePath;
+			sections.push(`## [[${card.notePath.replace(/\.md$/, "")}]]`);
+		}
+		const body = card.answer
+			.split("\n")
+			.map((line) => (line ? `> ${line}` : ">"))
+			.join("\n");
+		sections.push(`> [!question]- ${card.question}\n${body}`);
+	}
+	return `${sections.join("\n\n")}\n`;
+}
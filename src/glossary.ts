@@ -0,0 +1,74 @@
+import type { GlossaryEntry, LanguageTag } from "./types";
+import { normalizeTag } from "./languages";
+
+/**
+ * The translation glossary: preferred translations of domain terms, kept in
+ * settings and, optionally, in a vault note. Translate and Translate note pass
+ * the terms found in a passage to the model with its system prompt (see
+ * withGlossary in prompts.ts), so a term is rendered the same way every time.
+ */
+
+const LIST_MARKER = /^\s*(?:[-*+]|\d+[.)])\s+/;
+const ENTRY_LINE = /^(?:([a-z]{2,3}(?:-[a-z0-9]{2,8})*)\s*:\s*)?(.+?)\s*=\s*(.+)$/i;
+
+/**
+ * Parse glossary text — the settings text area or the glossary note: one
+ * `term = translation` per line, for every target language, or prefixed with a
+ * language tag (`ja: entanglement = 量子もつれ`) for that language only. List
+ * markers are allowed; headings, blank lines and lines without "=" are ignored.
+ */
+export function parseGlossary(text: string): GlossaryEntry[] {
+	const entries: GlossaryEntry[] = [];
+	for (const raw of text.split("\n")) {
+		const line = raw.replace(LIST_MARKER, "").trim();
+		if (!line || line.startsWith("#")) continue;
+		const match = ENTRY_LINE.exec(line);
+		if (!match) continue;
+		const source = (match[2] ?? "").trim();
+		const translation = (match[3] ?? "").trim();
+		if (!source || !translation) continue;
+		entries.push({
+			language: match[1] ? normalizeTag(match[1]) : "",
+			source,
+			translation,
+		});
+	}
+	return entries;
+}
+
+/** The inverse of parseGlossary, for the settings text area. */
+export function formatGlossary(entries: readonly GlossaryEntry[]): string {
+	return entries
+		.map((e) => `${e.language ? `${e.language}: ` : ""}${e.source} = ${e.translation}`)
+		.join("\n");
+}
+
+/**
+ * The entries for translating `passage` into `language`: those whose term
+ * occurs in it (ignoring case), one per term. An entry for the language beats
+ * one for every language; otherwise a later entry beats an earlier one, so
+ * the glossary note overrides settings.
+ */
+export function findGlossaryTerms(
+	entries: readonly GlossaryEntry[],
+	language: LanguageTag,
+	passage: string,
+): GlossaryEntry[] {
+	const target = normalizeTag(language);
+	const text = passage.toLowerCase();
+	const byTerm = new Map<string, GlossaryEntry>();
+	for (const entry of entries) {
+		if (entry.language && entry.language !== target) continue;
+		const term = entry.source.toLowerCase();
+		if (!text.includes(term)) continue;
+		const current = byTerm.get(term);
+		if (current?.language && !entry.language) continue;
+		byTerm.set(term, entry);
+	}
+	return [...byTerm.values()];
+}
+
+/** Glossary entries as prompt lines ("- term → translation"); "" for none. */
+export function glossaryLines(entries: readonly GlossaryEntry[]): string {
+	return entries.map((e) => `- ${e.source} → ${e.translation}`).join("\n");
+}
@@ -0,0 +1,61 @@
+import type { LanguageTag } from "./types";
+import { en } from "./locales/en";
+import { es } from "./locales/es";
+import { fr } from "./locales/fr";
+import { de } from "./locales/de";
+import { ja } from "./locales/ja";
+import { ko } from "./locales/ko";
+import { zh } from "./locales/zh";
+import { zhTW } from "./locales/zh-TW";
+
+/** Every UI message, named by its key in the English catalog. */
+export type MessageKey = keyof typeof en;
+
+/**
+ * A translated catalog. Keys may be missing — they fall back to English —
+ * but the catalog test flags any that are.
+ */
+export type Messages = { readonly [K in MessageKey]?: string };
+
+/** Catalogs by BCP-47 tag. Tags without one fall back by primary subtag, then to English. */
+export const CATALOGS: Readonly<Record<LanguageTag, Messages>> = {
+	en,
+	es,
+	fr,
+	de,
+	ja,
+	ko,
+	zh,
+	"zh-TW": zhTW,
+};
+
+let active: Messages = en;
+
+/** The catalog for a tag: exact match, then its primary subtag, then English. */
+export function findCatalog(tag: LanguageTag): Messages {
+	const lower = tag.toLowerCase();
+	const primary = lower.split("-")[0];
+	const entries = Object.entries(CATALOGS);
+	return (
+		entries.find(([t]) => t.toLowerCase() === lower)?.[1] ??
+		entries.find(([t]) => t.toLowerCase() === primary)?.[1] ??
+		en
+	);
+}
+
+/** Show the UI in a language (the response language); called on settings load and change. */
+export function setUiLanguage(tag: LanguageTag): void {
+	active = findCatalog(tag);
+}
+
+/**
+ * Look up a UI message in the active language, falling back to English for a
+ * key the catalog lacks. `{name}` placeholders are filled from `vars`.
+ */
+export function t(key: MessageKey, vars?: Record<string, string | number>): string {
+	const message = active[key] ?? en[key];
+	if (!vars) return message;
+	return message.replace(/\{(\w+)\}/g, (match, name: string) =>
+		name in vars ? String(vars[name]) : match,
+	);
+}
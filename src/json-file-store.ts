@@ -0,0 +1,115 @@
+import type { DataAdapter } from "obsidian";
+
+/**
+ * One JSON file in the plugin directory, kept in memory: the storage under
+ * the usage ledger, rewrite history, sidecar, Q&A index, translation progress
+ * and translation memory.
+ *
+ * The file is loaded once, on first use, through `parse`, which must tolerate
+ * a missing (null) or corrupt file. Every operation runs through one queue, so
+ * each sees the data as every earlier one left it. Changes are written once
+ * `debounceMs` pass without another; `flush` writes immediately (on unload).
+ * A failed background write goes to `onSaveError` and stays pending, so the
+ * next save or `flush` retries it.
+ */
+export class JsonFileStore<T> {
+	private adapter: DataAdapter;
+	private path: string;
+	private parse: (raw: string | null) => T;
+	private debounceMs: number;
+
+	/** In-memory data; null until first loaded. */
+	private data: T | null = null;
+	/** Tail of the operation queue. */
+	private queue: Promise<unknown> = Promise.resolve();
+	private saveTimer: ReturnType<typeof setTimeout> | null = null;
+	private dirty = false;
+
+	/** Called when a debounced save fails. */
+	onSaveError: (err: unknown) => void = () => undefined;
+
+	constructor(
+		adapter: DataAdapter,
+		path: string,
+		parse: (raw: string | null) => T,
+		debounceMs: number,
+	) {
+		this.adapter = adapter;
+		this.path = path;
+		this.parse = parse;
+		this.debounceMs = debounceMs;
+	}
+
+	/** The loaded data, synchronously; null until first loaded. */
+	peek(): T | null {
+		return this.data;
+	}
+
+	/** Run `fn` on the loaded data, after every earlier operation. */
+	read<R>(fn: (data: T) => R): Promise<R> {
+		return this.enqueue(fn);
+	}
+
+	/**
+	 * Apply `fn`, which changes the data in place and returns whether it changed
+	 * anything, and schedule a save if so. Resolves to what `fn` returned.
+	 */
+	async mutate(fn: (data: T) => boolean): Promise<boolean> {
+		// Mark dirty inside the queue slot, so a flush queued right behind this
+		// change always sees it.
+		const changed = await this.enqueue((data) => {
+			const result = fn(data);
+			if (result) this.dirty = true;
+			return result;
+		});
+		if (changed) this.scheduleSave();
+		return changed;
+	}
+
+	/** Write pending changes now instead of waiting for the debounce. */
+	async flush(): Promise<void> {
+		if (this.saveTimer !== null) {
+			clearTimeout(this.saveTimer);
+			this.saveTimer = null;
+		}
+		await this.enqueue(() => undefined, () => this.save());
+	}
+
+	private enqueue<R>(fn: (data: T) => R, after?: () => Promise<void>): Promise<R> {
+		const run = async (): Promise<R> => {
+			const data = await this.load();
+			const result = fn(data);
+			if (after) await after();
+			return result;
+		};
+		const next = this.queue.then(run, run);
+		this.queue = next.catch(() => undefined);
+		return next;
+	}
+
+	private scheduleSave(): void {
+		if (this.saveTimer !== null) clearTimeout(this.saveTimer);
+		this.saveTimer = setTimeout(() => {
+			this.saveTimer = null;
+			this.enqueue(() => undefined, () => this.save()).catch((err: unknown) =>
+				this.onSaveError(err),
+			);
+		}, this.debounceMs);
+	}
+
+	private async load(): Promise<T> {
+		if (this.data !== null) return this.data;
+		const raw = (await this.adapter.exists(this.path))
+			? await this.adapter.read(this.path)
+			: null;
+		this.data = this.parse(raw);
+		return this.data;
+	}
+
+	/** Must run inside the queue, after load. */
+	private async save(): Promise<void> {
+		if (!this.dirty || this.data === null) return;
+		await this.adapter.write(this.path, JSON.stringify(this.data));
+		this.dirty = false;
+	}
+}
@@ -0,0 +1,105 @@
+import { App, Modal, Notice, Setting } from "obsidian";
+import type { Language } from "./types";
+import { normalizeTag, validateLanguage } from "./languages";
+import { t } from "./i18n";
+
+/**
+ * Settings editor for one custom language. Edits a draft copy; Save validates
+ * it and hands it to `onSave`, Cancel (or closing) discards it.
+ */
+export class LanguageModal extends Modal {
+	private draft: Language;
+	private onSave: (language: Language) => Promise<void>;
+
+	constructor(app: App, language: Language, onSave: (language: Language) => Promise<void>) {
+		super(app);
+		this.draft = { ...language };
+		this.onSave = onSave;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		this.setTitle(
+			this.draft.tag ? t("editor.editTitle", { name: this.draft.nativeName }) : t("language.newTitle"),
+		);
+
+		new Setting(contentEl)
+			.setName(t("language.tag"))
+			.setDesc(t("language.tagDesc"))
+			.addText((text) =>
+				text.setValue(this.draft.tag).onChange((value) => {
+					this.draft.tag = value;
+				}),
+			);
+
+		new Setting(contentEl)
+			.setName(t("editor.name"))
+			.setDesc(t("language.nameDesc"))
+			.addText((text) =>
+				text.setValue(this.draft.name).onChange((value) => {
+					this.draft.name = value;
+				}),
+			);
+
+		new Setting(contentEl)
+			.setName(t("language.nativeName"))
+			.setDesc(t("language.nativeNameDesc"))
+			.addText((text) =>
+				text.setValue(this.draft.nativeName).onChange((value) => {
+					this.draft.nativeName = value;
+				}),
+			);
+
+		new Setting(contentEl)
+			.setName(t("language.defaultQuestion"))
+			.setDesc(t("language.defaultQuestionDesc"))
+			.addText((text) =>
+				text.setValue(this.draft.defaultQuestion).onChange((value) => {
+					this.draft.defaultQuestion = value;
+				}),
+			);
+
+		new Setting(contentEl)
+			.setName(t("language.direction"))
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("ltr", t("language.ltr"))
+					.addOption("rtl", t("language.rtl"))
+					.setValue(this.draft.direction)
+					.onChange((value) => {
+						this.draft.direction = value as Language["direction"];
+					}),
+			);
+
+		new Setting(contentEl)
+			.addButton((button) =>
+				button.setButtonText(t("editor.cancel")).onClick(() => this.close()),
+			)
+			.addButton((button) =>
+				button
+					.setButtonText(t("editor.save"))
+					.setCta()
+					.onClick(async () => {
+						const name = this.draft.name.trim();
+						const draft: Language = {
+							...this.draft,
+							tag: normalizeTag(this.draft.tag),
+							name,
+							nativeName: this.draft.nativeName.trim() || name,
+							defaultQuestion: this.draft.defaultQuestion.trim(),
+						};
+						const problems = validateLanguage(draft);
+						if (problems.length > 0) {
+							new Notice(t("editor.cantSave", { problems: problems.join("; ") }));
+							return;
+						}
+						await this.onSave(draft);
+						this.close();
+					}),
+			);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
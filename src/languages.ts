@@ -0,0 +1,144 @@
+import type { CooSettings, Language, LanguageTag } from "./types";
+import { t } from "./i18n";
+
+/**
+ * The language registry: every language coo answers and translates in, keyed
+ * by BCP-47 tag. The built-ins cover Obsidian's UI languages; settings can add
+ * more (or replace a built-in, say to change its default question). Prompts
+ * use a language's English name, menus its native name, and the composer its
+ * default question and writing direction.
+ */
+
+export const BUILT_IN_LANGUAGES: readonly Language[] = [
+	{ tag: "en", name: "English", nativeName: "English", defaultQuestion: "What does this mean?", direction: "ltr" },
+	{ tag: "es", name: "Spanish", nativeName: "Español", defaultQuestion: "¿Qué significa esto?", direction: "ltr" },
+	{ tag: "fr", name: "French", nativeName: "Français", defaultQuestion: "Qu'est-ce que ça veut dire ?", direction: "ltr" },
+	{ tag: "de", name: "German", nativeName: "Deutsch", defaultQuestion: "Was bedeutet das?", direction: "ltr" },
+	{ tag: "it", name: "Italian", nativeName: "Italiano", defaultQuestion: "Cosa significa?", direction: "ltr" },
+	{ tag: "pt", name: "Portuguese", nativeName: "Português", defaultQuestion: "O que significa isto?", direction: "ltr" },
+	{ tag: "pt-BR", name: "Brazilian Portuguese", nativeName: "Português (Brasil)", defaultQuestion: "O que isso significa?", direction: "ltr" },
+	{ tag: "nl", name: "Dutch", nativeName: "Nederlands", defaultQuestion: "Wat betekent dit?", direction: "ltr" },
+	{ tag: "da", name: "Danish", nativeName: "Dansk", defaultQuestion: "Hvad betyder det?", direction: "ltr" },
+	{ tag: "nb", name: "Norwegian", nativeName: "Norsk", defaultQuestion: "Hva betyr dette?", direction: "ltr" },
+	{ tag: "sv", name: "Swedish", nativeName: "Svenska", defaultQuestion: "Vad betyder det här?", direction: "ltr" },
+	{ tag: "pl", name: "Polish", nativeName: "Polski", defaultQuestion: "Co to znaczy?", direction: "ltr" },
+	{ tag: "cs", name: "Czech", nativeName: "Čeština", defaultQuestion: "Co to znamená?", direction: "ltr" },
+	{ tag: "hu", name: "Hungarian", nativeName: "Magyar", defaultQuestion: "Ez mit jelent?", direction: "ltr" },
+	{ tag: "ro", name: "Romanian", nativeName: "Română", defaultQuestion: "Ce înseamnă asta?", direction: "ltr" },
+	{ tag: "ru", name: "Russian", nativeName: "Русский", defaultQuestion: "Что это значит?", direction: "ltr" },
+	{ tag: "uk", name: "Ukrainian", nativeName: "Українська", defaultQuestion: "Що це означає?", direction: "ltr" },
+	{ tag: "tr", name: "Turkish", nativeName: "Türkçe", defaultQuestion: "Bu ne anlama geliyor?", direction: "ltr" },
+	{ tag: "ar", name: "Arabic", nativeName: "العربية", defaultQuestion: "ماذا يعني هذا؟", direction: "rtl" },
+	{ tag: "he", name: "Hebrew", nativeName: "עברית", defaultQuestion: "מה זה אומר?", direction: "rtl" },
+	{ tag: "fa", name: "Persian", nativeName: "فارسی", defaultQuestion: "این یعنی چه؟", direction: "rtl" },
+	{ tag: "hi", name: "Hindi", nativeName: "हिन्दी", defaultQuestion: "इसका क्या मतलब है?", direction: "ltr" },
+	{ tag: "id", name: "Indonesian", nativeName: "Bahasa Indonesia", defaultQuestion: "Apa artinya ini?", direction: "ltr" },
+	{ tag: "ms", name: "Malay", nativeName: "Bahasa Melayu", defaultQuestion: "Apakah maksud ini?", direction: "ltr" },
+	{ tag: "vi", name: "Vietnamese", nativeName: "Tiếng Việt", defaultQuestion: "Điều này có nghĩa là gì?", direction: "ltr" },
+	{ tag: "th", name: "Thai", nativeName: "ไทย", defaultQuestion: "หมายความว่าอะไร?", direction: "ltr" },
+	{ tag: "ko", name: "Korean", nativeName: "한국어", defaultQuestion: "이게 무슨 뜻이에요?", direction: "ltr" },
+	{ tag: "ja", name: "Japanese", nativeName: "日本語", defaultQuestion: "どういう意味？", direction: "ltr" },
+	{ tag: "zh", name: "Simplified Chinese", nativeName: "简体中文", defaultQuestion: "这是什么意思？", direction: "ltr" },
+	{ tag: "zh-TW", name: "Traditional Chinese", nativeName: "繁體中文", defaultQuestion: "這是什麼意思？", direction: "ltr" },
+];
+
+/** Translation languages as saved before tags, by name. */
+const LEGACY_TRANSLATE_LANGUAGES: Record<string, LanguageTag> = {
+	English: "en",
+	Spanish: "es",
+	French: "fr",
+	Chinese: "zh",
+	Japanese: "ja",
+};
+
+/** Chinese locales written in Traditional characters. */
+const TRADITIONAL_CHINESE = /^zh-(tw|hk|mo|hant)\b/;
+
+const TAG_PATTERN = /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i;
+
+/** The language's primary subtag: "pt" for "pt-BR". */
+function primarySubtag(tag: LanguageTag): string {
+	return tag.toLowerCase().split(/[-_]/)[0] ?? "";
+}
+
+/** Canonical casing: "pt-br" → "pt-BR", "zh_hant" → "zh-Hant". */
+export function normalizeTag(tag: string): LanguageTag {
+	return tag
+		.trim()
+		.split(/[-_]/)
+		.map((part, i) => {
+			if (i === 0) return part.toLowerCase();
+			if (part.length === 2) return part.toUpperCase();
+			if (part.length === 4) return part[0]?.toUpperCase() + part.slice(1).toLowerCase();
+			return part.toLowerCase();
+		})
+		.join("-");
+}
+
+/** Built-ins first, in order, then custom languages; a custom one replaces a built-in with its tag. */
+export function getLanguages(customLanguages: readonly Language[] = []): Language[] {
+	const custom = new Map(customLanguages.map((l) => [l.tag.toLowerCase(), l]));
+	const languages = BUILT_IN_LANGUAGES.map((l) => {
+		const replacement = custom.get(l.tag.toLowerCase());
+		custom.delete(l.tag.toLowerCase());
+		return replacement ?? l;
+	});
+	return [...languages, ...custom.values()];
+}
+
+/**
+ * The language for a tag: an exact match, else one with the same primary
+ * subtag ("de-AT" finds German), else English.
+ */
+export function findLanguage(tag: LanguageTag, languages: readonly Language[]): Language {
+	const lower = tag.toLowerCase();
+	return (
+		languages.find((l) => l.tag.toLowerCase() === lower) ??
+		languages.find((l) => l.tag.toLowerCase() === primarySubtag(tag)) ??
+		(BUILT_IN_LANGUAGES[0] as Language)
+	);
+}
+
+/** The language Ask, Rewrite and quick actions answer in. */
+export function getResponseLanguage(settings: CooSettings): Language {
+	return findLanguage(settings.responseLanguage, getLanguages(settings.customLanguages));
+}
+
+/** The language Translate translates into. */
+export function getTranslateLanguage(settings: CooSettings): Language {
+	return findLanguage(settings.translateLanguage, getLanguages(settings.customLanguages));
+}
+
+/**
+ * The language tag closest to a locale (such as Obsidian's UI locale): an exact
+ * match, Traditional Chinese for Taiwan, Hong Kong and Macau, else the primary
+ * subtag, else English.
+ */
+export function matchLocale(
+	locale: string,
+	languages: readonly Language[] = BUILT_IN_LANGUAGES,
+): LanguageTag {
+	const lower = locale.toLowerCase().replace(/_/g, "-");
+	const exact = languages.find((l) => l.tag.toLowerCase() === lower);
+	if (exact) return exact.tag;
+	if (TRADITIONAL_CHINESE.test(lower) && languages.some((l) => l.tag === "zh-TW")) {
+		return "zh-TW";
+	}
+	// Norwegian: Bokmål, Nynorsk and plain "no" all read Norwegian.
+	const primary = ["nn", "no"].includes(primarySubtag(lower)) ? "nb" : primarySubtag(lower);
+	return languages.find((l) => l.tag.toLowerCase() === primary)?.tag ?? "en";
+}
+
+/** A saved language setting as a tag (translation languages used to be names). */
+export function migrateLanguageTag(value: string): LanguageTag {
+	return LEGACY_TRANSLATE_LANGUAGES[value] ?? value;
+}
+
+/** Problems that keep a custom language from being saved; empty when valid. */
+export function validateLanguage(language: Language): string[] {
+	const problems: string[] = [];
+	if (!TAG_PATTERN.test(language.tag)) problems.push(t("problem.tagFormat"));
+	if (!language.name.trim()) problems.push(t("problem.nameEmpty"));
+	if (!language.defaultQuestion.trim()) problems.push(t("problem.defaultQuestionEmpty"));
+	return problems;
+}
@@ -0,0 +1,362 @@
+import type { Messages } from "../i18n";
+
+/** German UI messages. */
+export const de: Messages = {
+	// Composer
+	"composer.title": "coo besprechen",
+	"composer.wholeDocument": "Frage zum ganzen Dokument",
+	"composer.thisAnswer": "Frage zu dieser Antwort",
+	"composer.snapshot.unregistered": "Notiz noch nicht registriert — die erste Frage registriert sie",
+	"composer.snapshot.fresh": "Die Kopie der Notiz ist aktuell",
+	"composer.snapshot.changed": "Notiz bearbeitet — diese Frage sendet zuerst die Änderungen",
+	"composer.snapshot.stale": "Notiz stark geändert — diese Frage registriert sie neu",
+	"composer.snapshot.unknown": "Alter der Kopie unbekannt — diese Frage registriert die Notiz neu",
+	"composer.rewriteMode": "Umschreibmodus",
+	"composer.shortenPercent": "Kürzen um Prozent",
+	"composer.tonePlaceholder": "Ton, zum Beispiel förmlich",
+	"composer.instructionPlaceholder": "Anweisung zum Umschreiben (optional)",
+	"composer.rewrite": "Umschreiben",
+	"composer.ask": "Fragen",
+	"composer.cancel": "Abbrechen",
+	"composer.addedToSidecar": "Notiz zur Begleitdatei hinzugefügt.",
+	"composer.added": "Notiz hinzugefügt.",
+	"composer.noNotesYet": "Noch keine Notizen. Stelle zuerst eine Frage oder wähle einen anderen Umschreibmodus.",
+	"composer.rewritten": "Umgeschrieben.",
+	"composer.archiveFailed": "Der ursprüngliche Absatz konnte nicht archiviert werden, daher wurde die Umformulierung nicht übernommen: {error}",
+	"composer.sidecarRemoveFailed": "Umgeschrieben, aber die eingearbeiteten Notizen aus der Begleitdatei konnten nicht entfernt werden: {error}",
+	"composer.actionNeedsParagraph": "{action} schreibt einen Absatz um — markiere Text in einem Absatz.",
+	"rewriteMode.integrate": "Notizen einarbeiten",
+	"rewriteMode.simplify": "Vereinfachen",
+	"rewriteMode.shorten": "Kürzen",
+	"rewriteMode.tone": "Ton ändern",
+	"rewriteMode.grammar": "Grammatik korrigieren",
+	"rewriteMode.voice": "Stil der Notiz übernehmen",
+
+	// Rewrite preview
+	"preview.original": "Original",
+	"preview.rewrite": "Umgeschrieben",
+	"preview.reject": "Ablehnen",
+	"preview.regenerate": "Neu erzeugen",
+	"preview.acceptKeepNotes": "Übernehmen, Notizen behalten",
+	"preview.accept": "Übernehmen",
+	"preview.noChanges": "Die Umschreibung ändert nichts.",
+	"preview.summary": "{accepted} von {total} Änderungen übernommen — klicke auf eine Änderung, um sie zu behalten oder zu verwerfen.",
+
+	// Requests
+	"retry.rateLimited": "Ratenlimit erreicht — neuer Versuch in {seconds} s…",
+	"retry.network": "Netzwerkfehler — neuer Versuch in {seconds} s…",
+	"retry.server": "Serverfehler — neuer Versuch in {seconds} s…",
+	"error.unexpected": "Ein unerwarteter Fehler ist aufgetreten.",
+	"error.dailyBudget": "Tagesbudget erreicht ({spent} von {budget}). Erhöhe es in den coo-Einstellungen oder versuche es morgen erneut.",
+	"error.monthlyBudget": "Monatsbudget erreicht ({spent} von {budget}). Erhöhe es in den coo-Einstellungen.",
+	"error.noteBudget": "Budget für diese Notiz erreicht ({spent} von {budget}). Erhöhe es in den coo-Einstellungen.",
+	"error.noApiKey": "Kein API-Schlüssel eingerichtet. Bitte lege ihn in den coo-Einstellungen fest.",
+	"error.noModel": "Kein Modell eingerichtet. Bitte lege es in den coo-Einstellungen fest.",
+	"error.network": "Netzwerkfehler: {detail}",
+	"error.noText": "Der Assistent hat keinen Text geliefert.",
+	"error.responseFailed": "Die Antwort ist fehlgeschlagen.",
+	"error.noStreaming": "Streaming wird hier nicht unterstützt.",
+	"error.noRegistration": "Dieser Anbieter unterstützt keine Notizregistrierung.",
+	"error.registrationFailed": "Registrierung fehlgeschlagen: keine Antwort-ID erhalten.",
+	"error.snapshotFailed": "Aktualisierung des Schnappschusses fehlgeschlagen: keine Antwort-ID erhalten.",
+	"error.badRequest": "Ungültige Anfrage: {detail}",
+	"error.invalidApiKey": "Ungültiger API-Schlüssel. Bitte prüfe ihn in den coo-Einstellungen.",
+	"error.keyRejected": "Der Server hat den API-Schlüssel abgelehnt. Bitte prüfe ihn in den coo-Einstellungen.",
+	"error.permissionDenied": "Zugriff verweigert: {detail}",
+	"error.modelNotFound": "Nicht gefunden: {detail}. Prüfe den Modellnamen in den coo-Einstellungen.",
+	"error.endpointNotFound": "Nicht gefunden: {detail}. Prüfe Basis-URL und Modell in den coo-Einstellungen.",
+	"error.rateLimited": "Von {provider} gedrosselt. Bitte warte einen Moment und versuche es erneut.",
+	"error.serverRateLimited": "Vom Server gedrosselt. Bitte warte einen Moment und versuche es erneut.",
+	"error.serviceError": "Dienstfehler bei {provider}. Bitte versuche es später erneut.",
+	"error.overloaded": "Dienstfehler oder Überlastung bei {provider}. Bitte versuche es später erneut.",
+	"error.modelServer": "Der Modellserver hat einen Fehler gemeldet. Bitte versuche es später erneut.",
+	"error.apiStatus": "API-Fehler bei {provider} ({status}): {detail}",
+	"error.serverStatus": "Serverfehler ({status}): {detail}",
+	"error.ollamaNotFound": "Ollama: {detail}. Lade das Modell zuerst herunter oder prüfe den Modellnamen in den coo-Einstellungen.",
+	"error.ollama": "Ollama-Fehler: {detail}",
+	"error.ollamaStatus": "Ollama-Fehler ({status}): {detail}",
+	"status.usage": "coo: {cost} heute ({tokens} Tokens)",
+
+	// Editor menu and notices
+	"menu.discuss": "coo besprechen",
+	"menu.translate": "coo übersetzen",
+	"notice.openNote": "Öffne zuerst eine Notiz.",
+	"notice.emptyDocument": "Das Dokument ist leer.",
+	"notice.selectParagraph": "Markiere Text in einem Absatz.",
+	"notice.cancelled": "Ausstehende Anfragen abgebrochen.",
+	"notice.noPending": "Keine ausstehenden Anfragen.",
+	"notice.noAnswersToExport": "Keine Antworten zum Exportieren.",
+	"notice.exported": "{count} Karteikarten nach {path} exportiert.",
+	"notice.exportFailed": "Die Karteikarten konnten nicht nach {path} exportiert werden: {error}",
+	"notice.noCallouts": "Keine coo-Callouts in dieser Notiz.",
+	"notice.movedToSidecarOne": "1 Antwort in die Begleitdatei verschoben.",
+	"notice.sidecarNoteChanged": "Die Notiz hat sich beim Verschieben der Antworten geändert, daher wurde nichts verschoben. Führe den Befehl erneut aus.",
+	"notice.movedToSidecar": "{count} Antworten in die Begleitdatei verschoben.",
+	"notice.noSidecarNotes": "Keine Notizen in der Begleitdatei dieser Notiz.",
+	"notice.movedIntoNoteOne": "1 Antwort in die Notiz verschoben.",
+	"notice.movedIntoNote": "{count} Antworten in die Notiz verschoben.",
+	"notice.calloutMoved": "Dieser Callout wurde seit dem Anzeigen des Panels geändert oder verschoben, daher wurde nichts gelöscht.",
+	"notice.localHistory": "Der lokale Verlauf sendet die aktuelle Notiz mit jeder Frage — nichts neu zu registrieren.",
+	"notice.reRegistering": "Notiz wird neu registriert...",
+	"notice.reRegistered": "Notiz neu registriert.",
+	"notice.reRegisterFailed": "Neuregistrierung fehlgeschlagen.",
+	"notice.templateProblems": "Probleme mit coo-Promptvorlagen:\n{problems}",
+	"notice.templateProblem": "{path}: {problems}. Der eingebaute Prompt für {name} wird verwendet.",
+	"notice.setTemplateFolder": "Lege zuerst einen Ordner für Promptvorlagen fest.",
+	"notice.prunedOne": "1 Ketteneintrag entfernt.",
+	"notice.pruned": "{count} Ketteneinträge entfernt.",
+	"notice.saveFailed": "{file} konnte nicht gespeichert werden: {error} Deine Änderungen bleiben erhalten und werden mit der nächsten Änderung gespeichert.",
+	"notice.unloadSaveFailed": "{file} konnte beim Beenden von coo nicht gespeichert werden: {error} Die letzten Änderungen daran gehen verloren.",
+	"notice.apiKey": "Bitte trage deinen {provider}-API-Schlüssel in den coo-Einstellungen ein.",
+	"notice.selectToTranslate": "Markiere ein Wort oder eine Wendung zum Übersetzen.",
+	"notice.tooltipOneLine": "Eine Tooltip-Übersetzung umfasst nur eine Zeile. Wähle Text innerhalb einer Zeile aus.",
+	"notice.translating": "Wird übersetzt...",
+	"notice.translationFailed": "Übersetzung fehlgeschlagen.",
+	"notice.selectionChanged": "Die Auswahl hat sich während der Übersetzung geändert; nichts wurde eingefügt.",
+	"notice.noHeadingSection": "Setze den Cursor unter eine Überschrift, um ihren Abschnitt zu übersetzen.",
+	"notice.nothingToTranslate": "Hier gibt es nichts zu übersetzen.",
+	"notice.noteTranslationProgress": "Übersetze... {done} von {total} Blöcken",
+	"notice.noteTranslationResuming": "Fortsetzen: {done} von {total} Blöcken sind bereits übersetzt",
+	"notice.noteTranslationStopped": "Übersetzung nach {done} von {total} Blöcken angehalten. Führe den Befehl erneut aus, um dort weiterzumachen.",
+	"notice.noteChanged": "Die Notiz hat sich während der Übersetzung geändert, daher wurde nichts geschrieben. Führe den Befehl erneut aus; bereits übersetzte Blöcke werden wiederverwendet.",
+	"notice.noteTranslated": "Notiz übersetzt.",
+	"notice.translationWriteFailed": "Die Übersetzung konnte nicht nach {path} geschrieben werden: {error} Die übersetzten Blöcke bleiben erhalten; führe den Befehl erneut aus.",
+
+	// Settings
+	"settings.provider": "Anbieter",
+	"settings.providerDesc": "Welcher Dienst die Anfragen beantwortet. Nur OpenAI speichert Unterhaltungen auf dem Server; andere Anbieter senden die Notiz bei jeder Frage erneut.",
+	"settings.providerCompatible": "OpenAI-kompatibler Server",
+	"settings.openAiApiKey": "OpenAI-API-Schlüssel",
+	"settings.apiKey": "API-Schlüssel",
+	"settings.apiKeyRequired": "Erforderlich. Dein Schlüssel wird lokal gespeichert und nie weitergegeben.",
+	"settings.apiKeyOptional": "Optional für lokale Server. Wird lokal gespeichert und nie weitergegeben.",
+	"settings.conversationHistory": "Gesprächsverlauf",
+	"settings.conversationHistoryDesc": "Serverseitig speichert der Anbieter die Unterhaltung jeder Notiz. Lokal wird sie bei jeder Frage aus den Antworten der Notiz neu aufgebaut und nichts gespeichert — für Konten ohne Datenspeicherung.",
+	"settings.serverSide": "Serverseitig",
+	"settings.local": "Lokal",
+	"settings.baseUrl": "Basis-URL",
+	"settings.baseUrlDesc": "Leer lassen, um den Standard-Endpunkt des Anbieters zu verwenden.",
+	"settings.model": "Modell",
+	"settings.modelOpenAiDesc": "Welches OpenAI-Modell für Antworten verwendet wird.",
+	"settings.modelDesc": "Modellname, wie der Anbieter ihn erwartet.",
+	"settings.reasoningEffort": "Denkaufwand",
+	"settings.reasoningEffortDesc": "Wie viel das Modell nachdenkt. Höher ist langsamer, aber gründlicher. Gilt nur für Fragen (Umschreiben und Übersetzen laufen immer ohne).",
+	"settings.effortNone": "Keiner",
+	"settings.effortLow": "Niedrig",
+	"settings.effortMedium": "Mittel",
+	"settings.effortHigh": "Hoch",
+	"settings.webSearch": "Websuche",
+	"settings.webSearchDesc": "Erlaubt dem Modell, beim Fragen im Web nach aktuellen Informationen zu suchen.",
+	"settings.sources": "Quellen",
+	"settings.sourcesDesc": "Wie Quellen der Websuche in einer Antwort erscheinen: nummerierte Fußnoten, Links im Text oder ausgeblendet.",
+	"settings.sourcesFootnotes": "Fußnoten",
+	"settings.sourcesLinks": "Links im Text",
+	"settings.sourcesHidden": "Ausgeblendet",
+	"settings.answerStorage": "Speicherort der Antworten",
+	"settings.answerStorageDesc": "Schreibt Antworten als Callouts in die Notiz oder hält sie in einer Begleitdatei in der Seitenleiste, damit die Notiz sauber bleibt. Mit den Verschiebe-Befehlen lässt sich eine Notiz umstellen.",
+	"settings.storageInline": "In der Notiz",
+	"settings.storageSidecar": "Begleitdatei",
+	"settings.streamAnswers": "Antworten streamen",
+	"settings.streamAnswersDesc": "Schreibt Antworten in die Notiz, während sie eintreffen, statt auf die vollständige Antwort zu warten.",
+	"settings.previewRewrites": "Umschreibungen vorab zeigen",
+	"settings.previewRewritesDesc": "Zeigt eine Umschreibung als Wort-für-Wort-Vergleich zum Übernehmen, Ablehnen oder Neu erzeugen, bevor sie den Absatz ersetzt.",
+	"settings.maxAttempts": "Maximale Versuche",
+	"settings.maxAttemptsDesc": "Wie oft ein Aufruf versucht wird, der ans Ratenlimit stößt oder einen Serverfehler liefert, einschließlich des ersten Versuchs.",
+	"settings.retryTimeout": "Zeitlimit für Wiederholungen",
+	"settings.retryTimeoutDesc": "Beendet die Wiederholungen, wenn seit dem ersten Versuch so viele Sekunden vergangen sind. Eine bereits laufende Anfrage wird nicht abgebrochen.",
+	"settings.responseLanguage": "Antwortsprache",
+	"settings.responseLanguageDesc": "Hauptsprache der KI-Antworten und der Oberfläche des Plugins.",
+	"settings.translateLanguage": "Übersetzungssprache",
+	"settings.translateLanguageDesc": "Zielsprache der Übersetzen-Aktion.",
+	"settings.translateMode": "Übersetzungsstil",
+	"settings.translateModeDesc": "Wohin der Übersetzen-Befehl die Übersetzung schreibt. Jeder Stil hat auch einen eigenen Befehl.",
+	"translateMode.inline": "In Klammern nach der Auswahl",
+	"translateMode.replace": "Auswahl ersetzen",
+	"translateMode.footnote": "Fußnote",
+	"translateMode.ruby": "Ruby-Annotation (Lesungen für Chinesisch und Japanisch)",
+	"translateMode.tooltip": "Tooltip beim Überfahren",
+	"translateMode.below": "Zeile unter dem Absatz",
+	"settings.noteTranslationLayout": "Layout der Notizübersetzung",
+	"settings.noteTranslationLayoutDesc": "Wie die Befehle zum Übersetzen der Notiz und des Überschriftenabschnitts die Übersetzung schreiben.",
+	"noteLayout.interleaved": "Jeder Block gefolgt von seiner Übersetzung",
+	"noteLayout.columns": "Nebeneinander in zweispaltigen Tabellen",
+	"noteLayout.note": "Eine neue Notiz mit Link zum Original",
+	"noteTranslation.original": "Original",
+	"settings.glossary": "Glossar",
+	"settings.glossaryDesc": "Bevorzugte Übersetzungen von Begriffen, eine pro Zeile als \"Begriff = Übersetzung\". Beginne eine Zeile mit einem Sprach-Tag und Doppelpunkt (\"ja: Begriff = Übersetzung\"), um sie nur für diese Sprache zu verwenden. Begriffe, die in einer Passage vorkommen, werden mit jeder Übersetzung gesendet.",
+	"settings.glossaryNote": "Glossarnotiz",
+	"settings.glossaryNoteDesc": "Eine Notiz im Tresor mit weiteren Glossarzeilen im selben Format, damit sich das Glossar wie jede Notiz bearbeiten lässt. Ihre Einträge haben Vorrang vor den obigen.",
+	"settings.notePath": "Pfad der Notiz",
+	"settings.translationMemory": "Übersetzungsspeicher",
+	"settings.translationMemoryDesc": "Merkt sich jede Übersetzung und verwendet sie wieder, wenn derselbe Text erneut in dieselbe Sprache übersetzt wird, ohne das Modell aufzurufen. Durchsuche ihn, um gemerkte Übersetzungen zu korrigieren oder zu entfernen.",
+	"settings.browse": "Durchsuchen",
+	"settings.customLanguages": "Eigene Sprachen",
+	"settings.customLanguagesDesc": "Sprachen zum Antworten und Übersetzen zusätzlich zu den eingebauten. Eine mit dem Tag einer eingebauten Sprache ersetzt diese, etwa um ihre Standardfrage zu ändern.",
+	"settings.addLanguage": "Sprache hinzufügen",
+	"settings.quickActions": "Schnellaktionen",
+	"settings.quickActionsDesc": "Prompts mit einem Klick im Eingabefenster. Jede ist auch ein Befehl und kann so ein Tastenkürzel bekommen.",
+	"settings.replacesParagraph": "Ersetzt den Absatz",
+	"settings.addsNote": "Fügt eine Notiz hinzu",
+	"settings.restoreDefaults": "Standard wiederherstellen",
+	"settings.addQuickAction": "Schnellaktion hinzufügen",
+	"settings.edit": "Bearbeiten",
+	"settings.remove": "Entfernen",
+	"settings.moveUp": "Nach oben",
+	"settings.promptTemplates": "Promptvorlagen",
+	"settings.templateFolder": "Vorlagenordner",
+	"settings.templateFolderDesc": "Ordner im Vault mit deinen eigenen System-Prompts, eine Datei pro Aktion. Fehlt eine Datei, wird der eingebaute Prompt verwendet. Leer lassen, um immer die eingebauten Prompts zu verwenden.",
+	"settings.folderPath": "Ordnerpfad",
+	"settings.templatePrompt": "Prompt für {name}",
+	"settings.templateBuiltIn": "Der eingebaute Prompt wird verwendet.",
+	"settings.templateCustom": "{path} wird verwendet.",
+	"settings.templateInvalid": "{path} wird nicht verwendet ({problems}); der eingebaute Prompt wird verwendet.",
+	"settings.templateVariables": "Variablen: {variables}.",
+	"settings.openTemplate": "Vorlage öffnen",
+	"promptAction.ask": "Frage",
+	"promptAction.rewrite": "Umformulierung",
+	"promptAction.translate": "Übersetzung",
+	"promptAction.register": "Notizregistrierung",
+	"settings.resetTemplate": "Zurücksetzen",
+	"settings.usage": "Nutzung",
+	"settings.spend": "Ausgaben",
+	"settings.loading": "Wird geladen...",
+	"settings.spendSummary": "Heute: {today}. Dieser Monat: {month}.",
+	"settings.usageLine": "{cost} · {calls} Aufrufe · {tokens} Tokens",
+	"settings.usageLineUnpriced": "{cost} · {calls} Aufrufe ({unpriced} ohne Preis) · {tokens} Tokens",
+	"settings.prices": "Preise",
+	"settings.pricesDesc": "Ein Modell pro Zeile als \"Modell = Eingabe, Ausgabe\", in Dollar pro Million Tokens. Aufrufe eines Modells ohne Preis werden gezählt, aber nicht berechnet.",
+	"settings.dailyBudget": "Tagesbudget",
+	"settings.dailyBudgetDesc": "Stoppt Aufrufe, sobald die heutigen Ausgaben diesen Dollarbetrag erreichen. 0 für kein Limit.",
+	"settings.monthlyBudget": "Monatsbudget",
+	"settings.monthlyBudgetDesc": "Stoppt Aufrufe, sobald die Ausgaben dieses Monats diesen Dollarbetrag erreichen. 0 für kein Limit.",
+	"settings.noteBudget": "Budget pro Notiz",
+	"settings.noteBudgetDesc": "Stoppt Fragen und Umschreibungen einer Notiz, sobald ihre Gesamtausgaben diesen Dollarbetrag erreichen. 0 für kein Limit.",
+	// Commands
+	"command.discuss": "Diskutieren",
+	"command.translate": "Übersetzen",
+	"command.translateInline": "In Klammern übersetzen",
+	"command.translateReplace": "Übersetzen und Auswahl ersetzen",
+	"command.translateFootnote": "Als Fußnote übersetzen",
+	"command.translateRuby": "Mit Ruby-Text annotieren",
+	"command.translateTooltip": "In einen Hover-Tooltip übersetzen",
+	"command.translateBelow": "In einer Zeile unter dem Absatz übersetzen",
+	"command.translationMemory": "Übersetzungsspeicher",
+	"command.translateNote": "Notiz übersetzen",
+	"command.translateSection": "Abschnitt unter der Überschrift übersetzen",
+	"command.reRegister": "Notiz neu registrieren",
+	"command.rewriteHistory": "Umformulierungsverlauf",
+	"command.openSidecar": "Notizen der Begleitdatei öffnen",
+	"command.moveToSidecar": "Antworten in die Begleitdatei verschieben",
+	"command.moveIntoNote": "Antworten in die Notiz verschieben",
+	"command.openThreads": "Threads öffnen",
+	"command.searchAnswers": "Antworten durchsuchen",
+	"command.exportFlashcards": "Karteikarten exportieren",
+	"command.cancelPending": "Laufende Anfragen abbrechen",
+	"command.pruneChains": "Kettendaten bereinigen",
+	"command.quickAction": "Schnellaktion: {name}",
+	// Quick action and language editors
+	"editor.cancel": "Abbrechen",
+	"editor.save": "Speichern",
+	"editor.cantSave": "Speichern nicht möglich: {problems}.",
+	"editor.editTitle": "{name} bearbeiten",
+	"editor.name": "Name",
+	"quickAction.newTitle": "Neue Schnellaktion",
+	"quickAction.nameDesc": "Wird auf dem Chip im Composer und in der Befehlspalette angezeigt.",
+	"quickAction.icon": "Symbol",
+	"quickAction.iconDesc": "Ein Symbolname von lucide.dev, etwa lightbulb.",
+	"quickAction.prompt": "Prompt",
+	"quickAction.promptDesc": "Was mit der Passage geschehen soll. Variablen: {vars}.",
+	"quickAction.result": "Ergebnis",
+	"quickAction.resultDesc": "Die Antwort als neue Notiz unter dem Absatz hinzufügen oder den Absatz direkt umschreiben.",
+	"quickAction.resultCallout": "Neue Notiz",
+	"quickAction.resultReplace": "Absatz ersetzen",
+	"quickAction.useSetting": "Einstellung verwenden",
+	"quickAction.on": "An",
+	"quickAction.off": "Aus",
+	"language.newTitle": "Neue Sprache",
+	"language.tag": "Tag",
+	"language.tagDesc": "Das Sprach-Tag, etwa de, pt-br oder zh-hant (Groß- und Kleinschreibung egal).",
+	"language.nameDesc": "Wie Prompts die Sprache nennen, damit das Modell weiß, welche gemeint ist.",
+	"language.nativeName": "Eigenbezeichnung",
+	"language.nativeNameDesc": "Der Name in der Sprache selbst, für Menüs. Leer lassen, um den Namen oben zu verwenden.",
+	"language.defaultQuestion": "Standardfrage",
+	"language.defaultQuestionDesc": "Was der Composer fragt, wenn du ohne eigene Frage absendest.",
+	"language.direction": "Schreibrichtung",
+	"language.ltr": "Von links nach rechts",
+	"language.rtl": "Von rechts nach links",
+	"problem.nameEmpty": "der Name ist leer",
+	"problem.tagFormat": "das Tag muss wie de, pt-BR oder zh-Hant aussehen",
+	"problem.defaultQuestionEmpty": "die Standardfrage ist leer",
+	"problem.templateEmpty": "die Vorlage ist leer",
+	"problem.promptEmpty": "der Prompt ist leer",
+	"problem.unknownVariable": "unbekannte Variable {variable}",
+	"problem.unbalanced": "unausgeglichene {{ oder }}",
+	// Panels and dialogs
+	"history.title": "Umformulierungsverlauf",
+	"history.empty": "Für diese Notiz sind keine Umformulierungen gespeichert.",
+	"history.removedNotes": "Notizen entfernt",
+	"history.editedSince": "Seitdem bearbeitet",
+	"history.duplicated": "Kommt mehrfach vor",
+	"history.showDiff": "Unterschiede anzeigen",
+	"history.hideDiff": "Unterschiede ausblenden",
+	"history.copyOriginal": "Original kopieren",
+	"history.copied": "Original kopiert.",
+	"history.copyFailed": "Kopieren in die Zwischenablage fehlgeschlagen.",
+	"history.restore": "Wiederherstellen",
+	"history.cantRestore": "Der umformulierte Absatz wurde seitdem bearbeitet oder kommt mehrfach vor. Kopiere stattdessen das Original.",
+	"history.restored": "Absatz wiederhergestellt.",
+	"history.restoredWithNotes": "Absatz und seine Notizen wiederhergestellt.",
+	"sidecar.displayText": "coo-Notizen",
+	"sidecar.showNotes": "coo-Notizen anzeigen",
+	"sidecar.openNote": "Öffne eine Notiz, um ihre coo-Notizen zu sehen.",
+	"sidecar.delete": "Löschen",
+	"sidecar.wholeNote": "Ganze Notiz",
+	"sidecar.paragraphGone": "Absatz nicht mehr in der Notiz",
+	"threads.displayText": "coo-Threads",
+	"threads.openNote": "Öffne eine Notiz, um ihre coo-Threads zu sehen.",
+	"threads.collapseAll": "Alle einklappen",
+	"threads.expandAll": "Alle ausklappen",
+	"threads.untitled": "Notiz",
+	"threads.minor": "Nebensache",
+	"threads.followUp": "Nachfrage stellen",
+	"threads.askAgain": "Erneut fragen",
+	"threads.delete": "Löschen",
+	"search.title": "Antworten durchsuchen",
+	"search.placeholder": "Fragen und Antworten durchsuchen",
+	"search.fieldAll": "Fragen und Antworten",
+	"search.fieldQuestion": "Fragen",
+	"search.fieldAnswer": "Antworten",
+	"search.minorAny": "Nebensache oder nicht",
+	"search.minorOnly": "Nur Nebensachen",
+	"search.minorExclude": "Keine Nebensachen",
+	"search.anyTime": "Beliebiger Zeitraum",
+	"search.pastWeek": "Letzte Woche",
+	"search.pastMonth": "Letzter Monat",
+	"search.pastYear": "Letztes Jahr",
+	"search.folder": "Ordner",
+	"search.empty": "Keine passenden Antworten.",
+	"search.minor": "Nebensache",
+	"search.untitled": "Ohne Titel",
+	"flashcards.title": "Karteikarten exportieren",
+	"flashcards.scope": "Antworten aus",
+	"flashcards.scopeNote": "Dieser Notiz",
+	"flashcards.scopeFolder": "Einem Ordner",
+	"flashcards.scopeVault": "Dem ganzen Vault",
+	"flashcards.folder": "Ordner",
+	"flashcards.folderDesc": "Notizen in diesem Ordner und seinen Unterordnern.",
+	"flashcards.includeMinor": "Nebensächliche Antworten einbeziehen",
+	"flashcards.includeMinorDesc": "Kurze Antworten zu überspringbaren Details, als Nebensache markiert.",
+	"flashcards.format": "Format",
+	"flashcards.formatCsv": "Anki (CSV)",
+	"flashcards.formatTsv": "Anki (TSV)",
+	"flashcards.formatSpacedRepetition": "Spaced-Repetition-Plugin",
+	"flashcards.formatReviewNote": "Wiederholungsnotiz",
+	"flashcards.exportTo": "Exportieren nach",
+	"flashcards.exportToDesc": "Eine Datei im Vault; die Endung richtet sich nach dem Format. Eine vorhandene Datei bleibt erhalten, daneben wird eine nummerierte geschrieben.",
+	"flashcards.export": "Exportieren",
+	"memory.title": "Übersetzungsspeicher",
+	"memory.placeholder": "Texte und Übersetzungen durchsuchen",
+	"memory.noMatches": "Keine passenden Übersetzungen.",
+	"memory.empty": "Noch keine gespeicherten Übersetzungen.",
+	"memory.remove": "Entfernen",
+};
@@ -0,0 +1,363 @@
+/**
+ * English UI messages — the reference catalog. Every key lives here first;
+ * the other catalogs translate it and fall back to this one.
+ */
+export const en = {
+	// Composer
+	"composer.title": "coo discuss",
+	"composer.wholeDocument": "Asking about the whole document",
+	"composer.thisAnswer": "Asking about this answer",
+	"composer.snapshot.unregistered": "Note not registered yet — the first ask registers it",
+	"composer.snapshot.fresh": "Note snapshot is up to date",
+	"composer.snapshot.changed": "Note edited — this ask sends the changes first",
+	"composer.snapshot.stale": "Note changed a lot — this ask re-registers it",
+	"composer.snapshot.unknown": "Snapshot age unknown — this ask re-registers the note",
+	"composer.rewriteMode": "Rewrite mode",
+	"composer.shortenPercent": "Shorten by percent",
+	"composer.tonePlaceholder": "Tone, such as formal",
+	"composer.instructionPlaceholder": "Rewrite instruction (optional)",
+	"composer.rewrite": "Rewrite",
+	"composer.ask": "Ask",
+	"composer.cancel": "Cancel",
+	"composer.addedToSidecar": "Added note to the sidecar.",
+	"composer.added": "Added note.",
+	"composer.noNotesYet": "No notes yet. Ask a question first, or pick another rewrite mode.",
+	"composer.rewritten": "Rewritten.",
+	"composer.archiveFailed": "Couldn't archive the original paragraph, so the rewrite was not applied: {error}",
+	"composer.sidecarRemoveFailed": "Rewritten, but the folded-in sidecar notes couldn't be removed: {error}",
+	"composer.actionNeedsParagraph": "{action} rewrites a paragraph — select text in one.",
+	"rewriteMode.integrate": "Fold in notes",
+	"rewriteMode.simplify": "Simplify",
+	"rewriteMode.shorten": "Shorten",
+	"rewriteMode.tone": "Change tone",
+	"rewriteMode.grammar": "Fix grammar",
+	"rewriteMode.voice": "Match note voice",
+
+	// Rewrite preview
+	"preview.original": "Original",
+	"preview.rewrite": "Rewrite",
+	"preview.reject": "Reject",
+	"preview.regenerate": "Regenerate",
+	"preview.acceptKeepNotes": "Accept but keep notes",
+	"preview.accept": "Accept",
+	"preview.noChanges": "The rewrite makes no changes.",
+	"preview.summary": "{accepted} of {total} changes accepted — click a change to keep or drop it.",
+
+	// Requests
+	"retry.rateLimited": "Rate limited — retrying in {seconds}s…",
+	"retry.network": "Network error — retrying in {seconds}s…",
+	"retry.server": "Server error — retrying in {seconds}s…",
+	"error.unexpected": "An unexpected error occurred.",
+	"error.dailyBudget": "Daily budget reached ({spent} of {budget}). Raise it in coo settings or try again tomorrow.",
+	"error.monthlyBudget": "Monthly budget reached ({spent} of {budget}). Raise it in coo settings.",
+	"error.noteBudget": "Budget for this note reached ({spent} of {budget}). Raise it in coo settings.",
+	"error.noApiKey": "API key not configured. Please set it in Coo settings.",
+	"error.noModel": "Model not configured. Please set it in Coo settings.",
+	"error.network": "Network error: {detail}",
+	"error.noText": "The assistant didn't return any text.",
+	"error.responseFailed": "The response failed.",
+	"error.noStreaming": "Streaming is not supported here.",
+	"error.noRegistration": "This provider does not support note registration.",
+	"error.registrationFailed": "Registration failed: no response id returned.",
+	"error.snapshotFailed": "Snapshot update failed: no response id returned.",
+	"error.badRequest": "Bad request: {detail}",
+	"error.invalidApiKey": "Invalid API key. Please check your key in Coo settings.",
+	"error.keyRejected": "The server rejected the API key. Please check your key in Coo settings.",
+	"error.permissionDenied": "Permission denied: {detail}",
+	"error.modelNotFound": "Not found: {detail}. Check the model name in Coo settings.",
+	"error.endpointNotFound": "Not found: {detail}. Check the base URL and model in Coo settings.",
+	"error.rateLimited": "Rate limited by {provider}. Please wait a moment and try again.",
+	"error.serverRateLimited": "Rate limited by the server. Please wait a moment and try again.",
+	"error.serviceError": "{provider} service error. Please try again later.",
+	"error.overloaded": "{provider} service error or overloaded. Please try again later.",
+	"error.modelServer": "The model server returned an error. Please try again later.",
+	"error.apiStatus": "{provider} API error ({status}): {detail}",
+	"error.serverStatus": "Server error ({status}): {detail}",
+	"error.ollamaNotFound": "Ollama: {detail}. Pull the model first or check the model name in Coo settings.",
+	"error.ollama": "Ollama error: {detail}",
+	"error.ollamaStatus": "Ollama error ({status}): {detail}",
+	"status.usage": "coo: {cost} today ({tokens} tokens)",
+
+	// Editor menu and notices
+	"menu.discuss": "coo discuss",
+	"menu.translate": "coo translate",
+	"notice.openNote": "Open a note first.",
+	"notice.emptyDocument": "The document is empty.",
+	"notice.selectParagraph": "Select text in a paragraph.",
+	"notice.cancelled": "Cancelled pending requests.",
+	"notice.noPending": "No pending requests.",
+	"notice.noAnswersToExport": "No answers to export.",
+	"notice.exported": "Exported {count} flashcards to {path}.",
+	"notice.exportFailed": "Couldn't export the flashcards to {path}: {error}",
+	"notice.noCallouts": "No coo callouts in this note.",
+	"notice.movedToSidecarOne": "Moved 1 answer to the sidecar.",
+	"notice.sidecarNoteChanged": "The note changed while moving its answers, so nothing was moved. Run the command again.",
+	"notice.movedToSidecar": "Moved {count} answers to the sidecar.",
+	"notice.noSidecarNotes": "No sidecar notes for this note.",
+	"notice.movedIntoNoteOne": "Moved 1 answer into the note.",
+	"notice.movedIntoNote": "Moved {count} answers into the note.",
+	"notice.calloutMoved": "That callout has changed or moved since the panel was drawn, so nothing was deleted.",
+	"notice.localHistory": "Local conversation history sends the current note with every ask — nothing to re-register.",
+	"notice.reRegistering": "Re-registering note...",
+	"notice.reRegistered": "Note re-registered.",
+	"notice.reRegisterFailed": "Re-registration failed.",
+	"notice.templateProblems": "coo prompt template problems:\n{problems}",
+	"notice.templateProblem": "{path}: {problems}. Using the built-in {name} prompt.",
+	"notice.setTemplateFolder": "Set a prompt template folder first.",
+	"notice.prunedOne": "Pruned 1 chain entry.",
+	"notice.pruned": "Pruned {count} chain entries.",
+	"notice.saveFailed": "Couldn't save {file}: {error} Your changes are kept and saved with the next change.",
+	"notice.unloadSaveFailed": "Couldn't save {file} while closing coo: {error} The latest changes to it are lost.",
+	"notice.apiKey": "Please set your {provider} API key in coo settings.",
+	"notice.selectToTranslate": "Select a word or phrase to translate.",
+	"notice.tooltipOneLine": "A tooltip translation holds one line. Select text within a line.",
+	"notice.translating": "Translating...",
+	"notice.translationFailed": "Translation failed.",
+	"notice.selectionChanged": "The selection changed while translating; nothing was inserted.",
+	"notice.noHeadingSection": "Put the cursor under a heading to translate its section.",
+	"notice.nothingToTranslate": "Nothing to translate here.",
+	"notice.noteTranslationProgress": "Translating... {done} of {total} blocks",
+	"notice.noteTranslationResuming": "Resuming: {done} of {total} blocks already translated",
+	"notice.noteTranslationStopped": "Translation stopped after {done} of {total} blocks. Run the command again to pick up where it left off.",
+	"notice.noteChanged": "The note changed while translating, so nothing was written. Run the command again; blocks already translated are reused.",
+	"notice.noteTranslated": "Note translated.",
+	"notice.translationWriteFailed": "Couldn't write the translation to {path}: {error} The translated blocks are kept; run the command again to retry.",
+
+	// Settings
+	"settings.provider": "Provider",
+	"settings.providerDesc": "Which service answers requests. Only OpenAI keeps conversations server-side; other providers resend the note with every ask.",
+	"settings.providerCompatible": "OpenAI-compatible server",
+	"settings.openAiApiKey": "OpenAI API key",
+	"settings.apiKey": "API key",
+	"settings.apiKeyRequired": "Required. Your key is stored locally and never shared.",
+	"settings.apiKeyOptional": "Optional for local servers. Stored locally and never shared.",
+	"settings.conversationHistory": "Conversation history",
+	"settings.conversationHistoryDesc": "Server-side keeps each note's conversation with the provider. Local rebuilds it from the note's answers on every ask and stores nothing — use it for zero data retention accounts.",
+	"settings.serverSide": "Server-side",
+	"settings.local": "Local",
+	"settings.baseUrl": "Base URL",
+	"settings.baseUrlDesc": "Leave empty to use the provider's default endpoint.",
+	"settings.model": "Model",
+	"settings.modelOpenAiDesc": "Which OpenAI model to use for responses.",
+	"settings.modelDesc": "Model name as the provider expects it.",
+	"settings.reasoningEffort": "Reasoning effort",
+	"settings.reasoningEffortDesc": "How much reasoning the model uses. Higher is slower but more thorough. Applies to ask only (rewrite and translate always run without it).",
+	"settings.effortNone": "None",
+	"settings.effortLow": "Low",
+	"settings.effortMedium": "Medium",
+	"settings.effortHigh": "High",
+	"settings.webSearch": "Web search",
+	"settings.webSearchDesc": "Let the model search the web when asking, for up-to-date information.",
+	"settings.sources": "Sources",
+	"settings.sourcesDesc": "How web search sources appear in an answer: numbered footnotes, inline links, or hidden.",
+	"settings.sourcesFootnotes": "Footnotes",
+	"settings.sourcesLinks": "Inline links",
+	"settings.sourcesHidden": "Hidden",
+	"settings.answerStorage": "Answer storage",
+	"settings.answerStorageDesc": "Write answers into the note as callouts, or keep them in a sidecar shown in the side panel so the note stays clean. Use the move commands to convert a note.",
+	"settings.storageInline": "In the note",
+	"settings.storageSidecar": "Sidecar",
+	"settings.streamAnswers": "Stream answers",
+	"settings.streamAnswersDesc": "Write ask answers into the note as they arrive instead of waiting for the full answer.",
+	"settings.previewRewrites": "Preview rewrites",
+	"settings.previewRewritesDesc": "Show a rewrite as a word-level diff to accept, reject or regenerate before it replaces the paragraph.",
+	"settings.maxAttempts": "Max attempts",
+	"settings.maxAttemptsDesc": "How many times to try a call that is rate limited or hits a server error, including the first try.",
+	"settings.retryTimeout": "Retry time limit",
+	"settings.retryTimeoutDesc": "Stop retrying once this many seconds have passed since the first try. A request already under way is not cut off.",
+	"settings.responseLanguage": "Response language",
+	"settings.responseLanguageDesc": "Primary language for AI responses and for the plugin's own interface.",
+	"settings.translateLanguage": "Translation language",
+	"settings.translateLanguageDesc": "Target language for the Translate action.",
+	"settings.translateMode": "Translation style",
+	"settings.translateModeDesc": "Where the translate command puts the translation. Each style also has its own command.",
+	"translateMode.inline": "In parentheses after the selection",
+	"translateMode.replace": "Replace the selection",
+	"translateMode.footnote": "Footnote",
+	"translateMode.ruby": "Ruby annotation (readings for Chinese and Japanese)",
+	"translateMode.tooltip": "Tooltip on hover",
+	"translateMode.below": "Line below the paragraph",
+	"settings.noteTranslationLayout": "Note translation layout",
+	"settings.noteTranslationLayoutDesc": "How the translate note and translate heading section commands write the translation.",
+	"noteLayout.interleaved": "Each block followed by its translation",
+	"noteLayout.columns": "Side by side in two-column tables",
+	"noteLayout.note": "A new note linking back to the original",
+	"noteTranslation.original": "Original",
+	"settings.glossary": "Glossary",
+	"settings.glossaryDesc": "Preferred translations of terms, one \"term = translation\" per line. Start a line with a language tag and a colon (\"ja: term = translation\") to use it for that language only. Terms found in a passage are sent with every translation.",
+	"settings.glossaryNote": "Glossary note",
+	"settings.glossaryNoteDesc": "A vault note with more glossary lines in the same format, so the glossary can be edited like any note. Its entries win over the ones above.",
+	"settings.notePath": "Note path",
+	"settings.translationMemory": "Translation memory",
+	"settings.translationMemoryDesc": "Remember each translation and reuse it when the same text is translated into the same language again, without calling the model. Browse to correct or remove remembered translations.",
+	"settings.browse": "Browse",
+	"settings.customLanguages": "Custom languages",
+	"settings.customLanguagesDesc": "Languages to answer and translate in besides the built-in ones. One with a built-in language's tag replaces it, such as to change its default question.",
+	"settings.addLanguage": "Add language",
+	"settings.quickActions": "Quick actions",
+	"settings.quickActionsDesc": "One-click prompts shown in the composer. Each is also a command, so it can take a hotkey.",
+	"settings.replacesParagraph": "Replaces the paragraph",
+	"settings.addsNote": "Adds a note",
+	"settings.restoreDefaults": "Restore defaults",
+	"settings.addQuickAction": "Add quick action",
+	"settings.edit": "Edit",
+	"settings.remove": "Remove",
+	"settings.moveUp": "Move up",
+	"settings.promptTemplates": "Prompt templates",
+	"settings.templateFolder": "Template folder",
+	"settings.templateFolderDesc": "Vault folder holding your own system prompts, one file per action. A missing file uses the built-in prompt. Leave empty to always use the built-in prompts.",
+	"settings.folderPath": "Folder path",
+	"settings.templatePrompt": "{name} prompt",
+	"settings.templateBuiltIn": "Using the built-in prompt.",
+	"settings.templateCustom": "Using {path}.",
+	"settings.templateInvalid": "{path} is not used ({problems}); using the built-in prompt.",
+	"settings.templateVariables": "Variables: {variables}.",
+	"settings.openTemplate": "Open template",
+	"promptAction.ask": "Ask",
+	"promptAction.rewrite": "Rewrite",
+	"promptAction.translate": "Translate",
+	"promptAction.register": "Note registration",
+	"settings.resetTemplate": "Reset to default",
+	"settings.usage": "Usage",
+	"settings.spend": "Spend",
+	"settings.loading": "Loading...",
+	"settings.spendSummary": "Today: {today}. This month: {month}.",
+	"settings.usageLine": "{cost} · {calls} calls · {tokens} tokens",
+	"settings.usageLineUnpriced": "{cost} · {calls} calls ({unpriced} unpriced) · {tokens} tokens",
+	"settings.prices": "Prices",
+	"settings.pricesDesc": "One model per line as \"model = input, output\", in dollars per million tokens. Calls on a model without a price are counted but not costed.",
+	"settings.dailyBudget": "Daily budget",
+	"settings.dailyBudgetDesc": "Stop calls once today's spend reaches this many dollars. 0 for no limit.",
+	"settings.monthlyBudget": "Monthly budget",
+	"settings.monthlyBudgetDesc": "Stop calls once this month's spend reaches this many dollars. 0 for no limit.",
+	"settings.noteBudget": "Per-note budget",
+	"settings.noteBudgetDesc": "Stop asks and rewrites on a note once its total spend reaches this many dollars. 0 for no limit.",
+	// Commands
+	"command.discuss": "Discuss",
+	"command.translate": "Translate",
+	"command.translateInline": "Translate in parentheses",
+	"command.translateReplace": "Translate and replace the selection",
+	"command.translateFootnote": "Translate as a footnote",
+	"command.translateRuby": "Annotate with ruby text",
+	"command.translateTooltip": "Translate into a hover tooltip",
+	"command.translateBelow": "Translate on a line below the paragraph",
+	"command.translationMemory": "Translation memory",
+	"command.translateNote": "Translate note",
+	"command.translateSection": "Translate heading section",
+	"command.reRegister": "Re-register note",
+	"command.rewriteHistory": "Rewrite history",
+	"command.openSidecar": "Open sidecar notes",
+	"command.moveToSidecar": "Move answers to the sidecar",
+	"command.moveIntoNote": "Move answers into the note",
+	"command.openThreads": "Open threads",
+	"command.searchAnswers": "Search answers",
+	"command.exportFlashcards": "Export flashcards",
+	"command.cancelPending": "Cancel pending requests",
+	"command.pruneChains": "Prune chain data",
+	"command.quickAction": "Quick action: {name}",
+	// Quick action and language editors
+	"editor.cancel": "Cancel",
+	"editor.save": "Save",
+	"editor.cantSave": "Can't save: {problems}.",
+	"editor.editTitle": "Edit {name}",
+	"editor.name": "Name",
+	"quickAction.newTitle": "New quick action",
+	"quickAction.nameDesc": "Shown on the composer chip and in the command palette.",
+	"quickAction.icon": "Icon",
+	"quickAction.iconDesc": "An icon name from lucide.dev, such as lightbulb.",
+	"quickAction.prompt": "Prompt",
+	"quickAction.promptDesc": "What to do with the passage. Variables: {vars}.",
+	"quickAction.result": "Result",
+	"quickAction.resultDesc": "Add the answer as a new note under the paragraph, or rewrite the paragraph in place.",
+	"quickAction.resultCallout": "New note",
+	"quickAction.resultReplace": "Replace paragraph",
+	"quickAction.useSetting": "Use setting",
+	"quickAction.on": "On",
+	"quickAction.off": "Off",
+	"language.newTitle": "New language",
+	"language.tag": "Tag",
+	"language.tagDesc": "The language's tag, such as de, pt-br or zh-hant (any case).",
+	"language.nameDesc": "How prompts refer to it, so the model knows which language is meant.",
+	"language.nativeName": "Native name",
+	"language.nativeNameDesc": "Its name in the language itself, for menus. Leave empty to use the name above.",
+	"language.defaultQuestion": "Default question",
+	"language.defaultQuestionDesc": "What the composer asks when you submit without typing a question.",
+	"language.direction": "Writing direction",
+	"language.ltr": "Left to right",
+	"language.rtl": "Right to left",
+	"problem.nameEmpty": "the name is empty",
+	"problem.tagFormat": "the tag must look like de, pt-BR or zh-Hant",
+	"problem.defaultQuestionEmpty": "the default question is empty",
+	"problem.templateEmpty": "the template is empty",
+	"problem.promptEmpty": "the prompt is empty",
+	"problem.unknownVariable": "unknown variable {variable}",
+	"problem.unbalanced": "unbalanced {{ or }}",
+	// Panels and dialogs
+	"history.title": "Rewrite history",
+	"history.empty": "No rewrites recorded for this note.",
+	"history.removedNotes": "Removed notes",
+	"history.editedSince": "Edited since",
+	"history.duplicated": "Appears more than once",
+	"history.showDiff": "Show diff",
+	"history.hideDiff": "Hide diff",
+	"history.copyOriginal": "Copy original",
+	"history.copied": "Original copied.",
+	"history.copyFailed": "Couldn't copy to the clipboard.",
+	"history.restore": "Restore",
+	"history.cantRestore": "The rewritten paragraph has been edited since, or appears more than once. Copy the original instead.",
+	"history.restored": "Restored the paragraph.",
+	"history.restoredWithNotes": "Restored the paragraph and its notes.",
+	"sidecar.displayText": "coo notes",
+	"sidecar.showNotes": "Show coo notes",
+	"sidecar.openNote": "Open a note to see its coo notes.",
+	"sidecar.delete": "Delete",
+	"sidecar.wholeNote": "Whole note",
+	"sidecar.paragraphGone": "Paragraph no longer in the note",
+	"threads.displayText": "coo threads",
+	"threads.openNote": "Open a note to see its coo threads.",
+	"threads.collapseAll": "Collapse all",
+	"threads.expandAll": "Expand all",
+	"threads.untitled": "note",
+	"threads.minor": "Minor",
+	"threads.followUp": "Ask a follow-up",
+	"threads.askAgain": "Ask again",
+	"threads.delete": "Delete",
+	"search.title": "Search answers",
+	"search.placeholder": "Search questions and answers",
+	"search.fieldAll": "Questions and answers",
+	"search.fieldQuestion": "Questions",
+	"search.fieldAnswer": "Answers",
+	"search.minorAny": "Minor or not",
+	"search.minorOnly": "Only minor",
+	"search.minorExclude": "No minor",
+	"search.anyTime": "Any time",
+	"search.pastWeek": "Past week",
+	"search.pastMonth": "Past month",
+	"search.pastYear": "Past year",
+	"search.folder": "Folder",
+	"search.empty": "No matching answers.",
+	"search.minor": "Minor",
+	"search.untitled": "Untitled",
+	"flashcards.title": "Export flashcards",
+	"flashcards.scope": "Answers from",
+	"flashcards.scopeNote": "This note",
+	"flashcards.scopeFolder": "A folder",
+	"flashcards.scopeVault": "The whole vault",
+	"flashcards.folder": "Folder",
+	"flashcards.folderDesc": "Notes in this folder and its subfolders.",
+	"flashcards.includeMinor": "Include minor answers",
+	"flashcards.includeMinorDesc": "Short answers about skippable details, flagged minor.",
+	"flashcards.format": "Format",
+	"flashcards.formatCsv": "Anki (CSV)",
+	"flashcards.formatTsv": "Anki (TSV)",
+	"flashcards.formatSpacedRepetition": "Spaced Repetition plugin",
+	"flashcards.formatReviewNote": "Review note",
+	"flashcards.exportTo": "Export to",
+	"flashcards.exportToDesc": "A file in the vault; the extension follows the format. An existing file is kept and a numbered one written beside it.",
+	"flashcards.export": "Export",
+	"memory.title": "Translation memory",
+	"memory.placeholder": "Search texts and translations",
+	"memory.noMatches": "No matching translations.",
+	"memory.empty": "No remembered translations yet.",
+	"memory.remove": "Remove",
+} as const;
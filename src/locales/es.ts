@@ -0,0 +1,362 @@
+import type { Messages } from "../i18n";
+
+/** Spanish UI messages. */
+export const es: Messages = {
+	// Composer
+	"composer.title": "coo discutir",
+	"composer.wholeDocument": "Preguntando por todo el documento",
+	"composer.thisAnswer": "Preguntando por esta respuesta",
+	"composer.snapshot.unregistered": "La nota aún no está registrada — la primera pregunta la registra",
+	"composer.snapshot.fresh": "La copia de la nota está al día",
+	"composer.snapshot.changed": "Nota editada — esta pregunta envía primero los cambios",
+	"composer.snapshot.stale": "La nota cambió mucho — esta pregunta la vuelve a registrar",
+	"composer.snapshot.unknown": "Antigüedad de la copia desconocida — esta pregunta vuelve a registrar la nota",
+	"composer.rewriteMode": "Modo de reescritura",
+	"composer.shortenPercent": "Acortar en porcentaje",
+	"composer.tonePlaceholder": "Tono, por ejemplo formal",
+	"composer.instructionPlaceholder": "Instrucción de reescritura (opcional)",
+	"composer.rewrite": "Reescribir",
+	"composer.ask": "Preguntar",
+	"composer.cancel": "Cancelar",
+	"composer.addedToSidecar": "Nota añadida al archivo adjunto.",
+	"composer.added": "Nota añadida.",
+	"composer.noNotesYet": "Aún no hay notas. Haz una pregunta primero o elige otro modo de reescritura.",
+	"composer.rewritten": "Reescrito.",
+	"composer.archiveFailed": "No se pudo archivar el párrafo original, así que la reescritura no se aplicó: {error}",
+	"composer.sidecarRemoveFailed": "Reescrito, pero no se pudieron quitar las notas incorporadas del archivo adjunto: {error}",
+	"composer.actionNeedsParagraph": "{action} reescribe un párrafo — selecciona texto dentro de uno.",
+	"rewriteMode.integrate": "Integrar las notas",
+	"rewriteMode.simplify": "Simplificar",
+	"rewriteMode.shorten": "Acortar",
+	"rewriteMode.tone": "Cambiar el tono",
+	"rewriteMode.grammar": "Corregir la gramática",
+	"rewriteMode.voice": "Imitar el estilo de la nota",
+
+	// Rewrite preview
+	"preview.original": "Original",
+	"preview.rewrite": "Reescritura",
+	"preview.reject": "Rechazar",
+	"preview.regenerate": "Regenerar",
+	"preview.acceptKeepNotes": "Aceptar pero conservar las notas",
+	"preview.accept": "Aceptar",
+	"preview.noChanges": "La reescritura no cambia nada.",
+	"preview.summary": "{accepted} de {total} cambios aceptados — haz clic en un cambio para conservarlo o descartarlo.",
+
+	// Requests
+	"retry.rateLimited": "Límite de peticiones — reintentando en {seconds} s…",
+	"retry.network": "Error de red — reintentando en {seconds} s…",
+	"retry.server": "Error del servidor — reintentando en {seconds} s…",
+	"error.unexpected": "Se produjo un error inesperado.",
+	"error.dailyBudget": "Presupuesto diario alcanzado ({spent} de {budget}). Auméntalo en los ajustes de coo o vuelve a intentarlo mañana.",
+	"error.monthlyBudget": "Presupuesto mensual alcanzado ({spent} de {budget}). Auméntalo en los ajustes de coo.",
+	"error.noteBudget": "Presupuesto de esta nota alcanzado ({spent} de {budget}). Auméntalo en los ajustes de coo.",
+	"error.noApiKey": "No hay clave de API configurada. Configúrala en los ajustes de coo.",
+	"error.noModel": "No hay modelo configurado. Configúralo en los ajustes de coo.",
+	"error.network": "Error de red: {detail}",
+	"error.noText": "El asistente no devolvió ningún texto.",
+	"error.responseFailed": "La respuesta falló.",
+	"error.noStreaming": "Aquí no se admite la transmisión.",
+	"error.noRegistration": "Este proveedor no admite el registro de notas.",
+	"error.registrationFailed": "El registro falló: no se devolvió ningún id de respuesta.",
+	"error.snapshotFailed": "La actualización de la instantánea falló: no se devolvió ningún id de respuesta.",
+	"error.badRequest": "Solicitud incorrecta: {detail}",
+	"error.invalidApiKey": "Clave de API no válida. Revísala en los ajustes de coo.",
+	"error.keyRejected": "El servidor rechazó la clave de API. Revísala en los ajustes de coo.",
+	"error.permissionDenied": "Permiso denegado: {detail}",
+	"error.modelNotFound": "No encontrado: {detail}. Revisa el nombre del modelo en los ajustes de coo.",
+	"error.endpointNotFound": "No encontrado: {detail}. Revisa la URL base y el modelo en los ajustes de coo.",
+	"error.rateLimited": "{provider} ha limitado las solicitudes. Espera un momento y vuelve a intentarlo.",
+	"error.serverRateLimited": "El servidor ha limitado las solicitudes. Espera un momento y vuelve a intentarlo.",
+	"error.serviceError": "Error del servicio de {provider}. Vuelve a intentarlo más tarde.",
+	"error.overloaded": "Error o sobrecarga del servicio de {provider}. Vuelve a intentarlo más tarde.",
+	"error.modelServer": "El servidor del modelo devolvió un error. Vuelve a intentarlo más tarde.",
+	"error.apiStatus": "Error de la API de {provider} ({status}): {detail}",
+	"error.serverStatus": "Error del servidor ({status}): {detail}",
+	"error.ollamaNotFound": "Ollama: {detail}. Descarga primero el modelo o revisa su nombre en los ajustes de coo.",
+	"error.ollama": "Error de Ollama: {detail}",
+	"error.ollamaStatus": "Error de Ollama ({status}): {detail}",
+	"status.usage": "coo: {cost} hoy ({tokens} tokens)",
+
+	// Editor menu and notices
+	"menu.discuss": "coo discutir",
+	"menu.translate": "coo traducir",
+	"notice.openNote": "Abre una nota primero.",
+	"notice.emptyDocument": "El documento está vacío.",
+	"notice.selectParagraph": "Selecciona texto dentro de un párrafo.",
+	"notice.cancelled": "Peticiones pendientes canceladas.",
+	"notice.noPending": "No hay peticiones pendientes.",
+	"notice.noAnswersToExport": "No hay respuestas que exportar.",
+	"notice.exported": "Se exportaron {count} tarjetas a {path}.",
+	"notice.exportFailed": "No se pudieron exportar las tarjetas a {path}: {error}",
+	"notice.noCallouts": "Esta nota no tiene callouts de coo.",
+	"notice.movedToSidecarOne": "Se movió 1 respuesta al archivo adjunto.",
+	"notice.sidecarNoteChanged": "La nota cambió mientras se movían sus respuestas, así que no se movió nada. Vuelve a ejecutar el comando.",
+	"notice.movedToSidecar": "Se movieron {count} respuestas al archivo adjunto.",
+	"notice.noSidecarNotes": "Esta nota no tiene notas en el archivo adjunto.",
+	"notice.movedIntoNoteOne": "Se movió 1 respuesta a la nota.",
+	"notice.movedIntoNote": "Se movieron {count} respuestas a la nota.",
+	"notice.calloutMoved": "Ese callout cambió o se movió desde que se dibujó el panel, así que no se eliminó nada.",
+	"notice.localHistory": "El historial local envía la nota actual con cada pregunta — no hay nada que volver a registrar.",
+	"notice.reRegistering": "Volviendo a registrar la nota...",
+	"notice.reRegistered": "Nota registrada de nuevo.",
+	"notice.reRegisterFailed": "No se pudo volver a registrar la nota.",
+	"notice.templateProblems": "Problemas en las plantillas de prompts de coo:\n{problems}",
+	"notice.templateProblem": "{path}: {problems}. Se usa el prompt integrado de {name}.",
+	"notice.setTemplateFolder": "Configura primero una carpeta de plantillas de prompts.",
+	"notice.prunedOne": "Se eliminó 1 entrada de cadena.",
+	"notice.pruned": "Se eliminaron {count} entradas de cadena.",
+	"notice.saveFailed": "No se pudo guardar {file}: {error} Tus cambios se conservan y se guardarán con el próximo cambio.",
+	"notice.unloadSaveFailed": "No se pudo guardar {file} al cerrar coo: {error} Se perdieron sus últimos cambios.",
+	"notice.apiKey": "Configura tu clave de API de {provider} en los ajustes de coo.",
+	"notice.selectToTranslate": "Selecciona una palabra o frase para traducir.",
+	"notice.tooltipOneLine": "Una traducción en información emergente abarca una sola línea. Selecciona texto dentro de una línea.",
+	"notice.translating": "Traduciendo...",
+	"notice.translationFailed": "La traducción falló.",
+	"notice.selectionChanged": "La selección cambió durante la traducción; no se insertó nada.",
+	"notice.noHeadingSection": "Coloca el cursor bajo un encabezado para traducir su sección.",
+	"notice.nothingToTranslate": "Aquí no hay nada que traducir.",
+	"notice.noteTranslationProgress": "Traduciendo... {done} de {total} bloques",
+	"notice.noteTranslationResuming": "Reanudando: {done} de {total} bloques ya traducidos",
+	"notice.noteTranslationStopped": "La traducción se detuvo tras {done} de {total} bloques. Ejecuta el comando de nuevo para continuar donde se quedó.",
+	"notice.noteChanged": "La nota cambió durante la traducción, así que no se escribió nada. Ejecuta el comando de nuevo; los bloques ya traducidos se reutilizan.",
+	"notice.noteTranslated": "Nota traducida.",
+	"notice.translationWriteFailed": "No se pudo escribir la traducción en {path}: {error} Los bloques traducidos se conservan; vuelve a ejecutar el comando para reintentarlo.",
+
+	// Settings
+	"settings.provider": "Proveedor",
+	"settings.providerDesc": "Qué servicio responde a las peticiones. Solo OpenAI guarda las conversaciones en el servidor; los demás proveedores reenvían la nota con cada pregunta.",
+	"settings.providerCompatible": "Servidor compatible con OpenAI",
+	"settings.openAiApiKey": "Clave de API de OpenAI",
+	"settings.apiKey": "Clave de API",
+	"settings.apiKeyRequired": "Obligatoria. Tu clave se guarda localmente y nunca se comparte.",
+	"settings.apiKeyOptional": "Opcional para servidores locales. Se guarda localmente y nunca se comparte.",
+	"settings.conversationHistory": "Historial de conversación",
+	"settings.conversationHistoryDesc": "En el servidor, el proveedor guarda la conversación de cada nota. En local, se reconstruye a partir de las respuestas de la nota en cada pregunta y no se guarda nada — úsalo con cuentas sin retención de datos.",
+	"settings.serverSide": "En el servidor",
+	"settings.local": "Local",
+	"settings.baseUrl": "URL base",
+	"settings.baseUrlDesc": "Déjala vacía para usar el endpoint predeterminado del proveedor.",
+	"settings.model": "Modelo",
+	"settings.modelOpenAiDesc": "Qué modelo de OpenAI usar para las respuestas.",
+	"settings.modelDesc": "Nombre del modelo tal como lo espera el proveedor.",
+	"settings.reasoningEffort": "Esfuerzo de razonamiento",
+	"settings.reasoningEffortDesc": "Cuánto razona el modelo. Más es más lento pero más minucioso. Solo se aplica a las preguntas (reescribir y traducir siempre van sin él).",
+	"settings.effortNone": "Ninguno",
+	"settings.effortLow": "Bajo",
+	"settings.effortMedium": "Medio",
+	"settings.effortHigh": "Alto",
+	"settings.webSearch": "Búsqueda web",
+	"settings.webSearchDesc": "Permite al modelo buscar en la web al preguntar, para tener información actualizada.",
+	"settings.sources": "Fuentes",
+	"settings.sourcesDesc": "Cómo aparecen las fuentes de la búsqueda web en una respuesta: notas al pie numeradas, enlaces en línea u ocultas.",
+	"settings.sourcesFootnotes": "Notas al pie",
+	"settings.sourcesLinks": "Enlaces en línea",
+	"settings.sourcesHidden": "Ocultas",
+	"settings.answerStorage": "Almacenamiento de respuestas",
+	"settings.answerStorageDesc": "Escribe las respuestas en la nota como callouts, o guárdalas en un archivo adjunto que se muestra en el panel lateral para que la nota quede limpia. Usa los comandos de mover para convertir una nota.",
+	"settings.storageInline": "En la nota",
+	"settings.storageSidecar": "Archivo adjunto",
+	"settings.streamAnswers": "Respuestas en directo",
+	"settings.streamAnswersDesc": "Escribe las respuestas en la nota a medida que llegan en lugar de esperar a la respuesta completa.",
+	"settings.previewRewrites": "Previsualizar reescrituras",
+	"settings.previewRewritesDesc": "Muestra una reescritura como diferencias palabra a palabra para aceptarla, rechazarla o regenerarla antes de que sustituya al párrafo.",
+	"settings.maxAttempts": "Intentos máximos",
+	"settings.maxAttemptsDesc": "Cuántas veces intentar una llamada que alcanza el límite de peticiones o un error del servidor, incluido el primer intento.",
+	"settings.retryTimeout": "Tiempo límite de reintentos",
+	"settings.retryTimeoutDesc": "Deja de reintentar cuando hayan pasado estos segundos desde el primer intento. Una petición ya en curso no se interrumpe.",
+	"settings.responseLanguage": "Idioma de respuesta",
+	"settings.responseLanguageDesc": "Idioma principal de las respuestas de la IA y de la interfaz del plugin.",
+	"settings.translateLanguage": "Idioma de traducción",
+	"settings.translateLanguageDesc": "Idioma de destino de la acción de traducir.",
+	"settings.translateMode": "Estilo de traducción",
+	"settings.translateModeDesc": "Dónde pone la traducción el comando de traducir. Cada estilo tiene también su propio comando.",
+	"translateMode.inline": "Entre paréntesis tras la selección",
+	"translateMode.replace": "Sustituir la selección",
+	"translateMode.footnote": "Nota al pie",
+	"translateMode.ruby": "Anotación ruby (lecturas para chino y japonés)",
+	"translateMode.tooltip": "Información al pasar el ratón",
+	"translateMode.below": "Línea bajo el párrafo",
+	"settings.noteTranslationLayout": "Diseño de la traducción de notas",
+	"settings.noteTranslationLayoutDesc": "Cómo escriben la traducción los comandos de traducir la nota y traducir la sección del encabezado.",
+	"noteLayout.interleaved": "Cada bloque seguido de su traducción",
+	"noteLayout.columns": "Lado a lado en tablas de dos columnas",
+	"noteLayout.note": "Una nota nueva que enlaza con el original",
+	"noteTranslation.original": "Original",
+	"settings.glossary": "Glosario",
+	"settings.glossaryDesc": "Traducciones preferidas de términos, una por línea como \"término = traducción\". Empieza una línea con una etiqueta de idioma y dos puntos (\"ja: término = traducción\") para usarla solo con ese idioma. Los términos que aparecen en un pasaje se envían con cada traducción.",
+	"settings.glossaryNote": "Nota de glosario",
+	"settings.glossaryNoteDesc": "Una nota de la bóveda con más líneas de glosario en el mismo formato, para editar el glosario como cualquier nota. Sus entradas prevalecen sobre las de arriba.",
+	"settings.notePath": "Ruta de la nota",
+	"settings.translationMemory": "Memoria de traducción",
+	"settings.translationMemoryDesc": "Recuerda cada traducción y la reutiliza cuando el mismo texto se traduce de nuevo al mismo idioma, sin llamar al modelo. Explora para corregir o quitar traducciones recordadas.",
+	"settings.browse": "Explorar",
+	"settings.customLanguages": "Idiomas personalizados",
+	"settings.customLanguagesDesc": "Idiomas en los que responder y traducir además de los integrados. Uno con la etiqueta de un idioma integrado lo sustituye, por ejemplo para cambiar su pregunta predeterminada.",
+	"settings.addLanguage": "Añadir idioma",
+	"settings.quickActions": "Acciones rápidas",
+	"settings.quickActionsDesc": "Prompts de un clic que aparecen en el compositor. Cada uno es también un comando, así que admite un atajo de teclado.",
+	"settings.replacesParagraph": "Sustituye el párrafo",
+	"settings.addsNote": "Añade una nota",
+	"settings.restoreDefaults": "Restaurar valores predeterminados",
+	"settings.addQuickAction": "Añadir acción rápida",
+	"settings.edit": "Editar",
+	"settings.remove": "Quitar",
+	"settings.moveUp": "Subir",
+	"settings.promptTemplates": "Plantillas de prompts",
+	"settings.templateFolder": "Carpeta de plantillas",
+	"settings.templateFolderDesc": "Carpeta del vault con tus propios prompts de sistema, un archivo por acción. Si falta un archivo se usa el prompt integrado. Déjala vacía para usar siempre los prompts integrados.",
+	"settings.folderPath": "Ruta de la carpeta",
+	"settings.templatePrompt": "Prompt de {name}",
+	"settings.templateBuiltIn": "Se usa el prompt integrado.",
+	"settings.templateCustom": "Se usa {path}.",
+	"settings.templateInvalid": "{path} no se usa ({problems}); se usa el prompt integrado.",
+	"settings.templateVariables": "Variables: {variables}.",
+	"settings.openTemplate": "Abrir plantilla",
+	"promptAction.ask": "pregunta",
+	"promptAction.rewrite": "reescritura",
+	"promptAction.translate": "traducción",
+	"promptAction.register": "registro de notas",
+	"settings.resetTemplate": "Restablecer",
+	"settings.usage": "Uso",
+	"settings.spend": "Gasto",
+	"settings.loading": "Cargando...",
+	"settings.spendSummary": "Hoy: {today}. Este mes: {month}.",
+	"settings.usageLine": "{cost} · {calls} llamadas · {tokens} tokens",
+	"settings.usageLineUnpriced": "{cost} · {calls} llamadas ({unpriced} sin precio) · {tokens} tokens",
+	"settings.prices": "Precios",
+	"settings.pricesDesc": "Un modelo por línea como \"modelo = entrada, salida\", en dólares por millón de tokens. Las llamadas a un modelo sin precio se cuentan pero no se cobran.",
+	"settings.dailyBudget": "Presupuesto diario",
+	"settings.dailyBudgetDesc": "Detiene las llamadas cuando el gasto de hoy alcanza esta cantidad de dólares. 0 para no limitar.",
+	"settings.monthlyBudget": "Presupuesto mensual",
+	"settings.monthlyBudgetDesc": "Detiene las llamadas cuando el gasto de este mes alcanza esta cantidad de dólares. 0 para no limitar.",
+	"settings.noteBudget": "Presupuesto por nota",
+	"settings.noteBudgetDesc": "Detiene las preguntas y reescrituras de una nota cuando su gasto total alcanza esta cantidad de dólares. 0 para no limitar.",
+	// Commands
+	"command.discuss": "Discutir",
+	"command.translate": "Traducir",
+	"command.translateInline": "Traducir entre paréntesis",
+	"command.translateReplace": "Traducir y reemplazar la selección",
+	"command.translateFootnote": "Traducir como nota al pie",
+	"command.translateRuby": "Anotar con texto ruby",
+	"command.translateTooltip": "Traducir en una información emergente",
+	"command.translateBelow": "Traducir en una línea bajo el párrafo",
+	"command.translationMemory": "Memoria de traducción",
+	"command.translateNote": "Traducir nota",
+	"command.translateSection": "Traducir la sección del encabezado",
+	"command.reRegister": "Volver a registrar la nota",
+	"command.rewriteHistory": "Historial de reescrituras",
+	"command.openSidecar": "Abrir notas del archivo adjunto",
+	"command.moveToSidecar": "Mover respuestas al archivo adjunto",
+	"command.moveIntoNote": "Mover respuestas a la nota",
+	"command.openThreads": "Abrir hilos",
+	"command.searchAnswers": "Buscar respuestas",
+	"command.exportFlashcards": "Exportar tarjetas",
+	"command.cancelPending": "Cancelar solicitudes pendientes",
+	"command.pruneChains": "Limpiar datos de cadena",
+	"command.quickAction": "Acción rápida: {name}",
+	// Quick action and language editors
+	"editor.cancel": "Cancelar",
+	"editor.save": "Guardar",
+	"editor.cantSave": "No se puede guardar: {problems}.",
+	"editor.editTitle": "Editar {name}",
+	"editor.name": "Nombre",
+	"quickAction.newTitle": "Nueva acción rápida",
+	"quickAction.nameDesc": "Se muestra en el botón del compositor y en la paleta de comandos.",
+	"quickAction.icon": "Icono",
+	"quickAction.iconDesc": "Un nombre de icono de lucide.dev, como lightbulb.",
+	"quickAction.prompt": "Instrucción",
+	"quickAction.promptDesc": "Qué hacer con el pasaje. Variables: {vars}.",
+	"quickAction.result": "Resultado",
+	"quickAction.resultDesc": "Añadir la respuesta como nota nueva bajo el párrafo o reescribir el párrafo en su lugar.",
+	"quickAction.resultCallout": "Nota nueva",
+	"quickAction.resultReplace": "Reemplazar párrafo",
+	"quickAction.useSetting": "Usar el ajuste",
+	"quickAction.on": "Activada",
+	"quickAction.off": "Desactivada",
+	"language.newTitle": "Idioma nuevo",
+	"language.tag": "Etiqueta",
+	"language.tagDesc": "La etiqueta del idioma, como de, pt-br o zh-hant (mayúsculas o minúsculas).",
+	"language.nameDesc": "Cómo lo nombran las instrucciones, para que el modelo sepa qué idioma es.",
+	"language.nativeName": "Nombre nativo",
+	"language.nativeNameDesc": "Su nombre en el propio idioma, para los menús. Déjalo vacío para usar el nombre de arriba.",
+	"language.defaultQuestion": "Pregunta predeterminada",
+	"language.defaultQuestionDesc": "Lo que pregunta el compositor cuando envías sin escribir una pregunta.",
+	"language.direction": "Dirección de escritura",
+	"language.ltr": "De izquierda a derecha",
+	"language.rtl": "De derecha a izquierda",
+	"problem.nameEmpty": "el nombre está vacío",
+	"problem.tagFormat": "la etiqueta debe tener la forma de, pt-BR o zh-Hant",
+	"problem.defaultQuestionEmpty": "la pregunta predeterminada está vacía",
+	"problem.templateEmpty": "la plantilla está vacía",
+	"problem.promptEmpty": "el prompt está vacío",
+	"problem.unknownVariable": "variable desconocida {variable}",
+	"problem.unbalanced": "{{ o }} sin pareja",
+	// Panels and dialogs
+	"history.title": "Historial de reescrituras",
+	"history.empty": "No hay reescrituras registradas para esta nota.",
+	"history.removedNotes": "Notas quitadas",
+	"history.editedSince": "Editado desde entonces",
+	"history.duplicated": "Aparece más de una vez",
+	"history.showDiff": "Mostrar diferencias",
+	"history.hideDiff": "Ocultar diferencias",
+	"history.copyOriginal": "Copiar original",
+	"history.copied": "Original copiado.",
+	"history.copyFailed": "No se pudo copiar al portapapeles.",
+	"history.restore": "Restaurar",
+	"history.cantRestore": "El párrafo reescrito se ha editado desde entonces o aparece más de una vez. Copia el original en su lugar.",
+	"history.restored": "Párrafo restaurado.",
+	"history.restoredWithNotes": "Párrafo y sus notas restaurados.",
+	"sidecar.displayText": "Notas de coo",
+	"sidecar.showNotes": "Mostrar notas de coo",
+	"sidecar.openNote": "Abre una nota para ver sus notas de coo.",
+	"sidecar.delete": "Eliminar",
+	"sidecar.wholeNote": "Toda la nota",
+	"sidecar.paragraphGone": "El párrafo ya no está en la nota",
+	"threads.displayText": "Hilos de coo",
+	"threads.openNote": "Abre una nota para ver sus hilos de coo.",
+	"threads.collapseAll": "Contraer todo",
+	"threads.expandAll": "Expandir todo",
+	"threads.untitled": "nota",
+	"threads.minor": "Menor",
+	"threads.followUp": "Hacer una pregunta de seguimiento",
+	"threads.askAgain": "Volver a preguntar",
+	"threads.delete": "Eliminar",
+	"search.title": "Buscar respuestas",
+	"search.placeholder": "Buscar preguntas y respuestas",
+	"search.fieldAll": "Preguntas y respuestas",
+	"search.fieldQuestion": "Preguntas",
+	"search.fieldAnswer": "Respuestas",
+	"search.minorAny": "Menores o no",
+	"search.minorOnly": "Solo menores",
+	"search.minorExclude": "Sin menores",
+	"search.anyTime": "Cualquier fecha",
+	"search.pastWeek": "Última semana",
+	"search.pastMonth": "Último mes",
+	"search.pastYear": "Último año",
+	"search.folder": "Carpeta",
+	"search.empty": "No hay respuestas que coincidan.",
+	"search.minor": "Menor",
+	"search.untitled": "Sin título",
+	"flashcards.title": "Exportar tarjetas",
+	"flashcards.scope": "Respuestas de",
+	"flashcards.scopeNote": "Esta nota",
+	"flashcards.scopeFolder": "Una carpeta",
+	"flashcards.scopeVault": "Toda la bóveda",
+	"flashcards.folder": "Carpeta",
+	"flashcards.folderDesc": "Notas de esta carpeta y sus subcarpetas.",
+	"flashcards.includeMinor": "Incluir respuestas menores",
+	"flashcards.includeMinorDesc": "Respuestas breves sobre detalles prescindibles, marcadas como menores.",
+	"flashcards.format": "Formato",
+	"flashcards.formatCsv": "Anki (CSV)",
+	"flashcards.formatTsv": "Anki (TSV)",
+	"flashcards.formatSpacedRepetition": "Plugin Spaced Repetition",
+	"flashcards.formatReviewNote": "Nota de repaso",
+	"flashcards.exportTo": "Exportar a",
+	"flashcards.exportToDesc": "Un archivo de la bóveda; la extensión depende del formato. Si ya existe, se conserva y se escribe otro numerado a su lado.",
+	"flashcards.export": "Exportar",
+	"memory.title": "Memoria de traducción",
+	"memory.placeholder": "Buscar textos y traducciones",
+	"memory.noMatches": "No hay traducciones que coincidan.",
+	"memory.empty": "Aún no hay traducciones recordadas.",
+	"memory.remove": "Quitar",
+};
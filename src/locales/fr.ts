@@ -0,0 +1,362 @@
+import type { Messages } from "../i18n";
+
+/** French UI messages. */
+export const fr: Messages = {
+	// Composer
+	"composer.title": "coo discuter",
+	"composer.wholeDocument": "Question sur tout le document",
+	"composer.thisAnswer": "Question sur cette réponse",
+	"composer.snapshot.unregistered": "Note pas encore enregistrée — la première question l'enregistre",
+	"composer.snapshot.fresh": "La copie de la note est à jour",
+	"composer.snapshot.changed": "Note modifiée — cette question envoie d'abord les changements",
+	"composer.snapshot.stale": "La note a beaucoup changé — cette question la réenregistre",
+	"composer.snapshot.unknown": "Âge de la copie inconnu — cette question réenregistre la note",
+	"composer.rewriteMode": "Mode de réécriture",
+	"composer.shortenPercent": "Raccourcir de (pourcentage)",
+	"composer.tonePlaceholder": "Ton, par exemple soutenu",
+	"composer.instructionPlaceholder": "Consigne de réécriture (facultatif)",
+	"composer.rewrite": "Réécrire",
+	"composer.ask": "Demander",
+	"composer.cancel": "Annuler",
+	"composer.addedToSidecar": "Note ajoutée au fichier compagnon.",
+	"composer.added": "Note ajoutée.",
+	"composer.noNotesYet": "Pas encore de notes. Posez d'abord une question ou choisissez un autre mode de réécriture.",
+	"composer.rewritten": "Réécrit.",
+	"composer.archiveFailed": "Impossible d'archiver le paragraphe d'origine, la réécriture n'a donc pas été appliquée : {error}",
+	"composer.sidecarRemoveFailed": "Réécrit, mais les notes intégrées du fichier compagnon n'ont pas pu être supprimées : {error}",
+	"composer.actionNeedsParagraph": "{action} réécrit un paragraphe — sélectionnez du texte dans l'un d'eux.",
+	"rewriteMode.integrate": "Intégrer les notes",
+	"rewriteMode.simplify": "Simplifier",
+	"rewriteMode.shorten": "Raccourcir",
+	"rewriteMode.tone": "Changer de ton",
+	"rewriteMode.grammar": "Corriger la grammaire",
+	"rewriteMode.voice": "Imiter le style de la note",
+
+	// Rewrite preview
+	"preview.original": "Original",
+	"preview.rewrite": "Réécriture",
+	"preview.reject": "Refuser",
+	"preview.regenerate": "Régénérer",
+	"preview.acceptKeepNotes": "Accepter en gardant les notes",
+	"preview.accept": "Accepter",
+	"preview.noChanges": "La réécriture ne change rien.",
+	"preview.summary": "{accepted} changements acceptés sur {total} — cliquez sur un changement pour le garder ou l'abandonner.",
+
+	// Requests
+	"retry.rateLimited": "Limite de requêtes atteinte — nouvel essai dans {seconds} s…",
+	"retry.network": "Erreur réseau — nouvel essai dans {seconds} s…",
+	"retry.server": "Erreur du serveur — nouvel essai dans {seconds} s…",
+	"error.unexpected": "Une erreur inattendue s'est produite.",
+	"error.dailyBudget": "Budget quotidien atteint ({spent} sur {budget}). Augmentez-le dans les paramètres de coo ou réessayez demain.",
+	"error.monthlyBudget": "Budget mensuel atteint ({spent} sur {budget}). Augmentez-le dans les paramètres de coo.",
+	"error.noteBudget": "Budget de cette note atteint ({spent} sur {budget}). Augmentez-le dans les paramètres de coo.",
+	"error.noApiKey": "Clé d'API non configurée. Définissez-la dans les paramètres de coo.",
+	"error.noModel": "Modèle non configuré. Définissez-le dans les paramètres de coo.",
+	"error.network": "Erreur réseau : {detail}",
+	"error.noText": "L'assistant n'a renvoyé aucun texte.",
+	"error.responseFailed": "La réponse a échoué.",
+	"error.noStreaming": "Le streaming n'est pas pris en charge ici.",
+	"error.noRegistration": "Ce fournisseur ne prend pas en charge l'enregistrement des notes.",
+	"error.registrationFailed": "L'enregistrement a échoué : aucun identifiant de réponse renvoyé.",
+	"error.snapshotFailed": "La mise à jour de l'instantané a échoué : aucun identifiant de réponse renvoyé.",
+	"error.badRequest": "Requête incorrecte : {detail}",
+	"error.invalidApiKey": "Clé d'API invalide. Vérifiez-la dans les paramètres de coo.",
+	"error.keyRejected": "Le serveur a refusé la clé d'API. Vérifiez-la dans les paramètres de coo.",
+	"error.permissionDenied": "Autorisation refusée : {detail}",
+	"error.modelNotFound": "Introuvable : {detail}. Vérifiez le nom du modèle dans les paramètres de coo.",
+	"error.endpointNotFound": "Introuvable : {detail}. Vérifiez l'URL de base et le modèle dans les paramètres de coo.",
+	"error.rateLimited": "Limite de débit atteinte chez {provider}. Patientez un instant puis réessayez.",
+	"error.serverRateLimited": "Limite de débit atteinte sur le serveur. Patientez un instant puis réessayez.",
+	"error.serviceError": "Erreur du service {provider}. Réessayez plus tard.",
+	"error.overloaded": "Erreur ou surcharge du service {provider}. Réessayez plus tard.",
+	"error.modelServer": "Le serveur du modèle a renvoyé une erreur. Réessayez plus tard.",
+	"error.apiStatus": "Erreur de l'API {provider} ({status}) : {detail}",
+	"error.serverStatus": "Erreur du serveur ({status}) : {detail}",
+	"error.ollamaNotFound": "Ollama : {detail}. Téléchargez d'abord le modèle ou vérifiez son nom dans les paramètres de coo.",
+	"error.ollama": "Erreur Ollama : {detail}",
+	"error.ollamaStatus": "Erreur Ollama ({status}) : {detail}",
+	"status.usage": "coo : {cost} aujourd'hui ({tokens} jetons)",
+
+	// Editor menu and notices
+	"menu.discuss": "coo discuter",
+	"menu.translate": "coo traduire",
+	"notice.openNote": "Ouvrez d'abord une note.",
+	"notice.emptyDocument": "Le document est vide.",
+	"notice.selectParagraph": "Sélectionnez du texte dans un paragraphe.",
+	"notice.cancelled": "Requêtes en attente annulées.",
+	"notice.noPending": "Aucune requête en attente.",
+	"notice.noAnswersToExport": "Aucune réponse à exporter.",
+	"notice.exported": "{count} cartes exportées vers {path}.",
+	"notice.exportFailed": "Impossible d'exporter les cartes vers {path} : {error}",
+	"notice.noCallouts": "Aucun callout coo dans cette note.",
+	"notice.movedToSidecarOne": "1 réponse déplacée vers le fichier compagnon.",
+	"notice.sidecarNoteChanged": "La note a changé pendant le déplacement de ses réponses, rien n'a donc été déplacé. Relancez la commande.",
+	"notice.movedToSidecar": "{count} réponses déplacées vers le fichier compagnon.",
+	"notice.noSidecarNotes": "Aucune note dans le fichier compagnon de cette note.",
+	"notice.movedIntoNoteOne": "1 réponse déplacée dans la note.",
+	"notice.movedIntoNote": "{count} réponses déplacées dans la note.",
+	"notice.calloutMoved": "Ce callout a changé ou a été déplacé depuis l'affichage du panneau, rien n'a donc été supprimé.",
+	"notice.localHistory": "L'historique local envoie la note actuelle à chaque question — rien à réenregistrer.",
+	"notice.reRegistering": "Réenregistrement de la note...",
+	"notice.reRegistered": "Note réenregistrée.",
+	"notice.reRegisterFailed": "Échec du réenregistrement.",
+	"notice.templateProblems": "Problèmes dans les modèles de prompts coo :\n{problems}",
+	"notice.templateProblem": "{path} : {problems}. Le prompt intégré de {name} est utilisé.",
+	"notice.setTemplateFolder": "Définissez d'abord un dossier de modèles de prompts.",
+	"notice.prunedOne": "1 entrée de chaîne supprimée.",
+	"notice.pruned": "{count} entrées de chaîne supprimées.",
+	"notice.saveFailed": "Impossible d'enregistrer {file} : {error} Vos modifications sont conservées et seront enregistrées avec la prochaine.",
+	"notice.unloadSaveFailed": "Impossible d'enregistrer {file} à la fermeture de coo : {error} Ses dernières modifications sont perdues.",
+	"notice.apiKey": "Renseignez votre clé d'API {provider} dans les réglages de coo.",
+	"notice.selectToTranslate": "Sélectionnez un mot ou une expression à traduire.",
+	"notice.tooltipOneLine": "Une traduction en infobulle tient sur une seule ligne. Sélectionnez du texte dans une ligne.",
+	"notice.translating": "Traduction...",
+	"notice.translationFailed": "La traduction a échoué.",
+	"notice.selectionChanged": "La sélection a changé pendant la traduction ; rien n'a été inséré.",
+	"notice.noHeadingSection": "Placez le curseur sous un titre pour traduire sa section.",
+	"notice.nothingToTranslate": "Rien à traduire ici.",
+	"notice.noteTranslationProgress": "Traduction... {done} blocs sur {total}",
+	"notice.noteTranslationResuming": "Reprise : {done} blocs sur {total} déjà traduits",
+	"notice.noteTranslationStopped": "Traduction arrêtée après {done} blocs sur {total}. Relancez la commande pour reprendre là où elle s'est arrêtée.",
+	"notice.noteChanged": "La note a changé pendant la traduction ; rien n'a été écrit. Relancez la commande ; les blocs déjà traduits sont réutilisés.",
+	"notice.noteTranslated": "Note traduite.",
+	"notice.translationWriteFailed": "Impossible d'écrire la traduction dans {path} : {error} Les blocs traduits sont conservés ; relancez la commande pour réessayer.",
+
+	// Settings
+	"settings.provider": "Fournisseur",
+	"settings.providerDesc": "Le service qui répond aux requêtes. Seul OpenAI garde les conversations côté serveur ; les autres fournisseurs renvoient la note à chaque question.",
+	"settings.providerCompatible": "Serveur compatible OpenAI",
+	"settings.openAiApiKey": "Clé d'API OpenAI",
+	"settings.apiKey": "Clé d'API",
+	"settings.apiKeyRequired": "Obligatoire. Votre clé est stockée localement et n'est jamais partagée.",
+	"settings.apiKeyOptional": "Facultative pour les serveurs locaux. Stockée localement et jamais partagée.",
+	"settings.conversationHistory": "Historique de conversation",
+	"settings.conversationHistoryDesc": "Côté serveur, le fournisseur garde la conversation de chaque note. En local, elle est reconstruite à partir des réponses de la note à chaque question et rien n'est stocké — à utiliser pour les comptes sans rétention de données.",
+	"settings.serverSide": "Côté serveur",
+	"settings.local": "Local",
+	"settings.baseUrl": "URL de base",
+	"settings.baseUrlDesc": "Laissez vide pour utiliser le point d'accès par défaut du fournisseur.",
+	"settings.model": "Modèle",
+	"settings.modelOpenAiDesc": "Le modèle OpenAI à utiliser pour les réponses.",
+	"settings.modelDesc": "Nom du modèle tel que le fournisseur l'attend.",
+	"settings.reasoningEffort": "Effort de raisonnement",
+	"settings.reasoningEffortDesc": "Combien le modèle raisonne. Plus c'est élevé, plus c'est lent mais approfondi. Ne s'applique qu'aux questions (réécrire et traduire s'en passent toujours).",
+	"settings.effortNone": "Aucun",
+	"settings.effortLow": "Faible",
+	"settings.effortMedium": "Moyen",
+	"settings.effortHigh": "Élevé",
+	"settings.webSearch": "Recherche web",
+	"settings.webSearchDesc": "Autorise le modèle à chercher sur le web lors d'une question, pour des informations à jour.",
+	"settings.sources": "Sources",
+	"settings.sourcesDesc": "Comment les sources de la recherche web apparaissent dans une réponse : notes de bas de page numérotées, liens dans le texte ou masquées.",
+	"settings.sourcesFootnotes": "Notes de bas de page",
+	"settings.sourcesLinks": "Liens dans le texte",
+	"settings.sourcesHidden": "Masquées",
+	"settings.answerStorage": "Stockage des réponses",
+	"settings.answerStorageDesc": "Écrit les réponses dans la note sous forme de callouts, ou les garde dans un fichier compagnon affiché dans le panneau latéral pour que la note reste propre. Utilisez les commandes de déplacement pour convertir une note.",
+	"settings.storageInline": "Dans la note",
+	"settings.storageSidecar": "Fichier compagnon",
+	"settings.streamAnswers": "Réponses en continu",
+	"settings.streamAnswersDesc": "Écrit les réponses dans la note au fur et à mesure au lieu d'attendre la réponse complète.",
+	"settings.previewRewrites": "Aperçu des réécritures",
+	"settings.previewRewritesDesc": "Affiche une réécriture sous forme de différences mot à mot à accepter, refuser ou régénérer avant qu'elle ne remplace le paragraphe.",
+	"settings.maxAttempts": "Nombre maximal d'essais",
+	"settings.maxAttemptsDesc": "Combien de fois tenter un appel limité en débit ou en erreur serveur, premier essai compris.",
+	"settings.retryTimeout": "Délai maximal des nouveaux essais",
+	"settings.retryTimeoutDesc": "Arrête les nouveaux essais une fois ce nombre de secondes écoulé depuis le premier. Une requête déjà en cours n'est pas interrompue.",
+	"settings.responseLanguage": "Langue des réponses",
+	"settings.responseLanguageDesc": "Langue principale des réponses de l'IA et de l'interface du plugin.",
+	"settings.translateLanguage": "Langue de traduction",
+	"settings.translateLanguageDesc": "Langue cible de l'action de traduction.",
+	"settings.translateMode": "Style de traduction",
+	"settings.translateModeDesc": "Où la commande de traduction place la traduction. Chaque style a aussi sa propre commande.",
+	"translateMode.inline": "Entre parenthèses après la sélection",
+	"translateMode.replace": "Remplacer la sélection",
+	"translateMode.footnote": "Note de bas de page",
+	"translateMode.ruby": "Annotation ruby (lectures pour le chinois et le japonais)",
+	"translateMode.tooltip": "Info-bulle au survol",
+	"translateMode.below": "Ligne sous le paragraphe",
+	"settings.noteTranslationLayout": "Mise en page de la traduction de notes",
+	"settings.noteTranslationLayoutDesc": "Comment les commandes de traduction de la note et de la section du titre écrivent la traduction.",
+	"noteLayout.interleaved": "Chaque bloc suivi de sa traduction",
+	"noteLayout.columns": "Côte à côte dans des tableaux à deux colonnes",
+	"noteLayout.note": "Une nouvelle note avec un lien vers l'original",
+	"noteTranslation.original": "Original",
+	"settings.glossary": "Glossaire",
+	"settings.glossaryDesc": "Traductions préférées de termes, une par ligne sous la forme \"terme = traduction\". Commencez une ligne par une étiquette de langue et deux-points (\"ja: terme = traduction\") pour ne l'utiliser que pour cette langue. Les termes présents dans un passage sont envoyés avec chaque traduction.",
+	"settings.glossaryNote": "Note de glossaire",
+	"settings.glossaryNoteDesc": "Une note du coffre contenant d'autres lignes de glossaire au même format, pour modifier le glossaire comme n'importe quelle note. Ses entrées l'emportent sur celles ci-dessus.",
+	"settings.notePath": "Chemin de la note",
+	"settings.translationMemory": "Mémoire de traduction",
+	"settings.translationMemoryDesc": "Retient chaque traduction et la réutilise quand le même texte est de nouveau traduit dans la même langue, sans appeler le modèle. Parcourez-la pour corriger ou supprimer des traductions.",
+	"settings.browse": "Parcourir",
+	"settings.customLanguages": "Langues personnalisées",
+	"settings.customLanguagesDesc": "Langues de réponse et de traduction en plus des langues intégrées. Une langue avec l'étiquette d'une langue intégrée la remplace, par exemple pour changer sa question par défaut.",
+	"settings.addLanguage": "Ajouter une langue",
+	"settings.quickActions": "Actions rapides",
+	"settings.quickActionsDesc": "Prompts en un clic affichés dans le compositeur. Chacun est aussi une commande et peut donc recevoir un raccourci.",
+	"settings.replacesParagraph": "Remplace le paragraphe",
+	"settings.addsNote": "Ajoute une note",
+	"settings.restoreDefaults": "Rétablir les valeurs par défaut",
+	"settings.addQuickAction": "Ajouter une action rapide",
+	"settings.edit": "Modifier",
+	"settings.remove": "Supprimer",
+	"settings.moveUp": "Monter",
+	"settings.promptTemplates": "Modèles de prompts",
+	"settings.templateFolder": "Dossier des modèles",
+	"settings.templateFolderDesc": "Dossier du coffre contenant vos propres prompts système, un fichier par action. Un fichier manquant utilise le prompt intégré. Laissez vide pour toujours utiliser les prompts intégrés.",
+	"settings.folderPath": "Chemin du dossier",
+	"settings.templatePrompt": "Prompt {name}",
+	"settings.templateBuiltIn": "Le prompt intégré est utilisé.",
+	"settings.templateCustom": "{path} est utilisé.",
+	"settings.templateInvalid": "{path} n'est pas utilisé ({problems}) ; le prompt intégré est utilisé.",
+	"settings.templateVariables": "Variables : {variables}.",
+	"settings.openTemplate": "Ouvrir le modèle",
+	"promptAction.ask": "question",
+	"promptAction.rewrite": "réécriture",
+	"promptAction.translate": "traduction",
+	"promptAction.register": "enregistrement de note",
+	"settings.resetTemplate": "Réinitialiser",
+	"settings.usage": "Utilisation",
+	"settings.spend": "Dépenses",
+	"settings.loading": "Chargement...",
+	"settings.spendSummary": "Aujourd'hui : {today}. Ce mois-ci : {month}.",
+	"settings.usageLine": "{cost} · {calls} appels · {tokens} jetons",
+	"settings.usageLineUnpriced": "{cost} · {calls} appels ({unpriced} sans prix) · {tokens} jetons",
+	"settings.prices": "Prix",
+	"settings.pricesDesc": "Un modèle par ligne sous la forme \"modèle = entrée, sortie\", en dollars par million de jetons. Les appels à un modèle sans prix sont comptés mais pas chiffrés.",
+	"settings.dailyBudget": "Budget quotidien",
+	"settings.dailyBudgetDesc": "Arrête les appels quand les dépenses du jour atteignent ce montant en dollars. 0 pour aucune limite.",
+	"settings.monthlyBudget": "Budget mensuel",
+	"settings.monthlyBudgetDesc": "Arrête les appels quand les dépenses du mois atteignent ce montant en dollars. 0 pour aucune limite.",
+	"settings.noteBudget": "Budget par note",
+	"settings.noteBudgetDesc": "Arrête les questions et réécritures sur une note quand ses dépenses totales atteignent ce montant en dollars. 0 pour aucune limite.",
+	// Commands
+	"command.discuss": "Discuter",
+	"command.translate": "Traduire",
+	"command.translateInline": "Traduire entre parenthèses",
+	"command.translateReplace": "Traduire et remplacer la sélection",
+	"command.translateFootnote": "Traduire en note de bas de page",
+	"command.translateRuby": "Annoter avec du texte ruby",
+	"command.translateTooltip": "Traduire dans une infobulle",
+	"command.translateBelow": "Traduire sur une ligne sous le paragraphe",
+	"command.translationMemory": "Mémoire de traduction",
+	"command.translateNote": "Traduire la note",
+	"command.translateSection": "Traduire la section du titre",
+	"command.reRegister": "Réenregistrer la note",
+	"command.rewriteHistory": "Historique des réécritures",
+	"command.openSidecar": "Ouvrir les notes du fichier compagnon",
+	"command.moveToSidecar": "Déplacer les réponses vers le fichier compagnon",
+	"command.moveIntoNote": "Déplacer les réponses dans la note",
+	"command.openThreads": "Ouvrir les fils",
+	"command.searchAnswers": "Rechercher dans les réponses",
+	"command.exportFlashcards": "Exporter des cartes",
+	"command.cancelPending": "Annuler les requêtes en attente",
+	"command.pruneChains": "Élaguer les données de chaîne",
+	"command.quickAction": "Action rapide : {name}",
+	// Quick action and language editors
+	"editor.cancel": "Annuler",
+	"editor.save": "Enregistrer",
+	"editor.cantSave": "Enregistrement impossible : {problems}.",
+	"editor.editTitle": "Modifier {name}",
+	"editor.name": "Nom",
+	"quickAction.newTitle": "Nouvelle action rapide",
+	"quickAction.nameDesc": "Affiché sur la puce du compositeur et dans la palette de commandes.",
+	"quickAction.icon": "Icône",
+	"quickAction.iconDesc": "Un nom d'icône de lucide.dev, comme lightbulb.",
+	"quickAction.prompt": "Consigne",
+	"quickAction.promptDesc": "Que faire du passage. Variables : {vars}.",
+	"quickAction.result": "Résultat",
+	"quickAction.resultDesc": "Ajouter la réponse comme nouvelle note sous le paragraphe, ou réécrire le paragraphe sur place.",
+	"quickAction.resultCallout": "Nouvelle note",
+	"quickAction.resultReplace": "Remplacer le paragraphe",
+	"quickAction.useSetting": "Utiliser le réglage",
+	"quickAction.on": "Activée",
+	"quickAction.off": "Désactivée",
+	"language.newTitle": "Nouvelle langue",
+	"language.tag": "Étiquette",
+	"language.tagDesc": "L'étiquette de la langue, comme de, pt-br ou zh-hant (casse indifférente).",
+	"language.nameDesc": "Comment les consignes la désignent, pour que le modèle sache de quelle langue il s'agit.",
+	"language.nativeName": "Nom natif",
+	"language.nativeNameDesc": "Son nom dans la langue elle-même, pour les menus. Laissez vide pour utiliser le nom ci-dessus.",
+	"language.defaultQuestion": "Question par défaut",
+	"language.defaultQuestionDesc": "Ce que demande le compositeur quand vous envoyez sans saisir de question.",
+	"language.direction": "Sens d'écriture",
+	"language.ltr": "De gauche à droite",
+	"language.rtl": "De droite à gauche",
+	"problem.nameEmpty": "le nom est vide",
+	"problem.tagFormat": "la balise doit ressembler à de, pt-BR ou zh-Hant",
+	"problem.defaultQuestionEmpty": "la question par défaut est vide",
+	"problem.templateEmpty": "le modèle est vide",
+	"problem.promptEmpty": "le prompt est vide",
+	"problem.unknownVariable": "variable inconnue {variable}",
+	"problem.unbalanced": "{{ ou }} non appariés",
+	// Panels and dialogs
+	"history.title": "Historique des réécritures",
+	"history.empty": "Aucune réécriture enregistrée pour cette note.",
+	"history.removedNotes": "Notes supprimées",
+	"history.editedSince": "Modifié depuis",
+	"history.duplicated": "Apparaît plusieurs fois",
+	"history.showDiff": "Afficher les différences",
+	"history.hideDiff": "Masquer les différences",
+	"history.copyOriginal": "Copier l'original",
+	"history.copied": "Original copié.",
+	"history.copyFailed": "Impossible de copier dans le presse-papiers.",
+	"history.restore": "Restaurer",
+	"history.cantRestore": "Le paragraphe réécrit a été modifié depuis ou apparaît plusieurs fois. Copiez plutôt l'original.",
+	"history.restored": "Paragraphe restauré.",
+	"history.restoredWithNotes": "Paragraphe et ses notes restaurés.",
+	"sidecar.displayText": "Notes coo",
+	"sidecar.showNotes": "Afficher les notes coo",
+	"sidecar.openNote": "Ouvrez une note pour voir ses notes coo.",
+	"sidecar.delete": "Supprimer",
+	"sidecar.wholeNote": "Note entière",
+	"sidecar.paragraphGone": "Paragraphe absent de la note",
+	"threads.displayText": "Fils coo",
+	"threads.openNote": "Ouvrez une note pour voir ses fils coo.",
+	"threads.collapseAll": "Tout replier",
+	"threads.expandAll": "Tout déplier",
+	"threads.untitled": "note",
+	"threads.minor": "Mineur",
+	"threads.followUp": "Poser une question de suivi",
+	"threads.askAgain": "Redemander",
+	"threads.delete": "Supprimer",
+	"search.title": "Rechercher dans les réponses",
+	"search.placeholder": "Rechercher des questions et réponses",
+	"search.fieldAll": "Questions et réponses",
+	"search.fieldQuestion": "Questions",
+	"search.fieldAnswer": "Réponses",
+	"search.minorAny": "Mineures ou non",
+	"search.minorOnly": "Mineures uniquement",
+	"search.minorExclude": "Sans les mineures",
+	"search.anyTime": "N'importe quand",
+	"search.pastWeek": "Semaine passée",
+	"search.pastMonth": "Mois passé",
+	"search.pastYear": "Année passée",
+	"search.folder": "Dossier",
+	"search.empty": "Aucune réponse correspondante.",
+	"search.minor": "Mineur",
+	"search.untitled": "Sans titre",
+	"flashcards.title": "Exporter des cartes",
+	"flashcards.scope": "Réponses de",
+	"flashcards.scopeNote": "Cette note",
+	"flashcards.scopeFolder": "Un dossier",
+	"flashcards.scopeVault": "Tout le coffre",
+	"flashcards.folder": "Dossier",
+	"flashcards.folderDesc": "Notes de ce dossier et de ses sous-dossiers.",
+	"flashcards.includeMinor": "Inclure les réponses mineures",
+	"flashcards.includeMinorDesc": "Réponses courtes sur des détails secondaires, marquées mineures.",
+	"flashcards.format": "Format",
+	"flashcards.formatCsv": "Anki (CSV)",
+	"flashcards.formatTsv": "Anki (TSV)",
+	"flashcards.formatSpacedRepetition": "Plugin Spaced Repetition",
+	"flashcards.formatReviewNote": "Note de révision",
+	"flashcards.exportTo": "Exporter vers",
+	"flashcards.exportToDesc": "Un fichier du coffre ; l'extension suit le format. Un fichier existant est conservé et un fichier numéroté est écrit à côté.",
+	"flashcards.export": "Exporter",
+	"memory.title": "Mémoire de traduction",
+	"memory.placeholder": "Rechercher des textes et traductions",
+	"memory.noMatches": "Aucune traduction correspondante.",
+	"memory.empty": "Aucune traduction mémorisée pour l'instant.",
+	"memory.remove": "Supprimer",
+};
@@ -0,0 +1,362 @@
+import type { Messages } from "../i18n";
+
+/** Japanese UI messages. */
+export const ja: Messages = {
+	// Composer
+	"composer.title": "coo ディスカッション",
+	"composer.wholeDocument": "ドキュメント全体について質問",
+	"composer.thisAnswer": "この回答について質問",
+	"composer.snapshot.unregistered": "ノートは未登録です — 最初の質問で登録されます",
+	"composer.snapshot.fresh": "ノートのスナップショットは最新です",
+	"composer.snapshot.changed": "ノートが編集されました — この質問で先に変更を送信します",
+	"composer.snapshot.stale": "ノートが大きく変わりました — この質問で再登録します",
+	"composer.snapshot.unknown": "スナップショットの状態が不明です — この質問でノートを再登録します",
+	"composer.rewriteMode": "書き換えモード",
+	"composer.shortenPercent": "短縮率（%）",
+	"composer.tonePlaceholder": "トーン（例: フォーマル）",
+	"composer.instructionPlaceholder": "書き換えの指示（任意）",
+	"composer.rewrite": "書き換え",
+	"composer.ask": "質問",
+	"composer.cancel": "キャンセル",
+	"composer.addedToSidecar": "サイドカーにノートを追加しました。",
+	"composer.added": "ノートを追加しました。",
+	"composer.noNotesYet": "まだノートがありません。先に質問するか、別の書き換えモードを選んでください。",
+	"composer.rewritten": "書き換えました。",
+	"composer.archiveFailed": "元の段落を保存できなかったため、書き換えは適用されませんでした: {error}",
+	"composer.sidecarRemoveFailed": "書き換えましたが、取り込んだサイドカーのメモを削除できませんでした: {error}",
+	"composer.actionNeedsParagraph": "{action} は段落を書き換えます — 段落内のテキストを選択してください。",
+	"rewriteMode.integrate": "ノートを取り込む",
+	"rewriteMode.simplify": "簡潔にする",
+	"rewriteMode.shorten": "短くする",
+	"rewriteMode.tone": "トーンを変える",
+	"rewriteMode.grammar": "文法を直す",
+	"rewriteMode.voice": "ノートの文体に合わせる",
+
+	// Rewrite preview
+	"preview.original": "元の文",
+	"preview.rewrite": "書き換え後",
+	"preview.reject": "却下",
+	"preview.regenerate": "再生成",
+	"preview.acceptKeepNotes": "採用してノートを残す",
+	"preview.accept": "採用",
+	"preview.noChanges": "書き換えによる変更はありません。",
+	"preview.summary": "{total} 件中 {accepted} 件の変更を採用 — 変更をクリックすると残すか外すかを切り替えます。",
+
+	// Requests
+	"retry.rateLimited": "レート制限 — {seconds} 秒後に再試行します…",
+	"retry.network": "ネットワークエラー — {seconds} 秒後に再試行します…",
+	"retry.server": "サーバーエラー — {seconds} 秒後に再試行します…",
+	"error.unexpected": "予期しないエラーが発生しました。",
+	"error.dailyBudget": "1 日の予算に達しました（{budget} 中 {spent}）。coo の設定で引き上げるか、明日もう一度お試しください。",
+	"error.monthlyBudget": "月の予算に達しました（{budget} 中 {spent}）。coo の設定で引き上げてください。",
+	"error.noteBudget": "このノートの予算に達しました（{budget} 中 {spent}）。coo の設定で引き上げてください。",
+	"error.noApiKey": "API キーが設定されていません。coo の設定で設定してください。",
+	"error.noModel": "モデルが設定されていません。coo の設定で設定してください。",
+	"error.network": "ネットワークエラー: {detail}",
+	"error.noText": "アシスタントからテキストが返されませんでした。",
+	"error.responseFailed": "応答に失敗しました。",
+	"error.noStreaming": "ここではストリーミングに対応していません。",
+	"error.noRegistration": "このプロバイダーはノートの登録に対応していません。",
+	"error.registrationFailed": "登録に失敗しました: 応答 ID が返されませんでした。",
+	"error.snapshotFailed": "スナップショットの更新に失敗しました: 応答 ID が返されませんでした。",
+	"error.badRequest": "不正なリクエスト: {detail}",
+	"error.invalidApiKey": "API キーが無効です。coo の設定でキーを確認してください。",
+	"error.keyRejected": "サーバーが API キーを拒否しました。coo の設定でキーを確認してください。",
+	"error.permissionDenied": "権限がありません: {detail}",
+	"error.modelNotFound": "見つかりません: {detail}。coo の設定でモデル名を確認してください。",
+	"error.endpointNotFound": "見つかりません: {detail}。coo の設定でベース URL とモデルを確認してください。",
+	"error.rateLimited": "{provider} によりレート制限されました。しばらく待ってからもう一度お試しください。",
+	"error.serverRateLimited": "サーバーによりレート制限されました。しばらく待ってからもう一度お試しください。",
+	"error.serviceError": "{provider} のサービスエラーです。後でもう一度お試しください。",
+	"error.overloaded": "{provider} のサービスエラーまたは過負荷です。後でもう一度お試しください。",
+	"error.modelServer": "モデルサーバーがエラーを返しました。後でもう一度お試しください。",
+	"error.apiStatus": "{provider} API エラー（{status}）: {detail}",
+	"error.serverStatus": "サーバーエラー（{status}）: {detail}",
+	"error.ollamaNotFound": "Ollama: {detail}。先にモデルを取得するか、coo の設定でモデル名を確認してください。",
+	"error.ollama": "Ollama エラー: {detail}",
+	"error.ollamaStatus": "Ollama エラー（{status}）: {detail}",
+	"status.usage": "coo: 今日 {cost}（{tokens} トークン）",
+
+	// Editor menu and notices
+	"menu.discuss": "coo ディスカッション",
+	"menu.translate": "coo 翻訳",
+	"notice.openNote": "先にノートを開いてください。",
+	"notice.emptyDocument": "ドキュメントが空です。",
+	"notice.selectParagraph": "段落内のテキストを選択してください。",
+	"notice.cancelled": "保留中のリクエストをキャンセルしました。",
+	"notice.noPending": "保留中のリクエストはありません。",
+	"notice.noAnswersToExport": "書き出す回答がありません。",
+	"notice.exported": "{count} 枚のフラッシュカードを {path} に書き出しました。",
+	"notice.exportFailed": "フラッシュカードを {path} に書き出せませんでした: {error}",
+	"notice.noCallouts": "このノートには coo のコールアウトがありません。",
+	"notice.movedToSidecarOne": "1 件の回答をサイドカーに移動しました。",
+	"notice.sidecarNoteChanged": "回答の移動中にノートが変更されたため、何も移動していません。もう一度コマンドを実行してください。",
+	"notice.movedToSidecar": "{count} 件の回答をサイドカーに移動しました。",
+	"notice.noSidecarNotes": "このノートのサイドカーにはノートがありません。",
+	"notice.movedIntoNoteOne": "1 件の回答をノートに移動しました。",
+	"notice.movedIntoNote": "{count} 件の回答をノートに移動しました。",
+	"notice.calloutMoved": "パネルの表示後にこのコールアウトが変更または移動されたため、何も削除していません。",
+	"notice.localHistory": "ローカル履歴では質問のたびに現在のノートを送信するため、再登録は不要です。",
+	"notice.reRegistering": "ノートを再登録しています...",
+	"notice.reRegistered": "ノートを再登録しました。",
+	"notice.reRegisterFailed": "再登録に失敗しました。",
+	"notice.templateProblems": "coo のプロンプトテンプレートに問題があります:\n{problems}",
+	"notice.templateProblem": "{path}: {problems}。{name} の組み込みプロンプトを使用します。",
+	"notice.setTemplateFolder": "先にプロンプトテンプレートのフォルダーを設定してください。",
+	"notice.prunedOne": "チェーンのエントリーを 1 件削除しました。",
+	"notice.pruned": "チェーンのエントリーを {count} 件削除しました。",
+	"notice.saveFailed": "{file} を保存できませんでした: {error} 変更は保持され、次の変更とともに保存されます。",
+	"notice.unloadSaveFailed": "coo の終了時に {file} を保存できませんでした: {error} 最近の変更は失われました。",
+	"notice.apiKey": "coo の設定で {provider} の API キーを設定してください。",
+	"notice.selectToTranslate": "翻訳する単語やフレーズを選択してください。",
+	"notice.tooltipOneLine": "ツールチップの翻訳は 1 行までです。1 行の中でテキストを選択してください。",
+	"notice.translating": "翻訳しています...",
+	"notice.translationFailed": "翻訳に失敗しました。",
+	"notice.selectionChanged": "翻訳中に選択範囲が変わったため、何も挿入しませんでした。",
+	"notice.noHeadingSection": "見出しの下にカーソルを置くと、そのセクションを翻訳します。",
+	"notice.nothingToTranslate": "翻訳するものがありません。",
+	"notice.noteTranslationProgress": "翻訳しています... {total} ブロック中 {done}",
+	"notice.noteTranslationResuming": "再開: {total} ブロック中 {done} は翻訳済みです",
+	"notice.noteTranslationStopped": "{total} ブロック中 {done} で翻訳を中断しました。もう一度コマンドを実行すると続きから再開します。",
+	"notice.noteChanged": "翻訳中にノートが変更されたため、何も書き込みませんでした。もう一度コマンドを実行してください。翻訳済みのブロックは再利用されます。",
+	"notice.noteTranslated": "ノートを翻訳しました。",
+	"notice.translationWriteFailed": "翻訳を {path} に書き込めませんでした: {error} 翻訳済みのブロックは保持されています。もう一度コマンドを実行してください。",
+
+	// Settings
+	"settings.provider": "プロバイダー",
+	"settings.providerDesc": "リクエストに応答するサービス。会話をサーバー側に保持するのは OpenAI だけで、他のプロバイダーは質問のたびにノートを再送信します。",
+	"settings.providerCompatible": "OpenAI 互換サーバー",
+	"settings.openAiApiKey": "OpenAI API キー",
+	"settings.apiKey": "API キー",
+	"settings.apiKeyRequired": "必須。キーはローカルに保存され、共有されることはありません。",
+	"settings.apiKeyOptional": "ローカルサーバーでは任意。ローカルに保存され、共有されることはありません。",
+	"settings.conversationHistory": "会話履歴",
+	"settings.conversationHistoryDesc": "サーバー側では、プロバイダーが各ノートの会話を保持します。ローカルでは質問のたびにノートの回答から会話を組み立て、何も保存しません — データ保持ゼロのアカウント向けです。",
+	"settings.serverSide": "サーバー側",
+	"settings.local": "ローカル",
+	"settings.baseUrl": "ベース URL",
+	"settings.baseUrlDesc": "空欄にするとプロバイダーの既定のエンドポイントを使います。",
+	"settings.model": "モデル",
+	"settings.modelOpenAiDesc": "応答に使う OpenAI のモデル。",
+	"settings.modelDesc": "プロバイダーが想定するモデル名。",
+	"settings.reasoningEffort": "推論の度合い",
+	"settings.reasoningEffortDesc": "モデルがどれだけ推論するか。高いほど遅くなりますが丁寧になります。質問にのみ適用されます（書き換えと翻訳では常に使いません）。",
+	"settings.effortNone": "なし",
+	"settings.effortLow": "低",
+	"settings.effortMedium": "中",
+	"settings.effortHigh": "高",
+	"settings.webSearch": "ウェブ検索",
+	"settings.webSearchDesc": "質問時にモデルがウェブを検索し、最新の情報を使えるようにします。",
+	"settings.sources": "出典",
+	"settings.sourcesDesc": "ウェブ検索の出典を回答にどう表示するか: 番号付き脚注、インラインリンク、または非表示。",
+	"settings.sourcesFootnotes": "脚注",
+	"settings.sourcesLinks": "インラインリンク",
+	"settings.sourcesHidden": "非表示",
+	"settings.answerStorage": "回答の保存先",
+	"settings.answerStorageDesc": "回答をコールアウトとしてノートに書き込むか、サイドパネルに表示するサイドカーに保存してノートをきれいに保ちます。ノートを切り替えるには移動コマンドを使います。",
+	"settings.storageInline": "ノート内",
+	"settings.storageSidecar": "サイドカー",
+	"settings.streamAnswers": "回答をストリーミング",
+	"settings.streamAnswersDesc": "回答全体を待たずに、届いた順にノートへ書き込みます。",
+	"settings.previewRewrites": "書き換えをプレビュー",
+	"settings.previewRewritesDesc": "段落を置き換える前に、書き換えを単語単位の差分で表示し、採用・却下・再生成を選べるようにします。",
+	"settings.maxAttempts": "最大試行回数",
+	"settings.maxAttemptsDesc": "レート制限やサーバーエラーになった呼び出しを、最初の試行を含めて何回試すか。",
+	"settings.retryTimeout": "再試行の制限時間",
+	"settings.retryTimeoutDesc": "最初の試行からこの秒数が経過したら再試行をやめます。実行中のリクエストは打ち切りません。",
+	"settings.responseLanguage": "応答言語",
+	"settings.responseLanguageDesc": "AI の応答とプラグインの画面に使う主な言語。",
+	"settings.translateLanguage": "翻訳言語",
+	"settings.translateLanguageDesc": "翻訳アクションの翻訳先の言語。",
+	"settings.translateMode": "翻訳のスタイル",
+	"settings.translateModeDesc": "翻訳コマンドが訳文を置く場所。スタイルごとに専用のコマンドもあります。",
+	"translateMode.inline": "選択範囲の後ろに括弧で",
+	"translateMode.replace": "選択範囲を置き換える",
+	"translateMode.footnote": "脚注",
+	"translateMode.ruby": "ルビ（中国語と日本語は読み）",
+	"translateMode.tooltip": "ホバーで表示するツールチップ",
+	"translateMode.below": "段落の下の行",
+	"settings.noteTranslationLayout": "ノート翻訳のレイアウト",
+	"settings.noteTranslationLayoutDesc": "ノートの翻訳コマンドと見出しセクションの翻訳コマンドが訳文を書き込む形式。",
+	"noteLayout.interleaved": "各ブロックの後に訳文",
+	"noteLayout.columns": "2 列の表で左右に並べる",
+	"noteLayout.note": "元のノートにリンクする新しいノート",
+	"noteTranslation.original": "原文",
+	"settings.glossary": "用語集",
+	"settings.glossaryDesc": "用語の優先訳。1 行に 1 つ \"用語 = 訳\" の形式で書きます。行の先頭に言語タグとコロンを付けると（\"ja: 用語 = 訳\"）、その言語にだけ使います。文章に含まれる用語が翻訳のたびに送信されます。",
+	"settings.glossaryNote": "用語集ノート",
+	"settings.glossaryNoteDesc": "同じ形式の用語集の行をさらに書いた保管庫内のノート。用語集を普通のノートと同じように編集できます。上の項目より優先されます。",
+	"settings.notePath": "ノートのパス",
+	"settings.translationMemory": "翻訳メモリ",
+	"settings.translationMemoryDesc": "翻訳を記憶し、同じテキストを同じ言語にもう一度翻訳するときはモデルを呼ばずに再利用します。一覧から記憶した訳を修正・削除できます。",
+	"settings.browse": "一覧",
+	"settings.customLanguages": "カスタム言語",
+	"settings.customLanguagesDesc": "組み込みの言語に加えて、回答や翻訳に使う言語。組み込み言語と同じタグの言語はそれを置き換えます（既定の質問を変える場合など）。",
+	"settings.addLanguage": "言語を追加",
+	"settings.quickActions": "クイックアクション",
+	"settings.quickActionsDesc": "コンポーザーに表示されるワンクリックのプロンプト。それぞれコマンドでもあるため、ホットキーを割り当てられます。",
+	"settings.replacesParagraph": "段落を置き換える",
+	"settings.addsNote": "ノートを追加する",
+	"settings.restoreDefaults": "既定に戻す",
+	"settings.addQuickAction": "クイックアクションを追加",
+	"settings.edit": "編集",
+	"settings.remove": "削除",
+	"settings.moveUp": "上へ移動",
+	"settings.promptTemplates": "プロンプトテンプレート",
+	"settings.templateFolder": "テンプレートフォルダー",
+	"settings.templateFolderDesc": "独自のシステムプロンプトを置く保管庫内のフォルダー（アクションごとに 1 ファイル）。ファイルがなければ組み込みプロンプトを使います。空欄にすると常に組み込みプロンプトを使います。",
+	"settings.folderPath": "フォルダーのパス",
+	"settings.templatePrompt": "{name} プロンプト",
+	"settings.templateBuiltIn": "組み込みプロンプトを使用中。",
+	"settings.templateCustom": "{path} を使用中。",
+	"settings.templateInvalid": "{path} は使われていません（{problems}）。組み込みプロンプトを使用中。",
+	"settings.templateVariables": "変数: {variables}。",
+	"settings.openTemplate": "テンプレートを開く",
+	"promptAction.ask": "質問",
+	"promptAction.rewrite": "書き換え",
+	"promptAction.translate": "翻訳",
+	"promptAction.register": "ノート登録",
+	"settings.resetTemplate": "既定に戻す",
+	"settings.usage": "使用量",
+	"settings.spend": "支出",
+	"settings.loading": "読み込み中...",
+	"settings.spendSummary": "今日: {today}。今月: {month}。",
+	"settings.usageLine": "{cost} · {calls} 回の呼び出し · {tokens} トークン",
+	"settings.usageLineUnpriced": "{cost} · {calls} 回の呼び出し（価格未設定 {unpriced} 回）· {tokens} トークン",
+	"settings.prices": "価格",
+	"settings.pricesDesc": "1 行に 1 モデルを \"モデル = 入力, 出力\" の形式で、100 万トークンあたりのドルで記入します。価格のないモデルの呼び出しは回数だけ数えます。",
+	"settings.dailyBudget": "1 日の予算",
+	"settings.dailyBudgetDesc": "今日の支出がこのドル額に達したら呼び出しを止めます。0 で無制限。",
+	"settings.monthlyBudget": "月の予算",
+	"settings.monthlyBudgetDesc": "今月の支出がこのドル額に達したら呼び出しを止めます。0 で無制限。",
+	"settings.noteBudget": "ノートごとの予算",
+	"settings.noteBudgetDesc": "ノートの支出合計がこのドル額に達したら、そのノートでの質問と書き換えを止めます。0 で無制限。",
+	// Commands
+	"command.discuss": "ディスカッション",
+	"command.translate": "翻訳",
+	"command.translateInline": "括弧内に翻訳",
+	"command.translateReplace": "翻訳して選択範囲を置き換え",
+	"command.translateFootnote": "脚注として翻訳",
+	"command.translateRuby": "ルビを付ける",
+	"command.translateTooltip": "ホバー時のツールチップに翻訳",
+	"command.translateBelow": "段落の下の行に翻訳",
+	"command.translationMemory": "翻訳メモリ",
+	"command.translateNote": "ノートを翻訳",
+	"command.translateSection": "見出しのセクションを翻訳",
+	"command.reRegister": "ノートを再登録",
+	"command.rewriteHistory": "書き換え履歴",
+	"command.openSidecar": "サイドカーのノートを開く",
+	"command.moveToSidecar": "回答をサイドカーに移動",
+	"command.moveIntoNote": "回答をノートに移動",
+	"command.openThreads": "スレッドを開く",
+	"command.searchAnswers": "回答を検索",
+	"command.exportFlashcards": "フラッシュカードを書き出す",
+	"command.cancelPending": "保留中のリクエストをキャンセル",
+	"command.pruneChains": "チェーンデータを整理",
+	"command.quickAction": "クイックアクション: {name}",
+	// Quick action and language editors
+	"editor.cancel": "キャンセル",
+	"editor.save": "保存",
+	"editor.cantSave": "保存できません: {problems}。",
+	"editor.editTitle": "{name} を編集",
+	"editor.name": "名前",
+	"quickAction.newTitle": "新しいクイックアクション",
+	"quickAction.nameDesc": "コンポーザーのチップとコマンドパレットに表示されます。",
+	"quickAction.icon": "アイコン",
+	"quickAction.iconDesc": "lucide.dev のアイコン名（例: lightbulb）。",
+	"quickAction.prompt": "プロンプト",
+	"quickAction.promptDesc": "この箇所に対して行うこと。変数: {vars}。",
+	"quickAction.result": "結果",
+	"quickAction.resultDesc": "回答を段落の下に新しいノートとして追加するか、段落をその場で書き換えます。",
+	"quickAction.resultCallout": "新しいノート",
+	"quickAction.resultReplace": "段落を置き換え",
+	"quickAction.useSetting": "設定に従う",
+	"quickAction.on": "オン",
+	"quickAction.off": "オフ",
+	"language.newTitle": "新しい言語",
+	"language.tag": "タグ",
+	"language.tagDesc": "言語タグ（例: de、pt-br、zh-hant。大文字小文字は問いません）。",
+	"language.nameDesc": "プロンプトでの呼び方。モデルがどの言語か分かるようにします。",
+	"language.nativeName": "ネイティブ名",
+	"language.nativeNameDesc": "メニュー用の、その言語自身での名前。空欄なら上の名前を使います。",
+	"language.defaultQuestion": "既定の質問",
+	"language.defaultQuestionDesc": "質問を入力せずに送信したときにコンポーザーが尋ねる内容。",
+	"language.direction": "書字方向",
+	"language.ltr": "左から右",
+	"language.rtl": "右から左",
+	"problem.nameEmpty": "名前が空です",
+	"problem.tagFormat": "タグは de、pt-BR、zh-Hant のような形式にしてください",
+	"problem.defaultQuestionEmpty": "既定の質問が空です",
+	"problem.templateEmpty": "テンプレートが空です",
+	"problem.promptEmpty": "プロンプトが空です",
+	"problem.unknownVariable": "不明な変数 {variable}",
+	"problem.unbalanced": "{{ または }} の対応が取れていません",
+	// Panels and dialogs
+	"history.title": "書き換え履歴",
+	"history.empty": "このノートの書き換え履歴はありません。",
+	"history.removedNotes": "ノートを削除",
+	"history.editedSince": "その後編集済み",
+	"history.duplicated": "複数箇所にあります",
+	"history.showDiff": "差分を表示",
+	"history.hideDiff": "差分を隠す",
+	"history.copyOriginal": "元の文をコピー",
+	"history.copied": "元の文をコピーしました。",
+	"history.copyFailed": "クリップボードにコピーできませんでした。",
+	"history.restore": "復元",
+	"history.cantRestore": "書き換えた段落がその後編集されたか、複数箇所にあります。代わりに元の文をコピーしてください。",
+	"history.restored": "段落を復元しました。",
+	"history.restoredWithNotes": "段落とそのノートを復元しました。",
+	"sidecar.displayText": "coo ノート",
+	"sidecar.showNotes": "coo のノートを表示",
+	"sidecar.openNote": "ノートを開くと coo ノートが表示されます。",
+	"sidecar.delete": "削除",
+	"sidecar.wholeNote": "ノート全体",
+	"sidecar.paragraphGone": "段落はノートにもうありません",
+	"threads.displayText": "coo スレッド",
+	"threads.openNote": "ノートを開くと coo スレッドが表示されます。",
+	"threads.collapseAll": "すべて折りたたむ",
+	"threads.expandAll": "すべて展開",
+	"threads.untitled": "ノート",
+	"threads.minor": "補足",
+	"threads.followUp": "追加で質問",
+	"threads.askAgain": "もう一度質問",
+	"threads.delete": "削除",
+	"search.title": "回答を検索",
+	"search.placeholder": "質問と回答を検索",
+	"search.fieldAll": "質問と回答",
+	"search.fieldQuestion": "質問",
+	"search.fieldAnswer": "回答",
+	"search.minorAny": "補足を含む",
+	"search.minorOnly": "補足のみ",
+	"search.minorExclude": "補足を除く",
+	"search.anyTime": "すべての期間",
+	"search.pastWeek": "過去 1 週間",
+	"search.pastMonth": "過去 1 か月",
+	"search.pastYear": "過去 1 年",
+	"search.folder": "フォルダ",
+	"search.empty": "一致する回答はありません。",
+	"search.minor": "補足",
+	"search.untitled": "無題",
+	"flashcards.title": "フラッシュカードを書き出す",
+	"flashcards.scope": "回答の範囲",
+	"flashcards.scopeNote": "このノート",
+	"flashcards.scopeFolder": "フォルダ",
+	"flashcards.scopeVault": "保管庫全体",
+	"flashcards.folder": "フォルダ",
+	"flashcards.folderDesc": "このフォルダとサブフォルダ内のノート。",
+	"flashcards.includeMinor": "補足の回答を含める",
+	"flashcards.includeMinorDesc": "読み飛ばせる細部についての短い回答（補足の印付き）。",
+	"flashcards.format": "形式",
+	"flashcards.formatCsv": "Anki (CSV)",
+	"flashcards.formatTsv": "Anki (TSV)",
+	"flashcards.formatSpacedRepetition": "Spaced Repetition プラグイン",
+	"flashcards.formatReviewNote": "復習用ノート",
+	"flashcards.exportTo": "書き出し先",
+	"flashcards.exportToDesc": "保管庫内のファイル。拡張子は形式に合わせます。既存のファイルは残し、番号付きのファイルを横に書き出します。",
+	"flashcards.export": "書き出す",
+	"memory.title": "翻訳メモリ",
+	"memory.placeholder": "テキストと翻訳を検索",
+	"memory.noMatches": "一致する翻訳はありません。",
+	"memory.empty": "記憶された翻訳はまだありません。",
+	"memory.remove": "削除",
+};
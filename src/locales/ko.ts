@@ -0,0 +1,362 @@
+import type { Messages } from "../i18n";
+
+/** Korean UI messages. */
+export const ko: Messages = {
+	// Composer
+	"composer.title": "coo 토론",
+	"composer.wholeDocument": "문서 전체에 대해 질문",
+	"composer.thisAnswer": "이 답변에 대해 질문",
+	"composer.snapshot.unregistered": "노트가 아직 등록되지 않았습니다 — 첫 질문이 등록합니다",
+	"composer.snapshot.fresh": "노트 스냅샷이 최신입니다",
+	"composer.snapshot.changed": "노트가 수정되었습니다 — 이 질문이 먼저 변경 사항을 보냅니다",
+	"composer.snapshot.stale": "노트가 많이 바뀌었습니다 — 이 질문이 다시 등록합니다",
+	"composer.snapshot.unknown": "스냅샷 상태를 알 수 없습니다 — 이 질문이 노트를 다시 등록합니다",
+	"composer.rewriteMode": "다시 쓰기 모드",
+	"composer.shortenPercent": "줄일 비율(%)",
+	"composer.tonePlaceholder": "어조, 예: 격식체",
+	"composer.instructionPlaceholder": "다시 쓰기 지시(선택)",
+	"composer.rewrite": "다시 쓰기",
+	"composer.ask": "질문",
+	"composer.cancel": "취소",
+	"composer.addedToSidecar": "사이드카에 노트를 추가했습니다.",
+	"composer.added": "노트를 추가했습니다.",
+	"composer.noNotesYet": "아직 노트가 없습니다. 먼저 질문하거나 다른 다시 쓰기 모드를 고르세요.",
+	"composer.rewritten": "다시 썼습니다.",
+	"composer.archiveFailed": "원래 문단을 보관하지 못해 다시 쓰기를 적용하지 않았습니다: {error}",
+	"composer.sidecarRemoveFailed": "다시 썼지만 반영한 사이드카 메모를 삭제하지 못했습니다: {error}",
+	"composer.actionNeedsParagraph": "{action}은(는) 문단을 다시 씁니다 — 문단 안의 텍스트를 선택하세요.",
+	"rewriteMode.integrate": "노트 반영",
+	"rewriteMode.simplify": "쉽게 쓰기",
+	"rewriteMode.shorten": "줄이기",
+	"rewriteMode.tone": "어조 바꾸기",
+	"rewriteMode.grammar": "문법 고치기",
+	"rewriteMode.voice": "노트 문체에 맞추기",
+
+	// Rewrite preview
+	"preview.original": "원문",
+	"preview.rewrite": "다시 쓴 글",
+	"preview.reject": "거절",
+	"preview.regenerate": "다시 생성",
+	"preview.acceptKeepNotes": "수락하고 노트 유지",
+	"preview.accept": "수락",
+	"preview.noChanges": "다시 쓴 글에 바뀐 내용이 없습니다.",
+	"preview.summary": "변경 {total}개 중 {accepted}개 수락 — 변경을 클릭해 유지하거나 버리세요.",
+
+	// Requests
+	"retry.rateLimited": "요청 한도 초과 — {seconds}초 후 다시 시도합니다…",
+	"retry.network": "네트워크 오류 — {seconds}초 후 다시 시도합니다…",
+	"retry.server": "서버 오류 — {seconds}초 후 다시 시도합니다…",
+	"error.unexpected": "예기치 않은 오류가 발생했습니다.",
+	"error.dailyBudget": "일일 예산에 도달했습니다({budget} 중 {spent}). coo 설정에서 늘리거나 내일 다시 시도하세요.",
+	"error.monthlyBudget": "월 예산에 도달했습니다({budget} 중 {spent}). coo 설정에서 늘리세요.",
+	"error.noteBudget": "이 노트의 예산에 도달했습니다({budget} 중 {spent}). coo 설정에서 늘리세요.",
+	"error.noApiKey": "API 키가 설정되지 않았습니다. coo 설정에서 설정하세요.",
+	"error.noModel": "모델이 설정되지 않았습니다. coo 설정에서 설정하세요.",
+	"error.network": "네트워크 오류: {detail}",
+	"error.noText": "어시스턴트가 텍스트를 반환하지 않았습니다.",
+	"error.responseFailed": "응답에 실패했습니다.",
+	"error.noStreaming": "여기서는 스트리밍을 지원하지 않습니다.",
+	"error.noRegistration": "이 제공자는 노트 등록을 지원하지 않습니다.",
+	"error.registrationFailed": "등록 실패: 응답 ID가 반환되지 않았습니다.",
+	"error.snapshotFailed": "스냅샷 업데이트 실패: 응답 ID가 반환되지 않았습니다.",
+	"error.badRequest": "잘못된 요청: {detail}",
+	"error.invalidApiKey": "API 키가 올바르지 않습니다. coo 설정에서 키를 확인하세요.",
+	"error.keyRejected": "서버가 API 키를 거부했습니다. coo 설정에서 키를 확인하세요.",
+	"error.permissionDenied": "권한이 거부되었습니다: {detail}",
+	"error.modelNotFound": "찾을 수 없음: {detail}. coo 설정에서 모델 이름을 확인하세요.",
+	"error.endpointNotFound": "찾을 수 없음: {detail}. coo 설정에서 기본 URL과 모델을 확인하세요.",
+	"error.rateLimited": "{provider}에서 요청 빈도를 제한했습니다. 잠시 후 다시 시도하세요.",
+	"error.serverRateLimited": "서버에서 요청 빈도를 제한했습니다. 잠시 후 다시 시도하세요.",
+	"error.serviceError": "{provider} 서비스 오류입니다. 나중에 다시 시도하세요.",
+	"error.overloaded": "{provider} 서비스 오류 또는 과부하입니다. 나중에 다시 시도하세요.",
+	"error.modelServer": "모델 서버가 오류를 반환했습니다. 나중에 다시 시도하세요.",
+	"error.apiStatus": "{provider} API 오류({status}): {detail}",
+	"error.serverStatus": "서버 오류({status}): {detail}",
+	"error.ollamaNotFound": "Ollama: {detail}. 먼저 모델을 받거나 coo 설정에서 모델 이름을 확인하세요.",
+	"error.ollama": "Ollama 오류: {detail}",
+	"error.ollamaStatus": "Ollama 오류({status}): {detail}",
+	"status.usage": "coo: 오늘 {cost}({tokens}토큰)",
+
+	// Editor menu and notices
+	"menu.discuss": "coo 토론",
+	"menu.translate": "coo 번역",
+	"notice.openNote": "먼저 노트를 여세요.",
+	"notice.emptyDocument": "문서가 비어 있습니다.",
+	"notice.selectParagraph": "문단 안의 텍스트를 선택하세요.",
+	"notice.cancelled": "대기 중인 요청을 취소했습니다.",
+	"notice.noPending": "대기 중인 요청이 없습니다.",
+	"notice.noAnswersToExport": "내보낼 답변이 없습니다.",
+	"notice.exported": "플래시카드 {count}장을 {path}(으)로 내보냈습니다.",
+	"notice.exportFailed": "플래시카드를 {path}(으)로 내보내지 못했습니다: {error}",
+	"notice.noCallouts": "이 노트에는 coo 콜아웃이 없습니다.",
+	"notice.movedToSidecarOne": "답변 1개를 사이드카로 옮겼습니다.",
+	"notice.sidecarNoteChanged": "답변을 옮기는 동안 노트가 바뀌어 아무것도 옮기지 않았습니다. 명령을 다시 실행하세요.",
+	"notice.movedToSidecar": "답변 {count}개를 사이드카로 옮겼습니다.",
+	"notice.noSidecarNotes": "이 노트의 사이드카에 노트가 없습니다.",
+	"notice.movedIntoNoteOne": "답변 1개를 노트로 옮겼습니다.",
+	"notice.movedIntoNote": "답변 {count}개를 노트로 옮겼습니다.",
+	"notice.calloutMoved": "패널을 표시한 뒤 이 콜아웃이 바뀌거나 옮겨져 아무것도 삭제하지 않았습니다.",
+	"notice.localHistory": "로컬 대화 기록은 질문할 때마다 현재 노트를 보내므로 다시 등록할 필요가 없습니다.",
+	"notice.reRegistering": "노트를 다시 등록하는 중...",
+	"notice.reRegistered": "노트를 다시 등록했습니다.",
+	"notice.reRegisterFailed": "다시 등록하지 못했습니다.",
+	"notice.templateProblems": "coo 프롬프트 템플릿 문제:\n{problems}",
+	"notice.templateProblem": "{path}: {problems}. 기본 제공 {name} 프롬프트를 사용합니다.",
+	"notice.setTemplateFolder": "먼저 프롬프트 템플릿 폴더를 설정하세요.",
+	"notice.prunedOne": "체인 항목 1개를 정리했습니다.",
+	"notice.pruned": "체인 항목 {count}개를 정리했습니다.",
+	"notice.saveFailed": "{file}을(를) 저장하지 못했습니다: {error} 변경 사항은 유지되며 다음 변경과 함께 저장됩니다.",
+	"notice.unloadSaveFailed": "coo를 닫는 중 {file}을(를) 저장하지 못했습니다: {error} 최근 변경 사항은 손실되었습니다.",
+	"notice.apiKey": "coo 설정에서 {provider} API 키를 설정하세요.",
+	"notice.selectToTranslate": "번역할 단어나 구절을 선택하세요.",
+	"notice.tooltipOneLine": "툴팁 번역은 한 줄만 담을 수 있습니다. 한 줄 안에서 텍스트를 선택하세요.",
+	"notice.translating": "번역하는 중...",
+	"notice.translationFailed": "번역하지 못했습니다.",
+	"notice.selectionChanged": "번역하는 동안 선택 영역이 바뀌어 아무것도 넣지 않았습니다.",
+	"notice.noHeadingSection": "제목 아래에 커서를 두면 그 섹션을 번역합니다.",
+	"notice.nothingToTranslate": "번역할 내용이 없습니다.",
+	"notice.noteTranslationProgress": "번역하는 중... {total}개 블록 중 {done}개",
+	"notice.noteTranslationResuming": "이어서 진행: {total}개 블록 중 {done}개는 이미 번역됨",
+	"notice.noteTranslationStopped": "{total}개 블록 중 {done}개에서 번역이 멈췄습니다. 명령을 다시 실행하면 멈춘 곳부터 이어서 합니다.",
+	"notice.noteChanged": "번역하는 동안 노트가 바뀌어 아무것도 쓰지 않았습니다. 명령을 다시 실행하세요. 이미 번역된 블록은 다시 사용합니다.",
+	"notice.noteTranslated": "노트를 번역했습니다.",
+	"notice.translationWriteFailed": "번역을 {path}에 쓰지 못했습니다: {error} 번역된 블록은 보존됩니다. 명령을 다시 실행해 재시도하세요.",
+
+	// Settings
+	"settings.provider": "제공자",
+	"settings.providerDesc": "요청에 답하는 서비스입니다. 대화를 서버에 보관하는 것은 OpenAI뿐이며, 다른 제공자는 질문할 때마다 노트를 다시 보냅니다.",
+	"settings.providerCompatible": "OpenAI 호환 서버",
+	"settings.openAiApiKey": "OpenAI API 키",
+	"settings.apiKey": "API 키",
+	"settings.apiKeyRequired": "필수. 키는 로컬에 저장되며 공유되지 않습니다.",
+	"settings.apiKeyOptional": "로컬 서버에서는 선택 사항입니다. 로컬에 저장되며 공유되지 않습니다.",
+	"settings.conversationHistory": "대화 기록",
+	"settings.conversationHistoryDesc": "서버 측은 제공자가 노트마다 대화를 보관합니다. 로컬은 질문할 때마다 노트의 답변으로 대화를 다시 만들고 아무것도 저장하지 않습니다 — 데이터 보존이 없는 계정에 사용하세요.",
+	"settings.serverSide": "서버 측",
+	"settings.local": "로컬",
+	"settings.baseUrl": "기본 URL",
+	"settings.baseUrlDesc": "비워 두면 제공자의 기본 엔드포인트를 사용합니다.",
+	"settings.model": "모델",
+	"settings.modelOpenAiDesc": "응답에 사용할 OpenAI 모델입니다.",
+	"settings.modelDesc": "제공자가 요구하는 모델 이름입니다.",
+	"settings.reasoningEffort": "추론 강도",
+	"settings.reasoningEffortDesc": "모델이 얼마나 추론할지 정합니다. 높을수록 느리지만 더 꼼꼼합니다. 질문에만 적용됩니다(다시 쓰기와 번역은 항상 추론 없이 실행).",
+	"settings.effortNone": "없음",
+	"settings.effortLow": "낮음",
+	"settings.effortMedium": "보통",
+	"settings.effortHigh": "높음",
+	"settings.webSearch": "웹 검색",
+	"settings.webSearchDesc": "질문할 때 모델이 웹을 검색해 최신 정보를 쓰도록 합니다.",
+	"settings.sources": "출처",
+	"settings.sourcesDesc": "웹 검색 출처를 답변에 표시하는 방식: 번호 매긴 각주, 인라인 링크 또는 숨김.",
+	"settings.sourcesFootnotes": "각주",
+	"settings.sourcesLinks": "인라인 링크",
+	"settings.sourcesHidden": "숨김",
+	"settings.answerStorage": "답변 저장 위치",
+	"settings.answerStorageDesc": "답변을 콜아웃으로 노트에 쓰거나, 사이드 패널에 표시되는 사이드카에 보관해 노트를 깔끔하게 유지합니다. 노트를 전환하려면 이동 명령을 사용하세요.",
+	"settings.storageInline": "노트 안",
+	"settings.storageSidecar": "사이드카",
+	"settings.streamAnswers": "답변 스트리밍",
+	"settings.streamAnswersDesc": "전체 답변을 기다리지 않고 도착하는 대로 노트에 씁니다.",
+	"settings.previewRewrites": "다시 쓰기 미리 보기",
+	"settings.previewRewritesDesc": "문단을 바꾸기 전에 다시 쓴 글을 단어 단위 비교로 보여 주어 수락, 거절 또는 다시 생성할 수 있게 합니다.",
+	"settings.maxAttempts": "최대 시도 횟수",
+	"settings.maxAttemptsDesc": "요청 한도에 걸리거나 서버 오류가 난 호출을 첫 시도를 포함해 몇 번 시도할지 정합니다.",
+	"settings.retryTimeout": "재시도 제한 시간",
+	"settings.retryTimeoutDesc": "첫 시도 후 이 초가 지나면 재시도를 멈춥니다. 이미 진행 중인 요청은 중단하지 않습니다.",
+	"settings.responseLanguage": "응답 언어",
+	"settings.responseLanguageDesc": "AI 응답과 플러그인 화면에 쓰는 주 언어입니다.",
+	"settings.translateLanguage": "번역 언어",
+	"settings.translateLanguageDesc": "번역 작업의 대상 언어입니다.",
+	"settings.translateMode": "번역 스타일",
+	"settings.translateModeDesc": "번역 명령이 번역문을 넣는 위치입니다. 스타일마다 전용 명령도 있습니다.",
+	"translateMode.inline": "선택 영역 뒤 괄호 안",
+	"translateMode.replace": "선택 영역 바꾸기",
+	"translateMode.footnote": "각주",
+	"translateMode.ruby": "루비 주석(중국어와 일본어는 읽기)",
+	"translateMode.tooltip": "마우스를 올리면 보이는 툴팁",
+	"translateMode.below": "문단 아래 줄",
+	"settings.noteTranslationLayout": "노트 번역 레이아웃",
+	"settings.noteTranslationLayoutDesc": "노트 번역 명령과 제목 섹션 번역 명령이 번역을 쓰는 방식.",
+	"noteLayout.interleaved": "각 블록 뒤에 번역",
+	"noteLayout.columns": "2열 표로 나란히",
+	"noteLayout.note": "원본으로 연결되는 새 노트",
+	"noteTranslation.original": "원문",
+	"settings.glossary": "용어집",
+	"settings.glossaryDesc": "용어의 선호 번역. 한 줄에 하나씩 \"용어 = 번역\" 형식으로 씁니다. 줄 앞에 언어 태그와 콜론을 붙이면(\"ja: 용어 = 번역\") 그 언어에만 사용합니다. 글에 나오는 용어가 번역할 때마다 함께 전송됩니다.",
+	"settings.glossaryNote": "용어집 노트",
+	"settings.glossaryNoteDesc": "같은 형식의 용어집 줄이 더 있는 보관함 노트로, 용어집을 일반 노트처럼 편집할 수 있습니다. 위의 항목보다 우선합니다.",
+	"settings.notePath": "노트 경로",
+	"settings.translationMemory": "번역 메모리",
+	"settings.translationMemoryDesc": "번역을 기억해 두었다가 같은 텍스트를 같은 언어로 다시 번역할 때 모델을 호출하지 않고 다시 사용합니다. 둘러보기에서 기억된 번역을 고치거나 지울 수 있습니다.",
+	"settings.browse": "둘러보기",
+	"settings.customLanguages": "사용자 지정 언어",
+	"settings.customLanguagesDesc": "기본 제공 언어 외에 답변하고 번역할 언어입니다. 기본 제공 언어와 태그가 같으면 그 언어를 대신합니다(기본 질문을 바꿀 때 등).",
+	"settings.addLanguage": "언어 추가",
+	"settings.quickActions": "빠른 작업",
+	"settings.quickActionsDesc": "작성 창에 표시되는 원클릭 프롬프트입니다. 각각 명령이기도 하므로 단축키를 지정할 수 있습니다.",
+	"settings.replacesParagraph": "문단을 바꿈",
+	"settings.addsNote": "노트를 추가함",
+	"settings.restoreDefaults": "기본값 복원",
+	"settings.addQuickAction": "빠른 작업 추가",
+	"settings.edit": "편집",
+	"settings.remove": "제거",
+	"settings.moveUp": "위로 이동",
+	"settings.promptTemplates": "프롬프트 템플릿",
+	"settings.templateFolder": "템플릿 폴더",
+	"settings.templateFolderDesc": "직접 만든 시스템 프롬프트를 두는 보관소 폴더로, 작업마다 파일 하나입니다. 파일이 없으면 기본 제공 프롬프트를 씁니다. 비워 두면 항상 기본 제공 프롬프트를 씁니다.",
+	"settings.folderPath": "폴더 경로",
+	"settings.templatePrompt": "{name} 프롬프트",
+	"settings.templateBuiltIn": "기본 제공 프롬프트를 사용 중입니다.",
+	"settings.templateCustom": "{path}을(를) 사용 중입니다.",
+	"settings.templateInvalid": "{path}은(는) 사용되지 않습니다({problems}). 기본 제공 프롬프트를 사용 중입니다.",
+	"settings.templateVariables": "변수: {variables}.",
+	"settings.openTemplate": "템플릿 열기",
+	"promptAction.ask": "질문",
+	"promptAction.rewrite": "다시 쓰기",
+	"promptAction.translate": "번역",
+	"promptAction.register": "노트 등록",
+	"settings.resetTemplate": "기본값으로 재설정",
+	"settings.usage": "사용량",
+	"settings.spend": "지출",
+	"settings.loading": "불러오는 중...",
+	"settings.spendSummary": "오늘: {today}. 이번 달: {month}.",
+	"settings.usageLine": "{cost} · 호출 {calls}회 · 토큰 {tokens}개",
+	"settings.usageLineUnpriced": "{cost} · 호출 {calls}회(가격 없음 {unpriced}회) · 토큰 {tokens}개",
+	"settings.prices": "가격",
+	"settings.pricesDesc": "한 줄에 모델 하나씩 \"모델 = 입력, 출력\" 형식으로, 토큰 백만 개당 달러로 적습니다. 가격이 없는 모델의 호출은 횟수만 셉니다.",
+	"settings.dailyBudget": "일일 예산",
+	"settings.dailyBudgetDesc": "오늘 지출이 이 달러 금액에 이르면 호출을 멈춥니다. 0이면 제한 없음.",
+	"settings.monthlyBudget": "월간 예산",
+	"settings.monthlyBudgetDesc": "이번 달 지출이 이 달러 금액에 이르면 호출을 멈춥니다. 0이면 제한 없음.",
+	"settings.noteBudget": "노트별 예산",
+	"settings.noteBudgetDesc": "노트의 총 지출이 이 달러 금액에 이르면 그 노트의 질문과 다시 쓰기를 멈춥니다. 0이면 제한 없음.",
+	// Commands
+	"command.discuss": "토론",
+	"command.translate": "번역",
+	"command.translateInline": "괄호 안에 번역",
+	"command.translateReplace": "번역하여 선택 영역 바꾸기",
+	"command.translateFootnote": "각주로 번역",
+	"command.translateRuby": "루비 문자로 주석 달기",
+	"command.translateTooltip": "마우스오버 툴팁으로 번역",
+	"command.translateBelow": "문단 아래 줄에 번역",
+	"command.translationMemory": "번역 메모리",
+	"command.translateNote": "노트 번역",
+	"command.translateSection": "제목 섹션 번역",
+	"command.reRegister": "노트 다시 등록",
+	"command.rewriteHistory": "다시 쓰기 기록",
+	"command.openSidecar": "사이드카 노트 열기",
+	"command.moveToSidecar": "답변을 사이드카로 옮기기",
+	"command.moveIntoNote": "답변을 노트로 옮기기",
+	"command.openThreads": "스레드 열기",
+	"command.searchAnswers": "답변 검색",
+	"command.exportFlashcards": "플래시카드 내보내기",
+	"command.cancelPending": "대기 중인 요청 취소",
+	"command.pruneChains": "체인 데이터 정리",
+	"command.quickAction": "빠른 작업: {name}",
+	// Quick action and language editors
+	"editor.cancel": "취소",
+	"editor.save": "저장",
+	"editor.cantSave": "저장할 수 없습니다: {problems}.",
+	"editor.editTitle": "{name} 편집",
+	"editor.name": "이름",
+	"quickAction.newTitle": "새 빠른 작업",
+	"quickAction.nameDesc": "작성기 칩과 명령 팔레트에 표시됩니다.",
+	"quickAction.icon": "아이콘",
+	"quickAction.iconDesc": "lucide.dev의 아이콘 이름(예: lightbulb).",
+	"quickAction.prompt": "프롬프트",
+	"quickAction.promptDesc": "이 구절로 할 일. 변수: {vars}.",
+	"quickAction.result": "결과",
+	"quickAction.resultDesc": "답변을 문단 아래 새 노트로 추가하거나 문단을 그 자리에서 다시 씁니다.",
+	"quickAction.resultCallout": "새 노트",
+	"quickAction.resultReplace": "문단 바꾸기",
+	"quickAction.useSetting": "설정 사용",
+	"quickAction.on": "켜기",
+	"quickAction.off": "끄기",
+	"language.newTitle": "새 언어",
+	"language.tag": "태그",
+	"language.tagDesc": "언어 태그(예: de, pt-br, zh-hant, 대소문자 무관).",
+	"language.nameDesc": "프롬프트에서 부르는 이름으로, 모델이 어떤 언어인지 알 수 있게 합니다.",
+	"language.nativeName": "고유 이름",
+	"language.nativeNameDesc": "메뉴에 쓰이는 해당 언어로 된 이름. 비워 두면 위 이름을 씁니다.",
+	"language.defaultQuestion": "기본 질문",
+	"language.defaultQuestionDesc": "질문을 입력하지 않고 보낼 때 작성기가 묻는 내용.",
+	"language.direction": "쓰기 방향",
+	"language.ltr": "왼쪽에서 오른쪽",
+	"language.rtl": "오른쪽에서 왼쪽",
+	"problem.nameEmpty": "이름이 비어 있습니다",
+	"problem.tagFormat": "태그는 de, pt-BR, zh-Hant 같은 형식이어야 합니다",
+	"problem.defaultQuestionEmpty": "기본 질문이 비어 있습니다",
+	"problem.templateEmpty": "템플릿이 비어 있습니다",
+	"problem.promptEmpty": "프롬프트가 비어 있습니다",
+	"problem.unknownVariable": "알 수 없는 변수 {variable}",
+	"problem.unbalanced": "{{ 또는 }}의 짝이 맞지 않습니다",
+	// Panels and dialogs
+	"history.title": "다시 쓰기 기록",
+	"history.empty": "이 노트에 기록된 다시 쓰기가 없습니다.",
+	"history.removedNotes": "노트 삭제됨",
+	"history.editedSince": "이후 편집됨",
+	"history.duplicated": "두 번 이상 나옵니다",
+	"history.showDiff": "차이 보기",
+	"history.hideDiff": "차이 숨기기",
+	"history.copyOriginal": "원문 복사",
+	"history.copied": "원문을 복사했습니다.",
+	"history.copyFailed": "클립보드에 복사하지 못했습니다.",
+	"history.restore": "복원",
+	"history.cantRestore": "다시 쓴 문단이 이후 편집되었거나 두 번 이상 나옵니다. 대신 원문을 복사하세요.",
+	"history.restored": "문단을 복원했습니다.",
+	"history.restoredWithNotes": "문단과 노트를 복원했습니다.",
+	"sidecar.displayText": "coo 노트",
+	"sidecar.showNotes": "coo 노트 보기",
+	"sidecar.openNote": "노트를 열면 coo 노트가 표시됩니다.",
+	"sidecar.delete": "삭제",
+	"sidecar.wholeNote": "노트 전체",
+	"sidecar.paragraphGone": "문단이 더 이상 노트에 없습니다",
+	"threads.displayText": "coo 스레드",
+	"threads.openNote": "노트를 열면 coo 스레드가 표시됩니다.",
+	"threads.collapseAll": "모두 접기",
+	"threads.expandAll": "모두 펼치기",
+	"threads.untitled": "노트",
+	"threads.minor": "부차적",
+	"threads.followUp": "후속 질문하기",
+	"threads.askAgain": "다시 질문",
+	"threads.delete": "삭제",
+	"search.title": "답변 검색",
+	"search.placeholder": "질문과 답변 검색",
+	"search.fieldAll": "질문과 답변",
+	"search.fieldQuestion": "질문",
+	"search.fieldAnswer": "답변",
+	"search.minorAny": "부차적 포함",
+	"search.minorOnly": "부차적만",
+	"search.minorExclude": "부차적 제외",
+	"search.anyTime": "전체 기간",
+	"search.pastWeek": "지난 1주",
+	"search.pastMonth": "지난 1개월",
+	"search.pastYear": "지난 1년",
+	"search.folder": "폴더",
+	"search.empty": "일치하는 답변이 없습니다.",
+	"search.minor": "부차적",
+	"search.untitled": "제목 없음",
+	"flashcards.title": "플래시카드 내보내기",
+	"flashcards.scope": "답변 범위",
+	"flashcards.scopeNote": "이 노트",
+	"flashcards.scopeFolder": "폴더",
+	"flashcards.scopeVault": "보관소 전체",
+	"flashcards.folder": "폴더",
+	"flashcards.folderDesc": "이 폴더와 하위 폴더의 노트.",
+	"flashcards.includeMinor": "부차적 답변 포함",
+	"flashcards.includeMinorDesc": "건너뛰어도 되는 세부 사항에 대한 짧은 답변(부차적 표시).",
+	"flashcards.format": "형식",
+	"flashcards.formatCsv": "Anki (CSV)",
+	"flashcards.formatTsv": "Anki (TSV)",
+	"flashcards.formatSpacedRepetition": "Spaced Repetition 플러그인",
+	"flashcards.formatReviewNote": "복습 노트",
+	"flashcards.exportTo": "내보낼 위치",
+	"flashcards.exportToDesc": "보관소의 파일이며 확장자는 형식에 따릅니다. 기존 파일은 그대로 두고 옆에 번호를 붙인 파일을 씁니다.",
+	"flashcards.export": "내보내기",
+	"memory.title": "번역 메모리",
+	"memory.placeholder": "텍스트와 번역 검색",
+	"memory.noMatches": "일치하는 번역이 없습니다.",
+	"memory.empty": "아직 기억된 번역이 없습니다.",
+	"memory.remove": "삭제",
+};
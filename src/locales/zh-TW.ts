@@ -0,0 +1,362 @@
+import type { Messages } from "../i18n";
+
+/** Traditional Chinese UI messages. */
+export const zhTW: Messages = {
+	// Composer
+	"composer.title": "coo 討論",
+	"composer.wholeDocument": "正在就整份文件提問",
+	"composer.thisAnswer": "正在就這則回答提問",
+	"composer.snapshot.unregistered": "筆記尚未登錄 — 第一次提問時登錄",
+	"composer.snapshot.fresh": "筆記快照是最新的",
+	"composer.snapshot.changed": "筆記已編輯 — 這次提問會先傳送變更",
+	"composer.snapshot.stale": "筆記變動較大 — 這次提問會重新登錄",
+	"composer.snapshot.unknown": "快照時間不明 — 這次提問會重新登錄筆記",
+	"composer.rewriteMode": "改寫模式",
+	"composer.shortenPercent": "縮短百分比",
+	"composer.tonePlaceholder": "語氣，例如正式",
+	"composer.instructionPlaceholder": "改寫要求（選填）",
+	"composer.rewrite": "改寫",
+	"composer.ask": "提問",
+	"composer.cancel": "取消",
+	"composer.addedToSidecar": "已將筆記加入附屬檔案。",
+	"composer.added": "已加入筆記。",
+	"composer.noNotesYet": "還沒有筆記。請先提問，或選擇其他改寫模式。",
+	"composer.rewritten": "已改寫。",
+	"composer.archiveFailed": "無法封存原始段落，因此未套用改寫：{error}",
+	"composer.sidecarRemoveFailed": "已改寫，但無法從附屬檔案移除已併入的筆記：{error}",
+	"composer.actionNeedsParagraph": "{action} 會改寫段落 — 請在段落中選取文字。",
+	"rewriteMode.integrate": "融入筆記",
+	"rewriteMode.simplify": "簡化",
+	"rewriteMode.shorten": "縮短",
+	"rewriteMode.tone": "調整語氣",
+	"rewriteMode.grammar": "修正文法",
+	"rewriteMode.voice": "貼合筆記文風",
+
+	// Rewrite preview
+	"preview.original": "原文",
+	"preview.rewrite": "改寫",
+	"preview.reject": "拒絕",
+	"preview.regenerate": "重新產生",
+	"preview.acceptKeepNotes": "接受但保留筆記",
+	"preview.accept": "接受",
+	"preview.noChanges": "改寫沒有任何變更。",
+	"preview.summary": "已接受 {accepted}/{total} 處變更 — 點選變更可保留或捨棄。",
+
+	// Requests
+	"retry.rateLimited": "觸發速率限制 — {seconds} 秒後重試…",
+	"retry.network": "網路錯誤 — {seconds} 秒後重試…",
+	"retry.server": "伺服器錯誤 — {seconds} 秒後重試…",
+	"error.unexpected": "發生了非預期的錯誤。",
+	"error.dailyBudget": "已達每日預算（{spent} / {budget}）。請在 coo 設定中調高，或明天再試。",
+	"error.monthlyBudget": "已達每月預算（{spent} / {budget}）。請在 coo 設定中調高。",
+	"error.noteBudget": "已達此筆記的預算（{spent} / {budget}）。請在 coo 設定中調高。",
+	"error.noApiKey": "尚未設定 API 金鑰。請在 coo 設定中設定。",
+	"error.noModel": "尚未設定模型。請在 coo 設定中設定。",
+	"error.network": "網路錯誤：{detail}",
+	"error.noText": "助理沒有傳回任何文字。",
+	"error.responseFailed": "回應失敗。",
+	"error.noStreaming": "此處不支援串流。",
+	"error.noRegistration": "此供應商不支援筆記登錄。",
+	"error.registrationFailed": "登錄失敗：未傳回回應 ID。",
+	"error.snapshotFailed": "快照更新失敗：未傳回回應 ID。",
+	"error.badRequest": "錯誤的請求：{detail}",
+	"error.invalidApiKey": "API 金鑰無效。請在 coo 設定中檢查金鑰。",
+	"error.keyRejected": "伺服器拒絕了 API 金鑰。請在 coo 設定中檢查金鑰。",
+	"error.permissionDenied": "權限遭拒：{detail}",
+	"error.modelNotFound": "找不到：{detail}。請在 coo 設定中檢查模型名稱。",
+	"error.endpointNotFound": "找不到：{detail}。請在 coo 設定中檢查基礎網址與模型。",
+	"error.rateLimited": "已被 {provider} 限制請求頻率。請稍候再試。",
+	"error.serverRateLimited": "已被伺服器限制請求頻率。請稍候再試。",
+	"error.serviceError": "{provider} 服務錯誤。請稍後再試。",
+	"error.overloaded": "{provider} 服務錯誤或負載過高。請稍後再試。",
+	"error.modelServer": "模型伺服器傳回錯誤。請稍後再試。",
+	"error.apiStatus": "{provider} API 錯誤（{status}）：{detail}",
+	"error.serverStatus": "伺服器錯誤（{status}）：{detail}",
+	"error.ollamaNotFound": "Ollama：{detail}。請先下載模型，或在 coo 設定中檢查模型名稱。",
+	"error.ollama": "Ollama 錯誤：{detail}",
+	"error.ollamaStatus": "Ollama 錯誤（{status}）：{detail}",
+	"status.usage": "coo：今日 {cost}（{tokens} 個 token）",
+
+	// Editor menu and notices
+	"menu.discuss": "coo 討論",
+	"menu.translate": "coo 翻譯",
+	"notice.openNote": "請先開啟一則筆記。",
+	"notice.emptyDocument": "文件是空的。",
+	"notice.selectParagraph": "請在段落中選取文字。",
+	"notice.cancelled": "已取消待處理的請求。",
+	"notice.noPending": "沒有待處理的請求。",
+	"notice.noAnswersToExport": "沒有可匯出的回答。",
+	"notice.exported": "已將 {count} 張字卡匯出到 {path}。",
+	"notice.exportFailed": "無法將字卡匯出到 {path}：{error}",
+	"notice.noCallouts": "這則筆記中沒有 coo 標註區塊。",
+	"notice.movedToSidecarOne": "已將 1 則回答移到附屬檔案。",
+	"notice.sidecarNoteChanged": "移動回答時筆記已變更，因此未移動任何內容。請再次執行命令。",
+	"notice.movedToSidecar": "已將 {count} 則回答移到附屬檔案。",
+	"notice.noSidecarNotes": "這則筆記的附屬檔案中沒有筆記。",
+	"notice.movedIntoNoteOne": "已將 1 則回答移入筆記。",
+	"notice.movedIntoNote": "已將 {count} 則回答移入筆記。",
+	"notice.calloutMoved": "面板顯示後此標註區塊已變更或移動，因此未刪除任何內容。",
+	"notice.localHistory": "本機對話紀錄每次提問都會傳送目前的筆記 — 不需要重新登錄。",
+	"notice.reRegistering": "正在重新登錄筆記...",
+	"notice.reRegistered": "筆記已重新登錄。",
+	"notice.reRegisterFailed": "重新登錄失敗。",
+	"notice.templateProblems": "coo 提示詞範本有問題：\n{problems}",
+	"notice.templateProblem": "{path}：{problems}。改用內建的 {name} 提示詞。",
+	"notice.setTemplateFolder": "請先設定提示詞範本資料夾。",
+	"notice.prunedOne": "已清理 1 筆鏈紀錄。",
+	"notice.pruned": "已清理 {count} 筆鏈紀錄。",
+	"notice.saveFailed": "無法儲存 {file}：{error} 變更會保留，並在下次變更時一併儲存。",
+	"notice.unloadSaveFailed": "關閉 coo 時無法儲存 {file}：{error} 最近的變更已遺失。",
+	"notice.apiKey": "請在 coo 設定中填寫 {provider} API 金鑰。",
+	"notice.selectToTranslate": "請選取要翻譯的字詞或片語。",
+	"notice.tooltipOneLine": "懸停提示翻譯僅限一行。請在同一行內選取文字。",
+	"notice.translating": "正在翻譯...",
+	"notice.translationFailed": "翻譯失敗。",
+	"notice.selectionChanged": "翻譯期間選取內容已改變，未插入任何內容。",
+	"notice.noHeadingSection": "請把游標放在某個標題下，以翻譯該章節。",
+	"notice.nothingToTranslate": "這裡沒有可翻譯的內容。",
+	"notice.noteTranslationProgress": "正在翻譯... {done}/{total} 個區塊",
+	"notice.noteTranslationResuming": "繼續翻譯：{total} 個區塊中已有 {done} 個譯好",
+	"notice.noteTranslationStopped": "翻譯在第 {done}/{total} 個區塊後停止。再次執行指令即可從中斷處繼續。",
+	"notice.noteChanged": "翻譯期間筆記已變更，未寫入任何內容。請再次執行指令；已翻譯的區塊會被重複使用。",
+	"notice.noteTranslated": "筆記已翻譯。",
+	"notice.translationWriteFailed": "無法將翻譯寫入 {path}：{error} 已翻譯的區塊會保留；請再次執行命令以重試。",
+
+	// Settings
+	"settings.provider": "服務供應商",
+	"settings.providerDesc": "由哪個服務回答請求。只有 OpenAI 會在伺服器端保存對話；其他供應商每次提問都會重新傳送筆記。",
+	"settings.providerCompatible": "OpenAI 相容伺服器",
+	"settings.openAiApiKey": "OpenAI API 金鑰",
+	"settings.apiKey": "API 金鑰",
+	"settings.apiKeyRequired": "必填。金鑰儲存在本機，絕不分享。",
+	"settings.apiKeyOptional": "本機伺服器可不填。儲存在本機，絕不分享。",
+	"settings.conversationHistory": "對話紀錄",
+	"settings.conversationHistoryDesc": "伺服器端：由供應商保存每則筆記的對話。本機：每次提問都根據筆記中的回答重建對話，不儲存任何內容 — 適用於零資料保留的帳戶。",
+	"settings.serverSide": "伺服器端",
+	"settings.local": "本機",
+	"settings.baseUrl": "基礎 URL",
+	"settings.baseUrlDesc": "留空則使用供應商的預設端點。",
+	"settings.model": "模型",
+	"settings.modelOpenAiDesc": "用於回答的 OpenAI 模型。",
+	"settings.modelDesc": "供應商所要求的模型名稱。",
+	"settings.reasoningEffort": "推理強度",
+	"settings.reasoningEffortDesc": "模型進行多少推理。越高越慢，但越周全。僅用於提問（改寫和翻譯一律不使用推理）。",
+	"settings.effortNone": "無",
+	"settings.effortLow": "低",
+	"settings.effortMedium": "中",
+	"settings.effortHigh": "高",
+	"settings.webSearch": "網路搜尋",
+	"settings.webSearchDesc": "提問時允許模型搜尋網路，以取得最新資訊。",
+	"settings.sources": "來源",
+	"settings.sourcesDesc": "網路搜尋的來源在回答中如何顯示：編號註腳、行內連結或隱藏。",
+	"settings.sourcesFootnotes": "註腳",
+	"settings.sourcesLinks": "行內連結",
+	"settings.sourcesHidden": "隱藏",
+	"settings.answerStorage": "回答存放位置",
+	"settings.answerStorageDesc": "將回答以標註區塊寫入筆記，或存放在側邊欄顯示的附屬檔案中，讓筆記保持整潔。使用移動指令可轉換一則筆記。",
+	"settings.storageInline": "筆記中",
+	"settings.storageSidecar": "附屬檔案",
+	"settings.streamAnswers": "串流輸出回答",
+	"settings.streamAnswersDesc": "回答一邊產生一邊寫入筆記，而不是等待完整回答。",
+	"settings.previewRewrites": "預覽改寫",
+	"settings.previewRewritesDesc": "在取代段落之前，以逐字對照的方式顯示改寫，供你接受、拒絕或重新產生。",
+	"settings.maxAttempts": "最多嘗試次數",
+	"settings.maxAttemptsDesc": "遇到速率限制或伺服器錯誤的呼叫最多嘗試幾次（含第一次）。",
+	"settings.retryTimeout": "重試時限",
+	"settings.retryTimeoutDesc": "距第一次嘗試超過這麼多秒後停止重試。已在進行的請求不會被中斷。",
+	"settings.responseLanguage": "回答語言",
+	"settings.responseLanguageDesc": "AI 回答和外掛介面使用的主要語言。",
+	"settings.translateLanguage": "翻譯語言",
+	"settings.translateLanguageDesc": "翻譯操作的目標語言。",
+	"settings.translateMode": "翻譯樣式",
+	"settings.translateModeDesc": "翻譯指令把譯文放在哪裡。每種樣式也有自己的指令。",
+	"translateMode.inline": "在選取內容後加括號",
+	"translateMode.replace": "取代選取內容",
+	"translateMode.footnote": "註腳",
+	"translateMode.ruby": "注音標註（中文和日文標讀音）",
+	"translateMode.tooltip": "滑鼠懸停提示",
+	"translateMode.below": "段落下方一行",
+	"settings.noteTranslationLayout": "筆記翻譯版面",
+	"settings.noteTranslationLayoutDesc": "翻譯筆記和翻譯標題章節指令如何寫入譯文。",
+	"noteLayout.interleaved": "每個區塊後面接著譯文",
+	"noteLayout.columns": "以雙欄表格並排顯示",
+	"noteLayout.note": "連回原文的新筆記",
+	"noteTranslation.original": "原文",
+	"settings.glossary": "術語表",
+	"settings.glossaryDesc": "術語的偏好譯法，每行一條，格式為 \"術語 = 譯文\"。行首加上語言標籤和冒號（\"ja: 術語 = 譯文\"）則只用於該語言。段落中出現的術語會隨每次翻譯一起傳送。",
+	"settings.glossaryNote": "術語表筆記",
+	"settings.glossaryNoteDesc": "儲存庫中一則按相同格式寫有更多術語的筆記，讓術語表可以像一般筆記一樣編輯。其中的條目優先於上面的條目。",
+	"settings.notePath": "筆記路徑",
+	"settings.translationMemory": "翻譯記憶",
+	"settings.translationMemoryDesc": "記住每次翻譯，同一文字再次譯成同一語言時直接重複使用，不需呼叫模型。可瀏覽以修改或刪除記住的譯文。",
+	"settings.browse": "瀏覽",
+	"settings.customLanguages": "自訂語言",
+	"settings.customLanguagesDesc": "內建語言之外用於回答和翻譯的語言。與內建語言標籤相同的語言會取代它，例如用來修改其預設問題。",
+	"settings.addLanguage": "新增語言",
+	"settings.quickActions": "快速操作",
+	"settings.quickActionsDesc": "顯示在輸入框中的一鍵提示詞。每個也是一條指令，因此可以設定快速鍵。",
+	"settings.replacesParagraph": "取代段落",
+	"settings.addsNote": "加入筆記",
+	"settings.restoreDefaults": "還原預設",
+	"settings.addQuickAction": "新增快速操作",
+	"settings.edit": "編輯",
+	"settings.remove": "移除",
+	"settings.moveUp": "上移",
+	"settings.promptTemplates": "提示詞範本",
+	"settings.templateFolder": "範本資料夾",
+	"settings.templateFolderDesc": "存放自訂系統提示詞的儲存庫資料夾，每個操作一個檔案。缺少的檔案使用內建提示詞。留空則一律使用內建提示詞。",
+	"settings.folderPath": "資料夾路徑",
+	"settings.templatePrompt": "{name} 提示詞",
+	"settings.templateBuiltIn": "正在使用內建提示詞。",
+	"settings.templateCustom": "正在使用 {path}。",
+	"settings.templateInvalid": "{path} 未被使用（{problems}）；正在使用內建提示詞。",
+	"settings.templateVariables": "變數：{variables}。",
+	"settings.openTemplate": "開啟範本",
+	"promptAction.ask": "提問",
+	"promptAction.rewrite": "改寫",
+	"promptAction.translate": "翻譯",
+	"promptAction.register": "筆記登錄",
+	"settings.resetTemplate": "還原預設",
+	"settings.usage": "用量",
+	"settings.spend": "花費",
+	"settings.loading": "載入中...",
+	"settings.spendSummary": "今天：{today}。本月：{month}。",
+	"settings.usageLine": "{cost} · {calls} 次呼叫 · {tokens} 個 token",
+	"settings.usageLineUnpriced": "{cost} · {calls} 次呼叫（{unpriced} 次未定價）· {tokens} 個 token",
+	"settings.prices": "價格",
+	"settings.pricesDesc": "每行一個模型，格式為 \"模型 = 輸入, 輸出\"，單位為每百萬 token 的美元。沒有價格的模型只計呼叫次數，不計費用。",
+	"settings.dailyBudget": "每日預算",
+	"settings.dailyBudgetDesc": "今天的花費達到這麼多美元後停止呼叫。0 表示不限。",
+	"settings.monthlyBudget": "每月預算",
+	"settings.monthlyBudgetDesc": "本月的花費達到這麼多美元後停止呼叫。0 表示不限。",
+	"settings.noteBudget": "每則筆記預算",
+	"settings.noteBudgetDesc": "一則筆記的總花費達到這麼多美元後，停止在該筆記上提問和改寫。0 表示不限。",
+	// Commands
+	"command.discuss": "討論",
+	"command.translate": "翻譯",
+	"command.translateInline": "在括號中翻譯",
+	"command.translateReplace": "翻譯並取代所選內容",
+	"command.translateFootnote": "翻譯為註腳",
+	"command.translateRuby": "加上注音標註",
+	"command.translateTooltip": "翻譯為懸停提示",
+	"command.translateBelow": "在段落下方一行翻譯",
+	"command.translationMemory": "翻譯記憶",
+	"command.translateNote": "翻譯筆記",
+	"command.translateSection": "翻譯標題段落",
+	"command.reRegister": "重新登錄筆記",
+	"command.rewriteHistory": "改寫記錄",
+	"command.openSidecar": "開啟附屬檔案筆記",
+	"command.moveToSidecar": "將回答移到附屬檔案",
+	"command.moveIntoNote": "將回答移入筆記",
+	"command.openThreads": "開啟討論串",
+	"command.searchAnswers": "搜尋回答",
+	"command.exportFlashcards": "匯出字卡",
+	"command.cancelPending": "取消待處理的請求",
+	"command.pruneChains": "清理鏈結資料",
+	"command.quickAction": "快速動作：{name}",
+	// Quick action and language editors
+	"editor.cancel": "取消",
+	"editor.save": "儲存",
+	"editor.cantSave": "無法儲存：{problems}。",
+	"editor.editTitle": "編輯 {name}",
+	"editor.name": "名稱",
+	"quickAction.newTitle": "新增快速動作",
+	"quickAction.nameDesc": "顯示在撰寫視窗的按鈕和命令面板中。",
+	"quickAction.icon": "圖示",
+	"quickAction.iconDesc": "lucide.dev 的圖示名稱，例如 lightbulb。",
+	"quickAction.prompt": "提示詞",
+	"quickAction.promptDesc": "要對這段文字做什麼。變數：{vars}。",
+	"quickAction.result": "結果",
+	"quickAction.resultDesc": "將回答作為新筆記加在段落下方，或就地改寫段落。",
+	"quickAction.resultCallout": "新筆記",
+	"quickAction.resultReplace": "取代段落",
+	"quickAction.useSetting": "使用設定",
+	"quickAction.on": "開啟",
+	"quickAction.off": "關閉",
+	"language.newTitle": "新增語言",
+	"language.tag": "標籤",
+	"language.tagDesc": "語言標籤，例如 de、pt-br 或 zh-hant（不分大小寫）。",
+	"language.nameDesc": "提示詞中對它的稱呼，讓模型知道指的是哪種語言。",
+	"language.nativeName": "原文名稱",
+	"language.nativeNameDesc": "該語言本身的名稱，用於選單。留空則使用上方的名稱。",
+	"language.defaultQuestion": "預設問題",
+	"language.defaultQuestionDesc": "未輸入問題就送出時，撰寫視窗所提的問題。",
+	"language.direction": "書寫方向",
+	"language.ltr": "由左至右",
+	"language.rtl": "由右至左",
+	"problem.nameEmpty": "名稱是空的",
+	"problem.tagFormat": "標籤必須像 de、pt-BR 或 zh-Hant",
+	"problem.defaultQuestionEmpty": "預設問題是空的",
+	"problem.templateEmpty": "範本是空的",
+	"problem.promptEmpty": "提示詞是空的",
+	"problem.unknownVariable": "未知的變數 {variable}",
+	"problem.unbalanced": "{{ 或 }} 未成對",
+	// Panels and dialogs
+	"history.title": "改寫記錄",
+	"history.empty": "這則筆記沒有改寫記錄。",
+	"history.removedNotes": "已移除筆記",
+	"history.editedSince": "之後已編輯",
+	"history.duplicated": "出現不只一次",
+	"history.showDiff": "顯示差異",
+	"history.hideDiff": "隱藏差異",
+	"history.copyOriginal": "複製原文",
+	"history.copied": "已複製原文。",
+	"history.copyFailed": "無法複製到剪貼簿。",
+	"history.restore": "還原",
+	"history.cantRestore": "改寫後的段落之後已被編輯，或出現不只一次。請改為複製原文。",
+	"history.restored": "已還原段落。",
+	"history.restoredWithNotes": "已還原段落及其筆記。",
+	"sidecar.displayText": "coo 筆記",
+	"sidecar.showNotes": "顯示 coo 筆記",
+	"sidecar.openNote": "開啟筆記以查看其 coo 筆記。",
+	"sidecar.delete": "刪除",
+	"sidecar.wholeNote": "整則筆記",
+	"sidecar.paragraphGone": "段落已不在筆記中",
+	"threads.displayText": "coo 討論串",
+	"threads.openNote": "開啟筆記以查看其 coo 討論串。",
+	"threads.collapseAll": "全部摺疊",
+	"threads.expandAll": "全部展開",
+	"threads.untitled": "筆記",
+	"threads.minor": "次要",
+	"threads.followUp": "追問",
+	"threads.askAgain": "再問一次",
+	"threads.delete": "刪除",
+	"search.title": "搜尋回答",
+	"search.placeholder": "搜尋問題與回答",
+	"search.fieldAll": "問題與回答",
+	"search.fieldQuestion": "問題",
+	"search.fieldAnswer": "回答",
+	"search.minorAny": "含次要",
+	"search.minorOnly": "僅次要",
+	"search.minorExclude": "排除次要",
+	"search.anyTime": "任何時間",
+	"search.pastWeek": "過去一週",
+	"search.pastMonth": "過去一個月",
+	"search.pastYear": "過去一年",
+	"search.folder": "資料夾",
+	"search.empty": "沒有符合的回答。",
+	"search.minor": "次要",
+	"search.untitled": "未命名",
+	"flashcards.title": "匯出字卡",
+	"flashcards.scope": "回答來源",
+	"flashcards.scopeNote": "這則筆記",
+	"flashcards.scopeFolder": "資料夾",
+	"flashcards.scopeVault": "整個儲存庫",
+	"flashcards.folder": "資料夾",
+	"flashcards.folderDesc": "此資料夾及其子資料夾中的筆記。",
+	"flashcards.includeMinor": "包含次要回答",
+	"flashcards.includeMinorDesc": "關於可略過細節的簡短回答，標記為次要。",
+	"flashcards.format": "格式",
+	"flashcards.formatCsv": "Anki (CSV)",
+	"flashcards.formatTsv": "Anki (TSV)",
+	"flashcards.formatSpacedRepetition": "Spaced Repetition 外掛",
+	"flashcards.formatReviewNote": "複習筆記",
+	"flashcards.exportTo": "匯出至",
+	"flashcards.exportToDesc": "儲存庫中的檔案，副檔名依格式而定。已有的檔案會保留，並在旁邊寫入加上編號的新檔案。",
+	"flashcards.export": "匯出",
+	"memory.title": "翻譯記憶",
+	"memory.placeholder": "搜尋文字與翻譯",
+	"memory.noMatches": "沒有符合的翻譯。",
+	"memory.empty": "尚未記住任何翻譯。",
+	"memory.remove": "移除",
+};
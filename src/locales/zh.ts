@@ -0,0 +1,362 @@
+import type { Messages } from "../i18n";
+
+/** Simplified Chinese UI messages. */
+export const zh: Messages = {
+	// Composer
+	"composer.title": "coo 讨论",
+	"composer.wholeDocument": "正在就整篇文档提问",
+	"composer.thisAnswer": "正在就这条回答提问",
+	"composer.snapshot.unregistered": "笔记尚未登记 — 第一次提问时登记",
+	"composer.snapshot.fresh": "笔记快照是最新的",
+	"composer.snapshot.changed": "笔记已编辑 — 本次提问会先发送改动",
+	"composer.snapshot.stale": "笔记改动较大 — 本次提问会重新登记",
+	"composer.snapshot.unknown": "快照时间未知 — 本次提问会重新登记笔记",
+	"composer.rewriteMode": "改写模式",
+	"composer.shortenPercent": "缩短百分比",
+	"composer.tonePlaceholder": "语气，例如正式",
+	"composer.instructionPlaceholder": "改写要求（可选）",
+	"composer.rewrite": "改写",
+	"composer.ask": "提问",
+	"composer.cancel": "取消",
+	"composer.addedToSidecar": "已将笔记添加到附属文件。",
+	"composer.added": "已添加笔记。",
+	"composer.noNotesYet": "还没有笔记。请先提问，或选择其他改写模式。",
+	"composer.rewritten": "已改写。",
+	"composer.archiveFailed": "无法归档原始段落，因此未应用改写：{error}",
+	"composer.sidecarRemoveFailed": "已改写，但无法从附属文件移除已并入的笔记：{error}",
+	"composer.actionNeedsParagraph": "{action} 会改写段落 — 请在段落中选择文字。",
+	"rewriteMode.integrate": "融入笔记",
+	"rewriteMode.simplify": "简化",
+	"rewriteMode.shorten": "缩短",
+	"rewriteMode.tone": "调整语气",
+	"rewriteMode.grammar": "修正语法",
+	"rewriteMode.voice": "贴合笔记文风",
+
+	// Rewrite preview
+	"preview.original": "原文",
+	"preview.rewrite": "改写",
+	"preview.reject": "拒绝",
+	"preview.regenerate": "重新生成",
+	"preview.acceptKeepNotes": "接受但保留笔记",
+	"preview.accept": "接受",
+	"preview.noChanges": "改写没有任何变化。",
+	"preview.summary": "已接受 {accepted}/{total} 处改动 — 点击改动可保留或舍弃。",
+
+	// Requests
+	"retry.rateLimited": "触发速率限制 — {seconds} 秒后重试…",
+	"retry.network": "网络错误 — {seconds} 秒后重试…",
+	"retry.server": "服务器错误 — {seconds} 秒后重试…",
+	"error.unexpected": "发生了意外错误。",
+	"error.dailyBudget": "已达每日预算（{spent} / {budget}）。请在 coo 设置中调高，或明天再试。",
+	"error.monthlyBudget": "已达每月预算（{spent} / {budget}）。请在 coo 设置中调高。",
+	"error.noteBudget": "已达此笔记的预算（{spent} / {budget}）。请在 coo 设置中调高。",
+	"error.noApiKey": "尚未配置 API 密钥。请在 coo 设置中设置。",
+	"error.noModel": "尚未配置模型。请在 coo 设置中设置。",
+	"error.network": "网络错误：{detail}",
+	"error.noText": "助手没有返回任何文本。",
+	"error.responseFailed": "响应失败。",
+	"error.noStreaming": "此处不支持流式传输。",
+	"error.noRegistration": "此提供商不支持笔记登记。",
+	"error.registrationFailed": "登记失败：未返回响应 ID。",
+	"error.snapshotFailed": "快照更新失败：未返回响应 ID。",
+	"error.badRequest": "错误的请求：{detail}",
+	"error.invalidApiKey": "API 密钥无效。请在 coo 设置中检查密钥。",
+	"error.keyRejected": "服务器拒绝了 API 密钥。请在 coo 设置中检查密钥。",
+	"error.permissionDenied": "权限被拒绝：{detail}",
+	"error.modelNotFound": "未找到：{detail}。请在 coo 设置中检查模型名称。",
+	"error.endpointNotFound": "未找到：{detail}。请在 coo 设置中检查基础网址和模型。",
+	"error.rateLimited": "已被 {provider} 限制请求频率。请稍候再试。",
+	"error.serverRateLimited": "已被服务器限制请求频率。请稍候再试。",
+	"error.serviceError": "{provider} 服务错误。请稍后再试。",
+	"error.overloaded": "{provider} 服务错误或负载过高。请稍后再试。",
+	"error.modelServer": "模型服务器返回了错误。请稍后再试。",
+	"error.apiStatus": "{provider} API 错误（{status}）：{detail}",
+	"error.serverStatus": "服务器错误（{status}）：{detail}",
+	"error.ollamaNotFound": "Ollama：{detail}。请先拉取模型，或在 coo 设置中检查模型名称。",
+	"error.ollama": "Ollama 错误：{detail}",
+	"error.ollamaStatus": "Ollama 错误（{status}）：{detail}",
+	"status.usage": "coo：今日 {cost}（{tokens} 个 token）",
+
+	// Editor menu and notices
+	"menu.discuss": "coo 讨论",
+	"menu.translate": "coo 翻译",
+	"notice.openNote": "请先打开一篇笔记。",
+	"notice.emptyDocument": "文档为空。",
+	"notice.selectParagraph": "请在段落中选择文字。",
+	"notice.cancelled": "已取消待处理的请求。",
+	"notice.noPending": "没有待处理的请求。",
+	"notice.noAnswersToExport": "没有可导出的回答。",
+	"notice.exported": "已将 {count} 张闪卡导出到 {path}。",
+	"notice.exportFailed": "无法将闪卡导出到 {path}：{error}",
+	"notice.noCallouts": "这篇笔记中没有 coo 标注块。",
+	"notice.movedToSidecarOne": "已将 1 条回答移到附属文件。",
+	"notice.sidecarNoteChanged": "移动回答时笔记已更改，因此未移动任何内容。请再次运行命令。",
+	"notice.movedToSidecar": "已将 {count} 条回答移到附属文件。",
+	"notice.noSidecarNotes": "这篇笔记的附属文件中没有笔记。",
+	"notice.movedIntoNoteOne": "已将 1 条回答移入笔记。",
+	"notice.movedIntoNote": "已将 {count} 条回答移入笔记。",
+	"notice.calloutMoved": "面板显示后此标注块已更改或移动，因此未删除任何内容。",
+	"notice.localHistory": "本地对话历史每次提问都会发送当前笔记 — 无需重新登记。",
+	"notice.reRegistering": "正在重新登记笔记...",
+	"notice.reRegistered": "笔记已重新登记。",
+	"notice.reRegisterFailed": "重新登记失败。",
+	"notice.templateProblems": "coo 提示词模板有问题：\n{problems}",
+	"notice.templateProblem": "{path}：{problems}。改用内置的 {name} 提示词。",
+	"notice.setTemplateFolder": "请先设置提示词模板文件夹。",
+	"notice.prunedOne": "已清理 1 条链记录。",
+	"notice.pruned": "已清理 {count} 条链记录。",
+	"notice.saveFailed": "无法保存 {file}：{error} 更改会保留，并在下次更改时一并保存。",
+	"notice.unloadSaveFailed": "关闭 coo 时无法保存 {file}：{error} 最近的更改已丢失。",
+	"notice.apiKey": "请在 coo 设置中填写 {provider} API 密钥。",
+	"notice.selectToTranslate": "请选择要翻译的词或短语。",
+	"notice.tooltipOneLine": "悬停提示翻译仅限一行。请在同一行内选择文本。",
+	"notice.translating": "正在翻译...",
+	"notice.translationFailed": "翻译失败。",
+	"notice.selectionChanged": "翻译期间选中内容已改变，未插入任何内容。",
+	"notice.noHeadingSection": "请把光标放在某个标题下，以翻译该章节。",
+	"notice.nothingToTranslate": "这里没有可翻译的内容。",
+	"notice.noteTranslationProgress": "正在翻译... {done}/{total} 个块",
+	"notice.noteTranslationResuming": "继续翻译：{total} 个块中已有 {done} 个译好",
+	"notice.noteTranslationStopped": "翻译在第 {done}/{total} 个块后停止。再次运行命令即可从中断处继续。",
+	"notice.noteChanged": "翻译期间笔记已改变，未写入任何内容。请再次运行命令；已翻译的块会被复用。",
+	"notice.noteTranslated": "笔记已翻译。",
+	"notice.translationWriteFailed": "无法将翻译写入 {path}：{error} 已翻译的块会保留；请再次运行命令以重试。",
+
+	// Settings
+	"settings.provider": "服务商",
+	"settings.providerDesc": "由哪个服务回答请求。只有 OpenAI 会在服务器端保存对话；其他服务商每次提问都会重新发送笔记。",
+	"settings.providerCompatible": "OpenAI 兼容服务器",
+	"settings.openAiApiKey": "OpenAI API 密钥",
+	"settings.apiKey": "API 密钥",
+	"settings.apiKeyRequired": "必填。密钥保存在本地，绝不共享。",
+	"settings.apiKeyOptional": "本地服务器可不填。保存在本地，绝不共享。",
+	"settings.conversationHistory": "对话历史",
+	"settings.conversationHistoryDesc": "服务器端：由服务商保存每篇笔记的对话。本地：每次提问都根据笔记中的回答重建对话，不保存任何内容 — 适用于零数据保留的账户。",
+	"settings.serverSide": "服务器端",
+	"settings.local": "本地",
+	"settings.baseUrl": "基础 URL",
+	"settings.baseUrlDesc": "留空则使用服务商的默认端点。",
+	"settings.model": "模型",
+	"settings.modelOpenAiDesc": "用于回答的 OpenAI 模型。",
+	"settings.modelDesc": "服务商所要求的模型名称。",
+	"settings.reasoningEffort": "推理强度",
+	"settings.reasoningEffortDesc": "模型进行多少推理。越高越慢，但越周全。仅用于提问（改写和翻译始终不使用推理）。",
+	"settings.effortNone": "无",
+	"settings.effortLow": "低",
+	"settings.effortMedium": "中",
+	"settings.effortHigh": "高",
+	"settings.webSearch": "网络搜索",
+	"settings.webSearchDesc": "提问时允许模型搜索网络，以获取最新信息。",
+	"settings.sources": "来源",
+	"settings.sourcesDesc": "网络搜索的来源在回答中如何显示：编号脚注、行内链接或隐藏。",
+	"settings.sourcesFootnotes": "脚注",
+	"settings.sourcesLinks": "行内链接",
+	"settings.sourcesHidden": "隐藏",
+	"settings.answerStorage": "回答存放位置",
+	"settings.answerStorageDesc": "将回答以标注块写入笔记，或存放在侧边栏显示的附属文件中，让笔记保持整洁。使用移动命令可转换一篇笔记。",
+	"settings.storageInline": "笔记中",
+	"settings.storageSidecar": "附属文件",
+	"settings.streamAnswers": "流式输出回答",
+	"settings.streamAnswersDesc": "回答一边生成一边写入笔记，而不是等待完整回答。",
+	"settings.previewRewrites": "预览改写",
+	"settings.previewRewritesDesc": "在替换段落之前，以逐词对比的方式显示改写，供你接受、拒绝或重新生成。",
+	"settings.maxAttempts": "最大尝试次数",
+	"settings.maxAttemptsDesc": "遇到速率限制或服务器错误的调用最多尝试几次（含第一次）。",
+	"settings.retryTimeout": "重试时限",
+	"settings.retryTimeoutDesc": "距第一次尝试超过这么多秒后停止重试。已在进行的请求不会被中断。",
+	"settings.responseLanguage": "回答语言",
+	"settings.responseLanguageDesc": "AI 回答和插件界面使用的主要语言。",
+	"settings.translateLanguage": "翻译语言",
+	"settings.translateLanguageDesc": "翻译操作的目标语言。",
+	"settings.translateMode": "翻译样式",
+	"settings.translateModeDesc": "翻译命令把译文放在哪里。每种样式也有自己的命令。",
+	"translateMode.inline": "在选中内容后加括号",
+	"translateMode.replace": "替换选中内容",
+	"translateMode.footnote": "脚注",
+	"translateMode.ruby": "注音标注（中文和日文标读音）",
+	"translateMode.tooltip": "悬停提示",
+	"translateMode.below": "段落下方一行",
+	"settings.noteTranslationLayout": "笔记翻译布局",
+	"settings.noteTranslationLayoutDesc": "翻译笔记和翻译标题章节命令如何写入译文。",
+	"noteLayout.interleaved": "每个块后面跟着译文",
+	"noteLayout.columns": "以双栏表格并排显示",
+	"noteLayout.note": "链接回原文的新笔记",
+	"noteTranslation.original": "原文",
+	"settings.glossary": "术语表",
+	"settings.glossaryDesc": "术语的首选译法，每行一条，格式为 \"术语 = 译文\"。行首加上语言标签和冒号（\"ja: 术语 = 译文\"）则只用于该语言。段落中出现的术语会随每次翻译一起发送。",
+	"settings.glossaryNote": "术语表笔记",
+	"settings.glossaryNoteDesc": "库中一篇按相同格式写有更多术语的笔记，这样术语表可以像普通笔记一样编辑。其中的条目优先于上面的条目。",
+	"settings.notePath": "笔记路径",
+	"settings.translationMemory": "翻译记忆",
+	"settings.translationMemoryDesc": "记住每次翻译，同一文本再次译成同一语言时直接复用，无需调用模型。可浏览以修改或删除记住的译文。",
+	"settings.browse": "浏览",
+	"settings.customLanguages": "自定义语言",
+	"settings.customLanguagesDesc": "内置语言之外用于回答和翻译的语言。与内置语言标签相同的语言会替换它，例如用于修改其默认问题。",
+	"settings.addLanguage": "添加语言",
+	"settings.quickActions": "快捷操作",
+	"settings.quickActionsDesc": "显示在输入框中的一键提示词。每个也是一条命令，因此可以设置快捷键。",
+	"settings.replacesParagraph": "替换段落",
+	"settings.addsNote": "添加笔记",
+	"settings.restoreDefaults": "恢复默认",
+	"settings.addQuickAction": "添加快捷操作",
+	"settings.edit": "编辑",
+	"settings.remove": "移除",
+	"settings.moveUp": "上移",
+	"settings.promptTemplates": "提示词模板",
+	"settings.templateFolder": "模板文件夹",
+	"settings.templateFolderDesc": "存放自定义系统提示词的库内文件夹，每个操作一个文件。缺少的文件使用内置提示词。留空则始终使用内置提示词。",
+	"settings.folderPath": "文件夹路径",
+	"settings.templatePrompt": "{name} 提示词",
+	"settings.templateBuiltIn": "正在使用内置提示词。",
+	"settings.templateCustom": "正在使用 {path}。",
+	"settings.templateInvalid": "{path} 未被使用（{problems}）；正在使用内置提示词。",
+	"settings.templateVariables": "变量：{variables}。",
+	"settings.openTemplate": "打开模板",
+	"promptAction.ask": "提问",
+	"promptAction.rewrite": "改写",
+	"promptAction.translate": "翻译",
+	"promptAction.register": "笔记登记",
+	"settings.resetTemplate": "恢复默认",
+	"settings.usage": "用量",
+	"settings.spend": "花费",
+	"settings.loading": "加载中...",
+	"settings.spendSummary": "今天：{today}。本月：{month}。",
+	"settings.usageLine": "{cost} · {calls} 次调用 · {tokens} 个 token",
+	"settings.usageLineUnpriced": "{cost} · {calls} 次调用（{unpriced} 次未定价）· {tokens} 个 token",
+	"settings.prices": "价格",
+	"settings.pricesDesc": "每行一个模型，格式为 \"模型 = 输入, 输出\"，单位为每百万 token 的美元。没有价格的模型只计调用次数，不计费用。",
+	"settings.dailyBudget": "每日预算",
+	"settings.dailyBudgetDesc": "今天的花费达到这么多美元后停止调用。0 表示不限。",
+	"settings.monthlyBudget": "每月预算",
+	"settings.monthlyBudgetDesc": "本月的花费达到这么多美元后停止调用。0 表示不限。",
+	"settings.noteBudget": "每篇笔记预算",
+	"settings.noteBudgetDesc": "一篇笔记的总花费达到这么多美元后，停止在该笔记上提问和改写。0 表示不限。",
+	// Commands
+	"command.discuss": "讨论",
+	"command.translate": "翻译",
+	"command.translateInline": "在括号中翻译",
+	"command.translateReplace": "翻译并替换所选内容",
+	"command.translateFootnote": "翻译为脚注",
+	"command.translateRuby": "添加注音标注",
+	"command.translateTooltip": "翻译为悬停提示",
+	"command.translateBelow": "在段落下方一行翻译",
+	"command.translationMemory": "翻译记忆",
+	"command.translateNote": "翻译笔记",
+	"command.translateSection": "翻译标题章节",
+	"command.reRegister": "重新登记笔记",
+	"command.rewriteHistory": "改写记录",
+	"command.openSidecar": "打开附属文件笔记",
+	"command.moveToSidecar": "将回答移到附属文件",
+	"command.moveIntoNote": "将回答移入笔记",
+	"command.openThreads": "打开讨论串",
+	"command.searchAnswers": "搜索回答",
+	"command.exportFlashcards": "导出闪卡",
+	"command.cancelPending": "取消待处理的请求",
+	"command.pruneChains": "清理链数据",
+	"command.quickAction": "快捷操作：{name}",
+	// Quick action and language editors
+	"editor.cancel": "取消",
+	"editor.save": "保存",
+	"editor.cantSave": "无法保存：{problems}。",
+	"editor.editTitle": "编辑 {name}",
+	"editor.name": "名称",
+	"quickAction.newTitle": "新建快捷操作",
+	"quickAction.nameDesc": "显示在撰写窗口的按钮和命令面板中。",
+	"quickAction.icon": "图标",
+	"quickAction.iconDesc": "lucide.dev 的图标名称，例如 lightbulb。",
+	"quickAction.prompt": "提示词",
+	"quickAction.promptDesc": "要对这段文字做什么。变量：{vars}。",
+	"quickAction.result": "结果",
+	"quickAction.resultDesc": "将回答作为新笔记添加到段落下方，或就地改写段落。",
+	"quickAction.resultCallout": "新笔记",
+	"quickAction.resultReplace": "替换段落",
+	"quickAction.useSetting": "使用设置",
+	"quickAction.on": "开启",
+	"quickAction.off": "关闭",
+	"language.newTitle": "新建语言",
+	"language.tag": "标签",
+	"language.tagDesc": "语言标签，例如 de、pt-br 或 zh-hant（不区分大小写）。",
+	"language.nameDesc": "提示词中对它的称呼，让模型知道指的是哪种语言。",
+	"language.nativeName": "原文名称",
+	"language.nativeNameDesc": "该语言本身的名称，用于菜单。留空则使用上方的名称。",
+	"language.defaultQuestion": "默认问题",
+	"language.defaultQuestionDesc": "未输入问题就提交时，撰写窗口所提的问题。",
+	"language.direction": "书写方向",
+	"language.ltr": "从左到右",
+	"language.rtl": "从右到左",
+	"problem.nameEmpty": "名称为空",
+	"problem.tagFormat": "标签必须类似 de、pt-BR 或 zh-Hant",
+	"problem.defaultQuestionEmpty": "默认问题为空",
+	"problem.templateEmpty": "模板为空",
+	"problem.promptEmpty": "提示词为空",
+	"problem.unknownVariable": "未知变量 {variable}",
+	"problem.unbalanced": "{{ 或 }} 未配对",
+	// Panels and dialogs
+	"history.title": "改写记录",
+	"history.empty": "这篇笔记没有改写记录。",
+	"history.removedNotes": "已移除笔记",
+	"history.editedSince": "之后已编辑",
+	"history.duplicated": "出现不止一次",
+	"history.showDiff": "显示差异",
+	"history.hideDiff": "隐藏差异",
+	"history.copyOriginal": "复制原文",
+	"history.copied": "已复制原文。",
+	"history.copyFailed": "无法复制到剪贴板。",
+	"history.restore": "还原",
+	"history.cantRestore": "改写后的段落之后已被编辑，或出现不止一次。请改为复制原文。",
+	"history.restored": "已还原段落。",
+	"history.restoredWithNotes": "已还原段落及其笔记。",
+	"sidecar.displayText": "coo 笔记",
+	"sidecar.showNotes": "显示 coo 笔记",
+	"sidecar.openNote": "打开笔记以查看其 coo 笔记。",
+	"sidecar.delete": "删除",
+	"sidecar.wholeNote": "整篇笔记",
+	"sidecar.paragraphGone": "段落已不在笔记中",
+	"threads.displayText": "coo 讨论串",
+	"threads.openNote": "打开笔记以查看其 coo 讨论串。",
+	"threads.collapseAll": "全部折叠",
+	"threads.expandAll": "全部展开",
+	"threads.untitled": "笔记",
+	"threads.minor": "次要",
+	"threads.followUp": "追问",
+	"threads.askAgain": "再问一次",
+	"threads.delete": "删除",
+	"search.title": "搜索回答",
+	"search.placeholder": "搜索问题与回答",
+	"search.fieldAll": "问题与回答",
+	"search.fieldQuestion": "问题",
+	"search.fieldAnswer": "回答",
+	"search.minorAny": "含次要",
+	"search.minorOnly": "仅次要",
+	"search.minorExclude": "排除次要",
+	"search.anyTime": "任何时间",
+	"search.pastWeek": "过去一周",
+	"search.pastMonth": "过去一个月",
+	"search.pastYear": "过去一年",
+	"search.folder": "文件夹",
+	"search.empty": "没有匹配的回答。",
+	"search.minor": "次要",
+	"search.untitled": "未命名",
+	"flashcards.title": "导出闪卡",
+	"flashcards.scope": "回答来源",
+	"flashcards.scopeNote": "这篇笔记",
+	"flashcards.scopeFolder": "文件夹",
+	"flashcards.scopeVault": "整个仓库",
+	"flashcards.folder": "文件夹",
+	"flashcards.folderDesc": "此文件夹及其子文件夹中的笔记。",
+	"flashcards.includeMinor": "包含次要回答",
+	"flashcards.includeMinorDesc": "关于可略过细节的简短回答，标记为次要。",
+	"flashcards.format": "格式",
+	"flashcards.formatCsv": "Anki (CSV)",
+	"flashcards.formatTsv": "Anki (TSV)",
+	"flashcards.formatSpacedRepetition": "Spaced Repetition 插件",
+	"flashcards.formatReviewNote": "复习笔记",
+	"flashcards.exportTo": "导出到",
+	"flashcards.exportToDesc": "仓库中的文件，扩展名取决于格式。已有的文件会保留，并在旁边写入带编号的新文件。",
+	"flashcards.export": "导出",
+	"memory.title": "翻译记忆",
+	"memory.placeholder": "搜索文本与翻译",
+	"memory.noMatches": "没有匹配的翻译。",
+	"memory.empty": "尚未记住任何翻译。",
+	"memory.remove": "移除",
+};
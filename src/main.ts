@@ -1,71 +1,414 @@
-import { Editor, Notice, Plugin } from "obsidian";
+import {
+	Editor,
+	MarkdownView,
+	Notice,
+	Plugin,
+	TFile,
+	TFolder,
+	debounce,
+	normalizePath,
+	type Vault,
+	type WorkspaceLeaf,
+} from "obsidian";
 import type { CooSettings } from "./types";
 import { DEFAULT_SETTINGS, CooSettingTab } from "./settings";
 import { detectObsidianLocale } from "./settings-utils";
+import { getTranslateLanguage, migrateLanguageTag } from "./languages";
 import { CooComposer } from "./composer-modal";
-import { performTranslate } from "./translate";
-import { reRegisterNote } from "./chain";
+import { TRANSLATE_MODES, performTranslate, translateNoteBlocks } from "./translate";
+import {
+	columnsTranslation,
+	findHeadingSection,
+	interleaveTranslation,
+	isTranslatable,
+	splitNoteBlocks,
+	translatedNote,
+	translatedNotePath,
+} from "./note-translation";
+import { TranslationProgress } from "./translation-progress";
+import { TranslationMemory } from "./translation-memory";
+import { TranslationMemoryModal } from "./translation-memory-modal";
+import { parseGlossary } from "./glossary";
+import { translationTooltips } from "./translation-tooltips";
+import { reRegisterNote, usesServerChaining } from "./chain";
+import { ChainStore } from "./chain-store";
+import { UsageLedger, formatCost, formatTokens } from "./usage-ledger";
+import { RewriteHistory } from "./rewrite-history";
+import { RewriteHistoryModal } from "./rewrite-history-modal";
+import { SidecarStore, newBlockId } from "./sidecar";
+import { SidecarView, VIEW_TYPE_SIDECAR } from "./sidecar-view";
+import { sidecarDecorations, sidecarRefresh } from "./sidecar-decorations";
+import { QaIndex } from "./qa-index";
+import { QaSearchModal } from "./qa-search-modal";
+import { FlashcardExportModal, type FlashcardExportOptions } from "./flashcard-export-modal";
+import { collectFlashcards, flashcardExportPath, formatFlashcards } from "./flashcards";
+import { ThreadsView, VIEW_TYPE_THREADS, type ThreadActions } from "./threads-view";
+import {
+	PromptTemplates,
+	TEMPLATE_ACTIONS,
+	noteTitleOf,
+	stripFrontmatter,
+	type PromptAction,
+} from "./prompt-templates";
+import { getDefaultTemplate } from "./prompts";
+import { quickActionCommandId } from "./quick-actions";
+import type { GlossaryEntry, QuickAction, TranslateMode } from "./types";
+import { getProvider, getProviderById } from "./providers";
+import { setUiLanguage, t } from "./i18n";
+import { PendingRequests } from "./cancellation";
 import {
 	getSelectedTextWithContext,
 	findSelectionSpan,
 	findCalloutContaining,
+	getNoteHistory,
+	detachCallouts,
+	attachCallouts,
+	getEditorView,
 } from "./editor-ops";
 
+/** What the plugin needs of each of its data stores. */
+interface DataStore {
+	flush(): Promise<void>;
+	onSaveError: (err: unknown) => void;
+}
+
 export default class CooPlugin extends Plugin {
 	settings: CooSettings;
+	/** In-flight Ask/Rewrite/Translate requests, for the cancel command. */
+	pending = new PendingRequests();
+	/** Per-note conversation chains (chain-data.json). */
+	chains: ChainStore;
+	/** Token usage and cost of every call (usage-ledger.json). */
+	ledger: UsageLedger;
+	/** Originals of applied rewrites (rewrite-history.json). */
+	history: RewriteHistory;
+	/** Answers kept outside their notes (sidecar-data.json). */
+	sidecar: SidecarStore;
+	/** Every coo callout in the vault, for search (qa-index.json). */
+	qaIndex: QaIndex;
+	/** Blocks of unfinished note translations (translation-progress.json). */
+	translationProgress: TranslationProgress;
+	/** Earlier translations, reused by Translate (translation-memory.json). */
+	translationMemory: TranslationMemory;
+	/** The stores above with their file names, for flushing and save errors. */
+	private stores: ReadonlyArray<readonly [DataStore, string]> = [];
+	/** Entries of the glossary note (settings → Glossary note), as last read. */
+	private glossaryNoteEntries: GlossaryEntry[] = [];
+	/** Prompt overrides from the template folder. */
+	templates: PromptTemplates;
+	private usageStatusEl: HTMLElement;
+	/** The last template-problem notice, so an unchanged problem isn't repeated. */
+	private templateProblemNotice = "";
+	/** Ids of the registered quick-action commands, to replace on change. */
+	private quickActionCommandIds: string[] = [];
+	/** Notes changed since the answer index last caught up with them. */
+	private unindexedNotes = new Set<string>();
+	private scheduleIndexing = debounce(() => void this.indexChangedNotes(), 2000, true);
+
+	onunload(): void {
+		this.pending.cancelAll();
+		for (const [store, file] of this.stores) {
+			store.flush().catch((err: unknown) => {
+				const error = err instanceof Error ? err.message : t("error.unexpected");
+				new Notice(t("notice.unloadSaveFailed", { file, error }));
+			});
+		}
+	}
 
 	async onload(): Promise<void> {
 		await this.loadSettings();
+		this.chains = new ChainStore(
+			this.app.vault.adapter,
+			`${this.manifest.dir ?? ""}/chain-data.json`,
+		);
+		this.ledger = new UsageLedger(
+			this.app.vault.adapter,
+			`${this.manifest.dir ?? ""}/usage-ledger.json`,
+		);
+		this.history = new RewriteHistory(
+			this.app.vault.adapter,
+			`${this.manifest.dir ?? ""}/rewrite-history.json`,
+		);
+		this.sidecar = new SidecarStore(
+			this.app.vault.adapter,
+			`${this.manifest.dir ?? ""}/sidecar-data.json`,
+		);
+		await this.sidecar.ready();
+		this.qaIndex = new QaIndex(
+			this.app.vault.adapter,
+			`${this.manifest.dir ?? ""}/qa-index.json`,
+		);
+		this.translationProgress = new TranslationProgress(
+			this.app.vault.adapter,
+			`${this.manifest.dir ?? ""}/translation-progress.json`,
+		);
+		this.translationMemory = new TranslationMemory(
+			this.app.vault.adapter,
+			`${this.manifest.dir ?? ""}/translation-memory.json`,
+		);
+		this.stores = [
+			[this.chains, "chain-data.json"],
+			[this.ledger, "usage-ledger.json"],
+			[this.history, "rewrite-history.json"],
+			[this.sidecar, "sidecar-data.json"],
+			[this.qaIndex, "qa-index.json"],
+			[this.translationProgress, "translation-progress.json"],
+			[this.translationMemory, "translation-memory.json"],
+		];
+		for (const [store, file] of this.stores) {
+			store.onSaveError = (err) => this.noticeSaveError(file, err);
+		}
+		this.templates = new PromptTemplates(this.app.vault.adapter);
 		await this.cleanupLegacyPrompts();
+		await this.reloadPromptTemplates();
+		await this.reloadGlossaryNote();
 
 		// --- Discuss: select a paragraph → composer (Ask + Rewrite) ---
 		this.addCommand({
 			id: "discuss",
-			name: "Discuss",
+			name: t("command.discuss"),
 			editorCallback: (editor: Editor) => {
 				this.openDiscuss(editor);
 			},
 		});
 
-		// --- Translate: select a word/phrase → inline bracketed translation ---
+		// --- Quick actions: one command each, so they can take hotkeys ---
+		this.registerQuickActionCommands();
+
+		// --- Translate: select a word/phrase → translation in the chosen style ---
 		this.addCommand({
 			id: "translate",
-			name: "Translate",
+			name: t("command.translate"),
+			editorCallback: (editor: Editor) => {
+				void this.translate(editor);
+			},
+		});
+		// One command per style, to override the setting
+		for (const { mode, command } of TRANSLATE_MODES) {
+			this.addCommand({
+				id: `translate-${mode}`,
+				name: t(command),
+				editorCallback: (editor: Editor) => {
+					void this.translate(editor, mode);
+				},
+			});
+		}
+		this.registerEditorExtension(translationTooltips());
+
+		// --- Translation memory: browse and correct remembered translations ---
+		this.addCommand({
+			id: "translation-memory",
+			name: t("command.translationMemory"),
+			callback: () => {
+				new TranslationMemoryModal(this.app, this.translationMemory).open();
+			},
+		});
+
+		// --- Translate note: the whole note, or one heading section, block by
+		// block in the chosen layout ---
+		this.addCommand({
+			id: "translate-note",
+			name: t("command.translateNote"),
+			editorCallback: (editor: Editor) => {
+				void this.translateNote(editor, false);
+			},
+		});
+		this.addCommand({
+			id: "translate-section",
+			name: t("command.translateSection"),
 			editorCallback: (editor: Editor) => {
-				void performTranslate(editor, this.settings);
+				void this.translateNote(editor, true);
 			},
 		});
 
 		// --- Re-register note: refresh the chaining snapshot ---
 		this.addCommand({
 			id: "re-register",
-			name: "Re-register note",
+			name: t("command.reRegister"),
 			editorCallback: async (editor: Editor) => {
 				await this.reRegister(editor);
 			},
 		});
 
+		// --- Rewrite history: restore or diff past rewrites of this note ---
+		this.addCommand({
+			id: "rewrite-history",
+			name: t("command.rewriteHistory"),
+			editorCallback: (editor: Editor) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file) {
+					new Notice(t("notice.openNote"));
+					return;
+				}
+				new RewriteHistoryModal(this.app, editor, file.path, this.history).open();
+			},
+		});
+
+		// --- Sidecar: answers outside the note, in a side panel and as badges
+		// on the paragraphs they annotate ---
+		this.registerView(VIEW_TYPE_SIDECAR, (leaf) => new SidecarView(leaf, this.sidecar));
+		this.registerEditorExtension(
+			sidecarDecorations(this.sidecar, (notePath, block) => {
+				void this.revealSidecar(notePath, block);
+			}),
+		);
+		this.sidecar.onChange((notePath) => this.onSidecarChange(notePath));
+		this.addCommand({
+			id: "open-sidecar",
+			name: t("command.openSidecar"),
+			callback: () => {
+				void this.revealSidecar();
+			},
+		});
+		this.addCommand({
+			id: "move-answers-to-sidecar",
+			name: t("command.moveToSidecar"),
+			editorCallback: (editor: Editor) => {
+				void this.moveToSidecar(editor);
+			},
+		});
+		this.addCommand({
+			id: "move-answers-into-note",
+			name: t("command.moveIntoNote"),
+			editorCallback: (editor: Editor) => {
+				void this.moveIntoNote(editor);
+			},
+		});
+
+		// --- Threads: the active note's callouts, nested by drill-down ---
+		this.registerView(
+			VIEW_TYPE_THREADS,
+			(leaf) =>
+				new ThreadsView(leaf, {
+					ask: (view, target, question) => this.askFromThreads(view, target, question),
+				}),
+		);
+		this.addCommand({
+			id: "open-threads",
+			name: t("command.openThreads"),
+			callback: () => {
+				void this.revealView(VIEW_TYPE_THREADS);
+			},
+		});
+
+		// --- Search answers: every coo callout in the vault, indexed in the
+		// background ---
+		this.addCommand({
+			id: "search-answers",
+			name: t("command.searchAnswers"),
+			callback: () => {
+				new QaSearchModal(this.app, this.qaIndex).open();
+			},
+		});
+		this.app.workspace.onLayoutReady(() => void this.syncQaIndex());
+
+		// --- Export flashcards: answers as cards for Anki or spaced repetition ---
+		this.addCommand({
+			id: "export-flashcards",
+			name: t("command.exportFlashcards"),
+			callback: () => {
+				const notePath = this.app.workspace.getActiveFile()?.path ?? null;
+				new FlashcardExportModal(this.app, notePath, (options) => {
+					void this.exportFlashcards(options, notePath);
+				}).open();
+			},
+		});
+
+		// --- Cancel: abort every in-flight Ask, Rewrite and Translate ---
+		this.addCommand({
+			id: "cancel-pending",
+			name: t("command.cancelPending"),
+			callback: () => {
+				const count = this.pending.cancelAll();
+				new Notice(
+					t(count > 0 ? "notice.cancelled" : "notice.noPending"),
+				);
+			},
+		});
+
+		// --- Prune chain data: drop chains of missing notes and expired chains ---
+		this.addCommand({
+			id: "prune-chains",
+			name: t("command.pruneChains"),
+			callback: async () => {
+				await this.pruneChainData();
+			},
+		});
+
+		// --- Keep chains, rewrite history, sidecar notes, the answer index and
+		// note translation progress keyed to the right note as notes move or
+		// go away ---
+		this.registerEvent(
+			this.app.vault.on("rename", (file, oldPath) => {
+				void this.chains.move(oldPath, file.path);
+				void this.history.move(oldPath, file.path);
+				void this.sidecar.move(oldPath, file.path);
+				void this.qaIndex.move(oldPath, file.path);
+				void this.translationProgress.move(oldPath, file.path);
+				this.onTemplateChange(file.path, oldPath);
+				this.onGlossaryChange(file.path, oldPath);
+			}),
+		);
+		this.registerEvent(
+			this.app.vault.on("delete", (file) => {
+				void this.chains.drop(file.path);
+				void this.history.drop(file.path);
+				void this.sidecar.drop(file.path);
+				void this.qaIndex.drop(file.path);
+				void this.translationProgress.drop(file.path);
+				this.unindexedNotes.delete(file.path);
+				this.onTemplateChange(file.path);
+				this.onGlossaryChange(file.path);
+			}),
+		);
+
+		// --- Pick up prompt template and glossary edits as they are saved, and
+		// re-index changed notes' answers ---
+		this.registerEvent(
+			this.app.vault.on("create", (file) => {
+				this.onTemplateChange(file.path);
+				this.onGlossaryChange(file.path);
+				this.onNoteChange(file.path);
+			}),
+		);
+		this.registerEvent(
+			this.app.vault.on("modify", (file) => {
+				this.onTemplateChange(file.path);
+				this.onGlossaryChange(file.path);
+				this.onNoteChange(file.path);
+			}),
+		);
+
 		// --- Context menu ---
 		this.registerEvent(
 			this.app.workspace.on("editor-menu", (menu, editor) => {
 				if (!editor.somethingSelected()) return;
 				menu.addItem((item) => {
-					item.setTitle("coo discuss")
+					item.setTitle(t("menu.discuss"))
 						.setIcon("messages-square")
 						.onClick(() => {
 							this.openDiscuss(editor);
 						});
 				});
 				menu.addItem((item) => {
-					item.setTitle("coo translate")
+					item.setTitle(t("menu.translate"))
 						.setIcon("languages")
 						.onClick(() => {
-							void performTranslate(editor, this.settings);
+							void this.translate(editor);
 						});
 				});
 			}),
 		);
 
+		// --- Status bar: today's usage, refreshed after each call (and each
+		// minute, so the day rolls over) ---
+		this.usageStatusEl = this.addStatusBarItem();
+		this.ledger.onChange(() => void this.updateUsageStatus());
+		this.registerInterval(
+			window.setInterval(() => void this.updateUsageStatus(), 60_000),
+		);
+		void this.updateUsageStatus();
+
 		// Settings tab
 		this.addSettingTab(new CooSettingTab(this.app, this));
 	}
@@ -78,6 +421,8 @@ export default class CooPlugin extends Plugin {
 			...DEFAULT_SETTINGS,
 			...saved,
 		};
+		// Translation languages used to be saved by name ("Chinese").
+		this.settings.translateLanguage = migrateLanguageTag(this.settings.translateLanguage);
 
 		// Auto-detect locale on first use (no saved settings)
 		if (isFirstUse) {
@@ -86,18 +431,44 @@ export default class CooPlugin extends Plugin {
 				responseLanguage: detectObsidianLocale(),
 			};
 		}
+		setUiLanguage(this.settings.responseLanguage);
 	}
 
 	async saveSettings(): Promise<void> {
+		// The UI follows the response language.
+		setUiLanguage(this.settings.responseLanguage);
 		await this.saveData(this.settings);
 	}
 
-	private openDiscuss(editor: Editor): void {
+	/**
+	 * (Re)register one command per quick action. Called again after the
+	 * actions change in settings; hotkeys follow the action's stable id.
+	 */
+	registerQuickActionCommands(): void {
+		for (const id of this.quickActionCommandIds) {
+			this.removeCommand(id);
+		}
+		this.quickActionCommandIds = this.settings.quickActions.map((action) => {
+			const id = quickActionCommandId(action);
+			this.addCommand({
+				id,
+				name: t("command.quickAction", { name: action.name }),
+				icon: action.icon,
+				editorCallback: (editor: Editor) => {
+					this.openDiscuss(editor, action);
+				},
+			});
+			return id;
+		});
+	}
+
+	/** Open the composer on the selection; with `action`, run it right away. */
+	private openDiscuss(editor: Editor, action: QuickAction | null = null): void {
 		if (!this.requireApiKey()) return;
 
 		const file = this.app.workspace.getActiveFile();
 		if (!file) {
-			new Notice("Open a note first.");
+			new Notice(t("notice.openNote"));
 			return;
 		}
 
@@ -107,20 +478,26 @@ export default class CooPlugin extends Plugin {
 		// bottom. (Selection path stays as-is below.)
 		if (!ctx) {
 			if (!editor.getValue().trim()) {
-				new Notice("The document is empty.");
+				new Notice(t("notice.emptyDocument"));
 				return;
 			}
 			new CooComposer(
 				this.app,
 				this.settings,
+				this.pending,
 				editor,
-				this.manifest.dir ?? "",
+				this.chains,
+				this.ledger,
+				this.templates,
+				this.history,
+				this.sidecar,
 				file.path,
 				"",
 				{ startLine: 0, endLine: Math.max(0, editor.lineCount() - 1) },
 				true,
 				null,
 				null,
+				action,
 			).open();
 			return;
 		}
@@ -134,67 +511,522 @@ export default class CooPlugin extends Plugin {
 			new CooComposer(
 				this.app,
 				this.settings,
+				this.pending,
 				editor,
-				this.manifest.dir ?? "",
+				this.chains,
+				this.ledger,
+				this.templates,
+				this.history,
+				this.sidecar,
 				file.path,
 				ctx.selectedText,
 				{ startLine: drillTarget.startLine, endLine: drillTarget.endLine },
 				false,
 				drillTarget,
 				{ from: ctx.from, to: ctx.to },
+				action,
 			).open();
 			return;
 		}
 
 		const bounds = findSelectionSpan(editor, ctx.from, ctx.to);
 		if (!bounds) {
-			new Notice("Select text in a paragraph.");
+			new Notice(t("notice.selectParagraph"));
 			return;
 		}
 
 		new CooComposer(
 			this.app,
 			this.settings,
+			this.pending,
 			editor,
-			this.manifest.dir ?? "",
+			this.chains,
+			this.ledger,
+			this.templates,
+			this.history,
+			this.sidecar,
 			file.path,
 			ctx.selectedText,
 			bounds,
 			false,
 			null,
 			{ from: ctx.from, to: ctx.to },
+			action,
 		).open();
 	}
 
+	/**
+	 * Open the composer from the threads view: on a paragraph, or drilled into
+	 * an answer; with a question, asked right away (see ThreadActions).
+	 */
+	private askFromThreads(
+		view: MarkdownView,
+		target: Parameters<ThreadActions["ask"]>[1],
+		question?: string,
+	): void {
+		if (!this.requireApiKey() || !view.file) return;
+		const drillTarget = "callout" in target ? target.callout : null;
+		const bounds = drillTarget ?? ("paragraph" in target ? target.paragraph : null);
+		if (!bounds) return;
+		new CooComposer(
+			this.app,
+			this.settings,
+			this.pending,
+			view.editor,
+			this.chains,
+			this.ledger,
+			this.templates,
+			this.history,
+			this.sidecar,
+			view.file.path,
+			"",
+			{ startLine: bounds.startLine, endLine: bounds.endLine },
+			false,
+			drillTarget,
+			null,
+			null,
+			question ?? null,
+		).open();
+	}
+
+	/** Open a side panel of `type`, or reveal the open one. */
+	private async revealView(type: string): Promise<WorkspaceLeaf | null> {
+		const workspace = this.app.workspace;
+		let leaf = workspace.getLeavesOfType(type)[0] ?? null;
+		if (!leaf) {
+			leaf = workspace.getRightLeaf(false);
+			if (!leaf) return null;
+			await leaf.setViewState({ type, active: true });
+		}
+		await workspace.revealLeaf(leaf);
+		return leaf;
+	}
+
+	/** Collect the answers `options` asks for as flashcards and write the file. */
+	private async exportFlashcards(
+		options: FlashcardExportOptions,
+		notePath: string | null,
+	): Promise<void> {
+		const vault = this.app.vault;
+		const folder = normalizePath(options.folder);
+		const notes = vault.getMarkdownFiles().filter((f) =>
+			options.scope === "note"
+				? f.path === notePath
+				: options.scope === "folder"
+					? folder === "/" || f.path.startsWith(`${folder}/`)
+					: true,
+		);
+		const sources = [];
+		for (const note of notes) {
+			sources.push({
+				notePath: note.path,
+				document: await vault.cachedRead(note),
+				sidecar: await this.sidecar.list(note.path),
+			});
+		}
+		const cards = collectFlashcards(sources, options.includeMinor);
+		if (cards.length === 0) {
+			new Notice(t("notice.noAnswersToExport"));
+			return;
+		}
+
+		// A new file each time, so an earlier export (perhaps edited) is kept.
+		const path = flashcardExportPath(
+			normalizePath(options.path || "coo/flashcards"),
+			options.format,
+			(candidate) => vault.getAbstractFileByPath(candidate) !== null,
+		);
+		const text = formatFlashcards(cards, options.format);
+		let file: TFile;
+		try {
+			if (path.includes("/")) await ensureFolder(vault, path.slice(0, path.lastIndexOf("/")));
+			file = await vault.create(path, text);
+		} catch (err) {
+			const error = err instanceof Error ? err.message : t("error.unexpected");
+			new Notice(t("notice.exportFailed", { path, error }), 8000);
+			return;
+		}
+		new Notice(t("notice.exported", { count: cards.length, path }));
+		if (path.endsWith(".md")) {
+			await this.app.workspace.getLeaf("tab").openFile(file);
+		}
+	}
+
+	/**
+	 * Translate the note, or the heading section holding the cursor, and write
+	 * it in the Note translation layout: in place as one undoable edit, or as a
+	 * sibling note. If the note was edited while the blocks were being
+	 * translated, nothing is written in place; the translated blocks are kept,
+	 * so running the command again only sends the ones that changed.
+	 */
+	private async translateNote(editor: Editor, section: boolean): Promise<void> {
+		const file = this.app.workspace.getActiveFile();
+		if (!file) {
+			new Notice(t("notice.openNote"));
+			return;
+		}
+		if (!this.requireApiKey()) return;
+
+		const document = editor.getValue();
+		let blocks = splitNoteBlocks(document);
+		if (section) {
+			const range = findHeadingSection(blocks, editor.getCursor().line);
+			if (!range) {
+				new Notice(t("notice.noHeadingSection"));
+				return;
+			}
+			blocks = blocks.slice(range.start, range.end);
+		}
+		if (!blocks.some(isTranslatable)) {
+			new Notice(t("notice.nothingToTranslate"));
+			return;
+		}
+
+		const translations = await translateNoteBlocks(
+			blocks,
+			file.path,
+			this.settings,
+			this.pending,
+			this.ledger,
+			this.translationProgress,
+			this.glossary(),
+		);
+		if (!translations) return;
+
+		const layout = this.settings.noteTranslationLayout;
+		if (layout === "note") {
+			// A new note each time, so an earlier translation (and any edits
+			// made to it) is never overwritten.
+			const vault = this.app.vault;
+			const path = translatedNotePath(
+				file.path,
+				this.settings.translateLanguage,
+				(candidate) => vault.getAbstractFileByPath(candidate) !== null,
+			);
+			const link = this.app.metadataCache.fileToLinktext(file, path);
+			const text = translatedNote(blocks, translations, `[[${link}]]`);
+			let target: TFile;
+			try {
+				target = await vault.create(path, text);
+			} catch (err) {
+				const error = err instanceof Error ? err.message : t("error.unexpected");
+				new Notice(t("notice.translationWriteFailed", { path, error }), 8000);
+				return;
+			}
+			await this.app.workspace.getLeaf("tab").openFile(target);
+		} else {
+			if (editor.getValue() !== document) {
+				new Notice(t("notice.noteChanged"), 8000);
+				return;
+			}
+			const text =
+				layout === "columns"
+					? columnsTranslation(blocks, translations, [
+							t("noteTranslation.original"),
+							getTranslateLanguage(this.settings).nativeName,
+						])
+					: interleaveTranslation(blocks, translations);
+			if (section) {
+				const first = blocks[0];
+				const last = blocks[blocks.length - 1];
+				if (!first || !last) return;
+				const endLine = last.line + last.text.split("\n").length - 1;
+				editor.replaceRange(
+					text,
+					{ line: first.line, ch: 0 },
+					{ line: endLine, ch: editor.getLine(endLine).length },
+				);
+			} else {
+				replaceNote(editor, text);
+			}
+		}
+		await this.translationProgress.clear(file.path);
+		new Notice(t("notice.noteTranslated"));
+	}
+
+	/** Bring the answer index up to date with the vault's notes. */
+	private async syncQaIndex(): Promise<void> {
+		const notes = this.app.vault.getMarkdownFiles();
+		await this.qaIndex.sync(
+			notes.map((f) => ({ path: f.path, mtime: f.stat.mtime })),
+			async (path) => {
+				const file = this.app.vault.getAbstractFileByPath(path);
+				return file instanceof TFile ? this.app.vault.cachedRead(file) : "";
+			},
+			(path) => this.sidecar.peek(path),
+		);
+	}
+
+	/** Queue a changed note for re-indexing; edits in a burst are indexed once. */
+	private onNoteChange(path: string): void {
+		if (!path.endsWith(".md")) return;
+		this.unindexedNotes.add(path);
+		this.scheduleIndexing();
+	}
+
+	private async indexChangedNotes(): Promise<void> {
+		const paths = [...this.unindexedNotes];
+		this.unindexedNotes.clear();
+		for (const path of paths) {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (!(file instanceof TFile)) continue;
+			await this.qaIndex.update(
+				path,
+				file.stat.mtime,
+				await this.app.vault.cachedRead(file),
+				this.sidecar.peek(path),
+			);
+		}
+	}
+
+	/** Open the sidecar panel; with a block, scroll it to that paragraph's answers. */
+	private async revealSidecar(notePath?: string, block?: string): Promise<void> {
+		const leaf = await this.revealView(VIEW_TYPE_SIDECAR);
+		if (leaf?.view instanceof SidecarView && notePath !== undefined && block !== undefined) {
+			await leaf.view.reveal(notePath, block);
+		}
+	}
+
+	/**
+	 * Refresh the panel and the note's editors, and re-index the note, after
+	 * its sidecar entries change.
+	 */
+	private onSidecarChange(notePath: string): void {
+		this.onNoteChange(notePath);
+		for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_SIDECAR)) {
+			if (leaf.view instanceof SidecarView) leaf.view.onSidecarChange(notePath);
+		}
+		for (const leaf of this.app.workspace.getLeavesOfType("markdown")) {
+			if (!(leaf.view instanceof MarkdownView) || leaf.view.file?.path !== notePath) continue;
+			getEditorView(leaf.view.editor)?.dispatch({ effects: sidecarRefresh.of(null) });
+		}
+	}
+
+	/** Lift the note's coo callouts into the sidecar. */
+	private async moveToSidecar(editor: Editor): Promise<void> {
+		const file = this.app.workspace.getActiveFile();
+		if (!file) {
+			new Notice(t("notice.openNote"));
+			return;
+		}
+		// Ids issued during this pass aren't in the note yet; keep them unique too.
+		let issued = "";
+		const { text, callouts } = detachCallouts(editor, () => {
+			const id = newBlockId(editor.getValue() + issued);
+			issued += ` ^${id}`;
+			return id;
+		});
+		if (callouts.length === 0) {
+			new Notice(t("notice.noCallouts"));
+			return;
+		}
+		const before = editor.getValue();
+		const added = await this.sidecar.add(file.path, callouts);
+		// The note may have been edited while the store loaded; writing `text`
+		// now would undo that edit, so take the answers back out instead.
+		if (editor.getValue() !== before) {
+			await this.sidecar.removeMany(file.path, added.map((entry) => entry.id));
+			new Notice(t("notice.sidecarNoteChanged"));
+			return;
+		}
+		replaceNote(editor, text);
+		new Notice(
+			callouts.length === 1
+				? t("notice.movedToSidecarOne")
+				: t("notice.movedToSidecar", { count: callouts.length }),
+		);
+	}
+
+	/** Write the note's sidecar answers back into it as callouts. */
+	private async moveIntoNote(editor: Editor): Promise<void> {
+		const file = this.app.workspace.getActiveFile();
+		if (!file) {
+			new Notice(t("notice.openNote"));
+			return;
+		}
+		const entries = await this.sidecar.list(file.path);
+		if (entries.length === 0) {
+			new Notice(t("notice.noSidecarNotes"));
+			return;
+		}
+		replaceNote(editor, attachCallouts(editor, entries));
+		await this.sidecar.removeMany(file.path, entries.map((entry) => entry.id));
+		new Notice(
+			entries.length === 1
+				? t("notice.movedIntoNoteOne")
+				: t("notice.movedIntoNote", { count: entries.length }),
+		);
+	}
+
 	private async reRegister(editor: Editor): Promise<void> {
 		if (!this.requireApiKey()) return;
 
+		if (!usesServerChaining(this.settings)) {
+			new Notice(t("notice.localHistory"));
+			return;
+		}
+
 		const file = this.app.workspace.getActiveFile();
 		if (!file) {
-			new Notice("Open a note first.");
+			new Notice(t("notice.openNote"));
 			return;
 		}
 
-		new Notice("Re-registering note...");
+		new Notice(t("notice.reRegistering"));
 
 		try {
 			await reRegisterNote(
-				this.app,
-				this.manifest.dir ?? "",
+				this.chains,
 				file.path,
 				editor.getValue(),
+				getNoteHistory(editor).document,
 				this.settings,
+				this.ledger,
+				this.templates.systemPrompt("register", this.settings, {
+					noteTitle: noteTitleOf(file.path),
+				}),
 			);
-			new Notice("Note re-registered.");
+			new Notice(t("notice.reRegistered"));
 		} catch (err) {
 			const message =
 				err instanceof Error
 					? err.message
-					: "Re-registration failed.";
+					: t("notice.reRegisterFailed");
 			new Notice(message, 5000);
 		}
 	}
 
+	/**
+	 * Reload the prompt templates from the configured folder, with a notice
+	 * for each template that has problems (falls back to the built-in prompt).
+	 */
+	async reloadPromptTemplates(): Promise<void> {
+		const problems = await this.templates.load(
+			this.settings.promptFolder ? normalizePath(this.settings.promptFolder) : "",
+		);
+		const notice = problems
+			.map(({ action, problems: list }) => {
+				const info = TEMPLATE_ACTIONS.find((a) => a.action === action);
+				return t("notice.templateProblem", {
+					path: this.templates.pathOf(action),
+					problems: list.join("; "),
+					name: info ? t(info.label) : action,
+				});
+			})
+			.join("\n");
+		if (notice && notice !== this.templateProblemNotice) {
+			new Notice(t("notice.templateProblems", { problems: notice }), 8000);
+		}
+		this.templateProblemNotice = notice;
+	}
+
+	/** The glossary: the settings' entries, then the glossary note's. */
+	glossary(): GlossaryEntry[] {
+		return [...this.settings.glossary, ...this.glossaryNoteEntries];
+	}
+
+	/** (Re)read the glossary note; a missing note has no entries. */
+	async reloadGlossaryNote(): Promise<void> {
+		const path = this.glossaryNotePath();
+		const adapter = this.app.vault.adapter;
+		this.glossaryNoteEntries =
+			path && (await adapter.exists(path))
+				? parseGlossary(stripFrontmatter(await adapter.read(path)))
+				: [];
+	}
+
+	private glossaryNotePath(): string {
+		const path = this.settings.glossaryNote.trim();
+		if (!path) return "";
+		return normalizePath(/\.md$/i.test(path) ? path : `${path}.md`);
+	}
+
+	private onGlossaryChange(path: string, oldPath?: string): void {
+		const glossary = this.glossaryNotePath();
+		if (glossary && (path === glossary || oldPath === glossary)) {
+			void this.reloadGlossaryNote();
+		}
+	}
+
+	/** Translate the selection, with the glossary and translation memory. */
+	private async translate(editor: Editor, mode?: TranslateMode): Promise<void> {
+		await performTranslate(
+			editor,
+			this.settings,
+			this.pending,
+			this.ledger,
+			this.templates,
+			this.translationMemory,
+			this.glossary(),
+			mode,
+		);
+	}
+
+	/** Open an action's template, creating it from the built-in prompt first. */
+	async openPromptTemplate(action: PromptAction): Promise<void> {
+		const folder = this.settings.promptFolder
+			? normalizePath(this.settings.promptFolder)
+			: "";
+		if (!folder) {
+			new Notice(t("notice.setTemplateFolder"));
+			return;
+		}
+		const info = TEMPLATE_ACTIONS.find((a) => a.action === action);
+		const path = normalizePath(`${folder}/${info?.file ?? `${action}.md`}`);
+		const vault = this.app.vault;
+		let file = vault.getAbstractFileByPath(path);
+		if (!(file instanceof TFile)) {
+			await ensureFolder(vault, folder);
+			file = await vault.create(path, getDefaultTemplate(action));
+		}
+		if (file instanceof TFile) {
+			await this.app.workspace.getLeaf("tab").openFile(file);
+		}
+	}
+
+	/** Move an action's template to the trash, so the built-in prompt applies. */
+	async resetPromptTemplate(action: PromptAction): Promise<void> {
+		const file = this.app.vault.getAbstractFileByPath(this.templates.pathOf(action));
+		if (file instanceof TFile) {
+			await this.app.fileManager.trashFile(file);
+		}
+		await this.reloadPromptTemplates();
+	}
+
+	private onTemplateChange(path: string, oldPath?: string): void {
+		if (
+			this.templates.isTemplatePath(path) ||
+			(oldPath !== undefined && this.templates.isTemplatePath(oldPath))
+		) {
+			void this.reloadPromptTemplates();
+		}
+	}
+
+	private async updateUsageStatus(): Promise<void> {
+		const { today } = await this.ledger.summary();
+		const tokens = today.inputTokens + today.outputTokens;
+		this.usageStatusEl.setText(
+			t("status.usage", { cost: formatCost(today.cost), tokens: formatTokens(tokens) }),
+		);
+	}
+
+	private async pruneChainData(): Promise<void> {
+		const removed = await this.chains.prune(
+			(path) => this.app.vault.getAbstractFileByPath(path) instanceof TFile,
+			(provider) => {
+				const retentionDays = getProviderById(provider).retentionDays;
+				return retentionDays !== undefined
+					? retentionDays * 24 * 60 * 60 * 1000
+					: undefined;
+			},
+		);
+		new Notice(
+			removed === 1
+				? t("notice.prunedOne")
+				: t("notice.pruned", { count: removed }),
+		);
+	}
+
 	/**
 	 * Remove the default prompt files left by the legacy prompt-loader (Flow A
 	 * is gone). User-added custom files in prompts/ are left untouched.
@@ -215,11 +1047,35 @@ export default class CooPlugin extends Plugin {
 		}
 	}
 
+	/** Report a data file that could not be saved in the background. */
+	private noticeSaveError(file: string, err: unknown): void {
+		const error = err instanceof Error ? err.message : t("error.unexpected");
+		new Notice(t("notice.saveFailed", { file, error }));
+	}
+
 	private requireApiKey(): boolean {
-		if (!this.settings.apiKey) {
-			new Notice("Please set your OpenAI API key in coo settings.");
+		const provider = getProvider(this.settings);
+		if (provider.requiresApiKey && !this.settings.apiKey) {
+			new Notice(t("notice.apiKey", { provider: provider.label }));
 			return false;
 		}
 		return true;
 	}
 }
+
+/** Create a vault folder and any missing parents, one level at a time. */
+async function ensureFolder(vault: Vault, folder: string): Promise<void> {
+	let dir = "";
+	for (const part of folder.split("/")) {
+		dir = dir ? `${dir}/${part}` : part;
+		if (!(vault.getAbstractFileByPath(dir) instanceof TFolder)) {
+			await vault.createFolder(dir);
+		}
+	}
+}
+
+/** Replace the whole note in one undoable edit. */
+function replaceNote(editor: Editor, text: string): void {
+	const last = editor.lastLine();
+	editor.replaceRange(text, { line: 0, ch: 0 }, { line: last, ch: editor.getLine(last).length });
+}
@@ -0,0 +1,412 @@
+import type { NoteTranslationLayout } from "./types";
+import type { MessageKey } from "./i18n";
+
+/**
+ * Whole-note translation: splitting a note into the blocks "Translate note"
+ * sends one at a time, and writing the translations back in one of three
+ * layouts. Pure — the model calls live in translate.ts, the editor and vault
+ * writes in main.ts.
+ */
+
+/** Note translation layouts, in settings order, with their labels (UI message keys). */
+export const NOTE_TRANSLATION_LAYOUTS: ReadonlyArray<{
+	layout: NoteTranslationLayout;
+	label: MessageKey;
+}> = [
+	{ layout: "interleaved", label: "noteLayout.interleaved" },
+	{ layout: "columns", label: "noteLayout.columns" },
+	{ layout: "note", label: "noteLayout.note" },
+];
+
+/**
+ * A run of a note's lines. Blocks partition the note: joining every block's
+ * `text` with "\n" gives back the note exactly.
+ *
+ * - heading, paragraph, item (one list item), quote: translated (unless
+ *   they have no words in them)
+ * - frontmatter, keep (code, math, callouts, tables, HTML, comments, rules,
+ *   and paragraphs without words): left as they are
+ * - blank: one or more empty lines
+ */
+export interface NoteBlock {
+	kind: "frontmatter" | "heading" | "paragraph" | "item" | "quote" | "keep" | "blank";
+	/** Index of the block's first line in the note. */
+	line: number;
+	/** The block's lines exactly as they stand. */
+	text: string;
+	/** The Markdown before the text on the first line: "## ", "- [ ] ", "> "; "" if none. */
+	prefix: string;
+	/** The text to translate, with the prefix stripped from every line; "" if not translated. */
+	body: string;
+}
+
+const FENCE_RE = /^\s*(`{3,}|~{3,})/;
+const HEADING_RE = /^(#{1,6}[ \t]+)(.*)$/;
+const CALLOUT_RE = /^\s*>\s*\[!/;
+const QUOTE_RE = /^(\s*>[ \t]?)+/;
+const RULE_RE = /^ {0,3}([-*_])([ \t]*\1){2,}[ \t]*$/;
+const TABLE_RE = /^\s*\|/;
+const HTML_RE = /^\s*<\/?[a-zA-Z!]/;
+const ITEM_RE = /^(\s*(?:[-*+]|\d+[.)])[ \t]+(?:\[.\][ \t]+)?)(.*)$/;
+
+/** Links, embeds, inline code and math, block ids: what a block may hold without words. */
+const NON_WORDS_RE =
+	/!?\[\[[^\]]*\]\]|!?\[[^\]]*\]\([^)]*\)|`[^`]*`|\$[^$]*\$|\^[\w-]+|https?:\/\/\S+/g;
+
+function isBlank(line: string): boolean {
+	return line.trim() === "";
+}
+
+/** Whether a line starts a block of its own, ending a paragraph or list item before it. */
+function startsBlock(line: string): boolean {
+	return (
+		isBlank(line) ||
+		FENCE_RE.test(line) ||
+		line.trimStart().startsWith("$$") ||
+		line.trimStart().startsWith("%%") ||
+		HEADING_RE.test(line) ||
+		QUOTE_RE.test(line) ||
+		RULE_RE.test(line) ||
+		TABLE_RE.test(line) ||
+		HTML_RE.test(line) ||
+		ITEM_RE.test(line)
+	);
+}
+
+/** Whether text has anything to translate once links, code and math are set aside. */
+function hasWords(text: string): boolean {
+	return /\p{L}/u.test(text.replace(NON_WORDS_RE, ""));
+}
+
+/**
+ * The end (exclusive) of a block opened at `start` and closed by the first
+ * later line passing `closes`; the rest of the note when none does.
+ */
+function closedAt(lines: string[], start: number, closes: (line: string) => boolean): number {
+	for (let i = start + 1; i < lines.length; i++) {
+		if (closes(lines[i] ?? "")) return i + 1;
+	}
+	return lines.length;
+}
+
+/** Split a note into blocks (see NoteBlock). */
+export function splitNoteBlocks(document: string): NoteBlock[] {
+	const lines = document.split("\n");
+	const blocks: NoteBlock[] = [];
+	const push = (
+		kind: NoteBlock["kind"],
+		start: number,
+		end: number,
+		prefix = "",
+		body = "",
+	): number => {
+		blocks.push({ kind, line: start, text: lines.slice(start, end).join("\n"), prefix, body });
+		return end;
+	};
+
+	let i = 0;
+	if (lines[0] === "---") {
+		const close = lines.findIndex((l, n) => n > 0 && (l === "---" || l === "..."));
+		if (close > 0) i = push("frontmatter", 0, close + 1);
+	}
+
+	while (i < lines.length) {
+		const line = lines[i] ?? "";
+		const trimmed = line.trim();
+
+		if (isBlank(line)) {
+			let end = i + 1;
+			while (end < lines.length && isBlank(lines[end] ?? "")) end++;
+			i = push("blank", i, end);
+			continue;
+		}
+
+		const fence = FENCE_RE.exec(line);
+		if (fence) {
+			const marker = fence[1] ?? "```";
+			const closes = (l: string): boolean => {
+				const t = l.trim();
+				return t.startsWith(marker) && t.replace(/[`~]/g, "") === "";
+			};
+			i = push("keep", i, closedAt(lines, i, closes));
+			continue;
+		}
+
+		if (trimmed.startsWith("$$") || trimmed.startsWith("%%")) {
+			const marker = trimmed.slice(0, 2);
+			const oneLine = trimmed.length > 2 && trimmed.endsWith(marker);
+			const end = oneLine ? i + 1 : closedAt(lines, i, (l) => l.trim().endsWith(marker));
+			i = push("keep", i, end);
+			continue;
+		}
+
+		const heading = HEADING_RE.exec(line);
+		if (heading) {
+			const body = (heading[2] ?? "").trim();
+			// A heading without words still bounds heading sections.
+			i = push("heading", i, i + 1, heading[1], hasWords(body) ? body : "");
+			continue;
+		}
+
+		if (CALLOUT_RE.test(line)) {
+			let end = i + 1;
+			while (end < lines.length && QUOTE_RE.test(lines[end] ?? "")) end++;
+			i = push("keep", i, end);
+			continue;
+		}
+
+		const quote = QUOTE_RE.exec(line);
+		if (quote) {
+			let end = i + 1;
+			while (
+				end < lines.length &&
+				QUOTE_RE.test(lines[end] ?? "") &&
+				!CALLOUT_RE.test(lines[end] ?? "")
+			) {
+				end++;
+			}
+			const body = lines
+				.slice(i, end)
+				.map((l) => l.replace(QUOTE_RE, ""))
+				.join("\n")
+				.trim();
+			i = hasWords(body)
+				? push("quote", i, end, quote[0], body)
+				: push("keep", i, end);
+			continue;
+		}
+
+		if (RULE_RE.test(line)) {
+			i = push("keep", i, i + 1);
+			continue;
+		}
+
+		if (TABLE_RE.test(line) || HTML_RE.test(line)) {
+			const table = TABLE_RE.test(line);
+			let end = i + 1;
+			while (
+				end < lines.length &&
+				!isBlank(lines[end] ?? "") &&
+				(!table || TABLE_RE.test(lines[end] ?? ""))
+			) {
+				end++;
+			}
+			i = push("keep", i, end);
+			continue;
+		}
+
+		// A list item or a paragraph: this line and the lines continuing it.
+		let end = i + 1;
+		while (end < lines.length && !startsBlock(lines[end] ?? "")) end++;
+		const item = ITEM_RE.exec(line);
+		const prefix = item ? (item[1] ?? "") : "";
+		const body = [item ? (item[2] ?? "") : line, ...lines.slice(i + 1, end)]
+			.map((l) => l.trim())
+			.join("\n")
+			.trim();
+		if (!hasWords(body)) {
+			i = push("keep", i, end);
+		} else {
+			i = push(item ? "item" : "paragraph", i, end, prefix, body);
+		}
+	}
+	return blocks;
+}
+
+/** Whether a block is sent for translation. */
+export function isTranslatable(block: NoteBlock): boolean {
+	return block.body !== "";
+}
+
+/**
+ * The heading section holding `line`: the last heading at or above it, up to
+ * the next heading of the same or a higher level, as block indices
+ * [start, end). Null when no heading comes before the line.
+ */
+export function findHeadingSection(
+	blocks: readonly NoteBlock[],
+	line: number,
+): { start: number; end: number } | null {
+	let start = -1;
+	for (let i = 0; i < blocks.length; i++) {
+		const block = blocks[i];
+		if (!block || block.line > line) break;
+		if (block.kind === "heading") start = i;
+	}
+	const heading = blocks[start];
+	if (!heading) return null;
+	const level = heading.prefix.trim().length;
+	let end = start + 1;
+	while (end < blocks.length) {
+		const block = blocks[end];
+		if (block?.kind === "heading" && block.prefix.trim().length <= level) break;
+		end++;
+	}
+	return { start, end };
+}
+
+/** Join a translation's lines into one (for headings and table cells). */
+function oneLine(translation: string): string {
+	return translation.trim().replace(/\s*\n\s*/g, " ");
+}
+
+/** A translation's non-empty lines, trimmed. */
+function translationLines(translation: string): string[] {
+	return translation
+		.split("\n")
+		.map((l) => l.trim())
+		.filter((l) => l !== "");
+}
+
+/** A block rewritten in translation, keeping its Markdown prefix. */
+function renderTranslated(block: NoteBlock, translation: string): string {
+	switch (block.kind) {
+		case "heading":
+			return `${block.prefix}${oneLine(translation)}`;
+		case "item": {
+			const indent = " ".repeat(block.prefix.length);
+			return `${block.prefix}${translationLines(translation).join(`\n${indent}`)}`;
+		}
+		case "quote":
+			return translationLines(translation)
+				.map((l) => `${block.prefix}${l}`)
+				.join("\n");
+		default:
+			return translation.trim();
+	}
+}
+
+/**
+ * The interleaved layout: each block followed by its translation — a
+ * paragraph by a paragraph, a list item by a line continuing it, a quote by a
+ * second paragraph in the quote — and headings as "Original / Translation".
+ * `translations` is indexed like `blocks`; blocks without one stay as they are.
+ */
+export function interleaveTranslation(
+	blocks: readonly NoteBlock[],
+	translations: ReadonlyArray<string | undefined>,
+): string {
+	return blocks
+		.map((block, i) => {
+			const translation = translations[i];
+			if (translation === undefined || !isTranslatable(block)) return block.text;
+			switch (block.kind) {
+				case "heading":
+					return `${block.prefix}${block.body} / ${oneLine(translation)}`;
+				case "item": {
+					const indent = " ".repeat(block.prefix.length);
+					return `${block.text}\n${indent}${translationLines(translation).join(`\n${indent}`)}`;
+				}
+				case "quote":
+					return `${block.text}\n${block.prefix.trimEnd()}\n${renderTranslated(block, translation)}`;
+				default:
+					return `${block.text}\n\n${translation.trim()}`;
+			}
+		})
+		.join("\n");
+}
+
+/** Escape text for a Markdown table cell. */
+function tableCell(text: string): string {
+	return text.trim().replace(/\|/g, "\\|").replace(/\s*\n\s*/g, "<br>");
+}
+
+/** A block's text for the original column: list items keep their marker. */
+function originalCell(block: NoteBlock): string {
+	if (block.kind !== "item") return block.body;
+	const marker = block.prefix.trim().replace(/^[-*+]/, "•");
+	return `${marker} ${block.body}`;
+}
+
+/**
+ * The side-by-side layout: runs of translated blocks become two-column tables
+ * (headed by `headers`), one row per block. Headings break the tables and are
+ * written as "Original / Translation", so the outline stays intact; code,
+ * math and everything else kept stands between the tables as it was.
+ */
+export function columnsTranslation(
+	blocks: readonly NoteBlock[],
+	translations: ReadonlyArray<string | undefined>,
+	headers: readonly [string, string],
+): string {
+	const out: string[] = [];
+	let rows: string[] = [];
+	// Blank lines met after a table's last row: they follow the table.
+	let gap: string | null = null;
+	const table = (): string[] => [
+		`| ${tableCell(headers[0])} | ${tableCell(headers[1])} |`,
+		"| --- | --- |",
+		...rows,
+	];
+
+	blocks.forEach((block, i) => {
+		const translation = translations[i];
+		const translated = translation !== undefined && isTranslatable(block);
+		if (translated && block.kind !== "heading") {
+			rows.push(`| ${tableCell(originalCell(block))} | ${tableCell(translation)} |`);
+			return;
+		}
+		if (block.kind === "blank" && rows.length > 0) {
+			gap = block.text;
+			return;
+		}
+		if (rows.length > 0) {
+			out.push(...table(), gap ?? "");
+			rows = [];
+			gap = null;
+		}
+		out.push(
+			translated ? `${block.prefix}${block.body} / ${oneLine(translation)}` : block.text,
+		);
+	});
+	if (rows.length > 0) {
+		out.push(...table());
+		if (gap !== null) out.push(gap);
+	}
+	return out.join("\n");
+}
+
+/** The frontmatter property linking a translated note to its original. */
+export const TRANSLATED_FROM_PROPERTY = "translated-from";
+
+/**
+ * The sibling-note layout: the note in translation alone, with kept blocks as
+ * they were, and a `translated-from` property linking back to the original
+ * (added to the frontmatter, or a new frontmatter when there is none).
+ */
+export function translatedNote(
+	blocks: readonly NoteBlock[],
+	translations: ReadonlyArray<string | undefined>,
+	sourceLink: string,
+): string {
+	const property = `${TRANSLATED_FROM_PROPERTY}: "${sourceLink}"`;
+	const body = blocks.map((block, i) => {
+		const translation = translations[i];
+		if (block.kind === "frontmatter") {
+			const lines = block.text
+				.split("\n")
+				.filter((l) => !l.startsWith(`${TRANSLATED_FROM_PROPERTY}:`));
+			lines.splice(lines.length - 1, 0, property);
+			return lines.join("\n");
+		}
+		if (translation === undefined || !isTranslatable(block)) return block.text;
+		return renderTranslated(block, translation);
+	});
+	if (blocks[0]?.kind !== "frontmatter") body.unshift(`---\n${property}\n---`);
+	return body.join("\n");
+}
+
+/**
+ * The path of a note's translation into `tag`: "Folder/Name (tag).md", or
+ * "Folder/Name (tag) 2.md" and so on when `exists` says that one is taken.
+ */
+export function translatedNotePath(
+	notePath: string,
+	tag: string,
+	exists: (path: string) => boolean = () => false,
+): string {
+	const base = `${notePath.replace(/\.md$/i, "")} (${tag})`;
+	let path = `${base}.md`;
+	for (let n = 2; exists(path); n++) path = `${base} ${n}.md`;
+	return path;
+}
@@ -0,0 +1,209 @@
+import type { DataAdapter } from "obsidian";
+import type { CooSettings } from "./types";
+import { getResponseLanguage, getTranslateLanguage } from "./languages";
+import { t, type MessageKey } from "./i18n";
+import {
+	getBlockActionSystemPrompt,
+	getTranslateSystemPrompt,
+	getRewriteSystemPrompt,
+	getRegisterDocumentPrompt,
+	withGlossary,
+} from "./prompts";
+
+/**
+ * User-editable system prompts, one Markdown file per action in a vault folder
+ * (settings → Prompt templates). A file that exists and validates replaces the
+ * built-in prompt; a missing file, or one with problems, falls back to it.
+ *
+ * Templates may use `{{variable}}` placeholders, filled in per request. Which
+ * variables an action offers is listed in TEMPLATE_ACTIONS; anything else is a
+ * validation problem. The user message still carries the passage, question
+ * and selection as usual, so a template need not repeat them. A leading YAML
+ * frontmatter block is ignored.
+ */
+
+export type PromptAction = "ask" | "translate" | "rewrite" | "register";
+
+export type TemplateVariable =
+	| "language"
+	| "passage"
+	| "selection"
+	| "question"
+	| "noteTitle"
+	| "glossary";
+
+/** Per-request values; an absent one fills in as empty. `language` comes from settings. */
+export type TemplateVars = Partial<Record<Exclude<TemplateVariable, "language">, string>>;
+
+/**
+ * Each action's file name, label (a UI message key) and allowed variables, in
+ * display order.
+ */
+export const TEMPLATE_ACTIONS: ReadonlyArray<{
+	action: PromptAction;
+	file: string;
+	label: MessageKey;
+	variables: readonly TemplateVariable[];
+}> = [
+	{ action: "ask", file: "ask.md", label: "promptAction.ask", variables: ["language", "passage", "selection", "question", "noteTitle"] },
+	{ action: "rewrite", file: "rewrite.md", label: "promptAction.rewrite", variables: ["language", "passage", "noteTitle"] },
+	{ action: "translate", file: "translate.md", label: "promptAction.translate", variables: ["language", "passage", "glossary"] },
+	{ action: "register", file: "register.md", label: "promptAction.register", variables: ["noteTitle"] },
+];
+
+export type TemplateStatus =
+	| { kind: "built-in" }
+	| { kind: "custom" }
+	| { kind: "invalid"; problems: string[] };
+
+const PLACEHOLDER = /\{\{\s*([^{}]*?)\s*\}\}/g;
+
+function actionInfo(action: PromptAction): (typeof TEMPLATE_ACTIONS)[number] {
+	const info = TEMPLATE_ACTIONS.find((a) => a.action === action);
+	if (!info) throw new Error(`Unknown prompt action: ${action}`);
+	return info;
+}
+
+/** The note's title: its file name without folders or the .md extension. */
+export function noteTitleOf(notePath: string): string {
+	const name = notePath.split("/").pop() ?? notePath;
+	return name.replace(/\.md$/i, "");
+}
+
+/** Drop a leading YAML frontmatter block and surrounding blank lines. */
+export function stripFrontmatter(text: string): string {
+	return text.replace(/^---\r?\n[\s\S]*?\r?\n---(?:\r?\n|$)/, "").trim();
+}
+
+/** Problems that keep a template from being used; empty when it is valid. */
+export function validateTemplate(action: PromptAction, text: string): string[] {
+	return findTemplateProblems(text, actionInfo(action).variables);
+}
+
+/**
+ * Problems with a template that may use only the `allowed` variables.
+ * `subject` is what the problems call the text.
+ */
+export function findTemplateProblems(
+	text: string,
+	allowed: readonly string[],
+	subject: "template" | "prompt" = "template",
+): string[] {
+	const problems: string[] = [];
+	if (!text.trim()) {
+		problems.push(t(subject === "prompt" ? "problem.promptEmpty" : "problem.templateEmpty"));
+		return problems;
+	}
+	for (const match of text.matchAll(PLACEHOLDER)) {
+		const name = match[1] ?? "";
+		if (!allowed.includes(name)) {
+			problems.push(t("problem.unknownVariable", { variable: `{{${name}}}` }));
+		}
+	}
+	const unclosed = text.replace(PLACEHOLDER, "");
+	if (unclosed.includes("{{") || unclosed.includes("}}")) {
+		problems.push(t("problem.unbalanced"));
+	}
+	return [...new Set(problems)];
+}
+
+/** Fill a (validated) template's placeholders; a missing value fills in as empty. */
+export function fillTemplate(
+	text: string,
+	values: Partial<Record<TemplateVariable, string>>,
+): string {
+	return text.replace(
+		PLACEHOLDER,
+		(_whole, name: string) => values[name as TemplateVariable] ?? "",
+	);
+}
+
+export class PromptTemplates {
+	private adapter: DataAdapter;
+	private folder = "";
+	/** Valid overrides by action. */
+	private overrides = new Map<PromptAction, string>();
+	private problems = new Map<PromptAction, string[]>();
+	/** Bumped on every load, so a slower earlier load can't win. */
+	private generation = 0;
+
+	constructor(adapter: DataAdapter) {
+		this.adapter = adapter;
+	}
+
+	/** Vault path of an action's template file in the current folder. */
+	pathOf(action: PromptAction): string {
+		return this.folder ? `${this.folder}/${actionInfo(action).file}` : "";
+	}
+
+	/** Whether a vault path is one of the template files (to reload on change). */
+	isTemplatePath(path: string): boolean {
+		return TEMPLATE_ACTIONS.some((a) => this.pathOf(a.action) === path);
+	}
+
+	status(action: PromptAction): TemplateStatus {
+		const problems = this.problems.get(action);
+		if (problems) return { kind: "invalid", problems };
+		return this.overrides.has(action) ? { kind: "custom" } : { kind: "built-in" };
+	}
+
+	/**
+	 * (Re)load every template from `folder` (a vault path; "" turns templates
+	 * off). Returns the actions whose file has problems, which use the built-in
+	 * prompt until fixed.
+	 */
+	async load(folder: string): Promise<Array<{ action: PromptAction; problems: string[] }>> {
+		const generation = ++this.generation;
+		const normalized = folder.trim().replace(/^\/+|\/+$/g, "");
+		const overrides = new Map<PromptAction, string>();
+		const problems = new Map<PromptAction, string[]>();
+
+		for (const { action, file } of TEMPLATE_ACTIONS) {
+			if (!normalized) break;
+			const path = `${normalized}/${file}`;
+			if (!(await this.adapter.exists(path))) continue;
+			const text = stripFrontmatter(await this.adapter.read(path));
+			const found = validateTemplate(action, text);
+			if (found.length > 0) problems.set(action, found);
+			else overrides.set(action, text);
+		}
+
+		if (generation !== this.generation) return [];
+		this.folder = normalized;
+		this.overrides = overrides;
+		this.problems = problems;
+		return [...problems].map(([action, list]) => ({ action, problems: list }));
+	}
+
+	/**
+	 * The system prompt for an action: the user's template, else the built-in.
+	 * A translate template that doesn't place `{{glossary}}` gets the glossary
+	 * added at the end, as the built-in prompt does.
+	 */
+	systemPrompt(action: PromptAction, settings: CooSettings, vars: TemplateVars = {}): string {
+		const template = this.overrides.get(action);
+		if (template === undefined) return builtInPrompt(action, settings, vars);
+		const language =
+			action === "translate"
+				? getTranslateLanguage(settings).name
+				: getResponseLanguage(settings).name;
+		const filled = fillTemplate(template, { ...vars, language });
+		const placesGlossary = [...template.matchAll(PLACEHOLDER)].some((m) => m[1] === "glossary");
+		return action === "translate" && !placesGlossary
+			? withGlossary(filled, vars.glossary ?? "")
+			: filled;
+	}
+}
+
+function builtInPrompt(action: PromptAction, settings: CooSettings, vars: TemplateVars): string {
+	switch (action) {
+		case "ask":
+			return getBlockActionSystemPrompt(getResponseLanguage(settings).name);
+		case "rewrite":
+			return getRewriteSystemPrompt(getResponseLanguage(settings).name);
+		case "translate":
+			return getTranslateSystemPrompt(getTranslateLanguage(settings).name, vars.glossary);
+		case "register":
+			return getRegisterDocumentPrompt();
+	}
+}
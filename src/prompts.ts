@@ -1,6 +1,8 @@
-import type { ResponseLanguage, TranslateLanguage } from "./types";
-import { LANGUAGE_MAP } from "./types";
-import type { CalloutQaPair } from "./editor-ops";
+import type { RewriteMode } from "./types";
+import type { CalloutQaPair, NoteHistory } from "./editor-ops";
+import type { ChatMessage } from "./ai-client";
+import type { PromptAction } from "./prompt-templates";
+import type { MessageKey } from "./i18n";
 
 /**
  * System prompt for the Ask action (ported from coo-app-next's block-action
@@ -50,20 +52,59 @@ const BLOCK_ACTION_TRANSLATE_PROMPT = `You translate a given text block.
 </rules>`;
 
 /**
- * Rewrite prompt (ported from coo-app-next).
- * Revises a passage using the Q&A discussion (callout notes) about it.
- * The <language> tag is filled at runtime.
+ * Note translation prompt: one block of a note at a time (see
+ * note-translation.ts), with its heading, list or quote marker stripped and
+ * put back afterwards. Unlike Translate, inline Markdown is kept.
  */
-const REWRITE_PROMPT = `You revise a passage of Markdown using a question-and-answer discussion about it.
+const NOTE_TRANSLATE_PROMPT = `You translate one block of a Markdown note.
+
+<translationlanguage></translationlanguage>
+
+<scope>
+- Translate ONLY the text inside <passage>...</passage>
+- <section>, when given, is the heading the passage stands under — for context, do not translate it
+</scope>
+
+<rules>
+- Keep inline Markdown as it is: bold, italics, inline code, $math$, [[wikilinks]], link URLs, #tags, footnote references and ^block-ids — translate only the text of Markdown links
+- Keep the passage's line breaks; add no headers, list markers or quote markers, and no code block around the output
+- No preamble ("Here's the translation:", "Sure!", etc.) — start directly with the result
+- Preserve the tone and register of the original text
+</rules>`;
+
+/**
+ * Rewrite prompt (ported from coo-app-next, extended with rewrite modes).
+ * Revises a passage as the <task> says — folding in the Q&A discussion
+ * (callout notes) about it, simplifying, shortening, and so on (see
+ * REWRITE_MODES). The <language> tag is filled at runtime.
+ */
+const REWRITE_PROMPT = `You revise a passage of Markdown.
 
 <language></language>
 
 <rules>
-- Each entry in <notes> is a question the reader asked about the passage, followed by its answer. Integrate each answer's substance where it is relevant — clarify a term, support or correct a claim, or fold in the elaboration it provides
-- Preserve the original Markdown formatting (paragraphs, headings, lists, code fences, math) unless an answer explicitly calls for changing it. Keep math in $…$ / $$…$$ form — never \\(...\\) or \\[...\\]
+- <task> says how to revise the passage; an <instruction>, when given, refines it. Follow both
+- Each entry in <notes>, when given, is a question the reader asked about the passage, followed by its answer. Integrate each answer's substance where it is relevant — clarify a term, support or correct a claim, or fold in the elaboration it provides
+- <context>, when given, is the rest of the note around the passage, for reference only — never copy it into the passage
+- Preserve the original Markdown formatting (paragraphs, headings, lists, code fences, math) unless the task or an answer explicitly calls for changing it. Keep math in $…$ / $$…$$ form — never \\(...\\) or \\[...\\]
 - Do not echo the questions and answers back, and do not add new discussion — only revise the passage
 - Output the revised passage only — no preamble, no explanation, no surrounding fences
-- Match the original tone, register, and language
+- Keep the original language, and the original tone and register unless the task changes them
+</rules>`;
+
+/**
+ * Transform prompt for "replace" quick actions: rewrites a passage following
+ * an instruction (e.g. "simplify"). The <language> tag is filled at runtime.
+ */
+const TRANSFORM_PROMPT = `You rewrite a passage of Markdown following an instruction.
+
+<language></language>
+
+<rules>
+- Apply the instruction in <instruction> to the passage in <passage>
+- Preserve the original Markdown formatting (paragraphs, headings, lists, code fences, math) unless the instruction calls for changing it. Keep math in $…$ / $$…$$ form — never \\(...\\) or \\[...\\]
+- Output the rewritten passage only — no preamble, no explanation, no surrounding fences
+- Match the original language unless the instruction says otherwise
 </rules>`;
 
 /**
@@ -80,32 +121,46 @@ const REGISTER_DOC_PROMPT = `The user has shared a document. Store it in context
 </rules>`;
 
 /**
- * Replace `<language></language>` tag in a template string.
+ * Snapshot-update prompt. Chained onto a registered note when it has been
+ * edited a little: carries only the changed paragraphs so the stored context
+ * catches up without a full re-registration. Acknowledgment text is discarded.
+ */
+const SNAPSHOT_UPDATE_PROMPT = `The document you were given earlier has since been edited. The user's message lists the paragraphs that are new or changed, and how many of the original paragraphs were removed.
+
+<rules>
+- Treat the listed paragraphs as the current text, replacing any earlier version of them
+- Acknowledge in one short sentence that you've updated the document
+- Do not summarize or analyze the changes — wait for the user's question
+</rules>`;
+
+/**
+ * Replace `<language></language>` tag in a template string. `language` is the
+ * language's English name (Language.name, see languages.ts).
  * - English: removes the tag (and any blank line it leaves behind)
- * - Others: fills the tag with "Always respond in {full language name}."
+ * - Others: fills the tag with "Always respond in {language}."
  */
 export function replaceLanguageTag(
 	template: string,
-	lang: ResponseLanguage,
+	language: string,
 ): string {
-	if (lang === "en") {
+	if (language === "English") {
 		return template.replace(/\n?<language><\/language>\n?/, "\n");
 	}
-	const fullName = LANGUAGE_MAP[lang];
 	return template.replace(
 		"<language></language>",
-		`<language>Always respond in ${fullName}.</language>`,
+		`<language>Always respond in ${language}.</language>`,
 	);
 }
 
 /**
- * Replace `<translationlanguage></translationlanguage>` tag in a template string.
+ * Replace `<translationlanguage></translationlanguage>` tag in a template
+ * string. `lang` is the language's English name.
  * - English: removes the tag
  * - Others: fills the tag with "Translate into {language}."
  */
 export function replaceTranslationLanguageTag(
 	template: string,
-	lang: TranslateLanguage,
+	lang: string,
 ): string {
 	if (lang === "English") {
 		return template.replace(
@@ -120,27 +175,91 @@ export function replaceTranslationLanguageTag(
 }
 
 /** Block-action system prompt (for ask) with language applied. */
-export function getBlockActionSystemPrompt(lang: ResponseLanguage): string {
+export function getBlockActionSystemPrompt(lang: string): string {
 	return replaceLanguageTag(BLOCK_ACTION_PROMPT, lang);
 }
 
-/** Translate system prompt with the translation target language applied. */
+/**
+ * Add glossary terms to a translation system prompt: `glossary` is the terms
+ * found in the passage as "- term → translation" lines (see glossary.ts). An
+ * empty glossary leaves the prompt as it is.
+ */
+export function withGlossary(prompt: string, glossary: string): string {
+	if (!glossary.trim()) return prompt;
+	return `${prompt}\n\n<glossary>\nTranslate these terms as given:\n${glossary.trim()}\n</glossary>`;
+}
+
+/** Translate system prompt with the translation target language and glossary applied. */
 export function getTranslateSystemPrompt(
-	translateLang: TranslateLanguage,
+	translateLang: string,
+	glossary = "",
 ): string {
-	return replaceTranslationLanguageTag(BLOCK_ACTION_TRANSLATE_PROMPT, translateLang);
+	return withGlossary(
+		replaceTranslationLanguageTag(BLOCK_ACTION_TRANSLATE_PROMPT, translateLang),
+		glossary,
+	);
+}
+
+/**
+ * Note translation system prompt, with the glossary applied. The target
+ * language is always stated, even English: the note may be in any language.
+ */
+export function getNoteTranslateSystemPrompt(translateLang: string, glossary = ""): string {
+	return withGlossary(
+		NOTE_TRANSLATE_PROMPT.replace(
+			"<translationlanguage></translationlanguage>",
+			`<translationlanguage>Translate into ${translateLang}.</translationlanguage>`,
+		),
+		glossary,
+	);
 }
 
 /** Rewrite system prompt with language applied. */
-export function getRewriteSystemPrompt(lang: ResponseLanguage): string {
+export function getRewriteSystemPrompt(lang: string): string {
 	return replaceLanguageTag(REWRITE_PROMPT, lang);
 }
 
+/** Transform system prompt (replace quick actions) with language applied. */
+export function getTransformSystemPrompt(lang: string): string {
+	return replaceLanguageTag(TRANSFORM_PROMPT, lang);
+}
+
 /** Registration prompt (no language tag). */
 export function getRegisterDocumentPrompt(): string {
 	return REGISTER_DOC_PROMPT;
 }
 
+/** Snapshot-update prompt (no language tag). */
+export function getSnapshotUpdatePrompt(): string {
+	return SNAPSHOT_UPDATE_PROMPT;
+}
+
+/**
+ * A built-in prompt as an editable template (the starting text of a new
+ * template file): the language tags hold `{{language}}` instead of being filled.
+ */
+export function getDefaultTemplate(action: PromptAction): string {
+	switch (action) {
+		case "ask":
+			return BLOCK_ACTION_PROMPT.replace(
+				"<language></language>",
+				"<language>Always respond in {{language}}.</language>",
+			);
+		case "rewrite":
+			return REWRITE_PROMPT.replace(
+				"<language></language>",
+				"<language>Always respond in {{language}}.</language>",
+			);
+		case "translate":
+			return BLOCK_ACTION_TRANSLATE_PROMPT.replace(
+				"<translationlanguage></translationlanguage>",
+				"<translationlanguage>Translate into {{language}}.</translationlanguage>",
+			);
+		case "register":
+			return REGISTER_DOC_PROMPT;
+	}
+}
+
 /**
  * Build the Ask input: question framing first, then <passage>, then the user's
  * highlighted selection (if any) as the focal phrase. The passage is a paragraph
@@ -166,43 +285,173 @@ export function buildAskInput(
 	return `Answer this question about the passage.\n\nQuestion: ${trimmedQuestion}\n\n${passageBlock}${highlight}`;
 }
 
+/**
+ * Rebuild a note's conversation as explicit turns, for local conversation mode
+ * (no stored responses to chain from): the note is shared as the first turn —
+ * standing in for registration — then each callout's question and answer
+ * follows as a user/assistant exchange, in document order.
+ */
+export function buildLocalHistory(history: NoteHistory): ChatMessage[] {
+	const messages: ChatMessage[] = [
+		{ role: "user", content: `<document>\n${history.document}\n</document>` },
+		{ role: "assistant", content: "I've received the document." },
+	];
+	for (const pair of history.pairs) {
+		messages.push(
+			{ role: "user", content: pair.question },
+			{ role: "assistant", content: pair.answer },
+		);
+	}
+	return messages;
+}
+
 /**
  * Detect and strip a leading "Minor" tag from an Ask answer. The ask prompt has
  * the model begin skippable-concept answers with **Minor** — (or "Minor —" /
  * "Minor:"); pull that flag off so it can move to the callout title (visible
  * when collapsed) and the body stays clean.
  */
-export function parseMinorTag(text: string): { isMinor: boolean; body: string } {
+export function parseMinorTag(text: string): {
+	isMinor: boolean;
+	body: string;
+	/** Where `body` starts in `text`, to re-base offsets into it (citations). */
+	offset: number;
+} {
 	const match = text.match(
 		/^\s*(?:\*\*\s*minor\s*\*\*|minor)\s*[—–\-:]\s*([\s\S]*)$/i,
 	);
 	if (match) {
-		return { isMinor: true, body: (match[1] ?? "").trim() };
+		const rest = match[1] ?? "";
+		const lead = rest.length - rest.trimStart().length;
+		return { isMinor: true, body: rest.trim(), offset: text.length - rest.length + lead };
+	}
+	return { isMinor: false, body: text, offset: 0 };
+}
+
+/**
+ * Rewrite modes, in composer order. "integrate" folds the paragraph's notes
+ * in (and so needs some); the others work with or without notes and leave
+ * them in place. "voice" is sent the rest of the note to match. Labels are
+ * UI message keys.
+ */
+export const REWRITE_MODES: ReadonlyArray<{ mode: RewriteMode; label: MessageKey }> = [
+	{ mode: "integrate", label: "rewriteMode.integrate" },
+	{ mode: "simplify", label: "rewriteMode.simplify" },
+	{ mode: "shorten", label: "rewriteMode.shorten" },
+	{ mode: "tone", label: "rewriteMode.tone" },
+	{ mode: "grammar", label: "rewriteMode.grammar" },
+	{ mode: "voice", label: "rewriteMode.voice" },
+];
+
+/** Default for "shorten" when no percentage is given. */
+export const DEFAULT_SHORTEN_PERCENT = 30;
+
+/** The <task> line for a rewrite mode. */
+export function getRewriteTask(
+	mode: RewriteMode,
+	options: { percent?: number; tone?: string } = {},
+): string {
+	switch (mode) {
+		case "integrate":
+			return "Fold the answers in <notes> into the passage.";
+		case "simplify":
+			return "Simplify the passage to a plain reading level: shorter sentences, everyday words, terms explained in passing. Keep every fact.";
+		case "shorten": {
+			const percent = Math.min(90, Math.max(1, Math.round(options.percent ?? DEFAULT_SHORTEN_PERCENT)));
+			return `Shorten the passage by about ${percent}%, keeping its key points.`;
+		}
+		case "tone": {
+			const tone = options.tone?.trim() || "formal";
+			return `Rewrite the passage in a ${tone} tone, keeping its meaning.`;
+		}
+		case "grammar":
+			return "Fix only spelling, grammar and punctuation. Change nothing else — not the wording, the structure or the tone.";
+		case "voice":
+			return "Rewrite the passage to match the voice and style of the rest of the note in <context>, keeping its meaning.";
 	}
-	return { isMinor: false, body: text };
 }
 
 /**
- * Build the Rewrite input: the passage and the Q&A notes (each callout's
- * question + answer), so the model knows what each answer addresses. Rewrite is
- * one-shot (does not chain).
+ * Build the Rewrite input: the task, the passage, the Q&A notes (each
+ * callout's question + answer, so the model knows what each answer addresses),
+ * the rest of the note for context, and any extra instruction — each only when
+ * given. Rewrite is one-shot (does not chain).
  */
 export function buildRewriteInput(
 	passage: string,
 	notes: CalloutQaPair[],
+	options: { task?: string; instruction?: string; context?: string } = {},
 ): string {
-	const trimmedPassage = passage.trim();
-	const passageBlock = `<passage>\n${trimmedPassage}\n</passage>`;
-	if (notes.length === 0) {
-		return passageBlock;
+	const blocks: string[] = [];
+	if (options.task) blocks.push(`<task>\n${options.task}\n</task>`);
+	blocks.push(`<passage>\n${passage.trim()}\n</passage>`);
+	if (notes.length > 0) {
+		const noteBlock = notes
+			.map((n) => `Q: ${n.question}\nA: ${n.answer}`)
+			.join("\n\n");
+		blocks.push(`<notes>\n${noteBlock}\n</notes>`);
+	}
+	if (options.context?.trim()) {
+		blocks.push(`<context>\n${options.context.trim()}\n</context>`);
 	}
-	const noteBlock = notes
-		.map((n) => `Q: ${n.question}\nA: ${n.answer}`)
-		.join("\n\n");
-	return `${passageBlock}\n\n<notes>\n${noteBlock}\n</notes>`;
+	if (options.instruction?.trim()) {
+		blocks.push(`<instruction>\n${options.instruction.trim()}\n</instruction>`);
+	}
+	return blocks.join("\n\n");
+}
+
+/**
+ * Build the snapshot-update input: each new or changed paragraph in its own
+ * <paragraph>, plus the count of removed paragraphs when there are any.
+ */
+export function buildSnapshotUpdateInput(
+	added: string[],
+	removedCount: number,
+): string {
+	// A removal-only edit has nothing to list; say so rather than send an
+	// empty <changed> block.
+	const paragraphs = added
+		.map((p) => `<paragraph>\n${p}\n</paragraph>`)
+		.join("\n");
+	const changed =
+		added.length > 0
+			? `<changed>\n${paragraphs}\n</changed>`
+			: "No paragraphs were added or changed.";
+	return removedCount > 0
+		? `${changed}\n\nParagraphs removed: ${removedCount}`
+		: changed;
+}
+
+/** Build the input of a replace quick action: the instruction, then <passage>. */
+export function buildTransformInput(passage: string, instruction: string): string {
+	return `<instruction>\n${instruction.trim()}\n</instruction>\n\n<passage>\n${passage.trim()}\n</passage>`;
+}
+
+/**
+ * Output format for ruby annotations: the passage split into segments, each
+ * with its reading (Chinese, Japanese) or translation (anything else).
+ */
+const RUBY_FORMAT = `<format>
+Annotate the passage for <ruby> text instead of translating it as a whole. Output one line per segment, in order, as "segment|annotation", so that the segments joined together give back the passage exactly.
+- Japanese: one segment per word; the annotation is the hiragana reading of a word with kanji, and empty for a word without kanji
+- Chinese: one segment per character; the annotation is its pinyin with tone marks, and empty for punctuation
+- Any other language: a single segment, the whole passage, annotated with its translation
+</format>`;
+
+/**
+ * Build the Translate input: the selected text as <passage>, preceded by the
+ * ruby output format when annotating.
+ */
+export function buildTranslateInput(passage: string, ruby = false): string {
+	const input = `<passage>\n${passage.trim()}\n</passage>`;
+	return ruby ? `${RUBY_FORMAT}\n\n${input}` : input;
 }
 
-/** Build the Translate input: the selected text as <passage>. */
-export function buildTranslateInput(passage: string): string {
-	return `<passage>\n${passage.trim()}\n</passage>`;
+/**
+ * Build the input of one note translation block: the heading it stands under
+ * (if any) as <section>, then the block as <passage>.
+ */
+export function buildNoteTranslateInput(passage: string, section = ""): string {
+	const input = `<passage>\n${passage.trim()}\n</passage>`;
+	return section ? `<section>\n${section.trim()}\n</section>\n\n${input}` : input;
 }
@@ -0,0 +1,210 @@
+import type { ChatCompletionParams, Citation, ResponseResult } from "../ai-client";
+import type { ReasoningEffort } from "../types";
+import { t } from "../i18n";
+import type { LlmProvider, ProviderRequest, StreamEvent } from "./types";
+import {
+	resolveReasoning,
+	resolveWebSearch,
+	resolveBaseUrl,
+	resolveCustomModel,
+	toMessages,
+	extractApiError,
+} from "./shared";
+
+const ANTHROPIC_VERSION = "2023-06-01";
+
+/** Output budget for the answer itself, on top of any thinking budget. */
+const MAX_ANSWER_TOKENS = 4096;
+
+/** Extended-thinking budget per reasoning effort (1024 is the API minimum). */
+const THINKING_BUDGET: Record<Exclude<ReasoningEffort, "none">, number> = {
+	low: 1024,
+	medium: 4096,
+	high: 16384,
+};
+
+/**
+ * Anthropic Messages API (`/v1/messages`). Stateless — no chaining. Reasoning
+ * effort maps to an extended-thinking budget; web search uses Anthropic's
+ * server-side web search tool.
+ */
+export const anthropicProvider: LlmProvider = {
+	label: "Anthropic",
+	defaultBaseUrl: "https://api.anthropic.com/v1",
+	requiresApiKey: true,
+	supportsChaining: false,
+	streamFormat: "sse",
+	buildRequest,
+	parseResponse,
+	parseStreamEvent,
+	mapHttpError,
+};
+
+function buildRequest(
+	params: ChatCompletionParams,
+	stream: boolean,
+): ProviderRequest {
+	const { settings, systemPrompt } = params;
+
+	const body: Record<string, unknown> = {
+		model: resolveCustomModel(settings),
+		max_tokens: MAX_ANSWER_TOKENS,
+		system: systemPrompt,
+		messages: toMessages(params),
+	};
+
+	const reasoning = resolveReasoning(params);
+	if (reasoning !== "none") {
+		const budget = THINKING_BUDGET[reasoning];
+		body.thinking = { type: "enabled", budget_tokens: budget };
+		// max_tokens must exceed the thinking budget.
+		body.max_tokens = budget + MAX_ANSWER_TOKENS;
+	}
+
+	if (resolveWebSearch(params)) {
+		body.tools = [{ type: "web_search_20250305", name: "web_search" }];
+	}
+
+	if (stream) {
+		body.stream = true;
+	}
+
+	return {
+		url: `${resolveBaseUrl(settings, anthropicProvider)}/messages`,
+		headers: {
+			"x-api-key": settings.apiKey,
+			"anthropic-version": ANTHROPIC_VERSION,
+			// Streaming goes through fetch, which Anthropic treats as a browser
+			// request and rejects without this opt-in.
+			"anthropic-dangerous-direct-browser-access": "true",
+		},
+		body,
+	};
+}
+
+/** A web search result a text block cites. */
+interface AnthropicCitation {
+	type?: string;
+	url?: string;
+	title?: string;
+}
+
+/**
+ * With web search the answer arrives as several text blocks interleaved with
+ * tool blocks; join the text blocks in order. Thinking blocks are skipped. A
+ * block's citations back that whole block, so their span is the block.
+ */
+function parseResponse(responseText: string): ResponseResult {
+	const data = JSON.parse(responseText) as {
+		id?: string;
+		content?: Array<{
+			type?: string;
+			text?: string;
+			citations?: AnthropicCitation[] | null;
+		}>;
+		usage?: { input_tokens?: number; output_tokens?: number };
+	};
+	let joined = "";
+	const citations: Citation[] = [];
+	for (const block of data.content ?? []) {
+		if (block.type !== "text" || !block.text) continue;
+		const start = joined.length;
+		joined += block.text;
+		for (const c of block.citations ?? []) {
+			if (c.url) {
+				citations.push({ url: c.url, title: c.title ?? "", start, end: joined.length });
+			}
+		}
+	}
+	const text = joined.trim();
+	const lead = joined.length - joined.trimStart().length;
+	// Block ends can sit in trailing whitespace that trimming removed.
+	const rebased = citations.map((c) => ({
+		...c,
+		start: Math.max(0, (c.start ?? 0) - lead),
+		end: Math.min(text.length, (c.end ?? 0) - lead),
+	}));
+	const usage = data.usage
+		? {
+				inputTokens: data.usage.input_tokens ?? 0,
+				outputTokens: data.usage.output_tokens ?? 0,
+			}
+		: undefined;
+	return {
+		text,
+		responseId: data.id ?? "",
+		usage,
+		...(rebased.length > 0 ? { citations: rebased } : {}),
+	};
+}
+
+/**
+ * Parse one Messages stream event. The id and input tokens are on
+ * `message_start`, the output tokens on `message_delta`; answer text arrives
+ * as `text_delta`s (thinking and tool-input deltas are skipped).
+ */
+function parseStreamEvent(payload: string): StreamEvent | null {
+	const event = JSON.parse(payload) as {
+		type?: string;
+		message?: { id?: string; usage?: { input_tokens?: number } };
+		usage?: { output_tokens?: number };
+		delta?: { type?: string; text?: string; citation?: AnthropicCitation };
+		error?: { message?: string };
+	};
+
+	switch (event.type) {
+		case "message_start": {
+			const inputTokens = event.message?.usage?.input_tokens;
+			return {
+				responseId: event.message?.id,
+				...(inputTokens !== undefined ? { usage: { inputTokens } } : {}),
+			};
+		}
+		case "message_delta": {
+			const outputTokens = event.usage?.output_tokens;
+			return outputTokens !== undefined ? { usage: { outputTokens } } : null;
+		}
+		case "content_block_delta":
+			if (event.delta?.type === "text_delta") {
+				return { delta: event.delta.text ?? "" };
+			}
+			// Streamed citations carry no position: they are listed as sources.
+			if (event.delta?.type === "citations_delta" && event.delta.citation?.url) {
+				return {
+					citation: {
+						url: event.delta.citation.url,
+						title: event.delta.citation.title ?? "",
+					},
+				};
+			}
+			return null;
+		case "error":
+			return { error: event.error?.message ?? t("error.responseFailed") };
+		default:
+			return null;
+	}
+}
+
+function mapHttpError(status: number, body: string): string {
+	const detail = extractApiError(body);
+
+	switch (status) {
+		case 400:
+			return t("error.badRequest", { detail });
+		case 401:
+			return t("error.invalidApiKey");
+		case 403:
+			return t("error.permissionDenied", { detail });
+		case 404:
+			return t("error.modelNotFound", { detail });
+		case 429:
+			return t("error.rateLimited", { provider: "Anthropic" });
+		case 500:
+		case 502:
+		case 503:
+		case 529:
+			return t("error.overloaded", { provider: "Anthropic" });
+		default:
+			return t("error.apiStatus", { provider: "Anthropic", status, detail });
+	}
+}
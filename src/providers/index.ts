@@ -0,0 +1,26 @@
+import type { CooSettings, ProviderId } from "../types";
+import type { LlmProvider } from "./types";
+import { openAiResponsesProvider } from "./openai-responses";
+import { openAiCompatibleProvider } from "./openai-compatible";
+import { anthropicProvider } from "./anthropic";
+import { ollamaProvider } from "./ollama";
+
+export type { LlmProvider, ProviderRequest, StreamEvent } from "./types";
+export { parseResponse } from "./openai-responses";
+
+const PROVIDERS: Record<ProviderId, LlmProvider> = {
+	openai: openAiResponsesProvider,
+	"openai-compatible": openAiCompatibleProvider,
+	anthropic: anthropicProvider,
+	ollama: ollamaProvider,
+};
+
+/** The provider selected in settings (falls back to OpenAI for unknown ids). */
+export function getProvider(settings: CooSettings): LlmProvider {
+	return getProviderById(settings.provider);
+}
+
+/** A provider by id (falls back to OpenAI for unknown ids). */
+export function getProviderById(id: ProviderId): LlmProvider {
+	return PROVIDERS[id] ?? openAiResponsesProvider;
+}
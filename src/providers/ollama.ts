@@ -0,0 +1,99 @@
+import type { ChatCompletionParams, ResponseResult, TokenUsage } from "../ai-client";
+import { t } from "../i18n";
+import type { LlmProvider, ProviderRequest, StreamEvent } from "./types";
+import {
+	resolveBaseUrl,
+	resolveCustomModel,
+	toMessages,
+	extractApiError,
+} from "./shared";
+
+/**
+ * Ollama's native chat API (`/api/chat`). Local and keyless; stateless — no
+ * chaining. Ollama returns no response id; token counts come as
+ * `prompt_eval_count` / `eval_count` on the final message.
+ */
+export const ollamaProvider: LlmProvider = {
+	label: "Ollama",
+	defaultBaseUrl: "http://localhost:11434",
+	requiresApiKey: false,
+	supportsChaining: false,
+	streamFormat: "ndjson",
+	buildRequest,
+	parseResponse,
+	parseStreamEvent,
+	mapHttpError,
+};
+
+function buildRequest(
+	params: ChatCompletionParams,
+	stream: boolean,
+): ProviderRequest {
+	const { settings, systemPrompt } = params;
+
+	return {
+		url: `${resolveBaseUrl(settings, ollamaProvider)}/api/chat`,
+		headers: {},
+		body: {
+			model: resolveCustomModel(settings),
+			messages: [
+				{ role: "system", content: systemPrompt },
+				...toMessages(params),
+			],
+			stream,
+		},
+	};
+}
+
+function parseResponse(responseText: string): ResponseResult {
+	const data = JSON.parse(responseText) as OllamaCounts & {
+		message?: { content?: string };
+	};
+	return {
+		text: data.message?.content?.trim() ?? "",
+		responseId: "",
+		usage: toUsage(data),
+	};
+}
+
+interface OllamaCounts {
+	prompt_eval_count?: number;
+	eval_count?: number;
+}
+
+function toUsage(counts: OllamaCounts): TokenUsage | undefined {
+	if (counts.prompt_eval_count === undefined && counts.eval_count === undefined) {
+		return undefined;
+	}
+	return {
+		inputTokens: counts.prompt_eval_count ?? 0,
+		outputTokens: counts.eval_count ?? 0,
+	};
+}
+
+/** Parse one streamed NDJSON line: `{ message: { content }, done }`. */
+function parseStreamEvent(payload: string): StreamEvent | null {
+	const chunk = JSON.parse(payload) as OllamaCounts & {
+		message?: { content?: string };
+		error?: string;
+	};
+	if (chunk.error) return { error: chunk.error };
+	return { delta: chunk.message?.content ?? "", usage: toUsage(chunk) };
+}
+
+function mapHttpError(status: number, body: string): string {
+	const detail = extractApiError(body);
+
+	switch (status) {
+		case 400:
+			return t("error.badRequest", { detail });
+		case 404:
+			return t("error.ollamaNotFound", { detail });
+		case 500:
+		case 502:
+		case 503:
+			return t("error.ollama", { detail });
+		default:
+			return t("error.ollamaStatus", { status, detail });
+	}
+}
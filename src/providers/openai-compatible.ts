@@ -0,0 +1,119 @@
+import type { ChatCompletionParams, ResponseResult, TokenUsage } from "../ai-client";
+import { t } from "../i18n";
+import type { LlmProvider, ProviderRequest, StreamEvent } from "./types";
+import {
+	resolveBaseUrl,
+	resolveCustomModel,
+	toMessages,
+	extractApiError,
+} from "./shared";
+
+/**
+ * Generic OpenAI-compatible Chat Completions (`/chat/completions`), for
+ * self-hosted gateways such as vLLM, LiteLLM or LM Studio. Stateless — no
+ * chaining. Reasoning effort and web search are not sent: they are not part of
+ * the common subset and many servers reject unknown fields.
+ */
+export const openAiCompatibleProvider: LlmProvider = {
+	label: "OpenAI-compatible server",
+	defaultBaseUrl: "http://localhost:8000/v1",
+	requiresApiKey: false,
+	supportsChaining: false,
+	streamFormat: "sse",
+	buildRequest,
+	parseResponse,
+	parseStreamEvent,
+	mapHttpError,
+};
+
+function buildRequest(
+	params: ChatCompletionParams,
+	stream: boolean,
+): ProviderRequest {
+	const { settings, systemPrompt } = params;
+
+	const headers: Record<string, string> = {};
+	if (settings.apiKey) {
+		headers.Authorization = `Bearer ${settings.apiKey}`;
+	}
+
+	return {
+		url: `${resolveBaseUrl(settings, openAiCompatibleProvider)}/chat/completions`,
+		headers,
+		body: {
+			model: resolveCustomModel(settings),
+			messages: [
+				{ role: "system", content: systemPrompt },
+				...toMessages(params),
+			],
+			// include_usage adds a final chunk with the token counts.
+			...(stream
+				? { stream: true, stream_options: { include_usage: true } }
+				: {}),
+		},
+	};
+}
+
+function parseResponse(responseText: string): ResponseResult {
+	const data = JSON.parse(responseText) as {
+		id?: string;
+		choices?: Array<{ message?: { content?: string | null } }>;
+		usage?: ChatUsage | null;
+	};
+	const text = data.choices?.[0]?.message?.content?.trim() ?? "";
+	return { text, responseId: data.id ?? "", usage: toUsage(data.usage) };
+}
+
+interface ChatUsage {
+	prompt_tokens?: number;
+	completion_tokens?: number;
+}
+
+function toUsage(usage: ChatUsage | null | undefined): TokenUsage | undefined {
+	if (!usage) return undefined;
+	return {
+		inputTokens: usage.prompt_tokens ?? 0,
+		outputTokens: usage.completion_tokens ?? 0,
+	};
+}
+
+/** Parse one streamed chunk; the stream ends with a literal `[DONE]`. */
+function parseStreamEvent(payload: string): StreamEvent | null {
+	if (payload === "[DONE]") return null;
+	const chunk = JSON.parse(payload) as {
+		id?: string;
+		choices?: Array<{ delta?: { content?: string | null } }>;
+		usage?: ChatUsage | null;
+		error?: { message?: string };
+	};
+	if (chunk.error) {
+		return { error: chunk.error.message ?? t("error.responseFailed") };
+	}
+	return {
+		delta: chunk.choices?.[0]?.delta?.content ?? "",
+		responseId: chunk.id,
+		usage: toUsage(chunk.usage),
+	};
+}
+
+function mapHttpError(status: number, body: string): string {
+	const detail = extractApiError(body);
+
+	switch (status) {
+		case 400:
+			return t("error.badRequest", { detail });
+		case 401:
+		case 403:
+			return t("error.keyRejected");
+		case 404:
+			return t("error.endpointNotFound", { detail });
+		case 429:
+			return t("error.serverRateLimited");
+		case 500:
+		case 502:
+		case 503:
+			return t("error.modelServer");
+		default:
+			return t("error.serverStatus", { status, detail });
+	}
+}
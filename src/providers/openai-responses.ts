@@ -0,0 +1,212 @@
+import type {
+	ChatCompletionParams,
+	Citation,
+	ResponseResult,
+	TokenUsage,
+} from "../ai-client";
+import { t } from "../i18n";
+import type { LlmProvider, ProviderRequest, StreamEvent } from "./types";
+import {
+	resolveReasoning,
+	resolveWebSearch,
+	resolveBaseUrl,
+	toMessages,
+	extractApiError,
+} from "./shared";
+import { shiftCitations } from "../citations";
+
+/**
+ * OpenAI Responses API (`/v1/responses`). The only provider with server-side
+ * storage: `store` + `previous_response_id` power per-note chaining.
+ */
+export const openAiResponsesProvider: LlmProvider = {
+	label: "OpenAI",
+	defaultBaseUrl: "https://api.openai.com/v1",
+	requiresApiKey: true,
+	supportsChaining: true,
+	retentionDays: 30,
+	streamFormat: "sse",
+	buildRequest,
+	parseResponse,
+	parseStreamEvent,
+	mapHttpError,
+};
+
+function buildRequest(
+	params: ChatCompletionParams,
+	stream: boolean,
+): ProviderRequest {
+	const { settings, systemPrompt, userPrompt, previousResponseId, store = true } = params;
+
+	const body: Record<string, unknown> = {
+		model: settings.model,
+		// Explicit history goes in as a message list; otherwise the plain prompt.
+		input: params.history?.length ? toMessages(params) : userPrompt,
+		instructions: systemPrompt,
+		store,
+	};
+
+	if (previousResponseId) {
+		body.previous_response_id = previousResponseId;
+	}
+
+	const reasoning = resolveReasoning(params);
+	if (reasoning !== "none") {
+		body.reasoning = { effort: reasoning };
+	}
+
+	if (resolveWebSearch(params)) {
+		body.tools = [{ type: "web_search" }];
+	}
+
+	if (stream) {
+		body.stream = true;
+	}
+
+	return {
+		url: `${resolveBaseUrl(settings, openAiResponsesProvider)}/responses`,
+		headers: { Authorization: `Bearer ${settings.apiKey}` },
+		body,
+	};
+}
+
+function mapHttpError(status: number, body: string): string {
+	const detail = extractApiError(body);
+
+	switch (status) {
+		case 400:
+			return t("error.badRequest", { detail });
+		case 401:
+			return t("error.invalidApiKey");
+		case 429:
+			return t("error.rateLimited", { provider: "OpenAI" });
+		case 500:
+		case 502:
+		case 503:
+			return t("error.serviceError", { provider: "OpenAI" });
+		default:
+			return t("error.apiStatus", { provider: "OpenAI", status, detail });
+	}
+}
+
+/** A `url_citation` annotation on output text (web search). */
+interface ResponsesAnnotation {
+	type?: string;
+	url?: string;
+	title?: string;
+	start_index?: number;
+	end_index?: number;
+}
+
+function toCitation(annotation: ResponsesAnnotation | undefined): Citation | null {
+	if (annotation?.type !== "url_citation" || !annotation.url) return null;
+	return {
+		url: annotation.url,
+		title: annotation.title ?? "",
+		start: annotation.start_index,
+		end: annotation.end_index,
+	};
+}
+
+/**
+ * Parse a Responses API body into { text, responseId }.
+ * `text` is "" if the model returned no output (caller decides whether that's an error).
+ * Web-search citations come from the `url_citation` annotations of the first
+ * output_text block, re-based onto the trimmed text.
+ */
+export function parseResponse(responseText: string): ResponseResult {
+	const data = JSON.parse(responseText) as {
+		id?: string;
+		usage?: ResponsesUsage;
+		output_text?: string;
+		output?: Array<{
+			type?: string;
+			content?: Array<{
+				type?: string;
+				text?: string;
+				annotations?: ResponsesAnnotation[];
+			}>;
+		}>;
+	};
+
+	const responseId = data.id ?? "";
+
+	// The first output_text block: the answer when output_text is absent, and
+	// where its annotations live either way.
+	let block: { text?: string; annotations?: ResponsesAnnotation[] } | undefined;
+	for (const item of data.output ?? []) {
+		if (item.type !== "message" || !item.content) continue;
+		block = item.content.find((b) => b.type === "output_text" && b.text);
+		if (block) break;
+	}
+
+	// Try top-level output_text first, then extract from output array
+	const raw = data.output_text?.trim() ? data.output_text : block?.text;
+	const text = raw?.trim() ?? "";
+
+	const citations = (block?.annotations ?? [])
+		.map(toCitation)
+		.filter((c): c is Citation => c !== null);
+	const lead = raw ? raw.length - raw.trimStart().length : 0;
+
+	return {
+		text,
+		responseId,
+		usage: toUsage(data.usage),
+		...(citations.length > 0
+			? { citations: shiftCitations(citations, -lead) }
+			: {}),
+	};
+}
+
+interface ResponsesUsage {
+	input_tokens?: number;
+	output_tokens?: number;
+}
+
+function toUsage(usage: ResponsesUsage | undefined): TokenUsage | undefined {
+	if (!usage) return undefined;
+	return {
+		inputTokens: usage.input_tokens ?? 0,
+		outputTokens: usage.output_tokens ?? 0,
+	};
+}
+
+/**
+ * Parse one Responses API stream event. Text arrives as
+ * `response.output_text.delta`; the id is on `response.created`, usage on
+ * `response.completed`, citations on `response.output_text.annotation.added`,
+ * and failures come as `response.failed` or a bare `error` event.
+ */
+function parseStreamEvent(payload: string): StreamEvent | null {
+	const event = JSON.parse(payload) as {
+		type?: string;
+		delta?: string;
+		message?: string;
+		response?: {
+			id?: string;
+			usage?: ResponsesUsage;
+			error?: { message?: string } | null;
+		};
+		annotation?: ResponsesAnnotation;
+	};
+
+	switch (event.type) {
+		case "response.created":
+			return { responseId: event.response?.id };
+		case "response.output_text.delta":
+			return { delta: event.delta ?? "" };
+		case "response.completed":
+			return { usage: toUsage(event.response?.usage) };
+		case "response.output_text.annotation.added": {
+			const citation = toCitation(event.annotation);
+			return citation ? { citation } : null;
+		}
+		case "response.failed":
+			return { error: event.response?.error?.message ?? t("error.responseFailed") };
+		case "error":
+			return { error: event.message ?? t("error.responseFailed") };
+		default:
+			return null;
+	}
+}
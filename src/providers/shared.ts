@@ -0,0 +1,61 @@
+import type { CooSettings, ReasoningEffort } from "../types";
+import type { ChatCompletionParams, ChatMessage } from "../ai-client";
+import { t } from "../i18n";
+import type { LlmProvider } from "./types";
+
+export function resolveReasoning(params: ChatCompletionParams): ReasoningEffort {
+	return params.reasoningEffort ?? params.settings.reasoningEffort;
+}
+
+export function resolveWebSearch(params: ChatCompletionParams): boolean {
+	return params.webSearchEnabled ?? params.settings.webSearchEnabled;
+}
+
+/** The conversation as a message list: any explicit history, then the prompt. */
+export function toMessages(params: ChatCompletionParams): ChatMessage[] {
+	return [
+		...(params.history ?? []),
+		{ role: "user", content: params.userPrompt },
+	];
+}
+
+/** The configured base URL without trailing slashes, or the provider default. */
+export function resolveBaseUrl(
+	settings: CooSettings,
+	provider: LlmProvider,
+): string {
+	const custom = settings.baseUrl.trim().replace(/\/+$/, "");
+	return custom || provider.defaultBaseUrl;
+}
+
+/**
+ * The free-form model name used by every provider except OpenAI (whose models
+ * come from the fixed dropdown). Throws when it hasn't been set.
+ */
+export function resolveCustomModel(settings: CooSettings): string {
+	const model = settings.customModel.trim();
+	if (!model) {
+		throw new Error(t("error.noModel"));
+	}
+	return model;
+}
+
+/**
+ * Pull a readable message out of an error body. Handles the common
+ * `{ error: { message } }` shape (OpenAI, Anthropic, most gateways) and
+ * Ollama's `{ error: "..." }`; falls back to the raw body, truncated.
+ */
+export function extractApiError(body: string): string {
+	try {
+		const json = JSON.parse(body) as {
+			error?: string | { message?: string };
+		};
+		if (typeof json.error === "string" && json.error) return json.error;
+		if (typeof json.error === "object" && json.error?.message) {
+			return json.error.message;
+		}
+	} catch {
+		// not JSON
+	}
+	return body.slice(0, 200);
+}
@@ -0,0 +1,66 @@
+import type {
+	ChatCompletionParams,
+	Citation,
+	ResponseResult,
+	TokenUsage,
+} from "../ai-client";
+
+/** One parsed event from a streaming response. */
+export interface StreamEvent {
+	/** Newly generated answer text. */
+	delta?: string;
+	/** The response id, when the event carries it. */
+	responseId?: string;
+	/** An error reported mid-stream. */
+	error?: string;
+	/**
+	 * Token counts, when the event carries them. Some APIs split them across
+	 * events (input up front, output at the end); later counts win per field.
+	 */
+	usage?: Partial<TokenUsage>;
+	/** A web source the answer cites, offsets into the text streamed so far. */
+	citation?: Citation;
+}
+
+/** The wire-level request a provider builds for one completion. */
+export interface ProviderRequest {
+	url: string;
+	headers: Record<string, string>;
+	body: Record<string, unknown>;
+}
+
+/**
+ * One LLM backend. Each provider owns its request shape, response parsing and
+ * HTTP error wording; ai-client.ts does the transport and is provider-agnostic.
+ */
+export interface LlmProvider {
+	/** Human-readable name, used in error messages and settings. */
+	label: string;
+	/** Base URL used when the user leaves the base URL setting empty. */
+	defaultBaseUrl: string;
+	/** Whether calls fail without an API key (local servers usually need none). */
+	requiresApiKey: boolean;
+	/**
+	 * Whether the server stores responses and accepts a previous response id,
+	 * so a note can be registered once and asks chained from it. Providers
+	 * without it are stateless: each Ask resends the note as context.
+	 */
+	supportsChaining: boolean;
+	/**
+	 * How long the server keeps stored responses, in days; chains older than
+	 * this can no longer be continued. Unset for providers without chaining.
+	 */
+	retentionDays?: number;
+	/**
+	 * How the streamed body is framed: server-sent events ("data: …" lines) or
+	 * newline-delimited JSON.
+	 */
+	streamFormat: "sse" | "ndjson";
+	buildRequest(params: ChatCompletionParams, stream: boolean): ProviderRequest;
+	/** Parse a success body. `text` is "" when the model returned nothing. */
+	parseResponse(responseText: string): ResponseResult;
+	/** Parse one streamed payload (the JSON of an event), or null to skip it. */
+	parseStreamEvent(payload: string): StreamEvent | null;
+	/** Map an HTTP error status + body to a user-facing message. */
+	mapHttpError(status: number, body: string): string;
+}
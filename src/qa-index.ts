@@ -0,0 +1,302 @@
+import type { DataAdapter } from "obsidian";
+import { JsonFileStore } from "./json-file-store";
+import { remapChainPath } from "./chain-store";
+import { hashText } from "./snapshot";
+import {
+	findAllCalloutBlocks,
+	getCalloutBody,
+	getCalloutTitle,
+	textLines,
+} from "./editor-ops";
+import type { SidecarEntry } from "./sidecar";
+
+/**
+ * The vault-wide index of coo callouts, for searching past answers
+ * (qa-search-modal.ts). Each note's callouts are parsed from its text and kept
+ * in qa-index.json in the plugin directory with the note's mtime (notes
+ * without callouts too), so a scan at startup only re-reads notes that changed
+ * since; modify, rename and delete events keep it current while Obsidian runs.
+ *
+ * Callouts carry no date, so each is dated when first indexed: by its note's
+ * mtime at the time, which for an answer just written is the time it was
+ * asked. Re-indexing a note keeps the dates of callouts it already had.
+ *
+ * A note's sidecar answers (sidecar.ts) are indexed with it, dated as added
+ * and placed at the paragraph they annotate.
+ */
+
+export interface IndexedCallout {
+	/** The callout's title line in the note. */
+	line: number;
+	/** The title, without its "[Minor]" flag. */
+	question: string;
+	answer: string;
+	minor: boolean;
+	/** When the callout was first indexed (epoch ms). */
+	at: number;
+	/**
+	 * Set for a sidecar answer: the coo block id of the paragraph it annotates,
+	 * "" for the note as a whole. `line` is then that paragraph's last line.
+	 */
+	block?: string;
+}
+
+export interface IndexedNote {
+	/** The note's mtime when it was indexed. */
+	mtime: number;
+	/** sidecarKey of the sidecar answers indexed with it; missing for none. */
+	sidecar?: string;
+	callouts: IndexedCallout[];
+}
+
+export type QaIndexMap = Record<string, IndexedNote>;
+
+/** A search result: a callout and the note it is in. */
+export interface QaHit extends IndexedCallout {
+	notePath: string;
+}
+
+export interface QaQuery {
+	/** Words that must all appear (case-insensitive); "" matches everything. */
+	text: string;
+	/** Where the words must appear. */
+	field: "all" | "question" | "answer";
+	/** Whether to keep, drop, or only keep [Minor] answers. */
+	minor: "any" | "only" | "exclude";
+	/** Only callouts dated at or after this (epoch ms); 0 for any date. */
+	since: number;
+	/** Only notes in this folder or below it; "" for the whole vault. */
+	folder: string;
+}
+
+/** Results shown at most. */
+export const MAX_RESULTS = 200;
+
+const DEFAULT_DEBOUNCE_MS = 2000;
+
+/** Every coo callout in a note's text, in order, undated. */
+export function parseCooCallouts(document: string): Array<Omit<IndexedCallout, "at">> {
+	const lines = textLines(document);
+	return findAllCalloutBlocks(lines).map((block) => {
+		const title = getCalloutTitle(lines, block);
+		return {
+			line: block.startLine,
+			question: title.replace(/^\[Minor\]\s*/i, ""),
+			answer: getCalloutBody(lines, block),
+			minor: /^\[Minor\]/i.test(title),
+		};
+	});
+}
+
+/** A note's sidecar answers as index entries, placed by their block ids. */
+function sidecarCallouts(document: string, sidecar: SidecarEntry[]): IndexedCallout[] {
+	const lines = document.split("\n");
+	return sidecar.map((entry) => {
+		const line = entry.block ? lines.findIndex((l) => l.endsWith(` ^${entry.block}`)) : -1;
+		return {
+			line: Math.max(line, 0),
+			question: entry.question.replace(/^\[Minor\]\s*/i, ""),
+			answer: entry.answer.trim(),
+			minor: /^\[Minor\]/i.test(entry.question),
+			at: entry.at,
+			block: entry.block,
+		};
+	});
+}
+
+/** Identifies a callout across re-indexing, for keeping its date. */
+function calloutKey(callout: Omit<IndexedCallout, "at">): string {
+	return hashText(`${callout.question}\n${callout.answer}`);
+}
+
+/**
+ * Date a note's parsed callouts, keeping the dates of those `previous` had,
+ * and add its sidecar answers.
+ */
+export function indexNote(
+	document: string,
+	mtime: number,
+	previous?: IndexedNote,
+	sidecar: SidecarEntry[] = [],
+): IndexedNote {
+	const dates = new Map<string, number>();
+	for (const callout of previous?.callouts ?? []) {
+		if (callout.block !== undefined) continue;
+		const key = calloutKey(callout);
+		if (!dates.has(key)) dates.set(key, callout.at);
+	}
+	const key = sidecarKey(sidecar);
+	return {
+		mtime,
+		...(key ? { sidecar: key } : {}),
+		callouts: [
+			...parseCooCallouts(document).map((callout) => ({
+				...callout,
+				at: dates.get(calloutKey(callout)) ?? mtime,
+			})),
+			...sidecarCallouts(document, sidecar),
+		],
+	};
+}
+
+/** Identifies a note's sidecar answers, to tell when they change; "" for none. */
+export function sidecarKey(sidecar: SidecarEntry[]): string {
+	return sidecar.length === 0 ? "" : hashText(sidecar.map((e) => e.id).join("\n"));
+}
+
+/** The callouts matching `query`, newest first, at most `limit`. */
+export function searchQa(map: QaIndexMap, query: QaQuery, limit = MAX_RESULTS): QaHit[] {
+	const words = query.text.toLowerCase().split(/\s+/).filter(Boolean);
+	const folder = query.folder.replace(/^\/+|\/+$/g, "");
+	const hits: QaHit[] = [];
+	for (const [notePath, note] of Object.entries(map)) {
+		if (folder && !notePath.startsWith(`${folder}/`)) continue;
+		for (const callout of note.callouts) {
+			if (query.minor === "only" && !callout.minor) continue;
+			if (query.minor === "exclude" && callout.minor) continue;
+			if (callout.at < query.since) continue;
+			const haystack = (
+				query.field === "question"
+					? callout.question
+					: query.field === "answer"
+						? callout.answer
+						: `${callout.question}\n${callout.answer}`
+			).toLowerCase();
+			if (words.every((w) => haystack.includes(w))) hits.push({ ...callout, notePath });
+		}
+	}
+	hits.sort((a, b) => b.at - a.at || a.notePath.localeCompare(b.notePath) || a.line - b.line);
+	return hits.slice(0, limit);
+}
+
+function isIndexedNote(value: unknown): value is IndexedNote {
+	if (!value || typeof value !== "object") return false;
+	const n = value as Partial<IndexedNote>;
+	return (
+		typeof n.mtime === "number" &&
+		Array.isArray(n.callouts) &&
+		n.callouts.every(
+			(c: Partial<IndexedCallout>) =>
+				typeof c?.line === "number" &&
+				typeof c.question === "string" &&
+				typeof c.answer === "string" &&
+				typeof c.at === "number",
+		)
+	);
+}
+
+/** Parse qa-index.json, tolerating a missing or corrupt file. */
+export function parseQaIndex(raw: string | null): QaIndexMap {
+	if (raw === null) return {};
+	try {
+		const parsed = JSON.parse(raw) as unknown;
+		if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return {};
+		const map: QaIndexMap = {};
+		for (const [notePath, value] of Object.entries(parsed)) {
+			if (isIndexedNote(value)) map[notePath] = value;
+		}
+		return map;
+	} catch {
+		return {};
+	}
+}
+
+export class QaIndex {
+	private file: JsonFileStore<QaIndexMap>;
+
+	constructor(adapter: DataAdapter, path: string, debounceMs = DEFAULT_DEBOUNCE_MS) {
+		this.file = new JsonFileStore(adapter, path, parseQaIndex, debounceMs);
+	}
+
+	/** Called when a debounced save fails; see JsonFileStore. */
+	set onSaveError(handler: (err: unknown) => void) {
+		this.file.onSaveError = handler;
+	}
+
+	/**
+	 * Bring the index in line with the vault's notes: re-index those whose mtime
+	 * or sidecar answers (from `sidecarOf`) changed, reading them with `read`,
+	 * and drop those no longer there. Returns how many notes were re-indexed.
+	 */
+	async sync(
+		notes: Array<{ path: string; mtime: number }>,
+		read: (path: string) => Promise<string>,
+		sidecarOf: (path: string) => SidecarEntry[] = () => [],
+	): Promise<number> {
+		const map = await this.file.read((m) => m);
+		const present = new Set(notes.map((n) => n.path));
+		await this.file.mutate((m) => {
+			let changed = false;
+			for (const key of Object.keys(m)) {
+				if (!present.has(key)) {
+					delete m[key];
+					changed = true;
+				}
+			}
+			return changed;
+		});
+		let count = 0;
+		for (const note of notes) {
+			const indexed = map[note.path];
+			const sidecar = sidecarOf(note.path);
+			if (indexed?.mtime === note.mtime && (indexed.sidecar ?? "") === sidecarKey(sidecar)) {
+				continue;
+			}
+			await this.update(note.path, note.mtime, await read(note.path), sidecar);
+			count++;
+		}
+		return count;
+	}
+
+	/** Re-index one note from its text and sidecar answers. */
+	async update(
+		notePath: string,
+		mtime: number,
+		document: string,
+		sidecar: SidecarEntry[] = [],
+	): Promise<void> {
+		await this.file.mutate((map) => {
+			map[notePath] = indexNote(document, mtime, map[notePath], sidecar);
+			return true;
+		});
+	}
+
+	/** The callouts matching `query`, newest first. */
+	async search(query: QaQuery, limit = MAX_RESULTS): Promise<QaHit[]> {
+		return this.file.read((map) => searchQa(map, query, limit));
+	}
+
+	/** Move entries along with a renamed/moved note or folder. */
+	async move(oldPath: string, newPath: string): Promise<void> {
+		await this.file.mutate((map) => {
+			let changed = false;
+			for (const [key, note] of Object.entries(map)) {
+				const target = remapChainPath(key, oldPath, newPath);
+				if (target === null) continue;
+				delete map[key];
+				map[target] = note;
+				changed = true;
+			}
+			return changed;
+		});
+	}
+
+	/** Drop a deleted note, or every note in a deleted folder. */
+	async drop(path: string): Promise<void> {
+		await this.file.mutate((map) => {
+			let changed = false;
+			for (const key of Object.keys(map)) {
+				if (key === path || key.startsWith(`${path}/`)) {
+					delete map[key];
+					changed = true;
+				}
+			}
+			return changed;
+		});
+	}
+
+	/** Write pending changes now instead of waiting for the debounce. */
+	async flush(): Promise<void> {
+		await this.file.flush();
+	}
+}
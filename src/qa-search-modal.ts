@@ -0,0 +1,168 @@
+import { App, MarkdownView, Modal, TFile, debounce } from "obsidian";
+import {
+	parseCooCallouts,
+	type QaHit,
+	type QaIndex,
+	type QaQuery,
+} from "./qa-index";
+import { t, type MessageKey } from "./i18n";
+
+/** How much of an answer a result shows. */
+const SNIPPET_LENGTH = 160;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** The date filter's choices: how far back, in days (0 for any date). */
+const DATE_RANGES: Array<{ label: MessageKey; days: number }> = [
+	{ label: "search.anyTime", days: 0 },
+	{ label: "search.pastWeek", days: 7 },
+	{ label: "search.pastMonth", days: 30 },
+	{ label: "search.pastYear", days: 365 },
+];
+
+/**
+ * Search every coo answer in the vault (see qa-index.ts) by its question or
+ * answer text, narrowed by the [Minor] flag, date and folder. Results are
+ * newest first; choosing one opens its note at the callout.
+ */
+export class QaSearchModal extends Modal {
+	private index: QaIndex;
+	private query: QaQuery = { text: "", field: "all", minor: "any", since: 0, folder: "" };
+	private resultsEl: HTMLElement;
+	/** Discards searches superseded by a newer one. */
+	private generation = 0;
+	private scheduleSearch = debounce(() => void this.search(), 200, true);
+
+	constructor(app: App, index: QaIndex) {
+		super(app);
+		this.index = index;
+	}
+
+	onOpen(): void {
+		this.setTitle(t("search.title"));
+		const { contentEl } = this;
+		contentEl.addClass("coo-search");
+
+		const input = contentEl.createEl("input", {
+			type: "text",
+			cls: "coo-search-input",
+			attr: { placeholder: t("search.placeholder") },
+		});
+		input.addEventListener("input", () => {
+			this.query.text = input.value;
+			this.scheduleSearch();
+		});
+
+		const filters = contentEl.createDiv({ cls: "coo-search-filters" });
+		this.addSelect(
+			filters,
+			[
+				["all", t("search.fieldAll")],
+				["question", t("search.fieldQuestion")],
+				["answer", t("search.fieldAnswer")],
+			],
+			(value) => (this.query.field = value as QaQuery["field"]),
+		);
+		this.addSelect(
+			filters,
+			[
+				["any", t("search.minorAny")],
+				["only", t("search.minorOnly")],
+				["exclude", t("search.minorExclude")],
+			],
+			(value) => (this.query.minor = value as QaQuery["minor"]),
+		);
+		this.addSelect(
+			filters,
+			DATE_RANGES.map((r) => [String(r.days), t(r.label)]),
+			(value) => {
+				const days = Number(value);
+				this.query.since = days > 0 ? Date.now() - days * DAY_MS : 0;
+			},
+		);
+		const folder = filters.createEl("input", {
+			type: "text",
+			cls: "coo-search-folder",
+			attr: { placeholder: t("search.folder") },
+		});
+		folder.addEventListener("input", () => {
+			this.query.folder = folder.value.trim();
+			this.scheduleSearch();
+		});
+
+		this.resultsEl = contentEl.createDiv({ cls: "coo-search-results" });
+		void this.search();
+		window.setTimeout(() => input.focus(), 50);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private addSelect(
+		parent: HTMLElement,
+		options: Array<[string, string]>,
+		onChange: (value: string) => void,
+	): void {
+		const select = parent.createEl("select", { cls: "dropdown" });
+		for (const [value, label] of options) select.createEl("option", { value, text: label });
+		select.addEventListener("change", () => {
+			onChange(select.value);
+			void this.search();
+		});
+	}
+
+	private async search(): Promise<void> {
+		const generation = ++this.generation;
+		const hits = await this.index.search({ ...this.query });
+		if (generation !== this.generation) return;
+
+		this.resultsEl.empty();
+		if (hits.length === 0) {
+			this.resultsEl.createDiv({ cls: "coo-search-empty", text: t("search.empty") });
+			return;
+		}
+		for (const hit of hits) {
+			const item = this.resultsEl.createDiv({ cls: "coo-search-result" });
+			const meta = item.createDiv({ cls: "coo-search-meta" });
+			meta.createSpan({ text: hit.notePath.replace(/\.md$/, "") });
+			meta.createSpan({ text: new Date(hit.at).toLocaleDateString() });
+			if (hit.minor) meta.createSpan({ cls: "coo-search-minor", text: t("search.minor") });
+			item.createDiv({ cls: "coo-search-question", text: hit.question || t("search.untitled") });
+			const answer = hit.answer.replace(/\s+/g, " ");
+			item.createDiv({
+				cls: "coo-search-answer",
+				text: answer.length > SNIPPET_LENGTH ? `${answer.slice(0, SNIPPET_LENGTH)}…` : answer,
+			});
+			item.addEventListener("click", () => void this.jumpTo(hit));
+		}
+	}
+
+	/** Open the result's note with the cursor on its callout. */
+	private async jumpTo(hit: QaHit): Promise<void> {
+		const file = this.app.vault.getAbstractFileByPath(hit.notePath);
+		if (!(file instanceof TFile)) return;
+		this.close();
+		const leaf = this.app.workspace.getLeaf(false);
+		await leaf.openFile(file);
+		if (!(leaf.view instanceof MarkdownView)) return;
+		const editor = leaf.view.editor;
+		const pos = { line: findCallout(editor.getValue(), hit), ch: 0 };
+		editor.setCursor(pos);
+		editor.scrollIntoView({ from: pos, to: pos }, true);
+	}
+}
+
+/**
+ * The line of `hit`'s callout in the note as it is now: the matching callout
+ * nearest the indexed line, or that line if the callout is gone.
+ */
+function findCallout(document: string, hit: QaHit): number {
+	const lines = parseCooCallouts(document)
+		.filter((c) => c.question === hit.question && c.answer === hit.answer)
+		.map((c) => c.line);
+	if (lines.length === 0) return hit.line;
+	return lines.reduce((best, line) =>
+		Math.abs(line - hit.line) < Math.abs(best - hit.line) ? line : best,
+	);
+}
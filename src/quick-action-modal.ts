@@ -0,0 +1,124 @@
+import { App, Modal, Notice, Setting } from "obsidian";
+import type { QuickAction } from "./types";
+import { QUICK_ACTION_VARIABLES, validateQuickAction } from "./quick-actions";
+import { t } from "./i18n";
+
+/**
+ * Settings editor for one quick action. Edits a draft copy; Save validates it
+ * and hands it to `onSave`, Cancel (or closing) discards it.
+ */
+export class QuickActionModal extends Modal {
+	private draft: QuickAction;
+	private onSave: (action: QuickAction) => Promise<void>;
+
+	constructor(
+		app: App,
+		action: QuickAction,
+		onSave: (action: QuickAction) => Promise<void>,
+	) {
+		super(app);
+		this.draft = { ...action };
+		this.onSave = onSave;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		this.setTitle(
+			this.draft.name ? t("editor.editTitle", { name: this.draft.name }) : t("quickAction.newTitle"),
+		);
+
+		new Setting(contentEl)
+			.setName(t("editor.name"))
+			.setDesc(t("quickAction.nameDesc"))
+			.addText((text) =>
+				text.setValue(this.draft.name).onChange((value) => {
+					this.draft.name = value;
+				}),
+			);
+
+		new Setting(contentEl)
+			.setName(t("quickAction.icon"))
+			.setDesc(t("quickAction.iconDesc"))
+			.addText((text) =>
+				text.setValue(this.draft.icon).onChange((value) => {
+					this.draft.icon = value.trim();
+				}),
+			);
+
+		const vars = QUICK_ACTION_VARIABLES.map((v) => `{{${v}}}`).join(", ");
+		new Setting(contentEl)
+			.setName(t("quickAction.prompt"))
+			.setDesc(t("quickAction.promptDesc", { vars }))
+			.addTextArea((text) => {
+				text.inputEl.rows = 4;
+				text.setValue(this.draft.prompt).onChange((value) => {
+					this.draft.prompt = value;
+				});
+			});
+
+		new Setting(contentEl)
+			.setName(t("quickAction.result"))
+			.setDesc(t("quickAction.resultDesc"))
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("callout", t("quickAction.resultCallout"))
+					.addOption("replace", t("quickAction.resultReplace"))
+					.setValue(this.draft.target)
+					.onChange((value) => {
+						this.draft.target = value as QuickAction["target"];
+					}),
+			);
+
+		new Setting(contentEl)
+			.setName(t("settings.reasoningEffort"))
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("default", t("quickAction.useSetting"))
+					.addOption("none", t("settings.effortNone"))
+					.addOption("low", t("settings.effortLow"))
+					.addOption("medium", t("settings.effortMedium"))
+					.addOption("high", t("settings.effortHigh"))
+					.setValue(this.draft.reasoningEffort)
+					.onChange((value) => {
+						this.draft.reasoningEffort = value as QuickAction["reasoningEffort"];
+					}),
+			);
+
+		new Setting(contentEl)
+			.setName(t("settings.webSearch"))
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("default", t("quickAction.useSetting"))
+					.addOption("on", t("quickAction.on"))
+					.addOption("off", t("quickAction.off"))
+					.setValue(this.draft.webSearch)
+					.onChange((value) => {
+						this.draft.webSearch = value as QuickAction["webSearch"];
+					}),
+			);
+
+		new Setting(contentEl)
+			.addButton((button) =>
+				button.setButtonText(t("editor.cancel")).onClick(() => this.close()),
+			)
+			.addButton((button) =>
+				button
+					.setButtonText(t("editor.save"))
+					.setCta()
+					.onClick(async () => {
+						const draft = { ...this.draft, name: this.draft.name.trim() };
+						const problems = validateQuickAction(draft);
+						if (problems.length > 0) {
+							new Notice(t("editor.cantSave", { problems: problems.join("; ") }));
+							return;
+						}
+						await this.onSave(draft);
+						this.close();
+					}),
+			);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+}
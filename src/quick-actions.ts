@@ -0,0 +1,113 @@
+import type { CooSettings, QuickAction, ReasoningEffort } from "./types";
+import { getResponseLanguage } from "./languages";
+import { t } from "./i18n";
+import { fillTemplate, findTemplateProblems } from "./prompt-templates";
+
+/**
+ * Quick actions: named prompts shown as chips in the composer toolbar and
+ * registered as commands (so they can take hotkeys).
+ *
+ * A "callout" action runs as an Ask whose question is the action's prompt —
+ * it chains, streams and lands as a callout titled with the action's name. A
+ * "replace" action rewrites the paragraph in place following the prompt, like
+ * Rewrite but without needing notes; it keeps the paragraph's callouts.
+ */
+
+/** Variables a quick-action prompt may use (filled like prompt templates). */
+export const QUICK_ACTION_VARIABLES = [
+	"language",
+	"passage",
+	"selection",
+	"noteTitle",
+] as const;
+
+export const DEFAULT_QUICK_ACTIONS: QuickAction[] = [
+	{
+		id: "simplify",
+		name: "Simplify",
+		icon: "feather",
+		prompt: "Rewrite the passage in plainer, simpler words. Keep its meaning and every fact.",
+		target: "replace",
+		reasoningEffort: "default",
+		webSearch: "off",
+	},
+	{
+		id: "example",
+		name: "Give an example",
+		icon: "lightbulb",
+		prompt: "Give one concrete, real-world example that illustrates the passage.",
+		target: "callout",
+		reasoningEffort: "default",
+		webSearch: "default",
+	},
+	{
+		id: "counterargument",
+		name: "Counterargument",
+		icon: "scale",
+		prompt: "What is the strongest counterargument to the passage's main claim?",
+		target: "callout",
+		reasoningEffort: "default",
+		webSearch: "default",
+	},
+	{
+		id: "fact-check",
+		name: "Fact-check",
+		icon: "badge-check",
+		prompt: "Fact-check the claims in the passage. Say which hold up and which don't, and why.",
+		target: "callout",
+		reasoningEffort: "default",
+		webSearch: "on",
+	},
+];
+
+/** The command id of a quick action (stable across renames). */
+export function quickActionCommandId(action: QuickAction): string {
+	return `quick-action-${action.id}`;
+}
+
+/** A fresh id for a new action: its name as a slug, made unique among `existing`. */
+export function newQuickActionId(name: string, existing: QuickAction[]): string {
+	const base =
+		name
+			.toLowerCase()
+			.replace(/[^a-z0-9]+/g, "-")
+			.replace(/^-+|-+$/g, "") || "action";
+	const taken = new Set(existing.map((a) => a.id));
+	let id = base;
+	for (let n = 2; taken.has(id); n++) id = `${base}-${n}`;
+	return id;
+}
+
+/** Problems that keep an action from being saved; empty when it is valid. */
+export function validateQuickAction(action: QuickAction): string[] {
+	const problems: string[] = [];
+	if (!action.name.trim()) problems.push(t("problem.nameEmpty"));
+	return [...problems, ...findTemplateProblems(action.prompt, QUICK_ACTION_VARIABLES, "prompt")];
+}
+
+/** The action's prompt with its variables filled in. */
+export function fillQuickActionPrompt(
+	action: QuickAction,
+	settings: CooSettings,
+	vars: { passage: string; selection: string; noteTitle: string },
+): string {
+	return fillTemplate(action.prompt, {
+		...vars,
+		language: getResponseLanguage(settings).name,
+	}).trim();
+}
+
+/** The action's reasoning and web-search overrides; absent ones follow settings. */
+export function quickActionOverrides(action: QuickAction): {
+	reasoningEffort?: ReasoningEffort;
+	webSearchEnabled?: boolean;
+} {
+	return {
+		...(action.reasoningEffort !== "default"
+			? { reasoningEffort: action.reasoningEffort }
+			: {}),
+		...(action.webSearch !== "default"
+			? { webSearchEnabled: action.webSearch === "on" }
+			: {}),
+	};
+}
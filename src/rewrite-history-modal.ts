@@ -0,0 +1,139 @@
+import { App, Editor, Modal, Notice } from "obsidian";
+import { diffSegments } from "./diff";
+import { t } from "./i18n";
+import {
+	findRewrites,
+	locateRewrite,
+	restoredText,
+	type RewriteHistory,
+	type RewriteRecord,
+} from "./rewrite-history";
+
+/** How much of the original paragraph a list entry shows. */
+const SNIPPET_LENGTH = 140;
+
+/**
+ * Past rewrites of the current note, newest first. Each one can show its diff
+ * (the original against what the rewrite wrote), be restored — the original
+ * paragraph and its removed notes replace the rewritten block, as long as that
+ * block is still in the note unchanged, and only once — or have its original
+ * copied.
+ */
+export class RewriteHistoryModal extends Modal {
+	private editor: Editor;
+	private notePath: string;
+	private history: RewriteHistory;
+
+	constructor(app: App, editor: Editor, notePath: string, history: RewriteHistory) {
+		super(app);
+		this.editor = editor;
+		this.notePath = notePath;
+		this.history = history;
+	}
+
+	onOpen(): void {
+		this.setTitle(t("history.title"));
+		void this.render();
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private async render(): Promise<void> {
+		const records = await this.history.list(this.notePath);
+		const { contentEl } = this;
+		contentEl.empty();
+		if (records.length === 0) {
+			contentEl.createDiv({
+				cls: "coo-history-empty",
+				text: t("history.empty"),
+			});
+			return;
+		}
+
+		const document = this.editor.getValue();
+		const list = contentEl.createDiv({ cls: "coo-history-list" });
+		for (const record of records) {
+			const matches = findRewrites(document, record).length;
+			const item = list.createDiv({ cls: "coo-history-item" });
+
+			const meta = item.createDiv({ cls: "coo-history-meta" });
+			meta.createSpan({ text: new Date(record.at).toLocaleString() });
+			if (record.label) meta.createSpan({ cls: "coo-history-label", text: record.label });
+			if (record.callouts) meta.createSpan({ text: t("history.removedNotes") });
+			if (matches === 0) meta.createSpan({ cls: "coo-history-stale", text: t("history.editedSince") });
+			if (matches > 1) {
+				meta.createSpan({ cls: "coo-history-stale", text: t("history.duplicated") });
+			}
+
+			const snippet = record.original.trim();
+			item.createDiv({
+				cls: "coo-history-snippet",
+				text:
+					snippet.length > SNIPPET_LENGTH
+						? `${snippet.slice(0, SNIPPET_LENGTH)}…`
+						: snippet,
+			});
+
+			const diffEl = item.createDiv({ cls: ["coo-diff-text", "coo-history-diff"] });
+			diffEl.hide();
+
+			const buttons = item.createDiv({ cls: "coo-rewrite-buttons" });
+			const diffBtn = buttons.createEl("button", { text: t("history.showDiff") });
+			diffBtn.addEventListener("click", () => {
+				if (diffEl.isShown()) {
+					diffEl.hide();
+					diffBtn.setText(t("history.showDiff"));
+					return;
+				}
+				if (diffEl.childElementCount === 0) renderDiff(diffEl, record);
+				diffEl.show();
+				diffBtn.setText(t("history.hideDiff"));
+			});
+			buttons
+				.createEl("button", { text: t("history.copyOriginal") })
+				.addEventListener("click", () => {
+					void navigator.clipboard.writeText(restoredText(record)).then(
+						() => new Notice(t("history.copied")),
+						() => new Notice(t("history.copyFailed")),
+					);
+				});
+			const restoreBtn = buttons.createEl("button", { text: t("history.restore"), cls: "mod-cta" });
+			restoreBtn.disabled = matches !== 1;
+			restoreBtn.addEventListener("click", () => void this.restore(record));
+		}
+	}
+
+	private async restore(record: RewriteRecord): Promise<void> {
+		const range = locateRewrite(this.editor.getValue(), record);
+		if (!range) {
+			new Notice(t("history.cantRestore"));
+			return;
+		}
+		this.editor.replaceRange(
+			restoredText(record),
+			this.editor.offsetToPos(range.from),
+			this.editor.offsetToPos(range.to),
+		);
+		await this.history.remove(this.notePath, record.id);
+		new Notice(t(record.callouts ? "history.restoredWithNotes" : "history.restored"));
+		await this.render();
+	}
+}
+
+/** The rewrite's changes inline: deletions struck through, insertions marked. */
+function renderDiff(el: HTMLElement, record: RewriteRecord): void {
+	for (const segment of diffSegments(record.original, record.rewritten)) {
+		if (segment.kind === "equal") {
+			el.appendText(segment.text);
+			continue;
+		}
+		if (segment.before) {
+			el.createSpan({ cls: ["coo-diff-del", "is-accepted"], text: segment.before });
+		}
+		if (segment.after) {
+			el.createSpan({ cls: ["coo-diff-ins", "is-accepted"], text: segment.after });
+		}
+	}
+}
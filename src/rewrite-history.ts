@@ -0,0 +1,217 @@
+import type { DataAdapter } from "obsidian";
+import { JsonFileStore } from "./json-file-store";
+import { hashText } from "./snapshot";
+import { remapChainPath } from "./chain-store";
+
+/**
+ * Rewrite history (rewrite-history.json in the plugin directory).
+ *
+ * Rewrite replaces a paragraph and can remove its Q&A callouts; the editor's
+ * undo stack loses both once the note is closed or the app restarts. Each
+ * applied rewrite is archived here — the original paragraph, the exact text
+ * of the callouts it removed, and what it wrote — keyed by note path, with the
+ * written block's hash so it can be found in the note again and restored.
+ */
+
+export interface RewriteRecord {
+	/** Unique within the note. */
+	id: string;
+	/** When the rewrite was applied (epoch ms). */
+	at: number;
+	/** The rewrite mode's label, or the quick action's name. */
+	label: string;
+	/** The paragraph as it was, Markdown prefix included. */
+	original: string;
+	/**
+	 * The removed callouts exactly as they stood after the paragraph, with the
+	 * blank lines before them; "" when the rewrite kept them.
+	 */
+	callouts: string;
+	/** The text the rewrite wrote in place of the paragraph (and callouts). */
+	rewritten: string;
+	/** hashText of `rewritten`: the block the record belongs to. */
+	block: string;
+}
+
+export type RewriteHistoryMap = Record<string, RewriteRecord[]>;
+
+/** Oldest records beyond this many per note are dropped. */
+export const MAX_REWRITES_PER_NOTE = 50;
+
+const DEFAULT_DEBOUNCE_MS = 1000;
+
+function isRewriteRecord(value: unknown): value is RewriteRecord {
+	if (!value || typeof value !== "object") return false;
+	const r = value as Partial<RewriteRecord>;
+	return (
+		typeof r.id === "string" &&
+		typeof r.at === "number" &&
+		typeof r.original === "string" &&
+		typeof r.rewritten === "string"
+	);
+}
+
+/** Parse rewrite-history.json, tolerating a missing or corrupt file. */
+export function parseRewriteHistory(raw: string | null): RewriteHistoryMap {
+	if (raw === null) return {};
+	try {
+		const parsed = JSON.parse(raw) as unknown;
+		if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return {};
+		const map: RewriteHistoryMap = {};
+		for (const [notePath, value] of Object.entries(parsed)) {
+			if (!Array.isArray(value)) continue;
+			const records = value.filter(isRewriteRecord).map((r) => ({
+				...r,
+				label: r.label ?? "",
+				callouts: r.callouts ?? "",
+				block: r.block ?? hashText(r.rewritten),
+			}));
+			if (records.length > 0) map[notePath] = records;
+		}
+		return map;
+	} catch {
+		return {};
+	}
+}
+
+/** The text that restoring a record writes back: the paragraph and its callouts. */
+export function restoredText(record: RewriteRecord): string {
+	return record.original + record.callouts;
+}
+
+/** Each paragraph (run of non-blank lines) in `text`, as character offsets. */
+function paragraphRanges(text: string): Array<{ from: number; to: number }> {
+	const ranges: Array<{ from: number; to: number }> = [];
+	let offset = 0;
+	let open: { from: number; to: number } | null = null;
+	for (const line of text.split("\n")) {
+		if (line.trim() === "") {
+			open = null;
+		} else if (open) {
+			open.to = offset + line.length;
+		} else {
+			open = { from: offset, to: offset + line.length };
+			ranges.push(open);
+		}
+		offset += line.length + 1;
+	}
+	return ranges;
+}
+
+/**
+ * Every place a record's rewritten block stands in the note now, as character
+ * offsets: runs of whole paragraphs, as many as the block has, whose text
+ * hashes to the record's `block`. Empty once the block has been edited or
+ * removed.
+ */
+export function findRewrites(
+	document: string,
+	record: RewriteRecord,
+): Array<{ from: number; to: number }> {
+	const span = paragraphRanges(record.rewritten).length;
+	if (span === 0) return [];
+	const paragraphs = paragraphRanges(document);
+	const found: Array<{ from: number; to: number }> = [];
+	for (let i = 0; i + span <= paragraphs.length; i++) {
+		const from = paragraphs[i]?.from ?? 0;
+		const to = paragraphs[i + span - 1]?.to ?? 0;
+		if (hashText(document.slice(from, to)) === record.block) found.push({ from, to });
+	}
+	return found;
+}
+
+/**
+ * Where a record's rewritten block stands in the note now, or null when it is
+ * not there — or there more than once, since restoring could then overwrite
+ * the wrong paragraph.
+ */
+export function locateRewrite(
+	document: string,
+	record: RewriteRecord,
+): { from: number; to: number } | null {
+	const found = findRewrites(document, record);
+	return found.length === 1 ? (found[0] ?? null) : null;
+}
+
+export class RewriteHistory {
+	private file: JsonFileStore<RewriteHistoryMap>;
+
+	constructor(adapter: DataAdapter, path: string, debounceMs = DEFAULT_DEBOUNCE_MS) {
+		this.file = new JsonFileStore(adapter, path, parseRewriteHistory, debounceMs);
+	}
+
+	/** Called when a debounced save fails; see JsonFileStore. */
+	set onSaveError(handler: (err: unknown) => void) {
+		this.file.onSaveError = handler;
+	}
+
+	/** Archive an applied rewrite of a paragraph in `notePath`. */
+	async record(
+		notePath: string,
+		entry: Pick<RewriteRecord, "label" | "original" | "callouts" | "rewritten">,
+		now: number = Date.now(),
+	): Promise<RewriteRecord> {
+		const added: RewriteRecord = {
+			id: `${now.toString(36)}-${hashText(entry.original + entry.rewritten).slice(0, 4)}`,
+			at: now,
+			...entry,
+			block: hashText(entry.rewritten),
+		};
+		await this.file.mutate((map) => {
+			map[notePath] = [...(map[notePath] ?? []), added].slice(-MAX_REWRITES_PER_NOTE);
+			return true;
+		});
+		return added;
+	}
+
+	/** A note's rewrites, newest first. */
+	async list(notePath: string): Promise<RewriteRecord[]> {
+		return this.file.read((map) => [...(map[notePath] ?? [])].reverse());
+	}
+
+	/** Forget one rewrite (after it has been restored). */
+	async remove(notePath: string, id: string): Promise<void> {
+		await this.file.mutate((map) => {
+			const before = map[notePath] ?? [];
+			const records = before.filter((r) => r.id !== id);
+			if (records.length === before.length) return false;
+			if (records.length > 0) map[notePath] = records;
+			else delete map[notePath];
+			return true;
+		});
+	}
+
+	/** Move history along with a renamed/moved note or folder. */
+	async move(oldPath: string, newPath: string): Promise<void> {
+		await this.file.mutate((map) => {
+			let changed = false;
+			for (const [key, records] of Object.entries(map)) {
+				const target = remapChainPath(key, oldPath, newPath);
+				if (target === null) continue;
+				delete map[key];
+				map[target] = records;
+				changed = true;
+			}
+			return changed;
+		});
+	}
+
+	/** Drop the history of a deleted note, or of every note in a deleted folder. */
+	async drop(path: string): Promise<void> {
+		await this.file.mutate((map) => {
+			let changed = false;
+			for (const key of Object.keys(map)) {
+				if (key === path || key.startsWith(`${path}/`)) {
+					delete map[key];
+					changed = true;
+				}
+			}
+			return changed;
+		});
+	}
+
+	/** Write pending changes now instead of waiting for the debounce. */
+	async flush(): Promise<void> {
+		await this.file.flush();
+	}
+}
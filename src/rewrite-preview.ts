@@ -0,0 +1,116 @@
+import { applySegments, countHunks, diffSegments, type DiffSegment } from "./diff";
+import { t } from "./i18n";
+
+export interface RewritePreviewOptions {
+	/** The paragraph text as it is now (without its Markdown prefix). */
+	original: string;
+	rewritten: string;
+	/** Offer "Accept but keep notes" (Rewrite removes the notes otherwise). */
+	canKeepNotes: boolean;
+	/** Apply `text` — the rewrite with only the accepted changes. */
+	onAccept: (text: string, keepNotes: boolean) => void;
+	onRegenerate: () => void;
+	onReject: () => void;
+}
+
+/**
+ * Side-by-side review of a rewrite inside the composer: the original with its
+ * deletions marked on the left, the result with its insertions on the right.
+ * Every change starts accepted; clicking it (on either side) toggles it, and
+ * Accept applies only the accepted changes — so a long multi-paragraph rewrite
+ * can be taken in part.
+ */
+export class RewritePreview {
+	private el: HTMLDivElement;
+	private segments: DiffSegment[];
+	private accepted: Set<number>;
+	private options: RewritePreviewOptions;
+	private originalEl: HTMLDivElement;
+	private resultEl: HTMLDivElement;
+	private summaryEl: HTMLDivElement;
+
+	constructor(parent: HTMLElement, options: RewritePreviewOptions) {
+		this.options = options;
+		this.segments = diffSegments(options.original, options.rewritten);
+		const hunks = countHunks(this.segments);
+		this.accepted = new Set(Array.from({ length: hunks }, (_, i) => i));
+
+		this.el = parent.createDiv({ cls: "coo-rewrite-preview" });
+		this.summaryEl = this.el.createDiv({ cls: "coo-rewrite-summary" });
+
+		const columns = this.el.createDiv({ cls: "coo-diff-columns" });
+		const left = columns.createDiv({ cls: "coo-diff-side" });
+		left.createDiv({ cls: "coo-diff-heading", text: t("preview.original") });
+		this.originalEl = left.createDiv({ cls: "coo-diff-text" });
+		const right = columns.createDiv({ cls: "coo-diff-side" });
+		right.createDiv({ cls: "coo-diff-heading", text: t("preview.rewrite") });
+		this.resultEl = right.createDiv({ cls: "coo-diff-text" });
+
+		const buttons = this.el.createDiv({ cls: "coo-rewrite-buttons" });
+		buttons
+			.createEl("button", { text: t("preview.reject") })
+			.addEventListener("click", () => options.onReject());
+		buttons
+			.createEl("button", { text: t("preview.regenerate") })
+			.addEventListener("click", () => options.onRegenerate());
+		if (options.canKeepNotes) {
+			buttons
+				.createEl("button", { text: t("preview.acceptKeepNotes") })
+				.addEventListener("click", () => this.accept(true));
+		}
+		const accept = buttons.createEl("button", { text: t("preview.accept"), cls: "mod-cta" });
+		accept.addEventListener("click", () => this.accept(false));
+
+		this.render();
+	}
+
+	/** Remove the preview from the composer. */
+	destroy(): void {
+		this.el.remove();
+	}
+
+	private accept(keepNotes: boolean): void {
+		this.options.onAccept(applySegments(this.segments, this.accepted), keepNotes);
+	}
+
+	private toggle(hunk: number): void {
+		if (this.accepted.has(hunk)) this.accepted.delete(hunk);
+		else this.accepted.add(hunk);
+		this.render();
+	}
+
+	private render(): void {
+		const total = countHunks(this.segments);
+		this.summaryEl.setText(
+			total === 0
+				? t("preview.noChanges")
+				: t("preview.summary", { accepted: this.accepted.size, total }),
+		);
+
+		this.originalEl.empty();
+		this.resultEl.empty();
+		for (const segment of this.segments) {
+			if (segment.kind === "equal") {
+				this.originalEl.appendText(segment.text);
+				this.resultEl.appendText(segment.text);
+				continue;
+			}
+			const on = this.accepted.has(segment.hunk);
+			const state = on ? "is-accepted" : "is-rejected";
+			const hunk = segment.hunk;
+
+			const del = this.originalEl.createSpan({
+				cls: ["coo-diff-hunk", "coo-diff-del", state],
+				text: segment.before || "∅",
+			});
+			del.addEventListener("click", () => this.toggle(hunk));
+
+			// The result side shows what Accept writes for this change.
+			const ins = this.resultEl.createSpan({
+				cls: ["coo-diff-hunk", on ? "coo-diff-ins" : "coo-diff-kept", state],
+				text: (on ? segment.after : segment.before) || "∅",
+			});
+			ins.addEventListener("click", () => this.toggle(hunk));
+		}
+	}
+}
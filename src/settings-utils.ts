@@ -1,20 +1,48 @@
-import type { ResponseLanguage, TranslateLanguage } from "./types";
-import { TRANSLATE_TO_RESPONSE_MAP } from "./types";
+import type { CooSettings, Language, LanguageTag } from "./types";
+import { BUILT_IN_LANGUAGES, matchLocale } from "./languages";
+import { DEFAULT_QUICK_ACTIONS } from "./quick-actions";
 
-/** Map Obsidian's locale string to a ResponseLanguage code. */
+export const DEFAULT_SETTINGS: CooSettings = {
+	provider: "openai",
+	apiKey: "",
+	baseUrl: "",
+	model: "gpt-5.6-terra",
+	customModel: "",
+	conversationMode: "server",
+	reasoningEffort: "low",
+	webSearchEnabled: true,
+	citationStyle: "footnotes",
+	promptFolder: "coo/prompts",
+	quickActions: DEFAULT_QUICK_ACTIONS,
+	qaStorage: "inline",
+	streamingEnabled: true,
+	rewritePreview: true,
+	responseLanguage: "en",
+	translateLanguage: "zh",
+	translateMode: "inline",
+	noteTranslationLayout: "interleaved",
+	glossary: [],
+	glossaryNote: "",
+	translationMemory: true,
+	customLanguages: [],
+	maxAttempts: 3,
+	retryTimeout: 60,
+	priceTable: {},
+	dailyBudget: 0,
+	monthlyBudget: 0,
+	noteBudget: 0,
+};
+
+/** Map Obsidian's locale string to a response language tag. */
 export function mapLocaleToResponseLanguage(
 	locale: string,
-): ResponseLanguage {
-	const lower = locale.toLowerCase();
-	if (lower.startsWith("zh")) return "zh";
-	if (lower.startsWith("ja")) return "ja";
-	if (lower.startsWith("es")) return "es";
-	if (lower.startsWith("fr")) return "fr";
-	return "en";
+	languages: readonly Language[] = BUILT_IN_LANGUAGES,
+): LanguageTag {
+	return matchLocale(locale, languages);
 }
 
-/** Detect Obsidian's locale and map it to a ResponseLanguage. */
-export function detectObsidianLocale(): ResponseLanguage {
+/** Detect Obsidian's locale and map it to a response language tag. */
+export function detectObsidianLocale(): LanguageTag {
 	// moment.locale() returns the current Obsidian UI locale
 	const locale =
 		typeof window !== "undefined" && window.moment
@@ -25,16 +53,16 @@ export function detectObsidianLocale(): ResponseLanguage {
 
 /** Check if the response language and translate language conflict (same language). */
 export function isLanguageConflict(
-	responseLang: ResponseLanguage,
-	translateLang: TranslateLanguage,
+	responseLang: LanguageTag,
+	translateLang: LanguageTag,
 ): boolean {
-	return TRANSLATE_TO_RESPONSE_MAP[translateLang] === responseLang;
+	return responseLang.toLowerCase() === translateLang.toLowerCase();
 }
 
 /** Get a sensible default translate language that doesn't conflict with the response language. */
 export function getDefaultTranslateLanguage(
-	responseLang: ResponseLanguage,
-): TranslateLanguage {
-	if (responseLang === "en") return "Chinese";
-	return "English";
+	responseLang: LanguageTag,
+): LanguageTag {
+	if (responseLang.toLowerCase().split("-")[0] === "en") return "zh";
+	return "en";
 }
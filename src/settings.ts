@@ -2,35 +2,77 @@ import { App, PluginSettingTab, Setting } from "obsidian";
 import type CooPlugin from "./main";
 import type {
 	CooSettings,
-	TranslateLanguage,
+	Language,
+	NoteTranslationLayout,
+	ProviderId,
+	QuickAction,
+	TranslateMode,
 } from "./types";
-import { TRANSLATE_TO_RESPONSE_MAP } from "./types";
+import { getLanguages } from "./languages";
+import { t, type MessageKey } from "./i18n";
+import { LanguageModal } from "./language-modal";
+import { getProvider } from "./providers";
+import {
+	formatCost,
+	formatPriceTable,
+	formatTokens,
+	parsePriceTable,
+	type UsageTotals,
+} from "./usage-ledger";
+import { TEMPLATE_ACTIONS, type TemplateStatus } from "./prompt-templates";
+import { DEFAULT_QUICK_ACTIONS, newQuickActionId } from "./quick-actions";
+import { QuickActionModal } from "./quick-action-modal";
+import { TRANSLATE_MODES } from "./translate";
+import { NOTE_TRANSLATION_LAYOUTS } from "./note-translation";
+import { formatGlossary, parseGlossary } from "./glossary";
+import { TranslationMemoryModal } from "./translation-memory-modal";
 import {
 	isLanguageConflict,
 	getDefaultTranslateLanguage,
 } from "./settings-utils";
 
-export { mapLocaleToResponseLanguage, detectObsidianLocale, isLanguageConflict, getDefaultTranslateLanguage } from "./settings-utils";
-
-export const DEFAULT_SETTINGS: CooSettings = {
-	apiKey: "",
-	model: "gpt-5.6-terra",
-	reasoningEffort: "low",
-	webSearchEnabled: true,
-	responseLanguage: "en",
-	translateLanguage: "Chinese",
-};
-
-/** All available translate language options. */
-const ALL_TRANSLATE_OPTIONS: ReadonlyArray<{
-	value: TranslateLanguage;
-	label: string;
+export { DEFAULT_SETTINGS, mapLocaleToResponseLanguage, detectObsidianLocale, isLanguageConflict, getDefaultTranslateLanguage } from "./settings-utils";
+
+/** All available LLM providers, in dropdown order. Labels are read at render, in the UI language. */
+const PROVIDER_OPTIONS: ReadonlyArray<{ value: ProviderId; label: () => string }> = [
+	{ value: "openai", label: () => "OpenAI" },
+	{ value: "openai-compatible", label: () => t("settings.providerCompatible") },
+	{ value: "anthropic", label: () => "Anthropic" },
+	{ value: "ollama", label: () => "Ollama" },
+];
+
+/** One summary line for the usage section: "$0.12 · 34 calls · 56.7k tokens". */
+function describeUsage(totals: UsageTotals): string {
+	const tokens = formatTokens(totals.inputTokens + totals.outputTokens);
+	return t(totals.unpriced > 0 ? "settings.usageLineUnpriced" : "settings.usageLine", {
+		cost: formatCost(totals.cost),
+		calls: totals.calls,
+		unpriced: totals.unpriced,
+		tokens,
+	});
+}
+
+/** A template's state for its settings description. */
+function describeTemplate(status: TemplateStatus, path: string): string {
+	switch (status.kind) {
+		case "built-in":
+			return t("settings.templateBuiltIn");
+		case "custom":
+			return t("settings.templateCustom", { path });
+		case "invalid":
+			return t("settings.templateInvalid", { path, problems: status.problems.join("; ") });
+	}
+}
+
+/** Budget fields: settings key, name and description, in display order. */
+const BUDGET_FIELDS: ReadonlyArray<{
+	key: "dailyBudget" | "monthlyBudget" | "noteBudget";
+	name: MessageKey;
+	desc: MessageKey;
 }> = [
-	{ value: "English", label: "English" },
-	{ value: "Spanish", label: "Español" },
-	{ value: "French", label: "Français" },
-	{ value: "Chinese", label: "中文" },
-	{ value: "Japanese", label: "日本語" },
+	{ key: "dailyBudget", name: "settings.dailyBudget", desc: "settings.dailyBudgetDesc" },
+	{ key: "monthlyBudget", name: "settings.monthlyBudget", desc: "settings.monthlyBudgetDesc" },
+	{ key: "noteBudget", name: "settings.noteBudget", desc: "settings.noteBudgetDesc" },
 ];
 
 export class CooSettingTab extends PluginSettingTab {
@@ -45,13 +87,42 @@ export class CooSettingTab extends PluginSettingTab {
 		const { containerEl } = this;
 		containerEl.empty();
 
+		const provider = getProvider(this.plugin.settings);
+		const isOpenAi = this.plugin.settings.provider === "openai";
+
 		new Setting(containerEl)
-			.setName("OpenAI API key")
-			.setDesc("Required. Your key is stored locally and never shared.")
+			.setName(t("settings.provider"))
+			.setDesc(t("settings.providerDesc"))
+			.addDropdown((dropdown) => {
+				for (const opt of PROVIDER_OPTIONS) {
+					dropdown.addOption(opt.value, opt.label());
+				}
+				dropdown
+					.setValue(this.plugin.settings.provider)
+					.onChange(async (value) => {
+						// A base URL is provider-specific — reset it on switch.
+						this.plugin.settings = {
+							...this.plugin.settings,
+							provider: value as ProviderId,
+							baseUrl: "",
+						};
+						await this.plugin.saveSettings();
+						// Re-render to show the provider's own fields
+						void this.display();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName(isOpenAi ? t("settings.openAiApiKey") : t("settings.apiKey"))
+			.setDesc(
+				provider.requiresApiKey
+					? t("settings.apiKeyRequired")
+					: t("settings.apiKeyOptional"),
+			)
 			.addText((text) => {
 				text.inputEl.type = "password";
 				text
-					.setPlaceholder("sk-...")
+					.setPlaceholder(isOpenAi ? "sk-..." : "")
 					.setValue(this.plugin.settings.apiKey)
 					.onChange(async (value) => {
 						this.plugin.settings = {
@@ -62,35 +133,87 @@ export class CooSettingTab extends PluginSettingTab {
 					});
 			});
 
+		// Only a provider with stored responses has a choice to make.
+		if (provider.supportsChaining) {
+			new Setting(containerEl)
+				.setName(t("settings.conversationHistory"))
+				.setDesc(t("settings.conversationHistoryDesc"))
+				.addDropdown((dropdown) =>
+					dropdown
+						.addOption("server", t("settings.serverSide"))
+						.addOption("local", t("settings.local"))
+						.setValue(this.plugin.settings.conversationMode)
+						.onChange(async (value) => {
+							this.plugin.settings = {
+								...this.plugin.settings,
+								conversationMode:
+									value as CooSettings["conversationMode"],
+							};
+							await this.plugin.saveSettings();
+						}),
+				);
+		}
+
 		new Setting(containerEl)
-			.setName("Model")
-			.setDesc("Which OpenAI model to use for responses.")
-			.addDropdown((dropdown) =>
-				dropdown
-					.addOption("gpt-5.6-sol", "GPT-5.6 Sol")
-					.addOption("gpt-5.6-terra", "GPT-5.6 Terra")
-					.addOption("gpt-5.6-luna", "GPT-5.6 Luna")
-					.setValue(this.plugin.settings.model)
+			.setName(t("settings.baseUrl"))
+			.setDesc(t("settings.baseUrlDesc"))
+			.addText((text) =>
+				text
+					.setPlaceholder(provider.defaultBaseUrl)
+					.setValue(this.plugin.settings.baseUrl)
 					.onChange(async (value) => {
 						this.plugin.settings = {
 							...this.plugin.settings,
-							model: value as CooSettings["model"],
+							baseUrl: value.trim(),
 						};
 						await this.plugin.saveSettings();
 					}),
 			);
 
+		if (isOpenAi) {
+			new Setting(containerEl)
+				.setName(t("settings.model"))
+				.setDesc(t("settings.modelOpenAiDesc"))
+				.addDropdown((dropdown) =>
+					dropdown
+						.addOption("gpt-5.6-sol", "GPT-5.6 Sol")
+						.addOption("gpt-5.6-terra", "GPT-5.6 Terra")
+						.addOption("gpt-5.6-luna", "GPT-5.6 Luna")
+						.setValue(this.plugin.settings.model)
+						.onChange(async (value) => {
+							this.plugin.settings = {
+								...this.plugin.settings,
+								model: value as CooSettings["model"],
+							};
+							await this.plugin.saveSettings();
+						}),
+				);
+		} else {
+			new Setting(containerEl)
+				.setName(t("settings.model"))
+				.setDesc(t("settings.modelDesc"))
+				.addText((text) =>
+					text
+						.setValue(this.plugin.settings.customModel)
+						.onChange(async (value) => {
+							this.plugin.settings = {
+								...this.plugin.settings,
+								customModel: value.trim(),
+							};
+							await this.plugin.saveSettings();
+						}),
+				);
+		}
+
 		new Setting(containerEl)
-			.setName("Reasoning effort")
-			.setDesc(
-				"How much reasoning the model uses. Higher is slower but more thorough. Applies to ask only (rewrite and translate always run without it).",
-			)
+			.setName(t("settings.reasoningEffort"))
+			.setDesc(t("settings.reasoningEffortDesc"))
 			.addDropdown((dropdown) =>
 				dropdown
-					.addOption("none", "None")
-					.addOption("low", "Low")
-					.addOption("medium", "Medium")
-					.addOption("high", "High")
+					.addOption("none", t("settings.effortNone"))
+					.addOption("low", t("settings.effortLow"))
+					.addOption("medium", t("settings.effortMedium"))
+					.addOption("high", t("settings.effortHigh"))
 					.setValue(this.plugin.settings.reasoningEffort)
 					.onChange(async (value) => {
 						this.plugin.settings = {
@@ -103,10 +226,8 @@ export class CooSettingTab extends PluginSettingTab {
 			);
 
 		new Setting(containerEl)
-			.setName("Web search")
-			.setDesc(
-				"Let the model search the web when asking, for up-to-date information.",
-			)
+			.setName(t("settings.webSearch"))
+			.setDesc(t("settings.webSearchDesc"))
 			.addToggle((toggle) =>
 				toggle
 					.setValue(this.plugin.settings.webSearchEnabled)
@@ -120,19 +241,118 @@ export class CooSettingTab extends PluginSettingTab {
 			);
 
 		new Setting(containerEl)
-			.setName("Response language")
-			.setDesc("Primary language for AI responses.")
+			.setName(t("settings.sources"))
+			.setDesc(t("settings.sourcesDesc"))
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOption("footnotes", t("settings.sourcesFootnotes"))
+					.addOption("links", t("settings.sourcesLinks"))
+					.addOption("hidden", t("settings.sourcesHidden"))
+					.setValue(this.plugin.settings.citationStyle)
+					.onChange(async (value) => {
+						this.plugin.settings = {
+							...this.plugin.settings,
+							citationStyle: value as CooSettings["citationStyle"],
+						};
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName(t("settings.answerStorage"))
+			.setDesc(t("settings.answerStorageDesc"))
 			.addDropdown((dropdown) =>
 				dropdown
-					.addOption("en", "English")
-					.addOption("es", "Español")
-					.addOption("fr", "Français")
-					.addOption("zh", "中文")
-					.addOption("ja", "日本語")
+					.addOption("inline", t("settings.storageInline"))
+					.addOption("sidecar", t("settings.storageSidecar"))
+					.setValue(this.plugin.settings.qaStorage)
+					.onChange(async (value) => {
+						this.plugin.settings = {
+							...this.plugin.settings,
+							qaStorage: value as CooSettings["qaStorage"],
+						};
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName(t("settings.streamAnswers"))
+			.setDesc(t("settings.streamAnswersDesc"))
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.streamingEnabled)
+					.onChange(async (value) => {
+						this.plugin.settings = {
+							...this.plugin.settings,
+							streamingEnabled: value,
+						};
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName(t("settings.previewRewrites"))
+			.setDesc(t("settings.previewRewritesDesc"))
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.rewritePreview)
+					.onChange(async (value) => {
+						this.plugin.settings = {
+							...this.plugin.settings,
+							rewritePreview: value,
+						};
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName(t("settings.maxAttempts"))
+			.setDesc(t("settings.maxAttemptsDesc"))
+			.addText((text) => {
+				text.inputEl.type = "number";
+				text
+					.setValue(String(this.plugin.settings.maxAttempts))
+					.onChange(async (value) => {
+						const attempts = Math.floor(Number(value));
+						if (!Number.isFinite(attempts) || attempts < 1) return;
+						this.plugin.settings = {
+							...this.plugin.settings,
+							maxAttempts: attempts,
+						};
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName(t("settings.retryTimeout"))
+			.setDesc(t("settings.retryTimeoutDesc"))
+			.addText((text) => {
+				text.inputEl.type = "number";
+				text
+					.setValue(String(this.plugin.settings.retryTimeout))
+					.onChange(async (value) => {
+						const seconds = Number(value);
+						if (!Number.isFinite(seconds) || seconds < 0) return;
+						this.plugin.settings = {
+							...this.plugin.settings,
+							retryTimeout: seconds,
+						};
+						await this.plugin.saveSettings();
+					});
+			});
+
+		const languages = getLanguages(this.plugin.settings.customLanguages);
+		new Setting(containerEl)
+			.setName(t("settings.responseLanguage"))
+			.setDesc(t("settings.responseLanguageDesc"))
+			.addDropdown((dropdown) => {
+				for (const language of languages) {
+					dropdown.addOption(language.tag, language.nativeName);
+				}
+				dropdown
 					.setValue(this.plugin.settings.responseLanguage)
 					.onChange(async (value) => {
-						const newResponseLang =
-							value as CooSettings["responseLanguage"];
+						const newResponseLang = value;
 
 						// Auto-adjust translate language if it now conflicts
 						let newTranslateLang =
@@ -155,23 +375,20 @@ export class CooSettingTab extends PluginSettingTab {
 						await this.plugin.saveSettings();
 						// Re-render to update translate dropdown options
 						void this.display();
-					}),
-			);
+					});
+			});
 
 		new Setting(containerEl)
-			.setName("Translation language")
-			.setDesc("Target language for the Translate action.")
+			.setName(t("settings.translateLanguage"))
+			.setDesc(t("settings.translateLanguageDesc"))
 			.addDropdown((dropdown) => {
 				const currentResponseLang =
 					this.plugin.settings.responseLanguage;
 
 				// Add all options except the one that conflicts with response language
-				for (const opt of ALL_TRANSLATE_OPTIONS) {
-					if (
-						TRANSLATE_TO_RESPONSE_MAP[opt.value] !==
-						currentResponseLang
-					) {
-						dropdown.addOption(opt.value, opt.label);
+				for (const language of languages) {
+					if (!isLanguageConflict(currentResponseLang, language.tag)) {
+						dropdown.addOption(language.tag, language.nativeName);
 					}
 				}
 
@@ -180,11 +397,375 @@ export class CooSettingTab extends PluginSettingTab {
 					.onChange(async (value) => {
 						this.plugin.settings = {
 							...this.plugin.settings,
-							translateLanguage:
-								value as CooSettings["translateLanguage"],
+							translateLanguage: value,
 						};
 						await this.plugin.saveSettings();
 					});
 			});
+
+		new Setting(containerEl)
+			.setName(t("settings.translateMode"))
+			.setDesc(t("settings.translateModeDesc"))
+			.addDropdown((dropdown) => {
+				for (const { mode, label } of TRANSLATE_MODES) {
+					dropdown.addOption(mode, t(label));
+				}
+				dropdown
+					.setValue(this.plugin.settings.translateMode)
+					.onChange(async (value) => {
+						this.plugin.settings = {
+							...this.plugin.settings,
+							translateMode: value as TranslateMode,
+						};
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName(t("settings.noteTranslationLayout"))
+			.setDesc(t("settings.noteTranslationLayoutDesc"))
+			.addDropdown((dropdown) => {
+				for (const { layout, label } of NOTE_TRANSLATION_LAYOUTS) {
+					dropdown.addOption(layout, t(label));
+				}
+				dropdown
+					.setValue(this.plugin.settings.noteTranslationLayout)
+					.onChange(async (value) => {
+						this.plugin.settings = {
+							...this.plugin.settings,
+							noteTranslationLayout: value as NoteTranslationLayout,
+						};
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName(t("settings.glossary"))
+			.setDesc(t("settings.glossaryDesc"))
+			.addTextArea((text) => {
+				text.inputEl.rows = 4;
+				text
+					.setPlaceholder("Entanglement = 量子もつれ")
+					.setValue(formatGlossary(this.plugin.settings.glossary))
+					.onChange(async (value) => {
+						this.plugin.settings = {
+							...this.plugin.settings,
+							glossary: parseGlossary(value),
+						};
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName(t("settings.glossaryNote"))
+			.setDesc(t("settings.glossaryNoteDesc"))
+			.addText((text) =>
+				text
+					.setPlaceholder(t("settings.notePath"))
+					.setValue(this.plugin.settings.glossaryNote)
+					.onChange(async (value) => {
+						this.plugin.settings = {
+							...this.plugin.settings,
+							glossaryNote: value.trim(),
+						};
+						await this.plugin.saveSettings();
+						await this.plugin.reloadGlossaryNote();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName(t("settings.translationMemory"))
+			.setDesc(t("settings.translationMemoryDesc"))
+			.addButton((button) =>
+				button.setButtonText(t("settings.browse")).onClick(() => {
+					new TranslationMemoryModal(this.app, this.plugin.translationMemory).open();
+				}),
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.translationMemory)
+					.onChange(async (value) => {
+						this.plugin.settings = {
+							...this.plugin.settings,
+							translationMemory: value,
+						};
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		this.displayCustomLanguages(containerEl);
+		this.displayQuickActions(containerEl);
+		this.displayTemplates(containerEl);
+		this.displayUsage(containerEl);
+	}
+
+	/** Languages added to the built-in ones, with edit/remove buttons, and add. */
+	private displayCustomLanguages(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName(t("settings.customLanguages"))
+			.setDesc(t("settings.customLanguagesDesc"))
+			.setHeading();
+
+		const custom = this.plugin.settings.customLanguages;
+		for (const language of custom) {
+			new Setting(containerEl)
+				.setName(`${language.nativeName} (${language.tag})`)
+				.setDesc(`${language.name}: ${language.defaultQuestion}`)
+				.addExtraButton((button) =>
+					button
+						.setIcon("pencil")
+						.setTooltip(t("settings.edit"))
+						.onClick(() => {
+							new LanguageModal(this.app, language, async (edited) => {
+								await this.saveCustomLanguages(
+									custom.map((l) => (l === language ? edited : l)),
+								);
+							}).open();
+						}),
+				)
+				.addExtraButton((button) =>
+					button
+						.setIcon("trash")
+						.setTooltip(t("settings.remove"))
+						.onClick(async () => {
+							await this.saveCustomLanguages(custom.filter((l) => l !== language));
+						}),
+				);
+		}
+
+		new Setting(containerEl).addButton((button) =>
+			button
+				.setButtonText(t("settings.addLanguage"))
+				.setCta()
+				.onClick(() => {
+					const blank: Language = {
+						tag: "",
+						name: "",
+						nativeName: "",
+						defaultQuestion: "",
+						direction: "ltr",
+					};
+					new LanguageModal(this.app, blank, async (created) => {
+						await this.saveCustomLanguages([
+							...custom.filter((l) => l.tag.toLowerCase() !== created.tag.toLowerCase()),
+							created,
+						]);
+					}).open();
+				}),
+		);
+	}
+
+	/**
+	 * Store a new list of custom languages. A response or translation language
+	 * that was removed falls back to the default.
+	 */
+	private async saveCustomLanguages(customLanguages: Language[]): Promise<void> {
+		const tags = getLanguages(customLanguages).map((l) => l.tag.toLowerCase());
+		const keep = (tag: string, fallback: string): string =>
+			tags.includes(tag.toLowerCase()) ? tag : fallback;
+		const responseLanguage = keep(this.plugin.settings.responseLanguage, "en");
+		this.plugin.settings = {
+			...this.plugin.settings,
+			customLanguages,
+			responseLanguage,
+			translateLanguage: keep(
+				this.plugin.settings.translateLanguage,
+				getDefaultTranslateLanguage(responseLanguage),
+			),
+		};
+		await this.plugin.saveSettings();
+		void this.display();
+	}
+
+	/** The quick actions, with edit/move/remove buttons, and add/restore. */
+	private displayQuickActions(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName(t("settings.quickActions"))
+			.setDesc(t("settings.quickActionsDesc"))
+			.setHeading();
+
+		const actions = this.plugin.settings.quickActions;
+		actions.forEach((action, index) => {
+			const result =
+				action.target === "replace" ? t("settings.replacesParagraph") : t("settings.addsNote");
+			new Setting(containerEl)
+				.setName(action.name)
+				.setDesc(`${result}: ${action.prompt}`)
+				.addExtraButton((button) =>
+					button
+						.setIcon("arrow-up")
+						.setTooltip(t("settings.moveUp"))
+						.setDisabled(index === 0)
+						.onClick(async () => {
+							const next = [...actions];
+							[next[index - 1], next[index]] = [action, next[index - 1] as QuickAction];
+							await this.saveQuickActions(next);
+						}),
+				)
+				.addExtraButton((button) =>
+					button
+						.setIcon("pencil")
+						.setTooltip(t("settings.edit"))
+						.onClick(() => {
+							new QuickActionModal(this.app, action, async (edited) => {
+								await this.saveQuickActions(
+									actions.map((a) => (a.id === action.id ? edited : a)),
+								);
+							}).open();
+						}),
+				)
+				.addExtraButton((button) =>
+					button
+						.setIcon("trash")
+						.setTooltip(t("settings.remove"))
+						.onClick(async () => {
+							await this.saveQuickActions(
+								actions.filter((a) => a.id !== action.id),
+							);
+						}),
+				);
+		});
+
+		new Setting(containerEl)
+			.addButton((button) =>
+				button.setButtonText(t("settings.restoreDefaults")).onClick(async () => {
+					await this.saveQuickActions(DEFAULT_QUICK_ACTIONS);
+				}),
+			)
+			.addButton((button) =>
+				button
+					.setButtonText(t("settings.addQuickAction"))
+					.setCta()
+					.onClick(() => {
+						const blank: QuickAction = {
+							id: "",
+							name: "",
+							icon: "zap",
+							prompt: "",
+							target: "callout",
+							reasoningEffort: "default",
+							webSearch: "default",
+						};
+						new QuickActionModal(this.app, blank, async (created) => {
+							await this.saveQuickActions([
+								...actions,
+								{ ...created, id: newQuickActionId(created.name, actions) },
+							]);
+						}).open();
+					}),
+			);
+	}
+
+	/** Store a new list of quick actions and refresh their commands. */
+	private async saveQuickActions(quickActions: QuickAction[]): Promise<void> {
+		this.plugin.settings = { ...this.plugin.settings, quickActions };
+		await this.plugin.saveSettings();
+		this.plugin.registerQuickActionCommands();
+		void this.display();
+	}
+
+	/** Template folder, and each action's template status with open/reset buttons. */
+	private displayTemplates(containerEl: HTMLElement): void {
+		new Setting(containerEl).setName(t("settings.promptTemplates")).setHeading();
+
+		new Setting(containerEl)
+			.setName(t("settings.templateFolder"))
+			.setDesc(t("settings.templateFolderDesc"))
+			.addText((text) =>
+				text
+					.setPlaceholder(t("settings.folderPath"))
+					.setValue(this.plugin.settings.promptFolder)
+					.onChange(async (value) => {
+						this.plugin.settings = {
+							...this.plugin.settings,
+							promptFolder: value.trim(),
+						};
+						await this.plugin.saveSettings();
+						await this.plugin.reloadPromptTemplates();
+					}),
+			);
+
+		const hasFolder = this.plugin.settings.promptFolder !== "";
+		for (const { action, label, variables } of TEMPLATE_ACTIONS) {
+			const status = this.plugin.templates.status(action);
+			const vars = variables.map((v) => `{{${v}}}`).join(", ");
+			new Setting(containerEl)
+				.setName(t("settings.templatePrompt", { name: t(label) }))
+				.setDesc(
+					`${describeTemplate(status, this.plugin.templates.pathOf(action))} ${t("settings.templateVariables", { variables: vars })}`,
+				)
+				.addButton((button) =>
+					button
+						.setButtonText(t("settings.openTemplate"))
+						.setDisabled(!hasFolder)
+						.onClick(async () => {
+							await this.plugin.openPromptTemplate(action);
+						}),
+				)
+				.addButton((button) =>
+					button
+						.setButtonText(t("settings.resetTemplate"))
+						.setDisabled(status.kind === "built-in")
+						.onClick(async () => {
+							await this.plugin.resetPromptTemplate(action);
+							void this.display();
+						}),
+				);
+		}
+	}
+
+	/** Usage summary, price table and budgets. */
+	private displayUsage(containerEl: HTMLElement): void {
+		new Setting(containerEl).setName(t("settings.usage")).setHeading();
+
+		const summary = new Setting(containerEl)
+			.setName(t("settings.spend"))
+			.setDesc(t("settings.loading"));
+		void this.plugin.ledger.summary().then(({ today, month }) => {
+			summary.setDesc(
+				t("settings.spendSummary", {
+					today: describeUsage(today),
+					month: describeUsage(month),
+				}),
+			);
+		});
+
+		new Setting(containerEl)
+			.setName(t("settings.prices"))
+			.setDesc(t("settings.pricesDesc"))
+			.addTextArea((text) => {
+				text.inputEl.rows = 4;
+				text
+					.setPlaceholder("Model = 1.25, 10")
+					.setValue(formatPriceTable(this.plugin.settings.priceTable))
+					.onChange(async (value) => {
+						this.plugin.settings = {
+							...this.plugin.settings,
+							priceTable: parsePriceTable(value),
+						};
+						await this.plugin.saveSettings();
+					});
+			});
+
+		for (const field of BUDGET_FIELDS) {
+			new Setting(containerEl)
+				.setName(t(field.name))
+				.setDesc(t(field.desc))
+				.addText((text) => {
+					text.inputEl.type = "number";
+					text
+						.setPlaceholder("0")
+						.setValue(String(this.plugin.settings[field.key] || ""))
+						.onChange(async (value) => {
+							const amount = Number(value);
+							this.plugin.settings = {
+								...this.plugin.settings,
+								[field.key]:
+									Number.isFinite(amount) && amount > 0 ? amount : 0,
+							};
+							await this.plugin.saveSettings();
+						});
+				});
+		}
 	}
 }
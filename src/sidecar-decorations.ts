@@ -0,0 +1,114 @@
+import { editorInfoField, setIcon } from "obsidian";
+import { RangeSetBuilder, StateEffect } from "@codemirror/state";
+import {
+	Decoration,
+	EditorView,
+	ViewPlugin,
+	WidgetType,
+	type DecorationSet,
+	type ViewUpdate,
+} from "@codemirror/view";
+import { getCooBlockId } from "./editor-ops";
+import { t } from "./i18n";
+import type { SidecarStore } from "./sidecar";
+
+/** Dispatched to an editor when its note's sidecar entries change. */
+export const sidecarRefresh = StateEffect.define<null>();
+
+/** A badge at the end of an anchored paragraph: the sidecar's answer count. */
+class SidecarBadge extends WidgetType {
+	constructor(
+		private count: number,
+		/** The note and block the badge is for. */
+		private key: string,
+		private onClick: () => void,
+	) {
+		super();
+	}
+
+	eq(other: SidecarBadge): boolean {
+		return other.count === this.count && other.key === this.key;
+	}
+
+	toDOM(view: EditorView): HTMLElement {
+		const el = view.dom.ownerDocument.createElement("span");
+		el.addClass("coo-sidecar-badge");
+		el.setAttr("aria-label", t("sidecar.showNotes"));
+		setIcon(el.createSpan(), "message-square");
+		el.createSpan({ text: String(this.count) });
+		el.addEventListener("mousedown", (e) => {
+			e.preventDefault();
+			this.onClick();
+		});
+		return el;
+	}
+
+	ignoreEvent(): boolean {
+		return false;
+	}
+}
+
+/**
+ * Editor extension marking paragraphs that have sidecar answers: a badge with
+ * the count after each anchored paragraph's block id, which reveals the
+ * answers in the side panel.
+ */
+export function sidecarDecorations(
+	sidecar: SidecarStore,
+	reveal: (notePath: string, block: string) => void,
+) {
+	return ViewPlugin.fromClass(
+		class {
+			decorations: DecorationSet;
+
+			constructor(view: EditorView) {
+				this.decorations = this.build(view);
+			}
+
+			update(update: ViewUpdate): void {
+				if (
+					update.docChanged ||
+					update.viewportChanged ||
+					update.transactions.some((tr) => tr.effects.some((e) => e.is(sidecarRefresh)))
+				) {
+					this.decorations = this.build(update.view);
+				}
+			}
+
+			build(view: EditorView): DecorationSet {
+				const builder = new RangeSetBuilder<Decoration>();
+				const notePath = view.state.field(editorInfoField).file?.path;
+				const entries = notePath ? sidecar.peek(notePath) : [];
+				if (!notePath || entries.length === 0) return builder.finish();
+
+				const counts = new Map<string, number>();
+				for (const entry of entries) {
+					counts.set(entry.block, (counts.get(entry.block) ?? 0) + 1);
+				}
+				for (const { from, to } of view.visibleRanges) {
+					let pos = from;
+					while (pos <= to) {
+						const line = view.state.doc.lineAt(pos);
+						const block = getCooBlockId(line.text);
+						const count = block ? counts.get(block) : undefined;
+						if (block && count) {
+							builder.add(
+								line.to,
+								line.to,
+								Decoration.widget({
+									widget: new SidecarBadge(count, `${notePath}#${block}`, () =>
+										reveal(notePath, block),
+									),
+									side: 1,
+								}),
+							);
+						}
+						pos = line.to + 1;
+					}
+				}
+				return builder.finish();
+			}
+		},
+		{ decorations: (plugin) => plugin.decorations },
+	);
+}
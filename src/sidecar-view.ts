@@ -0,0 +1,206 @@
+import {
+	Component,
+	ItemView,
+	MarkdownRenderer,
+	MarkdownView,
+	TFile,
+	setIcon,
+	type WorkspaceLeaf,
+} from "obsidian";
+import { getCooBlockId, splitCooBlockId } from "./editor-ops";
+import type { SidecarEntry, SidecarStore } from "./sidecar";
+import { t } from "./i18n";
+
+export const VIEW_TYPE_SIDECAR = "coo-sidecar";
+
+/** How much of an anchored paragraph a group heading shows. */
+const SNIPPET_LENGTH = 120;
+
+/**
+ * Side panel for sidecar storage: the active note's answers grouped by the
+ * paragraph they annotate, in note order. Clicking a paragraph scrolls the
+ * note to it; each answer expands and collapses, and can be deleted.
+ */
+export class SidecarView extends ItemView {
+	private sidecar: SidecarStore;
+	/** The note shown; null when no note is open. */
+	private notePath: string | null = null;
+	/** A block to scroll into view after the next render. */
+	private pendingReveal: string | null = null;
+	/** Discards renders superseded by a newer one. */
+	private generation = 0;
+	/** Parent of the rendered answers; replaced (and unloaded) on every render. */
+	private rendered = new Component();
+
+	constructor(leaf: WorkspaceLeaf, sidecar: SidecarStore) {
+		super(leaf);
+		this.sidecar = sidecar;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_SIDECAR;
+	}
+
+	getDisplayText(): string {
+		return t("sidecar.displayText");
+	}
+
+	getIcon(): string {
+		return "messages-square";
+	}
+
+	async onOpen(): Promise<void> {
+		this.registerEvent(this.app.workspace.on("file-open", () => void this.refresh()));
+		this.registerEvent(
+			this.app.vault.on("modify", (file) => {
+				if (file.path === this.notePath) void this.refresh();
+			}),
+		);
+		await this.refresh();
+	}
+
+	async onClose(): Promise<void> {
+		this.contentEl.empty();
+	}
+
+	/** Re-render after the shown note's entries change. */
+	onSidecarChange(notePath: string): void {
+		if (notePath === this.notePath) void this.refresh();
+	}
+
+	/** Show a note's answers and scroll the panel to one paragraph's. */
+	async reveal(notePath: string, block: string): Promise<void> {
+		this.pendingReveal = block;
+		await this.refresh(notePath);
+	}
+
+	/** Render the active note (or `notePath`). */
+	async refresh(notePath?: string): Promise<void> {
+		const generation = ++this.generation;
+		const path = notePath ?? this.app.workspace.getActiveFile()?.path ?? null;
+		const file = path ? this.app.vault.getAbstractFileByPath(path) : null;
+		const entries = path ? await this.sidecar.list(path) : [];
+		const document = file instanceof TFile ? await this.app.vault.cachedRead(file) : "";
+		if (generation !== this.generation) return;
+
+		this.notePath = path;
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass("coo-sidecar-view");
+		this.removeChild(this.rendered);
+		this.rendered = this.addChild(new Component());
+		if (!path) {
+			contentEl.createDiv({ cls: "coo-sidecar-empty", text: t("sidecar.openNote") });
+			return;
+		}
+		if (entries.length === 0) {
+			contentEl.createDiv({ cls: "coo-sidecar-empty", text: t("notice.noSidecarNotes") });
+			return;
+		}
+
+		for (const group of groupByParagraph(document, entries)) {
+			const groupEl = contentEl.createDiv({ cls: "coo-sidecar-group" });
+			const heading = groupEl.createDiv({
+				cls: "coo-sidecar-paragraph",
+				text: group.snippet,
+			});
+			if (group.line !== null) {
+				const line = group.line;
+				heading.addClass("is-clickable");
+				heading.addEventListener("click", () => void this.scrollNoteTo(path, line));
+			}
+			for (const entry of group.entries) this.renderEntry(groupEl, path, entry);
+			if (group.block === this.pendingReveal) {
+				groupEl.addClass("is-revealed");
+				groupEl.scrollIntoView({ block: "nearest" });
+			}
+		}
+		this.pendingReveal = null;
+	}
+
+	private renderEntry(parent: HTMLElement, notePath: string, entry: SidecarEntry): void {
+		const item = parent.createDiv({ cls: "coo-sidecar-entry" });
+		const header = item.createDiv({ cls: "coo-sidecar-question" });
+		const toggle = header.createSpan({ cls: "coo-sidecar-toggle" });
+		header.createSpan({ text: entry.question });
+		const remove = header.createSpan({
+			cls: "clickable-icon coo-sidecar-delete",
+			attr: { "aria-label": t("sidecar.delete") },
+		});
+		setIcon(remove, "trash-2");
+
+		const answer = item.createDiv({ cls: "coo-sidecar-answer" });
+		void MarkdownRenderer.render(this.app, entry.answer, answer, notePath, this.rendered);
+		const setOpen = (open: boolean): void => {
+			answer.toggle(open);
+			setIcon(toggle, open ? "chevron-down" : "chevron-right");
+		};
+		setOpen(false);
+		header.addEventListener("click", () => setOpen(!answer.isShown()));
+		remove.addEventListener("click", (e) => {
+			e.stopPropagation();
+			void this.sidecar.remove(notePath, entry.id);
+		});
+	}
+
+	/** Focus the note's editor on `line`. */
+	private async scrollNoteTo(notePath: string, line: number): Promise<void> {
+		const leaf = this.app.workspace
+			.getLeavesOfType("markdown")
+			.find((l) => l.view instanceof MarkdownView && l.view.file?.path === notePath);
+		if (!leaf || !(leaf.view instanceof MarkdownView)) return;
+		await this.app.workspace.revealLeaf(leaf);
+		const editor = leaf.view.editor;
+		const pos = { line, ch: 0 };
+		editor.setCursor(pos);
+		editor.scrollIntoView({ from: pos, to: pos }, true);
+	}
+}
+
+interface ParagraphGroup {
+	block: string;
+	/** The anchored line, or null for the whole note or a vanished paragraph. */
+	line: number | null;
+	snippet: string;
+	entries: SidecarEntry[];
+}
+
+/**
+ * Group entries by paragraph: whole-note answers first, then paragraphs in
+ * note order, then answers whose paragraph is no longer in the note.
+ */
+function groupByParagraph(document: string, entries: SidecarEntry[]): ParagraphGroup[] {
+	const lines = document.split("\n");
+	const lineOf = new Map<string, number>();
+	lines.forEach((text, i) => {
+		const id = getCooBlockId(text);
+		if (id && !lineOf.has(id)) lineOf.set(id, i);
+	});
+
+	const groups = new Map<string, ParagraphGroup>();
+	for (const entry of entries) {
+		let group = groups.get(entry.block);
+		if (!group) {
+			const line = entry.block ? (lineOf.get(entry.block) ?? null) : null;
+			const text = line !== null ? splitCooBlockId(lines[line] ?? "").text.trim() : "";
+			group = {
+				block: entry.block,
+				line,
+				snippet: !entry.block
+					? t("sidecar.wholeNote")
+					: line === null
+						? t("sidecar.paragraphGone")
+						: text.length > SNIPPET_LENGTH
+							? `${text.slice(0, SNIPPET_LENGTH)}…`
+							: text,
+				entries: [],
+			};
+			groups.set(entry.block, group);
+		}
+		group.entries.push(entry);
+	}
+
+	const rank = (g: ParagraphGroup): number =>
+		!g.block ? -1 : g.line === null ? Number.MAX_SAFE_INTEGER : g.line;
+	return [...groups.values()].sort((a, b) => rank(a) - rank(b));
+}
@@ -0,0 +1,188 @@
+import type { DataAdapter } from "obsidian";
+import { JsonFileStore } from "./json-file-store";
+import { remapChainPath } from "./chain-store";
+import type { DetachedCallout } from "./editor-ops";
+
+/**
+ * The sidecar: Ask answers kept outside the note (sidecar-data.json in the
+ * plugin directory), for notes that are published or synced elsewhere and
+ * should stay free of coo callouts.
+ *
+ * Entries are keyed by note path and anchored to a paragraph by a coo block
+ * id on its last line (" ^coo-3f9a1c", see editor-ops.ts); an entry with
+ * block "" belongs to the note as a whole. The side panel (sidecar-view.ts)
+ * and the editor decorations (sidecar-decorations.ts) render them.
+ *
+ * `peek` reads the loaded map synchronously, for the decorations.
+ */
+
+export interface SidecarEntry extends DetachedCallout {
+	/** Unique within the note. */
+	id: string;
+	/** When the answer was added (epoch ms). */
+	at: number;
+}
+
+export type SidecarMap = Record<string, SidecarEntry[]>;
+
+const DEFAULT_DEBOUNCE_MS = 1000;
+
+/** A coo block id not already used in `document`. */
+export function newBlockId(document: string): string {
+	for (;;) {
+		const id = `coo-${Math.random().toString(36).slice(2, 8)}`;
+		if (id.length === 10 && !document.includes(`^${id}`)) return id;
+	}
+}
+
+function isSidecarEntry(value: unknown): value is SidecarEntry {
+	if (!value || typeof value !== "object") return false;
+	const e = value as Partial<SidecarEntry>;
+	return (
+		typeof e.id === "string" &&
+		typeof e.block === "string" &&
+		typeof e.question === "string" &&
+		typeof e.answer === "string"
+	);
+}
+
+/** Parse sidecar-data.json, tolerating a missing or corrupt file. */
+export function parseSidecar(raw: string | null): SidecarMap {
+	if (raw === null) return {};
+	try {
+		const parsed = JSON.parse(raw) as unknown;
+		if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return {};
+		const map: SidecarMap = {};
+		for (const [notePath, value] of Object.entries(parsed)) {
+			if (!Array.isArray(value)) continue;
+			const entries = value.filter(isSidecarEntry);
+			if (entries.length > 0) map[notePath] = entries;
+		}
+		return map;
+	} catch {
+		return {};
+	}
+}
+
+export class SidecarStore {
+	private file: JsonFileStore<SidecarMap>;
+	private listeners: Array<(notePath: string) => void> = [];
+	private nextId = 0;
+
+	constructor(adapter: DataAdapter, path: string, debounceMs = DEFAULT_DEBOUNCE_MS) {
+		this.file = new JsonFileStore(adapter, path, parseSidecar, debounceMs);
+	}
+
+	/** Called when a debounced save fails; see JsonFileStore. */
+	set onSaveError(handler: (err: unknown) => void) {
+		this.file.onSaveError = handler;
+	}
+
+	/** Call `listener` with the note's path after every change to its entries. */
+	onChange(listener: (notePath: string) => void): void {
+		this.listeners.push(listener);
+	}
+
+	/** Load the file, so `peek` has something to show. */
+	async ready(): Promise<void> {
+		await this.file.read(() => undefined);
+	}
+
+	/** A note's entries from memory, oldest first; [] until loaded. */
+	peek(notePath: string): SidecarEntry[] {
+		return this.file.peek()?.[notePath] ?? [];
+	}
+
+	/** A note's entries, oldest first. */
+	async list(notePath: string): Promise<SidecarEntry[]> {
+		return this.file.read((map) => [...(map[notePath] ?? [])]);
+	}
+
+	/** Add answers to a note, in order. */
+	async add(
+		notePath: string,
+		callouts: DetachedCallout[],
+		now: number = Date.now(),
+	): Promise<SidecarEntry[]> {
+		const added = callouts.map((callout) => ({
+			...callout,
+			id: `${now.toString(36)}-${(this.nextId++).toString(36)}`,
+			at: now,
+		}));
+		await this.mutate(notePath, (map) => {
+			if (added.length === 0) return false;
+			map[notePath] = [...(map[notePath] ?? []), ...added];
+			return true;
+		});
+		return added;
+	}
+
+	/** Remove one of a note's entries. */
+	async remove(notePath: string, id: string): Promise<void> {
+		await this.removeMany(notePath, [id]);
+	}
+
+	/** Remove several of a note's entries in one change. */
+	async removeMany(notePath: string, ids: string[]): Promise<void> {
+		const removed = new Set(ids);
+		await this.mutate(notePath, (map) => {
+			const entries = map[notePath] ?? [];
+			const kept = entries.filter((e) => !removed.has(e.id));
+			if (kept.length === entries.length) return false;
+			if (kept.length > 0) map[notePath] = kept;
+			else delete map[notePath];
+			return true;
+		});
+	}
+
+	/** Move entries along with a renamed/moved note or folder. */
+	async move(oldPath: string, newPath: string): Promise<void> {
+		const moved: string[] = [];
+		await this.mutate(null, (map) => {
+			for (const [key, entries] of Object.entries(map)) {
+				const target = remapChainPath(key, oldPath, newPath);
+				if (target === null) continue;
+				delete map[key];
+				map[target] = entries;
+				moved.push(target);
+			}
+			return moved.length > 0;
+		});
+		for (const path of moved) this.notify(path);
+	}
+
+	/** Drop the entries of a deleted note, or of every note in a deleted folder. */
+	async drop(path: string): Promise<void> {
+		await this.mutate(null, (map) => {
+			let changed = false;
+			for (const key of Object.keys(map)) {
+				if (key === path || key.startsWith(`${path}/`)) {
+					delete map[key];
+					changed = true;
+				}
+			}
+			return changed;
+		});
+	}
+
+	/** Write pending changes now instead of waiting for the debounce. */
+	async flush(): Promise<void> {
+		await this.file.flush();
+	}
+
+	/**
+	 * Apply `fn`, which returns whether it changed anything; if so, tell the
+	 * listeners about `notePath`.
+	 */
+	private async mutate(
+		notePath: string | null,
+		fn: (map: SidecarMap) => boolean,
+	): Promise<void> {
+		const changed = await this.file.mutate(fn);
+		if (changed && notePath !== null) this.notify(notePath);
+	}
+
+	private notify(notePath: string): void {
+		for (const listener of this.listeners) listener(notePath);
+	}
+}
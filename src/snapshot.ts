@@ -0,0 +1,59 @@
+/**
+ * Paragraph-level fingerprints of a registered note, used to tell how far the
+ * note has drifted from the snapshot the server holds. The document passed in
+ * is the note without its coo callouts (NoteHistory.document), so asking
+ * questions never makes a snapshot look stale.
+ */
+
+/** Share of paragraphs changed beyond which the note is re-registered. */
+export const STALE_THRESHOLD = 0.5;
+
+export interface SnapshotDiff {
+	/** Paragraphs in the current note that the snapshot doesn't have. */
+	added: string[];
+	/** How many snapshot paragraphs no longer appear in the note. */
+	removedCount: number;
+	/**
+	 * Share of paragraphs changed (0–1): an edited paragraph is one added plus
+	 * one removed, so it counts once via the larger of the two.
+	 */
+	divergence: number;
+}
+
+/** 32-bit FNV-1a hash as 8 hex chars. Not cryptographic — change detection only. */
+export function hashText(text: string): string {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < text.length; i++) {
+		hash ^= text.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+/** Split a document into trimmed, non-empty paragraphs (blank-line separated). */
+export function splitParagraphs(document: string): string[] {
+	return document
+		.split(/\n\s*\n/)
+		.map((p) => p.trim())
+		.filter((p) => p.length > 0);
+}
+
+/** Fingerprint a document: one hash per paragraph, in order. */
+export function snapshotOf(document: string): string[] {
+	return splitParagraphs(document).map(hashText);
+}
+
+/** Compare a stored snapshot against the current document. */
+export function diffSnapshot(snapshot: string[], document: string): SnapshotDiff {
+	const paragraphs = splitParagraphs(document);
+	const current = new Set(paragraphs.map(hashText));
+	const previous = new Set(snapshot);
+
+	const added = paragraphs.filter((p) => !previous.has(hashText(p)));
+	const removedCount = snapshot.filter((h) => !current.has(h)).length;
+	const total = Math.max(snapshot.length, paragraphs.length);
+	const divergence =
+		total === 0 ? 0 : Math.max(added.length, removedCount) / total;
+
+	return { added, removedCount, divergence };
+}
@@ -0,0 +1,261 @@
+import {
+	Component,
+	ItemView,
+	MarkdownRenderer,
+	MarkdownView,
+	Notice,
+	debounce,
+	setIcon,
+	type WorkspaceLeaf,
+} from "obsidian";
+import {
+	getNoteThreads,
+	getParagraphText,
+	removeCallout,
+	stripCooBlockIds,
+	type CalloutBlock,
+	type CalloutThread,
+} from "./editor-ops";
+import { t } from "./i18n";
+
+export const VIEW_TYPE_THREADS = "coo-threads";
+
+/** How much of a paragraph a group heading shows. */
+const SNIPPET_LENGTH = 120;
+
+/** What the threads view asks the plugin to do. */
+export interface ThreadActions {
+	/**
+	 * Open the composer in `view` on a paragraph, or drilled into an answer;
+	 * with a question, ask it right away.
+	 */
+	ask(
+		view: MarkdownView,
+		target: { paragraph: { startLine: number; endLine: number } } | { callout: CalloutBlock },
+		question?: string,
+	): void;
+}
+
+/**
+ * "coo threads": every coo callout in the active note at a glance, grouped by
+ * the paragraph it annotates, with drill-downs nested under the answer they
+ * drilled into. Each answer expands in place; its question scrolls the note to
+ * it; and it can be asked again, followed up on (a drill-down), or deleted.
+ * Follows the most recently active note and re-renders as it is edited.
+ */
+export class ThreadsView extends ItemView {
+	private actions: ThreadActions;
+	/** The note's view; kept while the panel itself has focus. */
+	private markdownView: MarkdownView | null = null;
+	/** The path of the note shown, to tell when its view opens another. */
+	private notePath: string | null = null;
+	/** Refs (see getCalloutRef) of the expanded answers. */
+	private expanded = new Set<string>();
+	private scheduleRefresh = debounce(() => this.refresh(), 300, true);
+	/** Parent of the rendered answers; replaced (and unloaded) on every refresh. */
+	private rendered = new Component();
+
+	constructor(leaf: WorkspaceLeaf, actions: ThreadActions) {
+		super(leaf);
+		this.actions = actions;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_THREADS;
+	}
+
+	getDisplayText(): string {
+		return t("threads.displayText");
+	}
+
+	getIcon(): string {
+		return "list-tree";
+	}
+
+	async onOpen(): Promise<void> {
+		this.registerEvent(
+			this.app.workspace.on("active-leaf-change", (leaf) => {
+				if (leaf?.view instanceof MarkdownView && leaf.view !== this.markdownView) {
+					this.markdownView = leaf.view;
+					this.refresh();
+				}
+			}),
+		);
+		// Another note opened in the same view (a link, the quick switcher)
+		// keeps the view, so follow the file too.
+		this.registerEvent(
+			this.app.workspace.on("file-open", () => {
+				const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+				if (view) this.markdownView = view;
+				this.refresh();
+			}),
+		);
+		this.registerEvent(
+			this.app.workspace.on("editor-change", (_editor, info) => {
+				if (info === this.markdownView) this.scheduleRefresh();
+			}),
+		);
+		this.markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
+		this.refresh();
+	}
+
+	async onClose(): Promise<void> {
+		this.contentEl.empty();
+	}
+
+	private refresh(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass("coo-threads-view");
+		this.removeChild(this.rendered);
+		this.rendered = this.addChild(new Component());
+		const view = this.markdownView;
+		const notePath = view?.file?.path ?? null;
+		if (notePath !== this.notePath) {
+			this.notePath = notePath;
+			this.expanded.clear();
+		}
+		if (!view?.file || !view.leaf.parent) {
+			contentEl.createDiv({ cls: "coo-threads-empty", text: t("threads.openNote") });
+			return;
+		}
+		const editor = view.editor;
+		const groups = getNoteThreads(editor);
+
+		const header = contentEl.createDiv({ cls: "coo-threads-header" });
+		header.createDiv({ cls: "coo-threads-title", text: view.file.basename });
+		if (groups.length === 0) {
+			contentEl.createDiv({ cls: "coo-threads-empty", text: t("notice.noCallouts") });
+			return;
+		}
+		const all = groups.flatMap((g) => flatten(g.threads));
+		this.addIconButton(header, "chevrons-down-up", t("threads.collapseAll"), () => {
+			this.expanded.clear();
+			this.refresh();
+		});
+		this.addIconButton(header, "chevrons-up-down", t("threads.expandAll"), () => {
+			for (const thread of all) this.expanded.add(thread.ref);
+			this.refresh();
+		});
+
+		for (const group of groups) {
+			const groupEl = contentEl.createDiv({ cls: "coo-threads-group" });
+			const text = stripCooBlockIds(
+				getParagraphText(editor, group.paragraph.startLine, group.paragraph.endLine),
+			).trim();
+			const heading = groupEl.createDiv({
+				cls: "coo-threads-paragraph",
+				text: text.length > SNIPPET_LENGTH ? `${text.slice(0, SNIPPET_LENGTH)}…` : text,
+			});
+			heading.addEventListener("click", () => this.scrollTo(view, group.paragraph.startLine));
+			for (const thread of group.threads) {
+				this.renderThread(groupEl, view, thread, { paragraph: group.paragraph });
+			}
+		}
+	}
+
+	/**
+	 * One answer and, below it, its drill-downs. `askTarget` is where asking
+	 * its question again goes: its paragraph, or the answer it drilled into.
+	 */
+	private renderThread(
+		parent: HTMLElement,
+		view: MarkdownView,
+		thread: CalloutThread,
+		askTarget: Parameters<ThreadActions["ask"]>[1],
+	): void {
+		const item = parent.createDiv({ cls: "coo-threads-item" });
+		const row = item.createDiv({ cls: "coo-threads-row" });
+		const open = this.expanded.has(thread.ref);
+
+		const toggle = row.createSpan({ cls: "clickable-icon coo-threads-toggle" });
+		setIcon(toggle, open ? "chevron-down" : "chevron-right");
+		toggle.addEventListener("click", () => {
+			if (open) this.expanded.delete(thread.ref);
+			else this.expanded.add(thread.ref);
+			this.refresh();
+		});
+
+		const question = row.createSpan({
+			cls: "coo-threads-question",
+			text: thread.question || t("threads.untitled"),
+		});
+		question.addEventListener("click", () => this.scrollTo(view, thread.block.startLine));
+		if (thread.minor) row.createSpan({ cls: "coo-threads-minor", text: t("threads.minor") });
+
+		this.addIconButton(row, "corner-down-right", t("threads.followUp"), () => {
+			if (this.showing(view)) this.actions.ask(view, { callout: thread.block });
+		});
+		this.addIconButton(row, "refresh-cw", t("threads.askAgain"), () => {
+			if (this.showing(view)) this.actions.ask(view, askTarget, thread.question);
+		});
+		this.addIconButton(row, "trash-2", t("threads.delete"), () => this.deleteThread(view, thread));
+
+		if (open) {
+			const answer = item.createDiv({ cls: "coo-threads-answer" });
+			void MarkdownRenderer.render(this.app, thread.answer, answer, view.file?.path ?? "", this.rendered);
+		}
+		if (thread.children.length > 0) {
+			const children = item.createDiv({ cls: "coo-threads-children" });
+			for (const child of thread.children) {
+				this.renderThread(children, view, child, { callout: thread.block });
+			}
+		}
+	}
+
+	/**
+	 * Remove a thread's callout. The note may have been edited since the panel
+	 * last rendered, so the callout is found again by its ref and answer, and
+	 * left alone unless exactly one matches.
+	 */
+	private deleteThread(view: MarkdownView, thread: CalloutThread): void {
+		if (!this.showing(view)) return;
+		const matches = getNoteThreads(view.editor)
+			.flatMap((group) => flatten(group.threads))
+			.filter((other) => other.ref === thread.ref && other.answer === thread.answer);
+		const [match] = matches;
+		if (matches.length === 1 && match) removeCallout(view.editor, match.block);
+		else new Notice(t("notice.calloutMoved"));
+		this.refresh();
+	}
+
+	/**
+	 * Whether `view` still holds the note the panel shows; if not, the panel
+	 * catches up instead, since its line numbers belong to the other note.
+	 */
+	private showing(view: MarkdownView): boolean {
+		if (view === this.markdownView && view.file?.path === this.notePath) return true;
+		this.refresh();
+		return false;
+	}
+
+	private addIconButton(
+		parent: HTMLElement,
+		icon: string,
+		label: string,
+		onClick: () => void,
+	): void {
+		const button = parent.createSpan({
+			cls: "clickable-icon coo-threads-action",
+			attr: { "aria-label": label },
+		});
+		setIcon(button, icon);
+		button.addEventListener("click", (e) => {
+			e.stopPropagation();
+			onClick();
+		});
+	}
+
+	/** Focus the note's editor on `line`. */
+	private scrollTo(view: MarkdownView, line: number): void {
+		this.app.workspace.setActiveLeaf(view.leaf, { focus: true });
+		const pos = { line, ch: 0 };
+		view.editor.setCursor(pos);
+		view.editor.scrollIntoView({ from: pos, to: pos }, true);
+	}
+}
+
+/** A thread and all its drill-downs, depth first. */
+function flatten(threads: CalloutThread[]): CalloutThread[] {
+	return threads.flatMap((t) => [t, ...flatten(t.children)]);
+}
@@ -1,35 +1,101 @@
 import { Editor, Notice } from "obsidian";
-import type { CooSettings } from "./types";
-import { chatCompletion } from "./ai-client";
-import { getTranslateSystemPrompt, buildTranslateInput } from "./prompts";
-import { insertTranslationAfter } from "./editor-ops";
+import type { CooSettings, GlossaryEntry, TranslateMode } from "./types";
+import { chatCompletion, CooCancelledError, describeRetry } from "./ai-client";
+import type { PendingRequests } from "./cancellation";
+import type { UsageLedger } from "./usage-ledger";
+import type { PromptTemplates } from "./prompt-templates";
+import type { TranslationProgress } from "./translation-progress";
+import type { TranslationMemory } from "./translation-memory";
+import { findGlossaryTerms, glossaryLines } from "./glossary";
+import {
+	buildNoteTranslateInput,
+	buildTranslateInput,
+	getNoteTranslateSystemPrompt,
+} from "./prompts";
+import { insertTranslation } from "./editor-ops";
+import { isTranslatable, type NoteBlock } from "./note-translation";
+import { getTranslateLanguage } from "./languages";
+import { hashText } from "./snapshot";
+import { t, type MessageKey } from "./i18n";
+
+/**
+ * Translate modes, in settings order, with their labels (UI message keys)
+ * and the names of their commands.
+ */
+export const TRANSLATE_MODES: ReadonlyArray<{
+	mode: TranslateMode;
+	label: MessageKey;
+	command: MessageKey;
+}> = [
+	{ mode: "inline", label: "translateMode.inline", command: "command.translateInline" },
+	{ mode: "replace", label: "translateMode.replace", command: "command.translateReplace" },
+	{ mode: "footnote", label: "translateMode.footnote", command: "command.translateFootnote" },
+	{ mode: "ruby", label: "translateMode.ruby", command: "command.translateRuby" },
+	{ mode: "tooltip", label: "translateMode.tooltip", command: "command.translateTooltip" },
+	{ mode: "below", label: "translateMode.below", command: "command.translateBelow" },
+];
 
 /**
  * "Coo: Translate" — standalone, word/phrase-level.
  *
- * Select a word or phrase → trigger → the translation is inserted inline,
- * bracketed, immediately after the selection. The original text is preserved.
- * One editor op — Ctrl+Z reverts. Does not chain.
+ * Select a word or phrase → trigger → the translation is written as `mode`
+ * says (the Translation style setting by default): bracketed after the
+ * selection, in its place, as a footnote, as ruby readings, in a hover
+ * tooltip, or on a line below the paragraph. One editor op — Ctrl+Z reverts.
+ * Does not chain. Cancellable through the "Cancel pending requests" command;
+ * a cancelled translation inserts nothing.
+ *
+ * The glossary terms found in the selection go with the system prompt. With
+ * translation memory on, a selection translated before with the same terms is
+ * answered from `memory` without calling the model (ruby annotations, which
+ * are not plain translations, always call it).
  */
 export async function performTranslate(
 	editor: Editor,
 	settings: CooSettings,
+	pending: PendingRequests,
+	ledger: UsageLedger,
+	templates: PromptTemplates,
+	memory: TranslationMemory,
+	glossary: readonly GlossaryEntry[],
+	mode: TranslateMode = settings.translateMode,
 ): Promise<void> {
-	const selectedText = editor.getSelection().trim();
+	const original = editor.getSelection();
+	const selectedText = original.trim();
 	if (!selectedText) {
-		new Notice("Select a word or phrase to translate.");
+		new Notice(t("notice.selectToTranslate"));
+		return;
+	}
+	if (mode === "tooltip" && selectedText.includes("\n")) {
+		new Notice(t("notice.tooltipOneLine"));
 		return;
 	}
 
-	// Capture the selection end before the async call — the selection may be
+	// Capture the selection before the async call — the selection may be
 	// lost or the cursor may move while we wait for the API.
+	const from = editor.getCursor("from");
 	const to = editor.getCursor("to");
 
-	new Notice("Translating...");
+	const language = settings.translateLanguage;
+	const terms = glossaryLines(findGlossaryTerms(glossary, language, selectedText));
+	const useMemory = settings.translationMemory && mode !== "ruby";
+	const remembered = useMemory ? await memory.lookup(selectedText, language, terms) : null;
+	if (remembered !== null) {
+		if (!insertTranslation(editor, from, to, original, remembered, mode)) {
+			new Notice(t("notice.selectionChanged"));
+		}
+		return;
+	}
 
+	new Notice(t("notice.translating"));
+
+	const controller = pending.start();
 	try {
-		const userPrompt = buildTranslateInput(selectedText);
-		const systemPrompt = getTranslateSystemPrompt(settings.translateLanguage);
+		const userPrompt = buildTranslateInput(selectedText, mode === "ruby");
+		const systemPrompt = templates.systemPrompt("translate", settings, {
+			passage: selectedText,
+			glossary: terms,
+		});
 
 		const result = await chatCompletion({
 			settings,
@@ -38,12 +104,114 @@ export async function performTranslate(
 			store: false,
 			reasoningEffort: "none",
 			webSearchEnabled: false,
+			signal: controller.signal,
+			meter: { ledger, kind: "translate" },
+			onRetry: (retry) => new Notice(describeRetry(retry)),
 		});
 
-		insertTranslationAfter(editor, to, result.text);
+		if (useMemory && result.text.trim()) {
+			await memory.remember(selectedText, language, result.text, terms);
+		}
+		if (!insertTranslation(editor, from, to, original, result.text, mode)) {
+			new Notice(t("notice.selectionChanged"));
+		}
 	} catch (err) {
+		if (err instanceof CooCancelledError) return;
 		const message =
-			err instanceof Error ? err.message : "Translation failed.";
+			err instanceof Error ? err.message : t("notice.translationFailed");
 		new Notice(message, 5000);
+	} finally {
+		pending.finish(controller);
+	}
+}
+
+/**
+ * "Coo: Translate note" — the model side: translate a note's blocks (see
+ * note-translation.ts) one at a time, each with the heading it stands under
+ * for context and the glossary terms it contains. A notice counts the blocks
+ * as they come back. Each translation is kept in `progress` as it arrives, so
+ * a run that is cancelled or fails picks up where it stopped when the command
+ * is run again.
+ *
+ * Returns the translations indexed like `blocks` (undefined for blocks left
+ * as they are), or null when the run was cancelled or failed.
+ */
+export async function translateNoteBlocks(
+	blocks: readonly NoteBlock[],
+	notePath: string,
+	settings: CooSettings,
+	pending: PendingRequests,
+	ledger: UsageLedger,
+	progress: TranslationProgress,
+	glossary: readonly GlossaryEntry[],
+): Promise<Array<string | undefined> | null> {
+	const language = settings.translateLanguage;
+	const done = await progress.done(notePath, language);
+	const total = blocks.filter(isTranslatable).length;
+	const resumed = blocks.filter((b) => isTranslatable(b) && hashText(b.body) in done).length;
+	const notice = new Notice(
+		resumed > 0
+			? t("notice.noteTranslationResuming", { done: resumed, total })
+			: t("notice.noteTranslationProgress", { done: 0, total }),
+		0,
+	);
+
+	const languageName = getTranslateLanguage(settings).name;
+	const translations: Array<string | undefined> = [];
+	let section = "";
+	let count = 0;
+	const controller = pending.start();
+	try {
+		for (const block of blocks) {
+			if (block.kind === "heading") section = block.body;
+			if (!isTranslatable(block)) {
+				translations.push(undefined);
+				continue;
+			}
+			const hash = hashText(block.body);
+			let translation = done[hash];
+			if (translation === undefined) {
+				const result = await chatCompletion({
+					settings,
+					systemPrompt: getNoteTranslateSystemPrompt(
+						languageName,
+						glossaryLines(findGlossaryTerms(glossary, language, block.body)),
+					),
+					userPrompt: buildNoteTranslateInput(
+						block.body,
+						block.kind === "heading" ? "" : section,
+					),
+					store: false,
+					reasoningEffort: "none",
+					webSearchEnabled: false,
+					signal: controller.signal,
+					meter: { ledger, kind: "translate" },
+					onRetry: (retry) => notice.setMessage(describeRetry(retry)),
+				});
+				translation = result.text.trim();
+				// An empty reply leaves the block as it is.
+				if (translation) {
+					done[hash] = translation;
+					await progress.keep(notePath, language, hash, translation);
+				}
+			}
+			translations.push(translation || undefined);
+			count++;
+			notice.setMessage(t("notice.noteTranslationProgress", { done: count, total }));
+		}
+		return translations;
+	} catch (err) {
+		const stopped = t("notice.noteTranslationStopped", { done: count, total });
+		if (err instanceof CooCancelledError) {
+			new Notice(stopped);
+		} else {
+			const message =
+				err instanceof Error ? err.message : t("notice.translationFailed");
+			new Notice(`${message}\n${stopped}`, 8000);
+		}
+		return null;
+	} finally {
+		pending.finish(controller);
+		notice.hide();
 	}
 }
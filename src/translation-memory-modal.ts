@@ -0,0 +1,85 @@
+import { App, Modal, debounce } from "obsidian";
+import type { MemoryEntry, TranslationMemory } from "./translation-memory";
+import { t } from "./i18n";
+
+/**
+ * Browse the translation memory (see translation-memory.ts), most recently
+ * used first, filtered by a search of the texts and their translations. A
+ * translation can be corrected in place — Translate uses the correction from
+ * then on — or the entry removed, so the next Translate asks the model again.
+ */
+export class TranslationMemoryModal extends Modal {
+	private memory: TranslationMemory;
+	private query = "";
+	private resultsEl: HTMLElement;
+	/** Discards searches superseded by a newer one. */
+	private generation = 0;
+	private scheduleSearch = debounce(() => void this.search(), 200, true);
+
+	constructor(app: App, memory: TranslationMemory) {
+		super(app);
+		this.memory = memory;
+	}
+
+	onOpen(): void {
+		this.setTitle(t("memory.title"));
+		const { contentEl } = this;
+		contentEl.addClass("coo-memory");
+
+		const input = contentEl.createEl("input", {
+			type: "text",
+			cls: "coo-search-input",
+			attr: { placeholder: t("memory.placeholder") },
+		});
+		input.addEventListener("input", () => {
+			this.query = input.value;
+			this.scheduleSearch();
+		});
+
+		this.resultsEl = contentEl.createDiv({ cls: "coo-search-results" });
+		void this.search();
+		window.setTimeout(() => input.focus(), 50);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private async search(): Promise<void> {
+		const generation = ++this.generation;
+		const entries = await this.memory.search(this.query);
+		if (generation !== this.generation) return;
+
+		this.resultsEl.empty();
+		if (entries.length === 0) {
+			this.resultsEl.createDiv({
+				cls: "coo-search-empty",
+				text: t(this.query.trim() ? "memory.noMatches" : "memory.empty"),
+			});
+			return;
+		}
+		for (const entry of entries) this.renderEntry(entry);
+	}
+
+	private renderEntry(entry: MemoryEntry): void {
+		const item = this.resultsEl.createDiv({ cls: "coo-memory-entry" });
+		const meta = item.createDiv({ cls: "coo-search-meta" });
+		meta.createSpan({ cls: "coo-memory-language", text: entry.language });
+		meta.createSpan({ text: new Date(entry.at).toLocaleDateString() });
+		item.createDiv({ cls: "coo-memory-source", text: entry.source });
+
+		const translation = item.createEl("textarea", { cls: "coo-memory-translation" });
+		translation.rows = 2;
+		translation.value = entry.translation;
+		translation.addEventListener("change", () => {
+			void this.memory.update(entry, translation.value).then(() => {
+				if (!translation.value.trim()) item.remove();
+			});
+		});
+
+		const buttons = item.createDiv({ cls: "coo-rewrite-buttons" });
+		buttons.createEl("button", { text: t("memory.remove") }).addEventListener("click", () => {
+			void this.memory.remove(entry).then(() => item.remove());
+		});
+	}
+}
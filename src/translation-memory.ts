@@ -0,0 +1,198 @@
+import type { DataAdapter } from "obsidian";
+import { JsonFileStore } from "./json-file-store";
+import { hashText } from "./snapshot";
+import type { LanguageTag } from "./types";
+
+/**
+ * Translation memory (translation-memory.json in the plugin directory).
+ *
+ * Translate remembers what each selection was translated into, keyed by the
+ * normalized text and the target language, and checks here first: the same
+ * term translated again comes back instantly, costs nothing, and reads the
+ * same as last time. Entries can be browsed, corrected and removed in the
+ * translation memory modal; a corrected entry is what Translate uses from
+ * then on.
+ *
+ * Each entry records the glossary terms that went with its translation, and
+ * is only reused while the same terms would go with it again: a glossary
+ * edit that touches the text makes the next Translate ask the model.
+ */
+
+export interface MemoryEntry {
+	/** The text as it was first translated (trimmed). */
+	source: string;
+	language: LanguageTag;
+	translation: string;
+	/** glossaryKey of the glossary terms sent with the translation. */
+	glossary: string;
+	/** When the entry was added or last used (epoch ms). */
+	at: number;
+}
+
+/** memoryKey → entry. */
+export type TranslationMemoryMap = Record<string, MemoryEntry>;
+
+/** The least recently used entries beyond this many are dropped. */
+export const MAX_MEMORY_ENTRIES = 5000;
+
+const DEFAULT_DEBOUNCE_MS = 1000;
+
+/**
+ * The text as memory compares it: Unicode-normalized and whitespace
+ * collapsed, so " Entanglement\n" and "Entanglement" are the same entry. Case
+ * is kept: "Polish" and "polish" translate differently.
+ */
+export function normalizeSource(text: string): string {
+	return text.normalize("NFC").trim().replace(/\s+/g, " ");
+}
+
+/** Identifies the glossary lines sent with a translation; "" for none. */
+export function glossaryKey(glossary: string): string {
+	return glossary.trim() ? hashText(glossary.trim()) : "";
+}
+
+/** The key of `source` translated into `language`. */
+export function memoryKey(source: string, language: LanguageTag): string {
+	return `${language.toLowerCase()}\n${normalizeSource(source)}`;
+}
+
+function isMemoryEntry(value: unknown): value is MemoryEntry {
+	if (!value || typeof value !== "object") return false;
+	const e = value as Partial<MemoryEntry>;
+	return (
+		typeof e.source === "string" &&
+		typeof e.language === "string" &&
+		typeof e.translation === "string" &&
+		typeof e.at === "number" &&
+		(e.glossary === undefined || typeof e.glossary === "string")
+	);
+}
+
+/** Parse translation-memory.json, tolerating a missing or corrupt file. */
+export function parseTranslationMemory(raw: string | null): TranslationMemoryMap {
+	if (raw === null) return {};
+	try {
+		const parsed = JSON.parse(raw) as unknown;
+		if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return {};
+		const map: TranslationMemoryMap = {};
+		for (const value of Object.values(parsed)) {
+			if (!isMemoryEntry(value)) continue;
+			map[memoryKey(value.source, value.language)] = { ...value, glossary: value.glossary ?? "" };
+		}
+		return map;
+	} catch {
+		return {};
+	}
+}
+
+/**
+ * Entries matching a search (in their text or translation, ignoring case),
+ * most recently used first. An empty search matches every entry.
+ */
+export function searchMemory(map: TranslationMemoryMap, text: string): MemoryEntry[] {
+	const needle = text.trim().toLowerCase();
+	return Object.values(map)
+		.filter(
+			(e) =>
+				!needle ||
+				e.source.toLowerCase().includes(needle) ||
+				e.translation.toLowerCase().includes(needle),
+		)
+		.sort((a, b) => b.at - a.at);
+}
+
+export class TranslationMemory {
+	private file: JsonFileStore<TranslationMemoryMap>;
+
+	constructor(adapter: DataAdapter, path: string, debounceMs = DEFAULT_DEBOUNCE_MS) {
+		this.file = new JsonFileStore(adapter, path, parseTranslationMemory, debounceMs);
+	}
+
+	/** Called when a debounced save fails; see JsonFileStore. */
+	set onSaveError(handler: (err: unknown) => void) {
+		this.file.onSaveError = handler;
+	}
+
+	/**
+	 * The remembered translation of `source` into `language`, made with the
+	 * same `glossary` lines, or null. Marks it used.
+	 */
+	async lookup(
+		source: string,
+		language: LanguageTag,
+		glossary = "",
+		now: number = Date.now(),
+	): Promise<string | null> {
+		let found: string | null = null;
+		await this.file.mutate((map) => {
+			const entry = map[memoryKey(source, language)];
+			if (!entry || entry.glossary !== glossaryKey(glossary)) return false;
+			entry.at = now;
+			found = entry.translation;
+			return true;
+		});
+		return found;
+	}
+
+	/**
+	 * Remember a translation made with `glossary` lines, replacing any earlier
+	 * one of the same text.
+	 */
+	async remember(
+		source: string,
+		language: LanguageTag,
+		translation: string,
+		glossary = "",
+		now: number = Date.now(),
+	): Promise<void> {
+		await this.file.mutate((map) => {
+			map[memoryKey(source, language)] = {
+				source: source.trim(),
+				language,
+				translation: translation.trim(),
+				glossary: glossaryKey(glossary),
+				at: now,
+			};
+			const keys = Object.keys(map);
+			if (keys.length > MAX_MEMORY_ENTRIES) {
+				keys
+					.sort((a, b) => (map[a]?.at ?? 0) - (map[b]?.at ?? 0))
+					.slice(0, keys.length - MAX_MEMORY_ENTRIES)
+					.forEach((key) => delete map[key]);
+			}
+			return true;
+		});
+	}
+
+	/** Entries matching `text`, most recently used first (see searchMemory). */
+	async search(text = ""): Promise<MemoryEntry[]> {
+		return this.file.read((map) => searchMemory(map, text).map((e) => ({ ...e })));
+	}
+
+	/** Correct an entry's translation; an empty one removes the entry. */
+	async update(entry: MemoryEntry, translation: string): Promise<void> {
+		const key = memoryKey(entry.source, entry.language);
+		await this.file.mutate((map) => {
+			const current = map[key];
+			if (!current) return false;
+			if (!translation.trim()) delete map[key];
+			else current.translation = translation.trim();
+			return true;
+		});
+	}
+
+	/** Forget an entry. */
+	async remove(entry: MemoryEntry): Promise<void> {
+		const key = memoryKey(entry.source, entry.language);
+		await this.file.mutate((map) => {
+			if (!(key in map)) return false;
+			delete map[key];
+			return true;
+		});
+	}
+
+	/** Write pending changes now instead of waiting for the debounce. */
+	async flush(): Promise<void> {
+		await this.file.flush();
+	}
+}
@@ -0,0 +1,139 @@
+import type { DataAdapter } from "obsidian";
+import { JsonFileStore } from "./json-file-store";
+import type { LanguageTag } from "./types";
+import { remapChainPath } from "./chain-store";
+
+/**
+ * Progress of note translations (translation-progress.json in the plugin
+ * directory).
+ *
+ * "Translate note" sends a note one block at a time; each translation is kept
+ * here as it arrives, keyed by the hash of the block's text. When a run is
+ * cancelled, fails or the app closes partway, running the command again
+ * reuses what was already translated and only sends the rest. A finished run
+ * clears its note's entry.
+ */
+
+export interface TranslationProgressEntry {
+	/** The language the blocks were translated into. */
+	language: LanguageTag;
+	/** When the last block was translated (epoch ms). */
+	at: number;
+	/** hashText of a block's text → its translation. */
+	blocks: Record<string, string>;
+}
+
+export type TranslationProgressMap = Record<string, TranslationProgressEntry>;
+
+const DEFAULT_DEBOUNCE_MS = 1000;
+
+function isProgressEntry(value: unknown): value is TranslationProgressEntry {
+	if (!value || typeof value !== "object") return false;
+	const e = value as Partial<TranslationProgressEntry>;
+	return (
+		typeof e.language === "string" &&
+		typeof e.at === "number" &&
+		!!e.blocks &&
+		typeof e.blocks === "object" &&
+		Object.values(e.blocks).every((v) => typeof v === "string")
+	);
+}
+
+/** Parse translation-progress.json, tolerating a missing or corrupt file. */
+export function parseTranslationProgress(raw: string | null): TranslationProgressMap {
+	if (raw === null) return {};
+	try {
+		const parsed = JSON.parse(raw) as unknown;
+		if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return {};
+		const map: TranslationProgressMap = {};
+		for (const [notePath, value] of Object.entries(parsed)) {
+			if (isProgressEntry(value)) map[notePath] = value;
+		}
+		return map;
+	} catch {
+		return {};
+	}
+}
+
+export class TranslationProgress {
+	private file: JsonFileStore<TranslationProgressMap>;
+
+	constructor(adapter: DataAdapter, path: string, debounceMs = DEFAULT_DEBOUNCE_MS) {
+		this.file = new JsonFileStore(adapter, path, parseTranslationProgress, debounceMs);
+	}
+
+	/** Called when a debounced save fails; see JsonFileStore. */
+	set onSaveError(handler: (err: unknown) => void) {
+		this.file.onSaveError = handler;
+	}
+
+	/** The blocks of `notePath` already translated into `language`, by hash. */
+	async done(notePath: string, language: LanguageTag): Promise<Record<string, string>> {
+		return this.file.read((map) => {
+			const entry = map[notePath];
+			return entry?.language === language ? { ...entry.blocks } : {};
+		});
+	}
+
+	/**
+	 * Keep one block's translation. A note has progress in one language at a
+	 * time: switching languages starts over.
+	 */
+	async keep(
+		notePath: string,
+		language: LanguageTag,
+		hash: string,
+		translation: string,
+		now: number = Date.now(),
+	): Promise<void> {
+		await this.file.mutate((map) => {
+			const entry = map[notePath];
+			const blocks = entry?.language === language ? entry.blocks : {};
+			map[notePath] = { language, at: now, blocks: { ...blocks, [hash]: translation } };
+			return true;
+		});
+	}
+
+	/** Forget a note's progress (once its translation has been written). */
+	async clear(notePath: string): Promise<void> {
+		await this.file.mutate((map) => {
+			if (!(notePath in map)) return false;
+			delete map[notePath];
+			return true;
+		});
+	}
+
+	/** Move progress along with a renamed/moved note or folder. */
+	async move(oldPath: string, newPath: string): Promise<void> {
+		await this.file.mutate((map) => {
+			let changed = false;
+			for (const [key, entry] of Object.entries(map)) {
+				const target = remapChainPath(key, oldPath, newPath);
+				if (target === null) continue;
+				delete map[key];
+				map[target] = entry;
+				changed = true;
+			}
+			return changed;
+		});
+	}
+
+	/** Drop the progress of a deleted note, or of every note in a deleted folder. */
+	async drop(path: string): Promise<void> {
+		await this.file.mutate((map) => {
+			let changed = false;
+			for (const key of Object.keys(map)) {
+				if (key === path || key.startsWith(`${path}/`)) {
+					delete map[key];
+					changed = true;
+				}
+			}
+			return changed;
+		});
+	}
+
+	/** Write pending changes now instead of waiting for the debounce. */
+	async flush(): Promise<void> {
+		await this.file.flush();
+	}
+}
@@ -0,0 +1,67 @@
+import { editorLivePreviewField } from "obsidian";
+import { RangeSetBuilder } from "@codemirror/state";
+import {
+	Decoration,
+	EditorView,
+	ViewPlugin,
+	type DecorationSet,
+	type ViewUpdate,
+} from "@codemirror/view";
+import { findTooltips } from "./editor-ops";
+
+/**
+ * Editor extension for translations kept in tooltips (Translate's tooltip
+ * mode): in live preview the span's tags are hidden and its text shows the
+ * translation on hover. A tooltip the selection touches shows as written, so
+ * it can be edited.
+ */
+export function translationTooltips() {
+	return ViewPlugin.fromClass(
+		class {
+			decorations: DecorationSet;
+
+			constructor(view: EditorView) {
+				this.decorations = this.build(view);
+			}
+
+			update(update: ViewUpdate): void {
+				if (
+					update.docChanged ||
+					update.viewportChanged ||
+					update.selectionSet ||
+					update.startState.field(editorLivePreviewField) !==
+						update.state.field(editorLivePreviewField)
+				) {
+					this.decorations = this.build(update.view);
+				}
+			}
+
+			build(view: EditorView): DecorationSet {
+				const builder = new RangeSetBuilder<Decoration>();
+				if (!view.state.field(editorLivePreviewField)) return builder.finish();
+
+				const selection = view.state.selection.ranges;
+				for (const { from, to } of view.visibleRanges) {
+					const text = view.state.doc.sliceString(from, to);
+					for (const tooltip of findTooltips(text)) {
+						const start = from + tooltip.from;
+						const end = from + tooltip.to;
+						if (selection.some((r) => r.from <= end && r.to >= start)) continue;
+						builder.add(start, from + tooltip.textFrom, Decoration.replace({}));
+						builder.add(
+							from + tooltip.textFrom,
+							from + tooltip.textTo,
+							Decoration.mark({
+								class: "coo-tooltip",
+								attributes: { title: tooltip.translation },
+							}),
+						);
+						builder.add(from + tooltip.textTo, end, Decoration.replace({}));
+					}
+				}
+				return builder.finish();
+			}
+		},
+		{ decorations: (plugin) => plugin.decorations },
+	);
+}
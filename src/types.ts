@@ -1,68 +1,163 @@
+/** Which LLM backend serves requests (see src/providers). */
+export type ProviderId = "openai" | "openai-compatible" | "anthropic" | "ollama";
+
+/**
+ * How Ask keeps conversation context:
+ * - "server": register the note once and chain stored responses via
+ *   previous_response_id (OpenAI only)
+ * - "local": rebuild the conversation from the note's own callouts on every Ask
+ *   and send it with store: false (zero-retention accounts, stateless providers)
+ */
+export type ConversationMode = "server" | "local";
+
+/**
+ * How web-search sources appear in an answer callout: numbered footnotes,
+ * inline links, or not at all (see citations.ts).
+ */
+export type CitationStyle = "footnotes" | "links" | "hidden";
+
+/**
+ * Where Ask answers are kept: as callouts in the note, or in a sidecar outside
+ * the note, anchored to paragraphs by block ids (see sidecar.ts).
+ */
+export type QaStorage = "inline" | "sidecar";
+
 export type ModelType = "gpt-5.6-sol" | "gpt-5.6-terra" | "gpt-5.6-luna";
 
 export type ReasoningEffort = "none" | "low" | "medium" | "high";
 
-export type ResponseLanguage = "en" | "es" | "fr" | "zh" | "ja";
+/** A BCP-47 language tag, such as "en", "pt-BR" or "zh-TW" (see languages.ts). */
+export type LanguageTag = string;
 
-export type TranslateLanguage =
-	| "English"
-	| "Spanish"
-	| "French"
-	| "Chinese"
-	| "Japanese";
+/**
+ * A language coo can answer or translate in: one of the built-ins
+ * (BUILT_IN_LANGUAGES in languages.ts) or one added in settings.
+ */
+export interface Language {
+	tag: LanguageTag;
+	/** English name, as the prompts say it ("Brazilian Portuguese"). */
+	name: string;
+	/** The name in the language itself, for menus ("Português (Brasil)"). */
+	nativeName: string;
+	/** The composer's default question ("What does this mean?" in this language). */
+	defaultQuestion: string;
+	/** Writing direction, for text typed or shown in the language. */
+	direction: "ltr" | "rtl";
+}
 
-export interface CooSettings {
-	apiKey: string;
-	model: ModelType;
-	reasoningEffort: ReasoningEffort;
-	webSearchEnabled: boolean;
-	responseLanguage: ResponseLanguage;
-	translateLanguage: TranslateLanguage;
+/** A glossary term and its preferred translation (see glossary.ts). */
+export interface GlossaryEntry {
+	/** The target language it applies to; "" for every language. */
+	language: LanguageTag;
+	source: string;
+	translation: string;
+}
+
+/**
+ * A named, one-click action in the composer (and the command palette): a
+ * prompt run against the passage, either answered as a new callout (like Ask)
+ * or replacing the paragraph (like Rewrite). See quick-actions.ts.
+ */
+export interface QuickAction {
+	/** Stable id, used for the command id (and so for hotkeys). */
+	id: string;
+	name: string;
+	/** Lucide icon name. */
+	icon: string;
+	/** The instruction; may use the variables in QUICK_ACTION_VARIABLES. */
+	prompt: string;
+	target: "callout" | "replace";
+	/** "default" follows the Reasoning effort setting. */
+	reasoningEffort: ReasoningEffort | "default";
+	/** "default" follows the Web search setting. */
+	webSearch: "default" | "on" | "off";
 }
 
-/** Maps ResponseLanguage codes to full language names for prompt injection. */
-export const LANGUAGE_MAP: Record<ResponseLanguage, string> = {
-	en: "English",
-	es: "Spanish",
-	fr: "French",
-	zh: "Simplified Chinese",
-	ja: "Japanese",
-};
+/** How Rewrite revises a paragraph (see REWRITE_MODES in prompts.ts). */
+export type RewriteMode =
+	| "integrate"
+	| "simplify"
+	| "shorten"
+	| "tone"
+	| "grammar"
+	| "voice";
+
+/**
+ * How Translate writes its result (see TRANSLATE_MODES in translate.ts):
+ * in parentheses after the selection, in its place, as a footnote, as
+ * <ruby> annotations, as a tooltip shown on hover, or on a line below the
+ * paragraph.
+ */
+export type TranslateMode =
+	| "inline"
+	| "replace"
+	| "footnote"
+	| "ruby"
+	| "tooltip"
+	| "below";
 
 /**
- * The default question shown as a greyed placeholder in the composer ask
- * input, localized per response language. Submitted as the ask prompt when the
- * user presses Ask without typing anything — so the input is "pre-populated"
- * with a sensible question (placeholder + submit-fallback, no real value).
+ * How "Translate note" writes its result (see NOTE_TRANSLATION_LAYOUTS in
+ * note-translation.ts): each block followed by its translation, both side by
+ * side in two-column tables, or the translation alone in a sibling note that
+ * links back to the original.
  */
-export const DEFAULT_ASK_QUESTION: Record<ResponseLanguage, string> = {
-	en: "What does this mean?",
-	es: "¿Qué significa esto?",
-	fr: "Qu'est-ce que ça veut dire ?",
-	zh: "这是什么意思？",
-	ja: "どういう意味？",
-};
+export type NoteTranslationLayout = "interleaved" | "columns" | "note";
 
-/** Maps TranslateLanguage to its corresponding ResponseLanguage code. */
-export const TRANSLATE_TO_RESPONSE_MAP: Record<
-	TranslateLanguage,
-	ResponseLanguage
-> = {
-	English: "en",
-	Spanish: "es",
-	French: "fr",
-	Chinese: "zh",
-	Japanese: "ja",
-};
+/** A model's price in USD per million tokens. */
+export interface ModelPrice {
+	input: number;
+	output: number;
+}
+
+/** Prices keyed by model name, as sent to the provider. */
+export type PriceTable = Record<string, ModelPrice>;
 
-/** Maps ResponseLanguage to its corresponding TranslateLanguage name. */
-export const RESPONSE_TO_TRANSLATE_MAP: Record<
-	ResponseLanguage,
-	TranslateLanguage
-> = {
-	en: "English",
-	es: "Spanish",
-	fr: "French",
-	zh: "Chinese",
-	ja: "Japanese",
-};
+export interface CooSettings {
+	provider: ProviderId;
+	apiKey: string;
+	/** Base URL override; "" uses the provider's default. */
+	baseUrl: string;
+	/** OpenAI model (OpenAI provider only). */
+	model: ModelType;
+	/** Free-form model name for every provider except OpenAI. */
+	customModel: string;
+	/** Only consulted for providers that support chaining; others are always local. */
+	conversationMode: ConversationMode;
+	reasoningEffort: ReasoningEffort;
+	webSearchEnabled: boolean;
+	citationStyle: CitationStyle;
+	/** Vault folder of prompt template overrides ("" for built-in prompts only). */
+	promptFolder: string;
+	/** Composer quick actions, in toolbar order. */
+	quickActions: QuickAction[];
+	qaStorage: QaStorage;
+	/** Write Ask answers into the note as they stream in. */
+	streamingEnabled: boolean;
+	/** Show a rewrite as a diff to accept or reject before applying it. */
+	rewritePreview: boolean;
+	responseLanguage: LanguageTag;
+	translateLanguage: LanguageTag;
+	/** Where Translate puts its result; each mode also has its own command. */
+	translateMode: TranslateMode;
+	/** How "Translate note" and "Translate heading section" write their result. */
+	noteTranslationLayout: NoteTranslationLayout;
+	/** Preferred translations of terms, from the settings text area. */
+	glossary: GlossaryEntry[];
+	/** Vault note with more glossary entries ("" for none). */
+	glossaryNote: string;
+	/** Reuse earlier translations of the same text instead of calling the model. */
+	translationMemory: boolean;
+	/** Languages added in settings; one with a built-in's tag replaces it. */
+	customLanguages: Language[];
+	/** Total tries per call, including the first (retries rate limits and server errors). */
+	maxAttempts: number;
+	/** Give up retrying once this many seconds have passed since the first try. */
+	retryTimeout: number;
+	/** Prices used to cost each call in the usage ledger. */
+	priceTable: PriceTable;
+	/** Spending limits in USD; 0 turns a limit off. */
+	dailyBudget: number;
+	monthlyBudget: number;
+	noteBudget: number;
+}
@@ -0,0 +1,319 @@
+import type { DataAdapter } from "obsidian";
+import { JsonFileStore } from "./json-file-store";
+import { t } from "./i18n";
+import type { CooSettings, PriceTable } from "./types";
+import type { TokenUsage } from "./ai-client";
+
+/**
+ * Token usage and cost ledger (usage-ledger.json in the plugin directory).
+ *
+ * Every metered call — ask, note registration, snapshot update, rewrite,
+ * translate — appends one record with the tokens the provider reported and
+ * its cost under the user's price table. Calls on a model missing from the
+ * table are recorded unpriced (cost null) and count as free toward budgets.
+ *
+ * Budgets (daily, monthly, per note; 0 = off) are checked before each call,
+ * which is refused with CooBudgetError once one is used up. The longest
+ * window is the month, so records from earlier months are rolled up into one
+ * per note, kind and model: the per-note budget still sees their total, and
+ * the file stops growing with every call.
+ */
+
+export type UsageKind = "ask" | "register" | "snapshot" | "rewrite" | "translate";
+
+export interface UsageRecord {
+	/** When the call completed (epoch ms). */
+	at: number;
+	kind: UsageKind;
+	/** The note the call was about; absent for Translate. */
+	notePath?: string;
+	provider: string;
+	model: string;
+	inputTokens: number;
+	outputTokens: number;
+	/** USD; null when the model has no price. */
+	cost: number | null;
+	/** How many calls a rolled-up record stands for; 1 when absent. */
+	calls?: number;
+}
+
+/** Who to bill a call to: passed along with a request (see ChatCompletionParams). */
+export interface UsageMeter {
+	ledger: UsageLedger;
+	kind: UsageKind;
+	notePath?: string;
+}
+
+export interface UsageTotals {
+	calls: number;
+	inputTokens: number;
+	outputTokens: number;
+	/** USD, priced calls only. */
+	cost: number;
+	/** Calls on a model with no price. */
+	unpriced: number;
+}
+
+/** A call refused because a budget is used up. */
+export class CooBudgetError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "CooBudgetError";
+	}
+}
+
+const DEFAULT_DEBOUNCE_MS = 1000;
+
+/** The model a call goes to: the dropdown model for OpenAI, else the free-form one. */
+export function modelOf(settings: CooSettings): string {
+	return settings.provider === "openai"
+		? settings.model
+		: settings.customModel.trim();
+}
+
+/** Cost of a call in USD, or null when the model has no price. */
+export function priceUsage(
+	prices: PriceTable,
+	model: string,
+	usage: TokenUsage,
+): number | null {
+	const price = prices[model];
+	if (!price) return null;
+	return (
+		(usage.inputTokens * price.input + usage.outputTokens * price.output) /
+		1_000_000
+	);
+}
+
+/**
+ * Parse the settings' price-table text: one `model = input, output` line per
+ * model, in USD per million tokens. Blank lines, `#` comments and malformed
+ * lines are ignored.
+ */
+export function parsePriceTable(text: string): PriceTable {
+	const table: PriceTable = {};
+	for (const raw of text.split("\n")) {
+		const line = raw.replace(/#.*$/, "").trim();
+		const match = line.match(/^(.+?)\s*=\s*([\d.]+)\s*,\s*([\d.]+)$/);
+		if (!match) continue;
+		const input = Number(match[2]);
+		const output = Number(match[3]);
+		if (Number.isFinite(input) && Number.isFinite(output)) {
+			table[match[1] ?? ""] = { input, output };
+		}
+	}
+	return table;
+}
+
+/** The inverse of parsePriceTable, for the settings text area. */
+export function formatPriceTable(table: PriceTable): string {
+	return Object.entries(table)
+		.map(([model, price]) => `${model} = ${price.input}, ${price.output}`)
+		.join("\n");
+}
+
+/** Format a USD amount for notices and the status bar. */
+export function formatCost(cost: number): string {
+	if (cost > 0 && cost < 0.01) return "<$0.01";
+	return `$${cost.toFixed(2)}`;
+}
+
+/** Format a token count compactly: 950, 12.3k, 1.2M. */
+export function formatTokens(tokens: number): string {
+	if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+	if (tokens >= 1000) return `${(tokens / 1000).toFixed(1)}k`;
+	return String(tokens);
+}
+
+/** Sum records, optionally only those matching `filter`. */
+export function sumUsage(
+	records: UsageRecord[],
+	filter: (record: UsageRecord) => boolean = () => true,
+): UsageTotals {
+	const totals: UsageTotals = {
+		calls: 0,
+		inputTokens: 0,
+		outputTokens: 0,
+		cost: 0,
+		unpriced: 0,
+	};
+	for (const record of records) {
+		if (!filter(record)) continue;
+		const calls = record.calls ?? 1;
+		totals.calls += calls;
+		totals.inputTokens += record.inputTokens;
+		totals.outputTokens += record.outputTokens;
+		if (record.cost === null) totals.unpriced += calls;
+		else totals.cost += record.cost;
+	}
+	return totals;
+}
+
+/**
+ * Merge the records from before `before` into one per note, kind, provider,
+ * model and whether priced, stamped with the latest call's time. Later
+ * records are kept as they are. Sums (see sumUsage) are unchanged.
+ */
+export function rollUpLedger(records: UsageRecord[], before: number): UsageRecord[] {
+	const rolled = new Map<string, UsageRecord>();
+	const recent: UsageRecord[] = [];
+	for (const record of records) {
+		if (record.at >= before) {
+			recent.push(record);
+			continue;
+		}
+		const key = JSON.stringify([
+			record.notePath ?? "",
+			record.kind,
+			record.provider,
+			record.model,
+			record.cost === null,
+		]);
+		const total = rolled.get(key);
+		if (!total) {
+			rolled.set(key, { ...record, calls: record.calls ?? 1 });
+			continue;
+		}
+		total.at = Math.max(total.at, record.at);
+		total.calls = (total.calls ?? 1) + (record.calls ?? 1);
+		total.inputTokens += record.inputTokens;
+		total.outputTokens += record.outputTokens;
+		if (total.cost !== null && record.cost !== null) total.cost += record.cost;
+	}
+	return [...rolled.values(), ...recent];
+}
+
+/** Local midnight of the day containing `now`. */
+function startOfDay(now: number): number {
+	const d = new Date(now);
+	return new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime();
+}
+
+/** Local midnight of the first of the month containing `now`. */
+function startOfMonth(now: number): number {
+	const d = new Date(now);
+	return new Date(d.getFullYear(), d.getMonth(), 1).getTime();
+}
+
+function isRecord(value: unknown): value is UsageRecord {
+	if (!value || typeof value !== "object") return false;
+	const r = value as Partial<UsageRecord>;
+	return (
+		typeof r.at === "number" &&
+		typeof r.inputTokens === "number" &&
+		typeof r.outputTokens === "number"
+	);
+}
+
+/** Parse usage-ledger.json, tolerating a missing or corrupt file. */
+export function parseLedger(raw: string | null): UsageRecord[] {
+	if (raw === null) return [];
+	try {
+		const parsed = JSON.parse(raw) as unknown;
+		return Array.isArray(parsed) ? parsed.filter(isRecord) : [];
+	} catch {
+		return [];
+	}
+}
+
+export class UsageLedger {
+	private file: JsonFileStore<UsageRecord[]>;
+	private listeners: Array<() => void> = [];
+
+	constructor(adapter: DataAdapter, path: string, debounceMs = DEFAULT_DEBOUNCE_MS) {
+		this.file = new JsonFileStore(adapter, path, parseLedger, debounceMs);
+	}
+
+	/** Called when a debounced save fails; see JsonFileStore. */
+	set onSaveError(handler: (err: unknown) => void) {
+		this.file.onSaveError = handler;
+	}
+
+	/** Call `listener` after every new record. */
+	onChange(listener: () => void): void {
+		this.listeners.push(listener);
+	}
+
+	/** Record a completed call's usage, priced with the settings' price table. */
+	async record(
+		settings: CooSettings,
+		meter: Pick<UsageMeter, "kind" | "notePath">,
+		usage: TokenUsage,
+		now: number = Date.now(),
+	): Promise<void> {
+		const model = modelOf(settings);
+		await this.file.mutate((records) => {
+			records.push({
+				at: now,
+				kind: meter.kind,
+				...(meter.notePath ? { notePath: meter.notePath } : {}),
+				provider: settings.provider,
+				model,
+				inputTokens: usage.inputTokens,
+				outputTokens: usage.outputTokens,
+				cost: priceUsage(settings.priceTable, model, usage),
+			});
+			// Only once records have left the month since the last roll-up.
+			const monthStart = startOfMonth(now);
+			if (records.some((r) => r.at < monthStart && r.calls === undefined)) {
+				records.splice(0, records.length, ...rollUpLedger(records, monthStart));
+			}
+			return true;
+		});
+		for (const listener of this.listeners) listener();
+	}
+
+	/** Usage for today, this month (local time) and, optionally, one note. */
+	async summary(
+		notePath?: string,
+		now: number = Date.now(),
+	): Promise<{ today: UsageTotals; month: UsageTotals; note?: UsageTotals }> {
+		const dayStart = startOfDay(now);
+		const monthStart = startOfMonth(now);
+		return this.file.read((records) => ({
+			today: sumUsage(records, (r) => r.at >= dayStart),
+			month: sumUsage(records, (r) => r.at >= monthStart),
+			...(notePath
+				? { note: sumUsage(records, (r) => r.notePath === notePath) }
+				: {}),
+		}));
+	}
+
+	/**
+	 * Throw CooBudgetError if a budget in settings is used up: today's spend,
+	 * this month's, or (when `notePath` is given) the note's.
+	 */
+	async checkBudget(
+		settings: CooSettings,
+		notePath?: string,
+		now: number = Date.now(),
+	): Promise<void> {
+		const { dailyBudget, monthlyBudget, noteBudget } = settings;
+		if (dailyBudget <= 0 && monthlyBudget <= 0 && noteBudget <= 0) return;
+
+		const { today, month, note } = await this.summary(notePath, now);
+		const exceeded = (budget: number, spent: number): boolean =>
+			budget > 0 && spent >= budget;
+
+		if (exceeded(dailyBudget, today.cost)) {
+			throw new CooBudgetError(
+				t("error.dailyBudget", { spent: formatCost(today.cost), budget: formatCost(dailyBudget) }),
+			);
+		}
+		if (exceeded(monthlyBudget, month.cost)) {
+			throw new CooBudgetError(
+				t("error.monthlyBudget", { spent: formatCost(month.cost), budget: formatCost(monthlyBudget) }),
+			);
+		}
+		if (note && exceeded(noteBudget, note.cost)) {
+			throw new CooBudgetError(
+				t("error.noteBudget", { spent: formatCost(note.cost), budget: formatCost(noteBudget) }),
+			);
+		}
+	}
+
+	/** Write pending records now instead of waiting for the debounce. */
+	async flush(): Promise<void> {
+		await this.file.flush();
+	}
+}
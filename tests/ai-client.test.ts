@@ -1,5 +1,21 @@
-import { describe, it, expect } from "vitest";
-import { parseResponse, CooApiError } from "../src/ai-client";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { requestUrl, type RequestUrlResponse } from "obsidian";
+import type { CooSettings } from "../src/types";
+import {
+	parseResponse,
+	CooApiError,
+	CooCancelledError,
+	splitStreamPayloads,
+	chatCompletion,
+	parseRetryAfter,
+	backoffDelay,
+	isRetryableStatus,
+	describeRetry,
+	type RetryInfo,
+} from "../src/ai-client";
+import { makeSettings } from "./helpers";
+
+vi.mock("obsidian", () => ({ requestUrl: vi.fn() }));
 
 describe("parseResponse", () => {
 	it("extracts responseId from top-level id and text from output_text", () => {
@@ -118,3 +134,239 @@ describe("CooApiError", () => {
 		expect(err).toBeInstanceOf(Error);
 	});
 });
+
+describe("splitStreamPayloads", () => {
+	it("extracts SSE data lines and drops event names and blanks", () => {
+		const buffer =
+			'event: response.output_text.delta\ndata: {"delta":"Hi"}\n\ndata: [DONE]\n';
+		const { payloads, rest } = splitStreamPayloads(buffer, "sse");
+		expect(payloads).toEqual(['{"delta":"Hi"}', "[DONE]"]);
+		expect(rest).toBe("");
+	});
+
+	it("keeps an unterminated line as the rest", () => {
+		const { payloads, rest } = splitStreamPayloads('data: {"a":1}\ndata: {"b"', "sse");
+		expect(payloads).toEqual(['{"a":1}']);
+		expect(rest).toBe('data: {"b"');
+	});
+
+	it("handles CRLF line endings", () => {
+		const { payloads } = splitStreamPayloads('data: {"a":1}\r\n\r\n', "sse");
+		expect(payloads).toEqual(['{"a":1}']);
+	});
+
+	it("treats every non-empty line as a payload for NDJSON", () => {
+		const { payloads, rest } = splitStreamPayloads('{"a":1}\n\n{"b":2}\n{"c"', "ndjson");
+		expect(payloads).toEqual(['{"a":1}', '{"b":2}']);
+		expect(rest).toBe('{"c"');
+	});
+});
+
+describe("parseRetryAfter", () => {
+	it("reads retry-after-ms first", () => {
+		expect(parseRetryAfter({ "retry-after-ms": "1500", "retry-after": "9" }, 429)).toBe(1500);
+	});
+
+	it("reads retry-after in seconds, case-insensitively", () => {
+		expect(parseRetryAfter({ "Retry-After": "4" }, 503)).toBe(4000);
+	});
+
+	it("reads retry-after as an HTTP date", () => {
+		const now = Date.parse("Sun, 18 Oct 2026 10:00:00 GMT");
+		expect(
+			parseRetryAfter({ "retry-after": "Sun, 18 Oct 2026 10:00:07 GMT" }, 429, now),
+		).toBe(7000);
+	});
+
+	it("falls back to the reset of the OpenAI rate limit that was hit", () => {
+		const headers = {
+			"x-ratelimit-remaining-requests": "0",
+			"x-ratelimit-reset-requests": "1s",
+			"x-ratelimit-remaining-tokens": "1200",
+			"x-ratelimit-reset-tokens": "6m0s",
+		};
+		expect(parseRetryAfter(headers, 429)).toBe(1000);
+		expect(
+			parseRetryAfter(
+				{ "x-ratelimit-remaining-tokens": "0", "x-ratelimit-reset-tokens": "250ms" },
+				429,
+			),
+		).toBe(250);
+	});
+
+	it("ignores the rate-limit resets for anything but a 429", () => {
+		const headers = { "x-ratelimit-remaining-tokens": "0", "x-ratelimit-reset-tokens": "6m0s" };
+		expect(parseRetryAfter(headers, 503)).toBeNull();
+	});
+
+	it("returns null without a usable header", () => {
+		expect(parseRetryAfter({}, 429)).toBeNull();
+		expect(parseRetryAfter({ "x-ratelimit-reset-tokens": "6m0s" }, 429)).toBeNull();
+		expect(
+			parseRetryAfter(
+				{ "x-ratelimit-remaining-requests": "0", "x-ratelimit-reset-requests": "soon" },
+				429,
+			),
+		).toBeNull();
+	});
+});
+
+describe("backoffDelay", () => {
+	it("doubles per retry with jitter in the upper half", () => {
+		expect(backoffDelay(1, () => 0)).toBe(500);
+		expect(backoffDelay(1, () => 1)).toBe(1000);
+		expect(backoffDelay(3, () => 1)).toBe(4000);
+	});
+
+	it("caps the delay", () => {
+		expect(backoffDelay(20, () => 1)).toBe(30_000);
+	});
+});
+
+describe("isRetryableStatus", () => {
+	it("retries rate limits, server errors and network errors only", () => {
+		for (const status of [0, 429, 500, 502, 503, 504, 529]) {
+			expect(isRetryableStatus(status)).toBe(true);
+		}
+		for (const status of [400, 401, 404, 501]) {
+			expect(isRetryableStatus(status)).toBe(false);
+		}
+	});
+});
+
+describe("describeRetry", () => {
+	it("names the reason and rounds the wait up to seconds", () => {
+		expect(describeRetry({ attempt: 2, delayMs: 3200, status: 429 })).toBe(
+			"Rate limited — retrying in 4s…",
+		);
+		expect(describeRetry({ attempt: 2, delayMs: 10, status: 503 })).toBe(
+			"Server error — retrying in 1s…",
+		);
+	});
+});
+
+describe("chatCompletion retries", () => {
+	const settings = makeSettings();
+
+	const reply = (
+		status: number,
+		body: unknown,
+		headers: Record<string, string> = {},
+	): RequestUrlResponse =>
+		({ status, text: JSON.stringify(body), headers }) as unknown as RequestUrlResponse;
+	const ok = reply(200, { id: "resp_1", output_text: "Answer" });
+
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.mocked(requestUrl).mockReset();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	function complete(overrides: Partial<CooSettings> = {}, onRetry = vi.fn(), signal?: AbortSignal) {
+		return chatCompletion({
+			settings: { ...settings, ...overrides },
+			systemPrompt: "SYS",
+			userPrompt: "Q",
+			onRetry,
+			signal,
+		});
+	}
+
+	it("retries a 429 after the server's Retry-After", async () => {
+		vi.mocked(requestUrl)
+			.mockResolvedValueOnce(reply(429, {}, { "retry-after": "4" }))
+			.mockResolvedValueOnce(ok);
+		const onRetry = vi.fn();
+
+		const pending = complete({}, onRetry);
+		await vi.advanceTimersByTimeAsync(3999);
+		expect(requestUrl).toHaveBeenCalledTimes(1);
+		await vi.advanceTimersByTimeAsync(1);
+
+		await expect(pending).resolves.toMatchObject({ text: "Answer" });
+		expect(requestUrl).toHaveBeenCalledTimes(2);
+		expect(onRetry).toHaveBeenCalledWith({ attempt: 2, delayMs: 4000, status: 429 });
+	});
+
+	it("backs off on server and network errors", async () => {
+		vi.spyOn(Math, "random").mockReturnValue(1);
+		vi.mocked(requestUrl)
+			.mockResolvedValueOnce(reply(503, {}))
+			.mockRejectedValueOnce(new Error("offline"))
+			.mockResolvedValueOnce(ok);
+		const onRetry = vi.fn<(retry: RetryInfo) => void>();
+
+		const pending = complete({}, onRetry);
+		await vi.advanceTimersByTimeAsync(3000);
+
+		await expect(pending).resolves.toMatchObject({ text: "Answer" });
+		expect(onRetry.mock.calls.map(([r]) => [r.status, r.delayMs])).toEqual([
+			[503, 1000],
+			[0, 2000],
+		]);
+		vi.mocked(Math.random).mockRestore();
+	});
+
+	it("gives up after max attempts with the last error", async () => {
+		vi.mocked(requestUrl).mockResolvedValue(reply(429, {}, { "retry-after": "1" }));
+
+		const pending = complete({ maxAttempts: 2 });
+		const assertion = expect(pending).rejects.toMatchObject({ status: 429 });
+		await vi.advanceTimersByTimeAsync(1000);
+		await assertion;
+		expect(requestUrl).toHaveBeenCalledTimes(2);
+	});
+
+	it("backs off instead when the server's wait would overrun the time limit", async () => {
+		vi.spyOn(Math, "random").mockReturnValue(1);
+		vi.mocked(requestUrl)
+			.mockResolvedValueOnce(reply(429, {}, { "retry-after": "120" }))
+			.mockResolvedValueOnce(ok);
+		const onRetry = vi.fn();
+
+		const pending = complete({ retryTimeout: 60 }, onRetry);
+		await vi.advanceTimersByTimeAsync(1000);
+
+		await expect(pending).resolves.toMatchObject({ text: "Answer" });
+		expect(onRetry).toHaveBeenCalledWith({ attempt: 2, delayMs: 1000, status: 429 });
+		vi.mocked(Math.random).mockRestore();
+	});
+
+	it("gives up when even the backoff would overrun the time limit", async () => {
+		vi.mocked(requestUrl).mockResolvedValue(reply(503, {}));
+		await expect(complete({ retryTimeout: 0 })).rejects.toBeInstanceOf(CooApiError);
+		expect(requestUrl).toHaveBeenCalledTimes(1);
+	});
+
+	it("does not retry other errors", async () => {
+		vi.mocked(requestUrl).mockResolvedValue(reply(401, {}));
+		await expect(complete()).rejects.toMatchObject({ status: 401 });
+		expect(requestUrl).toHaveBeenCalledTimes(1);
+	});
+
+	it("stops waiting when cancelled", async () => {
+		vi.mocked(requestUrl).mockResolvedValue(reply(503, {}, { "retry-after": "10" }));
+		const controller = new AbortController();
+
+		const pending = complete({}, vi.fn(), controller.signal);
+		const assertion = expect(pending).rejects.toBeInstanceOf(CooCancelledError);
+		await vi.advanceTimersByTimeAsync(100);
+		controller.abort();
+		await assertion;
+		expect(requestUrl).toHaveBeenCalledTimes(1);
+	});
+
+	it("removes its abort listener once the call settles", async () => {
+		vi.mocked(requestUrl).mockResolvedValue(ok);
+		const controller = new AbortController();
+		const add = vi.spyOn(controller.signal, "addEventListener");
+		const remove = vi.spyOn(controller.signal, "removeEventListener");
+
+		await complete({}, vi.fn(), controller.signal);
+		expect(add).toHaveBeenCalled();
+		expect(remove.mock.calls.map(([, fn]) => fn)).toEqual(add.mock.calls.map(([, fn]) => fn));
+	});
+});
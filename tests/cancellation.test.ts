@@ -0,0 +1,28 @@
+import { describe, it, expect } from "vitest";
+import { PendingRequests } from "../src/cancellation";
+
+describe("PendingRequests", () => {
+	it("aborts every tracked request and reports the count", () => {
+		const pending = new PendingRequests();
+		const a = pending.start();
+		const b = pending.start();
+		expect(pending.cancelAll()).toBe(2);
+		expect(a.signal.aborted).toBe(true);
+		expect(b.signal.aborted).toBe(true);
+	});
+
+	it("does not abort finished requests", () => {
+		const pending = new PendingRequests();
+		const done = pending.start();
+		pending.finish(done);
+		expect(pending.cancelAll()).toBe(0);
+		expect(done.signal.aborted).toBe(false);
+	});
+
+	it("starts empty after cancelling", () => {
+		const pending = new PendingRequests();
+		pending.start();
+		pending.cancelAll();
+		expect(pending.cancelAll()).toBe(0);
+	});
+});
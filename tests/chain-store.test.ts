@@ -0,0 +1,332 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+	ChainStore,
+	remapChainPath,
+	mergeChainMaps,
+	parseChainMap,
+	type ChainEntry,
+} from "../src/chain-store";
+import { makeAdapter } from "./helpers";
+
+const CHAIN_PATH = "/plugin/chain-data.json";
+
+/** A ChainStore over an in-memory adapter (see makeAdapter). */
+function makeStore(initial: Record<string, string> = {}, debounceMs = 0) {
+	const { adapter, mock, files, externalWrite } = makeAdapter(initial);
+	const chains = new ChainStore(adapter, CHAIN_PATH, debounceMs);
+	return {
+		chains,
+		files,
+		adapter: mock,
+		externalWrite: (content: string) => externalWrite(CHAIN_PATH, content),
+	};
+}
+
+describe("ChainStore", () => {
+	it("returns undefined when no chain file exists", async () => {
+		const { chains } = makeStore({});
+		expect(await chains.getHead("note.md")).toBeUndefined();
+	});
+
+	it("stores and retrieves a chain head", async () => {
+		const { chains } = makeStore({});
+		await chains.setHead("note.md", "resp_1", "openai");
+		expect(await chains.getHead("note.md")).toBe("resp_1");
+	});
+
+	it("advances the chain head on subsequent sets", async () => {
+		const { chains } = makeStore({});
+		await chains.setHead("note.md", "resp_1", "openai");
+		await chains.setHead("note.md", "resp_2", "openai");
+		expect(await chains.getHead("note.md")).toBe("resp_2");
+	});
+
+	it("clears the chain head", async () => {
+		const { chains } = makeStore({});
+		await chains.setHead("note.md", "resp_1", "openai");
+		await chains.clear("note.md");
+		expect(await chains.getHead("note.md")).toBeUndefined();
+	});
+
+	it("keeps chains separate per note path", async () => {
+		const { chains } = makeStore({});
+		await chains.setHead("a.md", "resp_a", "openai");
+		await chains.setHead("b.md", "resp_b", "openai");
+		expect(await chains.getHead("a.md")).toBe("resp_a");
+		expect(await chains.getHead("b.md")).toBe("resp_b");
+	});
+
+	it("preserves other notes when clearing one", async () => {
+		const { chains } = makeStore({});
+		await chains.setHead("a.md", "resp_a", "openai");
+		await chains.setHead("b.md", "resp_b", "openai");
+		await chains.clear("a.md");
+		expect(await chains.getHead("a.md")).toBeUndefined();
+		expect(await chains.getHead("b.md")).toBe("resp_b");
+	});
+
+	it("writes a valid JSON map keyed by note path", async () => {
+		const { chains, files } = makeStore({});
+		await chains.setHead("note.md", "resp_1", "openai");
+		await chains.flush();
+		const parsed = JSON.parse(files[CHAIN_PATH] ?? "{}") as Record<string, { head: string }>;
+		expect(parsed["note.md"]?.head).toBe("resp_1");
+	});
+
+	it("recovers from a corrupt chain file", async () => {
+		const { chains } = makeStore({ [CHAIN_PATH]: "not json" });
+		expect(await chains.getHead("note.md")).toBeUndefined();
+	});
+
+	it("ignores a non-object chain file", async () => {
+		const { chains } = makeStore({ [CHAIN_PATH]: "[1, 2, 3]" });
+		expect(await chains.getHead("note.md")).toBeUndefined();
+	});
+
+	it("loads a legacy bare-string head with an unknown snapshot", async () => {
+		const { chains } = makeStore({ [CHAIN_PATH]: JSON.stringify({ "note.md": "resp_old" }) });
+		const entry = await chains.get("note.md");
+		expect(entry?.head).toBe("resp_old");
+		expect(entry?.snapshot).toEqual([]);
+	});
+
+	it("keeps the snapshot when the head advances", async () => {
+		const { chains } = makeStore({});
+		await chains.setSnapshot("note.md", "resp_0", "P1\n\nP2", "openai");
+		await chains.setHead("note.md", "resp_1", "openai");
+		const entry = await chains.get("note.md");
+		expect(entry?.head).toBe("resp_1");
+		expect(entry?.snapshot).toHaveLength(2);
+	});
+});
+
+describe("remapChainPath", () => {
+	it("maps the renamed note itself", () => {
+		expect(remapChainPath("a/note.md", "a/note.md", "b/note.md")).toBe("b/note.md");
+	});
+
+	it("re-roots notes inside a renamed folder", () => {
+		expect(remapChainPath("a/sub/n.md", "a", "z")).toBe("z/sub/n.md");
+	});
+
+	it("leaves unrelated paths (including prefix look-alikes) alone", () => {
+		expect(remapChainPath("ab/n.md", "a", "z")).toBeNull();
+		expect(remapChainPath("other.md", "a/note.md", "b/note.md")).toBeNull();
+	});
+});
+
+describe("chain rename / delete sync", () => {
+	it("moves a renamed note's chain and replaces any chain at the new path", async () => {
+		const { chains } = makeStore({});
+		await chains.setHead("old.md", "resp_old", "openai");
+		await chains.setHead("new.md", "resp_foreign", "openai");
+		await chains.move("old.md", "new.md");
+		expect(await chains.getHead("old.md")).toBeUndefined();
+		expect(await chains.getHead("new.md")).toBe("resp_old");
+	});
+
+	it("moves every chain under a renamed folder", async () => {
+		const { chains } = makeStore({});
+		await chains.setHead("f/a.md", "resp_a", "openai");
+		await chains.setHead("f/g/b.md", "resp_b", "openai");
+		await chains.move("f", "h");
+		expect(await chains.getHead("h/a.md")).toBe("resp_a");
+		expect(await chains.getHead("h/g/b.md")).toBe("resp_b");
+	});
+
+	it("does not write when nothing moved", async () => {
+		const { chains, adapter } = makeStore({});
+		await chains.move("x.md", "y.md");
+		expect(adapter.write).not.toHaveBeenCalled();
+	});
+
+	it("drops a deleted note's chain, or a deleted folder's chains", async () => {
+		const { chains } = makeStore({});
+		await chains.setHead("n.md", "resp_n", "openai");
+		await chains.setHead("f/a.md", "resp_a", "openai");
+		await chains.setHead("keep.md", "resp_k", "openai");
+		await chains.drop("n.md");
+		await chains.drop("f");
+		expect(await chains.getHead("n.md")).toBeUndefined();
+		expect(await chains.getHead("f/a.md")).toBeUndefined();
+		expect(await chains.getHead("keep.md")).toBe("resp_k");
+	});
+});
+
+describe("ChainStore.prune", () => {
+	const day = 24 * 60 * 60 * 1000;
+	/** OpenAI keeps responses 30 days; the others keep none. */
+	const retention = (provider: string) => (provider === "openai" ? 30 * day : undefined);
+
+	it("removes chains whose note is missing", async () => {
+		const { chains } = makeStore({});
+		await chains.setHead("gone.md", "resp_g", "openai");
+		await chains.setHead("here.md", "resp_h", "openai");
+		const removed = await chains.prune((p) => p === "here.md");
+		expect(removed).toBe(1);
+		expect(await chains.getHead("here.md")).toBe("resp_h");
+	});
+
+	it("removes chains older than the retention window", async () => {
+		const { chains } = makeStore({
+			[CHAIN_PATH]: JSON.stringify({
+				"old.md": { head: "r1", snapshot: [], snapshotAt: 0, updatedAt: 1 * day },
+				"new.md": { head: "r2", snapshot: [], snapshotAt: 0, updatedAt: 40 * day },
+			}),
+		});
+		const removed = await chains.prune(() => true, retention, 45 * day);
+		expect(removed).toBe(1);
+		expect(await chains.getHead("old.md")).toBeUndefined();
+		expect(await chains.getHead("new.md")).toBe("r2");
+	});
+
+	it("expires each chain by its own provider's window", async () => {
+		const { chains } = makeStore({
+			[CHAIN_PATH]: JSON.stringify({
+				"openai.md": { head: "r1", snapshot: [], snapshotAt: 0, updatedAt: 1 * day, provider: "openai" },
+				"other.md": { head: "r2", snapshot: [], snapshotAt: 0, updatedAt: 1 * day, provider: "ollama" },
+				"saved-before.md": { head: "r3", snapshot: [], snapshotAt: 0, updatedAt: 1 * day },
+			}),
+		});
+		expect(await chains.prune(() => true, retention, 45 * day)).toBe(2);
+		expect(await chains.getHead("other.md")).toBe("r2");
+	});
+
+	it("keeps legacy chains of unknown age", async () => {
+		const { chains } = makeStore({
+			[CHAIN_PATH]: JSON.stringify({
+				"legacy.md": "r1",
+				"zero.md": { head: "r2", snapshot: [], snapshotAt: 0, updatedAt: 0 },
+			}),
+		});
+		expect(await chains.prune(() => true, retention, 45 * day)).toBe(0);
+	});
+
+	it("keeps old chains when no retention window is given", async () => {
+		const { chains } = makeStore({
+			[CHAIN_PATH]: JSON.stringify({ "old.md": "r1" }),
+		});
+		expect(await chains.prune(() => true)).toBe(0);
+	});
+});
+
+describe("ChainStore persistence", () => {
+	it("loads the file once and serves reads from memory", async () => {
+		const { chains, adapter } = makeStore({
+			[CHAIN_PATH]: JSON.stringify({ "a.md": "resp_a" }),
+		});
+		await chains.getHead("a.md");
+		await chains.getHead("a.md");
+		expect(adapter.read).toHaveBeenCalledOnce();
+	});
+
+	it("serializes concurrent writes so no head is lost", async () => {
+		const { chains, files } = makeStore({});
+		await Promise.all([
+			chains.setHead("a.md", "resp_a", "openai"),
+			chains.setHead("b.md", "resp_b", "openai"),
+			chains.setHead("c.md", "resp_c", "openai"),
+		]);
+		await chains.flush();
+		const parsed = parseChainMap(files[CHAIN_PATH] ?? null);
+		expect(Object.keys(parsed).sort()).toEqual(["a.md", "b.md", "c.md"]);
+	});
+
+	it("debounces persistence into one write", async () => {
+		vi.useFakeTimers();
+		try {
+			const { chains, adapter } = makeStore({}, 1000);
+			await chains.setHead("a.md", "resp_1", "openai");
+			await chains.setHead("a.md", "resp_2", "openai");
+			expect(adapter.write).not.toHaveBeenCalled();
+			await vi.advanceTimersByTimeAsync(1000);
+			expect(adapter.write).toHaveBeenCalledOnce();
+		} finally {
+			vi.useRealTimers();
+		}
+	});
+
+	it("reports a failed background save and keeps the changes pending", async () => {
+		vi.useFakeTimers();
+		try {
+			const { chains, adapter, files } = makeStore({}, 1000);
+			const onSaveError = vi.fn();
+			chains.onSaveError = onSaveError;
+			adapter.write.mockRejectedValueOnce(new Error("disk full"));
+
+			await chains.setHead("a.md", "resp_1", "openai");
+			await vi.advanceTimersByTimeAsync(1000);
+			expect(onSaveError).toHaveBeenCalledWith(new Error("disk full"));
+
+			await chains.flush();
+			expect(parseChainMap(files[CHAIN_PATH] ?? null)["a.md"]?.head).toBe("resp_1");
+		} finally {
+			vi.useRealTimers();
+		}
+	});
+
+	it("flush writes pending changes immediately", async () => {
+		const { chains, files } = makeStore({}, 60_000);
+		await chains.setHead("a.md", "resp_1", "openai");
+		await chains.flush();
+		expect(parseChainMap(files[CHAIN_PATH] ?? null)["a.md"]?.head).toBe("resp_1");
+	});
+
+	it("picks up an external rewrite of the file", async () => {
+		const { chains, externalWrite } = makeStore({
+			[CHAIN_PATH]: JSON.stringify({ "a.md": "resp_a" }),
+		});
+		await chains.getHead("a.md");
+		externalWrite(JSON.stringify({ "a.md": "resp_remote", "b.md": "resp_b" }));
+		expect(await chains.getHead("a.md")).toBe("resp_remote");
+		expect(await chains.getHead("b.md")).toBe("resp_b");
+	});
+
+	it("merges an external rewrite with unsaved local changes", async () => {
+		const { chains, files, externalWrite } = makeStore(
+			{ [CHAIN_PATH]: JSON.stringify({ "a.md": "resp_a" }) },
+			60_000,
+		);
+		await chains.setHead("local.md", "resp_local", "openai");
+		externalWrite(JSON.stringify({ "a.md": "resp_a", "remote.md": "resp_remote" }));
+		await chains.flush();
+		const parsed = parseChainMap(files[CHAIN_PATH] ?? null);
+		expect(parsed["local.md"]?.head).toBe("resp_local");
+		expect(parsed["remote.md"]?.head).toBe("resp_remote");
+		expect(parsed["a.md"]?.head).toBe("resp_a");
+	});
+});
+
+describe("mergeChainMaps", () => {
+	const entry = (head: string, updatedAt: number): ChainEntry => ({
+		head,
+		snapshot: [],
+		snapshotAt: 0,
+		updatedAt,
+		provider: "openai",
+	});
+
+	it("takes whichever side changed a key", () => {
+		const base = { a: entry("1", 1), b: entry("1", 1) };
+		const ours = { a: entry("2", 2), b: entry("1", 1) };
+		const disk = { a: entry("1", 1), b: entry("3", 3) };
+		const merged = mergeChainMaps(base, ours, disk);
+		expect(merged.a?.head).toBe("2");
+		expect(merged.b?.head).toBe("3");
+	});
+
+	it("keeps the more recently updated entry when both sides changed it", () => {
+		const base = { a: entry("1", 1) };
+		expect(mergeChainMaps(base, { a: entry("ours", 5) }, { a: entry("disk", 9) }).a?.head).toBe("disk");
+		expect(mergeChainMaps(base, { a: entry("ours", 9) }, { a: entry("disk", 5) }).a?.head).toBe("ours");
+	});
+
+	it("honors a one-sided delete, but lets an update beat a delete", () => {
+		const base = { a: entry("1", 1), b: entry("1", 1) };
+		const ours = { b: entry("2", 2) };
+		const disk = { a: entry("1", 1) };
+		const merged = mergeChainMaps(base, ours, disk);
+		expect(merged.a).toBeUndefined();
+		expect(merged.b?.head).toBe("2");
+	});
+});
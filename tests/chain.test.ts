@@ -1,81 +1,342 @@
-import { describe, it, expect, vi } from "vitest";
-import type { App } from "obsidian";
-import { getChainHead, setChainHead, clearChain } from "../src/chain";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { classifySnapshot, askChained } from "../src/chain";
+import { ChainStore, type ChainEntry } from "../src/chain-store";
+import {
+	chatCompletion,
+	registerNote,
+	updateNoteSnapshot,
+	CooApiError,
+	CooCancelledError,
+} from "../src/ai-client";
+import { snapshotOf } from "../src/snapshot";
+import { makeAdapter, makeSettings } from "./helpers";
+
+vi.mock("../src/ai-client", async (importOriginal) => {
+	const actual = await importOriginal<typeof import("../src/ai-client")>();
+	return {
+		...actual,
+		chatCompletion: vi.fn(),
+		streamCompletion: vi.fn(),
+		registerNote: vi.fn(),
+		updateNoteSnapshot: vi.fn(),
+	};
+});
 
 const CHAIN_PATH = "/plugin/chain-data.json";
 
-function makeApp(files: Record<string, string> = {}) {
-	const store: Record<string, string> = { ...files };
-	const adapter = {
-		exists: vi.fn(async (p: string) => p in store),
-		read: vi.fn(async (p: string) => store[p] ?? ""),
-		write: vi.fn(async (p: string, c: string) => {
-			store[p] = c;
-		}),
-	};
-	const app = { vault: { adapter } } as unknown as App;
-	return { app, store, adapter };
+function makeStore(files: Record<string, string> = {}) {
+	const { adapter, mock } = makeAdapter(files);
+	const chains = new ChainStore(adapter, CHAIN_PATH, 60_000);
+	return { chains, adapter: mock };
 }
 
-describe("chain storage", () => {
-	const dir = "/plugin";
+describe("askChained cancellation", () => {
+	const settings = makeSettings();
+
+	beforeEach(() => {
+		vi.mocked(chatCompletion).mockReset();
+		vi.mocked(registerNote).mockReset();
+	});
+
+	function ask(chains: ChainStore, signal: AbortSignal) {
+		return askChained({
+			chains,
+			notePath: "note.md",
+			noteText: "Note",
+			history: { document: "Note", pairs: [] },
+			settings,
+			systemPrompt: "SYS",
+			userPrompt: "Q",
+			signal,
+		});
+	}
+
+	it("does not advance the head when cancelled after the answer arrives", async () => {
+		const { chains } = makeStore({});
+		await chains.setSnapshot("note.md", "resp_1", "Note", "openai");
+		const controller = new AbortController();
+		vi.mocked(chatCompletion).mockImplementation(async () => {
+			controller.abort();
+			return { text: "A", responseId: "resp_2" };
+		});
+
+		await expect(ask(chains, controller.signal)).rejects.toBeInstanceOf(CooCancelledError);
+		expect(await chains.getHead("note.md")).toBe("resp_1");
+	});
+
+	it("does not store a registration made by a cancelled first Ask", async () => {
+		const { chains } = makeStore({});
+		const controller = new AbortController();
+		vi.mocked(registerNote).mockImplementation(async () => {
+			controller.abort();
+			return "resp_0";
+		});
+
+		await expect(ask(chains, controller.signal)).rejects.toBeInstanceOf(CooCancelledError);
+		expect(await chains.getHead("note.md")).toBeUndefined();
+		expect(chatCompletion).not.toHaveBeenCalled();
+	});
+
+	it("advances the head when not cancelled", async () => {
+		const { chains } = makeStore({});
+		await chains.setSnapshot("note.md", "resp_1", "Note", "openai");
+		vi.mocked(chatCompletion).mockResolvedValue({ text: "A", responseId: "resp_2" });
+
+		await ask(chains, new AbortController().signal);
+		expect(await chains.getHead("note.md")).toBe("resp_2");
+	});
+});
+
+describe("classifySnapshot", () => {
+	const original = "P1\n\nP2\n\nP3\n\nP4";
+	const entry: ChainEntry = {
+		head: "resp_1",
+		snapshot: snapshotOf(original),
+		snapshotAt: 0,
+		updatedAt: 0,
+		provider: "openai",
+	};
+
+	it("is unregistered without an entry", () => {
+		expect(classifySnapshot(undefined, original)).toBe("unregistered");
+	});
+
+	it("is unknown for a legacy entry with no snapshot", () => {
+		expect(classifySnapshot({ ...entry, snapshot: [] }, original)).toBe("unknown");
+	});
+
+	it("is fresh, changed or stale by divergence", () => {
+		expect(classifySnapshot(entry, original)).toBe("fresh");
+		expect(classifySnapshot(entry, "P1\n\nP2!\n\nP3\n\nP4")).toBe("changed");
+		expect(classifySnapshot(entry, "X\n\nY\n\nZ\n\nP4")).toBe("stale");
+	});
+});
+
+describe("askChained snapshot refresh", () => {
+	const settings = makeSettings();
+	const original = "P1\n\nP2\n\nP3\n\nP4";
 
-	it("returns undefined when no chain file exists", async () => {
-		const { app } = makeApp({});
-		expect(await getChainHead(app, dir, "note.md")).toBeUndefined();
+	beforeEach(() => {
+		vi.mocked(chatCompletion).mockReset();
+		vi.mocked(registerNote).mockReset();
+		vi.mocked(updateNoteSnapshot).mockReset();
+		vi.mocked(chatCompletion).mockResolvedValue({ text: "A", responseId: "resp_ans" });
 	});
 
-	it("stores and retrieves a chain head", async () => {
-		const { app } = makeApp({});
-		await setChainHead(app, dir, "note.md", "resp_1");
-		expect(await getChainHead(app, dir, "note.md")).toBe("resp_1");
+	function ask(chains: ChainStore, document: string) {
+		return askChained({
+			chains,
+			notePath: "note.md",
+			noteText: document,
+			history: { document, pairs: [] },
+			settings,
+			systemPrompt: "SYS",
+			userPrompt: "Q",
+		});
+	}
+
+	it("chains straight from the head when the note is unchanged", async () => {
+		const { chains } = makeStore({});
+		await chains.setSnapshot("note.md", "resp_1", original, "openai");
+		await ask(chains, original);
+		expect(registerNote).not.toHaveBeenCalled();
+		expect(updateNoteSnapshot).not.toHaveBeenCalled();
+		expect(vi.mocked(chatCompletion).mock.calls[0]?.[0].previousResponseId).toBe("resp_1");
+	});
+
+	it("sends only the changed paragraphs for a small edit", async () => {
+		const { chains } = makeStore({});
+		await chains.setSnapshot("note.md", "resp_1", original, "openai");
+		vi.mocked(updateNoteSnapshot).mockResolvedValue("resp_upd");
+
+		await ask(chains, "P1\n\nP2 edited\n\nP3\n\nP4");
+
+		const [, prev, input] = vi.mocked(updateNoteSnapshot).mock.calls[0] ?? [];
+		expect(prev).toBe("resp_1");
+		expect(input).toContain("P2 edited");
+		expect(input).not.toContain("P3");
+		expect(input).toContain("Paragraphs removed: 1");
+		expect(vi.mocked(chatCompletion).mock.calls[0]?.[0].previousResponseId).toBe("resp_upd");
+		expect(await chains.getHead("note.md")).toBe("resp_ans");
 	});
 
-	it("advances the chain head on subsequent sets", async () => {
-		const { app } = makeApp({});
-		await setChainHead(app, dir, "note.md", "resp_1");
-		await setChainHead(app, dir, "note.md", "resp_2");
-		expect(await getChainHead(app, dir, "note.md")).toBe("resp_2");
+	it("re-registers when the snapshot update finds the head expired", async () => {
+		const { chains } = makeStore({});
+		await chains.setSnapshot("note.md", "resp_1", original, "openai");
+		vi.mocked(updateNoteSnapshot).mockRejectedValue(new CooApiError(400, "Bad request"));
+		vi.mocked(registerNote).mockResolvedValue("resp_reg");
+
+		await ask(chains, "P1\n\nP2 edited\n\nP3\n\nP4");
+
+		expect(registerNote).toHaveBeenCalledOnce();
+		expect(vi.mocked(chatCompletion).mock.calls[0]?.[0].previousResponseId).toBe("resp_reg");
+	});
+
+	it("re-registers when the note has diverged past the threshold", async () => {
+		const { chains } = makeStore({});
+		await chains.setSnapshot("note.md", "resp_1", original, "openai");
+		vi.mocked(registerNote).mockResolvedValue("resp_reg");
+
+		await ask(chains, "New 1\n\nNew 2\n\nNew 3\n\nP4");
+
+		expect(registerNote).toHaveBeenCalledOnce();
+		expect(updateNoteSnapshot).not.toHaveBeenCalled();
+		expect(vi.mocked(chatCompletion).mock.calls[0]?.[0].previousResponseId).toBe("resp_reg");
+		const entry = await chains.get("note.md");
+		expect(entry?.snapshot).toHaveLength(4);
 	});
 
-	it("clears the chain head", async () => {
-		const { app } = makeApp({});
-		await setChainHead(app, dir, "note.md", "resp_1");
-		await clearChain(app, dir, "note.md");
-		expect(await getChainHead(app, dir, "note.md")).toBeUndefined();
+	it("branches from the given response instead of the head", async () => {
+		const { chains } = makeStore({});
+		await chains.setSnapshot("note.md", "resp_head", original, "openai");
+		await askChained({
+			chains,
+			notePath: "note.md",
+			noteText: original,
+			history: { document: original, pairs: [] },
+			settings,
+			systemPrompt: "SYS",
+			userPrompt: "Q",
+			branchFrom: "resp_old_answer",
+		});
+		expect(vi.mocked(chatCompletion).mock.calls[0]?.[0].previousResponseId).toBe("resp_old_answer");
+		expect(await chains.getHead("note.md")).toBe("resp_ans");
 	});
 
-	it("keeps chains separate per note path", async () => {
-		const { app } = makeApp({});
-		await setChainHead(app, dir, "a.md", "resp_a");
-		await setChainHead(app, dir, "b.md", "resp_b");
-		expect(await getChainHead(app, dir, "a.md")).toBe("resp_a");
-		expect(await getChainHead(app, dir, "b.md")).toBe("resp_b");
+	it("applies a snapshot update onto the branch", async () => {
+		const { chains } = makeStore({});
+		await chains.setSnapshot("note.md", "resp_head", original, "openai");
+		vi.mocked(updateNoteSnapshot).mockResolvedValue("resp_upd");
+		await askChained({
+			chains,
+			notePath: "note.md",
+			noteText: "",
+			history: { document: "P1\n\nP2 edited\n\nP3\n\nP4", pairs: [] },
+			settings,
+			systemPrompt: "SYS",
+			userPrompt: "Q",
+			branchFrom: "resp_branch",
+		});
+		expect(vi.mocked(updateNoteSnapshot).mock.calls[0]?.[1]).toBe("resp_branch");
+		expect(vi.mocked(chatCompletion).mock.calls[0]?.[0].previousResponseId).toBe("resp_upd");
 	});
 
-	it("preserves other notes when clearing one", async () => {
-		const { app } = makeApp({});
-		await setChainHead(app, dir, "a.md", "resp_a");
-		await setChainHead(app, dir, "b.md", "resp_b");
-		await clearChain(app, dir, "a.md");
-		expect(await getChainHead(app, dir, "a.md")).toBeUndefined();
-		expect(await getChainHead(app, dir, "b.md")).toBe("resp_b");
+	it("keeps the snapshot when the update went onto a branch", async () => {
+		const { chains } = makeStore({});
+		await chains.setSnapshot("note.md", "resp_head", original, "openai");
+		vi.mocked(updateNoteSnapshot).mockResolvedValue("resp_upd");
+		const edited = "P1\n\nP2 edited\n\nP3\n\nP4";
+		const askFrom = (branchFrom: string) =>
+			askChained({
+				chains,
+				notePath: "note.md",
+				noteText: "",
+				history: { document: edited, pairs: [] },
+				settings,
+				systemPrompt: "SYS",
+				userPrompt: "Q",
+				branchFrom,
+			});
+		await askFrom("resp_a");
+		await askFrom("resp_b");
+		expect(vi.mocked(updateNoteSnapshot).mock.calls.map((call) => call[1])).toEqual(["resp_a", "resp_b"]);
+		expect((await chains.get("note.md"))?.snapshot).toEqual(snapshotOf(original));
 	});
 
-	it("writes a valid JSON map keyed by note path", async () => {
-		const { app, store } = makeApp({});
-		await setChainHead(app, dir, "note.md", "resp_1");
-		const parsed = JSON.parse(store[CHAIN_PATH] ?? "{}") as Record<string, string>;
-		expect(parsed["note.md"]).toBe("resp_1");
+	it("re-registers a legacy chain with no snapshot", async () => {
+		const { chains } = makeStore({ [CHAIN_PATH]: JSON.stringify({ "note.md": "resp_old" }) });
+		vi.mocked(registerNote).mockResolvedValue("resp_reg");
+		await ask(chains, original);
+		expect(registerNote).toHaveBeenCalledOnce();
 	});
 
-	it("recovers from a corrupt chain file", async () => {
-		const { app } = makeApp({ [CHAIN_PATH]: "not json" });
-		expect(await getChainHead(app, dir, "note.md")).toBeUndefined();
+	it("registers with the given registration prompt", async () => {
+		const { chains } = makeStore({});
+		vi.mocked(registerNote).mockResolvedValue("resp_reg");
+		await askChained({
+			chains,
+			notePath: "note.md",
+			noteText: original,
+			history: { document: original, pairs: [] },
+			settings,
+			systemPrompt: "SYS",
+			userPrompt: "Q",
+			registerPrompt: "REGISTER",
+		});
+		expect(vi.mocked(registerNote).mock.calls[0]?.[4]).toBe("REGISTER");
 	});
 
-	it("ignores a non-object chain file", async () => {
-		const { app } = makeApp({ [CHAIN_PATH]: "[1, 2, 3]" });
-		expect(await getChainHead(app, dir, "note.md")).toBeUndefined();
+	it("applies reasoning and web-search overrides to the answer call", async () => {
+		const { chains } = makeStore({});
+		await chains.setSnapshot("note.md", "resp_1", original, "openai");
+		await askChained({
+			chains,
+			notePath: "note.md",
+			noteText: original,
+			history: { document: original, pairs: [] },
+			settings,
+			systemPrompt: "SYS",
+			userPrompt: "Q",
+			reasoningEffort: "high",
+			webSearchEnabled: true,
+		});
+		const call = vi.mocked(chatCompletion).mock.calls[0]?.[0];
+		expect(call?.reasoningEffort).toBe("high");
+		expect(call?.webSearchEnabled).toBe(true);
+	});
+});
+
+describe("askChained in local conversation mode", () => {
+	const settings = makeSettings({ conversationMode: "local" });
+
+	beforeEach(() => {
+		vi.mocked(chatCompletion).mockReset();
+		vi.mocked(registerNote).mockReset();
+	});
+
+	it("sends the note and its Q&A as explicit unstored turns, without registering", async () => {
+		const { chains, adapter } = makeStore({});
+		vi.mocked(chatCompletion).mockResolvedValue({ text: "A", responseId: "resp_x" });
+
+		await askChained({
+			chains,
+			notePath: "note.md",
+			noteText: "Note",
+			history: { document: "Note", pairs: [{ question: "Q1?", answer: "A1" }] },
+			settings,
+			systemPrompt: "SYS",
+			userPrompt: "Q2",
+		});
+
+		expect(registerNote).not.toHaveBeenCalled();
+		const call = vi.mocked(chatCompletion).mock.calls[0]?.[0];
+		expect(call?.store).toBe(false);
+		expect(call?.previousResponseId).toBeUndefined();
+		expect(call?.userPrompt).toBe("Q2");
+		expect(call?.history?.map((m) => m.content)).toEqual([
+			"<document>\nNote\n</document>",
+			"I've received the document.",
+			"Q1?",
+			"A1",
+		]);
+		expect(adapter.write).not.toHaveBeenCalled();
+	});
+
+	it("is used for providers without chaining even when set to server", async () => {
+		const { chains } = makeStore({});
+		vi.mocked(chatCompletion).mockResolvedValue({ text: "A", responseId: "" });
+
+		await askChained({
+			chains,
+			notePath: "note.md",
+			noteText: "Note",
+			history: { document: "Note", pairs: [] },
+			settings: { ...settings, provider: "ollama", conversationMode: "server" },
+			systemPrompt: "SYS",
+			userPrompt: "Q",
+		});
+
+		expect(registerNote).not.toHaveBeenCalled();
+		expect(vi.mocked(chatCompletion).mock.calls[0]?.[0].store).toBe(false);
 	});
 });
@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import type { Citation } from "../src/ai-client";
+import { renderCitations, shiftCitations } from "../src/citations";
+import { hashText } from "../src/snapshot";
+
+const SEED = "resp_1";
+const LABEL = `coo-${hashText(SEED).slice(0, 6)}`;
+
+// OpenAI-style answer: the model's own inline link, which the span covers.
+const LINKED = "Rain is likely ([example.com](https://example.com/a)).";
+const linkedCitation: Citation = {
+	url: "https://example.com/a",
+	title: "Forecast",
+	start: LINKED.indexOf("[example"),
+	end: LINKED.indexOf(")") + 1,
+};
+
+// Prose span: the cited sentence itself.
+const PROSE = "Rain is likely. Wind too.";
+const proseCitations: Citation[] = [
+	{ url: "https://a.example", title: "A", start: 0, end: 15 },
+	{ url: "https://www.b.example/x", title: "B", start: 16, end: 25 },
+	{ url: "https://a.example", title: "A", start: 16, end: 25 },
+];
+
+describe("shiftCitations", () => {
+	it("moves spans and leaves unpositioned citations alone", () => {
+		expect(
+			shiftCitations(
+				[
+					{ url: "u", title: "", start: 5, end: 8 },
+					{ url: "v", title: "" },
+				],
+				-2,
+			),
+		).toEqual([
+			{ url: "u", title: "", start: 3, end: 6 },
+			{ url: "v", title: "" },
+		]);
+	});
+});
+
+describe("renderCitations", () => {
+	it("returns the text unchanged without citations", () => {
+		expect(renderCitations("Text.", [], "footnotes", SEED)).toBe("Text.");
+	});
+
+	it("replaces the model's inline link with a footnote", () => {
+		expect(renderCitations(LINKED, [linkedCitation], "footnotes", SEED)).toBe(
+			`Rain is likely[^${LABEL}-1].\n\n[^${LABEL}-1]: [Forecast](https://example.com/a)`,
+		);
+	});
+
+	it("numbers footnotes by first appearance and reuses a URL's number", () => {
+		expect(renderCitations(PROSE, proseCitations, "footnotes", SEED)).toBe(
+			`Rain is likely.[^${LABEL}-1] Wind too.[^${LABEL}-2][^${LABEL}-1]\n\n` +
+				`[^${LABEL}-1]: [A](https://a.example)\n` +
+				`[^${LABEL}-2]: [B](https://www.b.example/x)`,
+		);
+	});
+
+	it("gives each answer its own footnote labels", () => {
+		const a = renderCitations(LINKED, [linkedCitation], "footnotes", "resp_1");
+		const b = renderCitations(LINKED, [linkedCitation], "footnotes", "resp_2");
+		expect(a).not.toBe(b);
+	});
+
+	it("keeps the model's inline links for the links style", () => {
+		expect(renderCitations(LINKED, [linkedCitation], "links", SEED)).toBe(LINKED);
+	});
+
+	it("adds host links after prose spans for the links style", () => {
+		expect(renderCitations(PROSE, proseCitations.slice(0, 2), "links", SEED)).toBe(
+			"Rain is likely. ([a.example](https://a.example)) Wind too. ([b.example](https://www.b.example/x))",
+		);
+	});
+
+	it("removes the model's inline links when hidden", () => {
+		expect(renderCitations(LINKED, [linkedCitation], "hidden", SEED)).toBe(
+			"Rain is likely.",
+		);
+		expect(renderCitations(PROSE, proseCitations, "hidden", SEED)).toBe(PROSE);
+	});
+
+	it("lists citations without a position as sources, once per URL", () => {
+		const streamed: Citation[] = [
+			{ url: "https://a.example", title: "A" },
+			{ url: "https://a.example", title: "A" },
+			{ url: "https://b.example", title: "" },
+		];
+		expect(renderCitations("Answer.", streamed, "footnotes", SEED)).toBe(
+			"Answer.\n\n**Sources**\n1. [A](https://a.example)\n2. [b.example](https://b.example)",
+		);
+		expect(renderCitations("Answer.", streamed, "hidden", SEED)).toBe("Answer.");
+	});
+
+	it("treats out-of-range spans as unpositioned", () => {
+		expect(
+			renderCitations("Short.", [{ url: "https://a.example", title: "A", start: 2, end: 99 }], "footnotes", SEED),
+		).toBe("Short.\n\n**Sources**\n1. [A](https://a.example)");
+	});
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import {
+	applySegments,
+	countHunks,
+	diffSegments,
+	diffWords,
+	tokenize,
+} from "../src/diff";
+
+describe("tokenize", () => {
+	it("splits words, whitespace and punctuation", () => {
+		expect(tokenize("Hello,  world's end.")).toEqual(["Hello", ",", "  ", "world's", " ", "end", "."]);
+	});
+
+	it("treats each CJK character as a word", () => {
+		expect(tokenize("表达力 ok")).toEqual(["表", "达", "力", " ", "ok"]);
+	});
+});
+
+describe("diffWords", () => {
+	it("returns a single equal part for identical text", () => {
+		expect(diffWords("Same text.", "Same text.")).toEqual([{ op: "equal", text: "Same text." }]);
+	});
+
+	it("marks a replaced word as delete then insert", () => {
+		expect(diffWords("The quick fox.", "The slow fox.")).toEqual([
+			{ op: "equal", text: "The " },
+			{ op: "delete", text: "quick" },
+			{ op: "insert", text: "slow" },
+			{ op: "equal", text: " fox." },
+		]);
+	});
+
+	it("reconstructs both texts", () => {
+		const before = "One two three four five.\n\nSix seven.";
+		const after = "One 2 three five, and more.\n\nSix seven eight.";
+		const parts = diffWords(before, after);
+		const side = (skip: string) =>
+			parts.filter((p) => p.op !== skip).map((p) => p.text).join("");
+		expect(side("insert")).toBe(before);
+		expect(side("delete")).toBe(after);
+	});
+});
+
+describe("diffSegments", () => {
+	it("merges changes separated only by whitespace into one hunk", () => {
+		const segments = diffSegments("a big red dog", "a small blue dog");
+		expect(countHunks(segments)).toBe(1);
+		expect(segments[1]).toEqual({ kind: "change", hunk: 0, before: "big red", after: "small blue" });
+	});
+
+	it("keeps changes separated by words as separate hunks", () => {
+		const segments = diffSegments("one two three", "uno two tres");
+		expect(countHunks(segments)).toBe(2);
+	});
+});
+
+describe("applySegments", () => {
+	const before = "Alpha beta.\n\nGamma delta.";
+	const after = "Alpha BETA.\n\nGamma DELTA.";
+	const segments = diffSegments(before, after);
+
+	it("gives the rewrite with every hunk accepted", () => {
+		expect(applySegments(segments, new Set([0, 1]))).toBe(after);
+	});
+
+	it("gives the original with none accepted", () => {
+		expect(applySegments(segments, new Set())).toBe(before);
+	});
+
+	it("takes accepted hunks only", () => {
+		expect(applySegments(segments, new Set([1]))).toBe("Alpha beta.\n\nGamma DELTA.");
+	});
+});
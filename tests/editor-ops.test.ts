@@ -9,12 +9,31 @@ import {
 	findCalloutContaining,
 	getCalloutQaPairs,
 	getCalloutBody,
+	getCalloutResponseId,
 	appendCallout,
 	appendCalloutAfter,
 	replaceParagraphAndRemoveCallouts,
 	insertTranslationAfter,
+	insertTranslation,
+	parseRubySegments,
+	formatRuby,
+	findTooltips,
+	formatTooltip,
+	nextFootnoteLabel,
 	highlightSelection,
 	normalizeMathDelimiters,
+	findCalloutInsertLine,
+	StreamingCallout,
+	getNoteHistory,
+	getTextAround,
+	getCooBlockId,
+	splitCooBlockId,
+	ensureCooBlockId,
+	detachCallouts,
+	attachCallouts,
+	getCalloutRef,
+	getNoteThreads,
+	removeCallout,
 } from "../src/editor-ops";
 
 /**
@@ -65,6 +84,13 @@ class MockEditor {
 		return idx + pos.ch;
 	}
 
+	getValue(): string {
+		return this.lines.join("\n");
+	}
+	getRange(from: EditorPosition, to: EditorPosition): string {
+		return this.lines.join("\n").slice(this.toIndex(from), this.toIndex(to));
+	}
+
 	replaceRange(text: string, from: EditorPosition, to?: EditorPosition): void {
 		const flat = this.lines.join("\n");
 		const fromIdx = this.toIndex(from);
@@ -313,6 +339,18 @@ describe("appendCallout", () => {
 		]);
 	});
 
+	it("records the response id as a hidden last body line", () => {
+		const editor = new MockEditor({ lines: ["P"] });
+		appendCallout(asEditor(editor), 0, "Q?", "a", { responseId: "resp_1" });
+		expect(editor.lines).toEqual([
+			"P",
+			"",
+			"> [!coo]- Q?",
+			"> a",
+			"> %%coo-id: resp_1%%",
+		]);
+	});
+
 	it("appends a second callout after the first", () => {
 		const editor = new MockEditor({
 			lines: ["P", "", "> [!coo]- Q1?", "> a1"],
@@ -406,6 +444,176 @@ describe("appendCallout", () => {
 			"> The synthetic $y$ is a reserve.",
 		]);
 	});
+
+	it("renders citations as footnotes inside the callout, before the id line", () => {
+		const editor = new MockEditor({ lines: ["P"] });
+		appendCallout(asEditor(editor), 0, "Q?", "It rains.", {
+			responseId: "resp_1",
+			citations: [{ url: "https://example.com", title: "Ex", start: 0, end: 9 }],
+			citationStyle: "footnotes",
+		});
+		expect(editor.lines.slice(3)).toEqual([
+			expect.stringMatching(/^> It rains\.\[\^coo-\w{6}-1\]$/),
+			">",
+			expect.stringMatching(/^> \[\^coo-\w{6}-1\]: \[Ex\]\(https:\/\/example\.com\)$/),
+			"> %%coo-id: resp_1%%",
+		]);
+	});
+});
+
+describe("getTextAround", () => {
+	const editor = new MockEditor({
+		lines: ["Before one.", "", "Passage.", "", "> [!coo]- Q?", "> a", "", "After one.", "", "After two."],
+	});
+
+	it("leaves out the passage and the callouts", () => {
+		expect(getTextAround(asEditor(editor), 2, 2, 1000)).toBe(
+			"Before one.\n\nAfter one.\n\nAfter two.",
+		);
+	});
+
+	it("takes the text nearest the passage and gives a short side's budget to the other", () => {
+		expect(getTextAround(asEditor(editor), 2, 2, 30)).toBe(
+			"Before one.\n\nAfter one.\n\nAfter t…",
+		);
+		expect(getTextAround(asEditor(editor), 2, 2, 20)).toBe("…efore one.\n\nAfter one.…");
+		expect(getTextAround(asEditor(editor), 0, 2, 6)).toBe("After …");
+	});
+});
+
+describe("getNoteHistory", () => {
+	it("lifts every coo callout out of the document as Q&A, in order", () => {
+		const editor = new MockEditor({
+			lines: [
+				"# Title",
+				"",
+				"P1",
+				"",
+				"> [!coo]- Q1?",
+				"> a1",
+				"",
+				"> [!coo]- [Minor] Q2?",
+				"> a2",
+				"",
+				"P2",
+				"",
+				"> [!coo]- Q3?",
+				"> a3",
+			],
+		});
+		const history = getNoteHistory(asEditor(editor));
+		expect(history.document).toBe("# Title\n\nP1\n\nP2");
+		expect(history.pairs).toEqual([
+			{ question: "Q1?", answer: "a1" },
+			{ question: "Q2?", answer: "a2" },
+			{ question: "Q3?", answer: "a3" },
+		]);
+	});
+
+	it("keeps other callout types in the document", () => {
+		const editor = new MockEditor({ lines: ["> [!note] Keep", "> me"] });
+		const history = getNoteHistory(asEditor(editor));
+		expect(history.document).toBe("> [!note] Keep\n> me");
+		expect(history.pairs).toEqual([]);
+	});
+
+	it("skips callouts with no body", () => {
+		const editor = new MockEditor({ lines: ["P", "", "> [!coo]- Q?"] });
+		expect(getNoteHistory(asEditor(editor)).pairs).toEqual([]);
+	});
+
+	it("leaves response ids out of the answers", () => {
+		const editor = new MockEditor({
+			lines: ["P", "", "> [!coo]- Q?", "> a", "> %%coo-id: resp_1%%"],
+		});
+		expect(getNoteHistory(asEditor(editor)).pairs).toEqual([
+			{ question: "Q?", answer: "a" },
+		]);
+	});
+
+	it("drops coo block ids from the document", () => {
+		const editor = new MockEditor({ lines: ["P1 ^coo-abc123", "", "P2 ^other"] });
+		expect(getNoteHistory(asEditor(editor)).document).toBe("P1\n\nP2 ^other");
+	});
+});
+
+describe("coo block ids", () => {
+	it("reads and splits off only coo block ids", () => {
+		expect(getCooBlockId("Text. ^coo-abc123")).toBe("coo-abc123");
+		expect(getCooBlockId("Text. ^mine")).toBeNull();
+		expect(getCooBlockId("Text.^coo-abc123")).toBeNull();
+		expect(splitCooBlockId("- Item ^coo-x1  ")).toEqual({ text: "- Item", blockId: "coo-x1" });
+		expect(splitCooBlockId("Plain")).toEqual({ text: "Plain", blockId: null });
+	});
+
+	it("appends a block id once and then reuses it", () => {
+		const editor = new MockEditor({ lines: ["Line one", "Line two  ", "", "Next"] });
+		expect(ensureCooBlockId(asEditor(editor), 1, () => "coo-new1")).toBe("coo-new1");
+		expect(editor.lines[1]).toBe("Line two ^coo-new1");
+		expect(ensureCooBlockId(asEditor(editor), 1, () => "coo-other")).toBe("coo-new1");
+		expect(editor.lines[1]).toBe("Line two ^coo-new1");
+	});
+});
+
+describe("detachCallouts / attachCallouts", () => {
+	const note = [
+		"# Title",
+		"",
+		"P1",
+		"",
+		"> [!coo]- Q1?",
+		"> a1",
+		"> %%coo-id: resp_1%%",
+		"",
+		"> [!coo]- [Minor] Q2?",
+		"> a2",
+		"",
+		"P2 ^coo-keep",
+		"",
+		"> [!coo]- Q3?",
+		"> a3",
+		"",
+		"P3",
+	];
+
+	it("lifts callouts out and anchors them to their paragraphs", () => {
+		const ids = ["coo-aaa"];
+		const { text, callouts } = detachCallouts(
+			asEditor(new MockEditor({ lines: note })),
+			() => ids.shift() ?? "coo-zzz",
+		);
+		expect(text).toBe("# Title\n\nP1 ^coo-aaa\n\nP2 ^coo-keep\n\nP3");
+		expect(callouts).toEqual([
+			{ block: "coo-aaa", question: "Q1?", answer: "a1", responseId: "resp_1" },
+			{ block: "coo-aaa", question: "[Minor] Q2?", answer: "a2" },
+			{ block: "coo-keep", question: "Q3?", answer: "a3" },
+		]);
+	});
+
+	it("round-trips back into the same note", () => {
+		const { text, callouts } = detachCallouts(
+			asEditor(new MockEditor({ lines: note })),
+			() => "coo-aaa",
+		);
+		const restored = attachCallouts(
+			asEditor(new MockEditor({ lines: text.split("\n") })),
+			callouts,
+		);
+		expect(restored).toBe(note.join("\n").replace("P2 ^coo-keep", "P2"));
+	});
+
+	it("puts callouts after existing ones, and orphans at the end", () => {
+		const editor = new MockEditor({
+			lines: ["P ^coo-p", "", "> [!coo]- Old?", "> old", "Tight"],
+		});
+		const text = attachCallouts(asEditor(editor), [
+			{ block: "coo-p", question: "New?", answer: "new" },
+			{ block: "coo-gone", question: "Lost?", answer: "lost" },
+		]);
+		expect(text).toBe(
+			"P\n\n> [!coo]- Old?\n> old\n\n> [!coo]- New?\n> new\n\nTight\n\n> [!coo]- Lost?\n> lost",
+		);
+	});
 });
 
 describe("findCalloutContaining", () => {
@@ -495,6 +703,108 @@ describe("getCalloutBody", () => {
 		const editor = new MockEditor({ lines: ["> [!coo]- Q?"] });
 		expect(getCalloutBody(asEditor(editor), { startLine: 0, endLine: 0 })).toBe("");
 	});
+
+	it("leaves out the hidden response-id line", () => {
+		const editor = new MockEditor({
+			lines: ["> [!coo]- Q?", "> the answer", "> %%coo-id: resp_1%%"],
+		});
+		expect(getCalloutBody(asEditor(editor), { startLine: 0, endLine: 2 })).toBe(
+			"the answer",
+		);
+	});
+});
+
+describe("getCalloutResponseId", () => {
+	it("reads the response id recorded in a callout", () => {
+		const editor = new MockEditor({
+			lines: ["> [!coo]- Q?", "> a", "> %%coo-id: resp_abc%%"],
+		});
+		expect(getCalloutResponseId(asEditor(editor), { startLine: 0, endLine: 2 })).toBe(
+			"resp_abc",
+		);
+	});
+
+	it("returns null for a callout without one", () => {
+		const editor = new MockEditor({ lines: ["> [!coo]- Q?", "> a"] });
+		expect(getCalloutResponseId(asEditor(editor), { startLine: 0, endLine: 1 })).toBeNull();
+	});
+
+	it("round-trips the id written by appendCallout", () => {
+		const editor = new MockEditor({ lines: ["P"] });
+		appendCallout(asEditor(editor), 0, "Q?", "a", { responseId: "resp_rt" });
+		const [block] = findCalloutBlocks(asEditor(editor), 0);
+		expect(block && getCalloutResponseId(asEditor(editor), block)).toBe("resp_rt");
+		expect(block && getCalloutBody(asEditor(editor), block)).toBe("a");
+	});
+});
+
+describe("getNoteThreads", () => {
+	it("groups callouts by paragraph and nests drill-downs under their parent", () => {
+		const editor = new MockEditor({
+			lines: [
+				"P1 line one",
+				"P1 line two",
+				"",
+				"> [!coo]- Why?",
+				"> Because.",
+				"> %%coo-id: resp_1%%",
+				"",
+				"> [!coo]- [Minor] Deeper?",
+				"> Deeper answer.",
+				"> %%coo-parent: resp_1%%",
+				"",
+				"P2",
+				"",
+				"> [!coo]- What?",
+				"> That.",
+			],
+		});
+		const groups = getNoteThreads(asEditor(editor));
+		expect(groups.map((g) => g.paragraph)).toEqual([
+			{ startLine: 0, endLine: 1 },
+			{ startLine: 11, endLine: 11 },
+		]);
+		const [why] = groups[0]?.threads ?? [];
+		expect(why).toMatchObject({ question: "Why?", answer: "Because.", ref: "resp_1" });
+		expect(why?.children).toHaveLength(1);
+		expect(why?.children[0]).toMatchObject({
+			question: "Deeper?",
+			answer: "Deeper answer.",
+			minor: true,
+			block: { startLine: 7, endLine: 9 },
+		});
+		expect(groups[1]?.threads.map((t) => t.question)).toEqual(["What?"]);
+	});
+
+	it("nests by the answer hash in local mode, and keeps orphans top-level", () => {
+		const editor = new MockEditor({ lines: ["P", "", "> [!coo]- Q?", "> A."] });
+		const ref = getCalloutRef(asEditor(editor), { startLine: 2, endLine: 3 });
+		expect(ref).toMatch(/^h-/);
+		appendCalloutAfter(asEditor(editor), 3, "Child?", "C.", { parent: ref });
+		appendCalloutAfter(asEditor(editor), editor.lineCount() - 1, "Orphan?", "O.", {
+			parent: "resp_gone",
+		});
+		const [group] = getNoteThreads(asEditor(editor));
+		expect(group?.threads.map((t) => t.question)).toEqual(["Q?", "Orphan?"]);
+		expect(group?.threads[0]?.children.map((t) => t.question)).toEqual(["Child?"]);
+	});
+
+	it("leaves out callouts above any text", () => {
+		const editor = new MockEditor({ lines: ["> [!coo]- Q?", "> A."] });
+		expect(getNoteThreads(asEditor(editor))).toEqual([]);
+	});
+});
+
+describe("removeCallout", () => {
+	it("removes a callout with the blank line above it", () => {
+		const editor = new MockEditor({
+			lines: ["P", "", "> [!coo]- Q1?", "> A1.", "", "> [!coo]- Q2?", "> A2.", "", "Next"],
+		});
+		removeCallout(asEditor(editor), { startLine: 5, endLine: 6 });
+		expect(editor.lines).toEqual(["P", "", "> [!coo]- Q1?", "> A1.", "", "Next"]);
+		removeCallout(asEditor(editor), { startLine: 2, endLine: 3 });
+		expect(editor.lines).toEqual(["P", "", "Next"]);
+	});
 });
 
 describe("appendCalloutAfter", () => {
@@ -565,6 +875,73 @@ describe("appendCalloutAfter", () => {
 	});
 });
 
+describe("findCalloutInsertLine", () => {
+	it("returns the paragraph end when there are no callouts", () => {
+		const editor = new MockEditor({ lines: ["P", "", "Next"] });
+		expect(findCalloutInsertLine(asEditor(editor), 0)).toBe(0);
+	});
+
+	it("returns the last callout's end line", () => {
+		const editor = new MockEditor({
+			lines: ["P", "", "> [!coo]- Q1?", "> a1", "", "> [!coo]- Q2?", "> a2", "", "Next"],
+		});
+		expect(findCalloutInsertLine(asEditor(editor), 0)).toBe(6);
+	});
+});
+
+describe("StreamingCallout", () => {
+	it("inserts an expanded callout immediately and grows it with each delta", () => {
+		const editor = new MockEditor({ lines: ["P", "", "Next"] });
+		const stream = new StreamingCallout(asEditor(editor), 0, "Q?");
+		expect(editor.lines).toEqual(["P", "", "> [!coo]+ Q?", "", "Next"]);
+
+		stream.append("Line one");
+		stream.append("\n\nLine");
+		stream.append(" two");
+		expect(editor.lines).toEqual([
+			"P",
+			"",
+			"> [!coo]+ Q?",
+			"> Line one",
+			">",
+			"> Line two",
+			"",
+			"Next",
+		]);
+	});
+
+	it("finishes as a collapsed callout with normalized math", () => {
+		const editor = new MockEditor({ lines: ["P"] });
+		const stream = new StreamingCallout(asEditor(editor), 0, "Q?");
+		stream.append("See \\(x\\)");
+		stream.finish("[Minor] Q?", "See \\(x\\)");
+		expect(editor.lines).toEqual(["P", "", "> [!coo]- [Minor] Q?", "> See $x$"]);
+	});
+
+	it("separates the callout from a following tight list item", () => {
+		const editor = new MockEditor({ lines: ["1. one", "3. three"] });
+		const stream = new StreamingCallout(asEditor(editor), 0, "Q?");
+		stream.append("a");
+		stream.finish("Q?", "a");
+		expect(editor.lines).toEqual(["1. one", "", "> [!coo]- Q?", "> a", "", "3. three"]);
+	});
+
+	it("abort removes everything it wrote", () => {
+		const editor = new MockEditor({ lines: ["P", "", "Next"] });
+		const stream = new StreamingCallout(asEditor(editor), 0, "Q?");
+		stream.append("partial\nanswer");
+		stream.abort();
+		expect(editor.lines).toEqual(["P", "", "Next"]);
+	});
+
+	it("finish with an empty answer leaves the note unchanged", () => {
+		const editor = new MockEditor({ lines: ["P"] });
+		const stream = new StreamingCallout(asEditor(editor), 0, "Q?");
+		stream.finish("Q?", "   ");
+		expect(editor.lines).toEqual(["P"]);
+	});
+});
+
 describe("replaceParagraphAndRemoveCallouts", () => {
 	it("replaces the paragraph and removes the callout block", () => {
 		const editor = new MockEditor({
@@ -633,6 +1010,103 @@ describe("insertTranslationAfter", () => {
 	});
 });
 
+describe("insertTranslation", () => {
+	const selection = (line: number, from: number, to: number) =>
+		[{ line, ch: from }, { line, ch: to }] as const;
+
+	it("replaces the selection, keeping its surrounding spaces", () => {
+		const editor = new MockEditor({ lines: ["a hello world"] });
+		const [from, to] = selection(0, 1, 8);
+		expect(insertTranslation(asEditor(editor), from, to, " hello ", "hola\n", "replace")).toBe(true);
+		expect(editor.lines).toEqual(["a hola world"]);
+	});
+
+	it("leaves the note alone when the selection changed", () => {
+		const editor = new MockEditor({ lines: ["goodbye world"] });
+		const [from, to] = selection(0, 0, 5);
+		expect(insertTranslation(asEditor(editor), from, to, "hello", "hola", "tooltip")).toBe(false);
+		expect(editor.lines).toEqual(["goodbye world"]);
+	});
+
+	it("leaves the note alone for a footnote when the selection changed", () => {
+		const editor = new MockEditor({ lines: ["goodbye world", ""] });
+		const [from, to] = selection(0, 0, 5);
+		expect(insertTranslation(asEditor(editor), from, to, "hello", "hola", "footnote")).toBe(false);
+		expect(editor.lines).toEqual(["goodbye world", ""]);
+	});
+
+	it("adds a numbered footnote at the end of the note", () => {
+		const editor = new MockEditor({ lines: ["hello world[^tr-1]", "", "[^tr-1]: mundo", ""] });
+		const [from, to] = selection(0, 0, 5);
+		insertTranslation(asEditor(editor), from, to, "hello", "hola", "footnote");
+		expect(editor.lines).toEqual([
+			"hello[^tr-2] world[^tr-1]",
+			"",
+			"[^tr-1]: mundo",
+			"",
+			"[^tr-2]: hola",
+			"",
+		]);
+	});
+
+	it("writes ruby readings and a tooltip", () => {
+		const editor = new MockEditor({ lines: ["漢字を読む", "hello"] });
+		insertTranslation(asEditor(editor), { line: 0, ch: 0 }, { line: 0, ch: 5 }, "漢字を読む", "漢字|かんじ\nを|\n読む|よむ", "ruby");
+		insertTranslation(asEditor(editor), { line: 1, ch: 0 }, { line: 1, ch: 5 }, "hello", 'a "hi"', "tooltip");
+		expect(editor.lines).toEqual([
+			"<ruby>漢字<rt>かんじ</rt></ruby>を<ruby>読む<rt>よむ</rt></ruby>",
+			'<span class="coo-tooltip" title="a &quot;hi&quot;">hello</span>',
+		]);
+	});
+
+	it("puts a line below the paragraph, naming the original unless it is the whole paragraph", () => {
+		const editor = new MockEditor({ lines: ["Hello there,", "world.", "", "Bye."] });
+		insertTranslation(asEditor(editor), { line: 0, ch: 0 }, { line: 0, ch: 5 }, "Hello", "Hola", "below");
+		insertTranslation(asEditor(editor), { line: 4, ch: 0 }, { line: 4, ch: 4 }, "Bye.", "Adiós.", "below");
+		expect(editor.lines).toEqual(["Hello there,", "world.", "Hello — Hola", "", "Bye.", "Adiós."]);
+	});
+});
+
+describe("parseRubySegments / formatRuby", () => {
+	it("restores the spaces between segments from the passage", () => {
+		const segments = parseRubySegments("我|wǒ\n爱|ài\nObsidian|", "我爱 Obsidian");
+		expect(formatRuby(segments)).toBe("<ruby>我<rt>wǒ</rt></ruby><ruby>爱<rt>ài</rt></ruby> Obsidian");
+	});
+
+	it("annotates the whole passage when the segments don't spell it out", () => {
+		expect(parseRubySegments("hola mundo", "hello world")).toEqual([
+			{ base: "hello world", annotation: "hola mundo" },
+		]);
+		expect(parseRubySegments("hello|hola", "hello world")).toEqual([
+			{ base: "hello world", annotation: "hola" },
+		]);
+	});
+});
+
+describe("findTooltips / nextFootnoteLabel", () => {
+	it("escapes the base text of ruby and tooltips", () => {
+		expect(formatRuby([{ base: "a<b", annotation: "x & y" }])).toBe(
+			"<ruby>a&lt;b<rt>x &amp; y</rt></ruby>",
+		);
+		const text = formatTooltip("Vec<T>", "vector");
+		expect(text).toBe('<span class="coo-tooltip" title="vector">Vec&lt;T&gt;</span>');
+		expect(findTooltips(text)).toHaveLength(1);
+	});
+
+	it("finds tooltips with their text span and translation", () => {
+		const text = `Say ${formatTooltip("hello", "hola & <adiós>")}.`;
+		const [tooltip] = findTooltips(text);
+		expect(tooltip?.translation).toBe("hola & <adiós>");
+		expect(text.slice(tooltip?.textFrom, tooltip?.textTo)).toBe("hello");
+		expect(text.slice(tooltip?.to)).toBe(".");
+	});
+
+	it("numbers translation footnotes after the highest one", () => {
+		expect(nextFootnoteLabel("a[^1] b[^tr-3] c[^tr-1]")).toBe("tr-4");
+		expect(nextFootnoteLabel("none")).toBe("tr-1");
+	});
+});
+
 describe("highlightSelection", () => {
 	it("wraps a mid-line selection with == markers", () => {
 		const editor = new MockEditor({ lines: ["the quantum field"] });
@@ -0,0 +1,121 @@
+import { describe, it, expect } from "vitest";
+import {
+	collectFlashcards,
+	flashcardExportPath,
+	formatFlashcards,
+	type Flashcard,
+} from "../src/flashcards";
+
+const NOTE = [
+	"Paragraph.",
+	"",
+	"> [!coo]- What is a prior?",
+	"> The belief before seeing data.",
+	"> %%coo-id: resp_1%%",
+	"",
+	"> [!coo]- [Minor] Typo?",
+	"> Yes.",
+	"",
+	"> [!coo]- No answer yet?",
+].join("\n");
+
+const cards: Flashcard[] = [
+	{ question: "What is a prior?", answer: "The belief, before data.", minor: false, notePath: "stats/bayes.md" },
+	{ question: 'Why "odds"?', answer: "Line one.\n\nLine two.", minor: false, notePath: "stats/bayes.md" },
+	{ question: "When?", answer: "Then.", minor: true, notePath: "history/rome notes.md" },
+];
+
+describe("collectFlashcards", () => {
+	it("collects callouts and sidecar answers, skipping empty ones", () => {
+		const collected = collectFlashcards(
+			[
+				{
+					notePath: "a.md",
+					document: NOTE,
+					sidecar: [
+						{ question: "[Minor] Aside?", answer: "Brief." },
+						{ question: "Sidecar?", answer: " Kept. " },
+					],
+				},
+			],
+			true,
+		);
+		expect(collected.map((c) => [c.question, c.answer, c.minor])).toEqual([
+			["What is a prior?", "The belief before seeing data.", false],
+			["Typo?", "Yes.", true],
+			["Aside?", "Brief.", true],
+			["Sidecar?", "Kept.", false],
+		]);
+	});
+
+	it("leaves out minor answers unless asked", () => {
+		const collected = collectFlashcards([{ notePath: "a.md", document: NOTE }], false);
+		expect(collected.map((c) => c.question)).toEqual(["What is a prior?"]);
+	});
+});
+
+describe("formatFlashcards", () => {
+	it("writes Anki CSV with a header, quoting and <br> line breaks", () => {
+		expect(formatFlashcards(cards, "csv")).toBe(
+			[
+				"#separator:Comma",
+				"#html:true",
+				"#tags column:3",
+				'What is a prior?,"The belief, before data.",stats/bayes',
+				'"Why ""odds""?",Line one.<br><br>Line two.,stats/bayes',
+				"When?,Then.,history/rome_notes",
+				"",
+			].join("\n"),
+		);
+	});
+
+	it("escapes HTML in Anki fields", () => {
+		const code: Flashcard = {
+			question: "What is Vec<T>?",
+			answer: "A list; a < b && b > c.\nSee <b>docs</b>.",
+			minor: false,
+			notePath: "rust.md",
+		};
+		expect(formatFlashcards([code], "tsv").split("\n")[3]).toBe(
+			"What is Vec&lt;T&gt;?\tA list; a &lt; b &amp;&amp; b &gt; c.<br>See &lt;b&gt;docs&lt;/b&gt;.\trust",
+		);
+	});
+
+	it("writes Anki TSV", () => {
+		const lines = formatFlashcards(cards, "tsv").split("\n");
+		expect(lines[0]).toBe("#separator:Tab");
+		expect(lines[3]).toBe("What is a prior?\tThe belief, before data.\tstats/bayes");
+	});
+
+	it("writes Spaced Repetition cards, multi-line for longer answers", () => {
+		expect(formatFlashcards(cards.slice(0, 2), "spaced-repetition")).toBe(
+			'#flashcards\n\nWhat is a prior?::The belief, before data.\n\nWhy "odds"?\n?\nLine one.\nLine two.\n',
+		);
+	});
+
+	it("writes a review note grouped by source note", () => {
+		expect(formatFlashcards(cards, "review-note")).toBe(
+			[
+				"## [[stats/bayes]]",
+				"",
+				"> [!question]- What is a prior?\n> The belief, before data.",
+				"",
+				'> [!question]- Why "odds"?\n> Line one.\n>\n> Line two.',
+				"",
+				"## [[history/rome notes]]",
+				"",
+				"> [!question]- When?\n> Then.",
+				"",
+			].join("\n"),
+		);
+	});
+});
+
+describe("flashcardExportPath", () => {
+	it("sets the format's extension and numbers a taken path", () => {
+		expect(flashcardExportPath("coo/cards.md", "csv")).toBe("coo/cards.csv");
+		const taken = new Set(["coo/cards.csv", "coo/cards 2.csv"]);
+		expect(flashcardExportPath("coo/cards", "csv", (p) => taken.has(p))).toBe("coo/cards 3.csv");
+		expect(flashcardExportPath("coo/cards", "review-note", (p) => taken.has(p))).toBe("coo/cards.md");
+	});
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import {
+	findGlossaryTerms,
+	formatGlossary,
+	glossaryLines,
+	parseGlossary,
+} from "../src/glossary";
+
+describe("parseGlossary", () => {
+	it("reads terms for every language and for one language", () => {
+		const text = [
+			"# Physics",
+			"",
+			"- qubit = qubit",
+			"ja: entanglement = 量子もつれ",
+			"1. pt-br: spin = spin eletrônico",
+			"not an entry",
+			"= nothing",
+		].join("\n");
+		expect(parseGlossary(text)).toEqual([
+			{ language: "", source: "qubit", translation: "qubit" },
+			{ language: "ja", source: "entanglement", translation: "量子もつれ" },
+			{ language: "pt-BR", source: "spin", translation: "spin eletrônico" },
+		]);
+	});
+
+	it("round-trips through formatGlossary", () => {
+		const text = "qubit = qubit\nja: entanglement = 量子もつれ";
+		expect(formatGlossary(parseGlossary(text))).toBe(text);
+	});
+});
+
+describe("findGlossaryTerms", () => {
+	const entries = parseGlossary(
+		["qubit = Qubit", "ja: qubit = 量子ビット", "fr: entanglement = intrication", "spin = spin"].join("\n"),
+	);
+
+	it("keeps the terms in the passage, for the target language", () => {
+		expect(findGlossaryTerms(entries, "fr", "Entanglement of a Qubit")).toEqual([
+			{ language: "", source: "qubit", translation: "Qubit" },
+			{ language: "fr", source: "entanglement", translation: "intrication" },
+		]);
+	});
+
+	it("prefers an entry for the language over one for every language", () => {
+		expect(findGlossaryTerms(entries, "ja", "a qubit")).toEqual([
+			{ language: "ja", source: "qubit", translation: "量子ビット" },
+		]);
+	});
+
+	it("lets a later entry override an earlier one", () => {
+		const more = [...entries, { language: "", source: "spin", translation: "Spin" }];
+		expect(findGlossaryTerms(more, "de", "spin")).toEqual([
+			{ language: "", source: "spin", translation: "Spin" },
+		]);
+	});
+});
+
+describe("glossaryLines", () => {
+	it("lists terms as prompt lines", () => {
+		expect(glossaryLines(parseGlossary("a = b\nc = d"))).toBe("- a → b\n- c → d");
+		expect(glossaryLines([])).toBe("");
+	});
+});
@@ -0,0 +1,37 @@
+import { vi } from "vitest";
+import type { DataAdapter } from "obsidian";
+import type { CooSettings } from "../src/types";
+import { DEFAULT_SETTINGS } from "../src/settings-utils";
+
+/** Settings for a test: the defaults with an API key set, plus `overrides`. */
+export function makeSettings(overrides: Partial<CooSettings> = {}): CooSettings {
+	return { ...DEFAULT_SETTINGS, apiKey: "key", ...overrides };
+}
+
+/**
+ * An in-memory DataAdapter over `files` (path → content). Each write bumps
+ * the file's mtime, like a real filesystem; `externalWrite` rewrites a file
+ * behind the store's back, as vault sync would.
+ */
+export function makeAdapter(initial: Record<string, string> = {}) {
+	const files: Record<string, string> = { ...initial };
+	const mtimes: Record<string, number> = {};
+	let clock = 1;
+	for (const p of Object.keys(files)) mtimes[p] = clock++;
+	const mock = {
+		exists: vi.fn(async (p: string) => p in files),
+		stat: vi.fn(async (p: string) =>
+			p in files ? { type: "file", ctime: 0, mtime: mtimes[p], size: 0 } : null,
+		),
+		read: vi.fn(async (p: string) => files[p] ?? ""),
+		write: vi.fn(async (p: string, c: string) => {
+			files[p] = c;
+			mtimes[p] = clock++;
+		}),
+	};
+	const externalWrite = (p: string, content: string): void => {
+		files[p] = content;
+		mtimes[p] = clock++;
+	};
+	return { adapter: mock as unknown as DataAdapter, mock, files, externalWrite };
+}
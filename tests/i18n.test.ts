@@ -0,0 +1,48 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { CATALOGS, findCatalog, setUiLanguage, t, type MessageKey } from "../src/i18n";
+import { en } from "../src/locales/en";
+import { BUILT_IN_LANGUAGES } from "../src/languages";
+
+const keys = Object.keys(en) as MessageKey[];
+const placeholders = (message: string): string[] =>
+	[...message.matchAll(/\{(\w+)\}/g)].map((m) => m[1] as string).sort();
+
+afterEach(() => setUiLanguage("en"));
+
+describe("catalogs", () => {
+	for (const [tag, catalog] of Object.entries(CATALOGS)) {
+		it(`${tag} covers every key with the same placeholders`, () => {
+			const missing = keys.filter((key) => !catalog[key]?.trim());
+			expect(missing).toEqual([]);
+			for (const key of keys) {
+				expect(placeholders(catalog[key] ?? ""), key).toEqual(placeholders(en[key]));
+			}
+			expect(Object.keys(catalog).filter((key) => !(key in en))).toEqual([]);
+		});
+	}
+
+	it("are all built-in languages", () => {
+		const builtIn = BUILT_IN_LANGUAGES.map((l) => l.tag);
+		for (const tag of Object.keys(CATALOGS)) expect(builtIn).toContain(tag);
+	});
+});
+
+describe("t", () => {
+	it("uses the active language and fills placeholders", () => {
+		setUiLanguage("ja");
+		expect(t("composer.ask")).toBe("質問");
+		expect(t("notice.movedToSidecar", { count: 3 })).toBe("3 件の回答をサイドカーに移動しました。");
+	});
+
+	it("falls back by primary subtag, then to English", () => {
+		expect(findCatalog("de-AT")).toBe(CATALOGS.de);
+		expect(findCatalog("ZH-tw")).toBe(CATALOGS["zh-TW"]);
+		expect(findCatalog("zh-HK")).toBe(CATALOGS.zh);
+		setUiLanguage("th");
+		expect(t("composer.ask")).toBe("Ask");
+	});
+
+	it("leaves unknown placeholders alone", () => {
+		expect(t("notice.exported", { count: 2 })).toBe("Exported 2 flashcards to {path}.");
+	});
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect, vi } from "vitest";
+import { JsonFileStore } from "../src/json-file-store";
+import { makeAdapter } from "./helpers";
+
+const PATH = "/plugin/data.json";
+
+function parse(raw: string | null): string[] {
+	return raw === null ? [] : (JSON.parse(raw) as string[]);
+}
+
+function makeStore(initial: Record<string, string> = {}, debounceMs = 1000) {
+	const { adapter, mock, files } = makeAdapter(initial);
+	const store = new JsonFileStore(adapter, PATH, parse, debounceMs);
+	return { store, adapter: mock, files };
+}
+
+describe("JsonFileStore", () => {
+	it("loads the file once, on first use", async () => {
+		const { store, adapter } = makeStore({ [PATH]: '["a"]' });
+		expect(store.peek()).toBeNull();
+		expect(await store.read((data) => [...data])).toEqual(["a"]);
+		await store.read((data) => data.length);
+		expect(adapter.read).toHaveBeenCalledOnce();
+		expect(store.peek()).toEqual(["a"]);
+	});
+
+	it("debounces changes into one write and skips unchanged ones", async () => {
+		vi.useFakeTimers();
+		try {
+			const { store, adapter, files } = makeStore();
+			await store.mutate((data) => data.push("a") > 0);
+			await store.mutate((data) => data.push("b") > 0);
+			expect(await store.mutate(() => false)).toBe(false);
+			expect(adapter.write).not.toHaveBeenCalled();
+			await vi.advanceTimersByTimeAsync(1000);
+			expect(adapter.write).toHaveBeenCalledOnce();
+			expect(files[PATH]).toBe('["a","b"]');
+		} finally {
+			vi.useRealTimers();
+		}
+	});
+
+	it("flush writes a change queued right before it", async () => {
+		const { store, files } = makeStore({}, 60_000);
+		const change = store.mutate((data) => data.push("a") > 0);
+		await store.flush();
+		await change;
+		expect(files[PATH]).toBe('["a"]');
+	});
+
+	it("reports a failed background save and keeps the change pending", async () => {
+		vi.useFakeTimers();
+		try {
+			const { store, adapter, files } = makeStore();
+			const onSaveError = vi.fn();
+			store.onSaveError = onSaveError;
+			adapter.write.mockRejectedValueOnce(new Error("disk full"));
+
+			await store.mutate((data) => data.push("a") > 0);
+			await vi.advanceTimersByTimeAsync(1000);
+			expect(onSaveError).toHaveBeenCalledWith(new Error("disk full"));
+
+			await store.flush();
+			expect(files[PATH]).toBe('["a"]');
+		} finally {
+			vi.useRealTimers();
+		}
+	});
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import type { CooSettings, Language } from "../src/types";
+import {
+	BUILT_IN_LANGUAGES,
+	findLanguage,
+	getLanguages,
+	getResponseLanguage,
+	getTranslateLanguage,
+	migrateLanguageTag,
+	normalizeTag,
+	validateLanguage,
+} from "../src/languages";
+
+const swissGerman: Language = {
+	tag: "gsw",
+	name: "Swiss German",
+	nativeName: "Schwiizerdütsch",
+	defaultQuestion: "Was heisst das?",
+	direction: "ltr",
+};
+
+describe("BUILT_IN_LANGUAGES", () => {
+	it("has unique tags and a name, native name and default question for each", () => {
+		const tags = BUILT_IN_LANGUAGES.map((l) => l.tag.toLowerCase());
+		expect(new Set(tags).size).toBe(tags.length);
+		for (const language of BUILT_IN_LANGUAGES) {
+			expect(language.name.trim()).not.toBe("");
+			expect(language.nativeName.trim()).not.toBe("");
+			expect(language.defaultQuestion.trim()).not.toBe("");
+			expect(validateLanguage(language)).toEqual([]);
+		}
+	});
+
+	it("keeps the original default questions", () => {
+		const question = (tag: string) => findLanguage(tag, BUILT_IN_LANGUAGES).defaultQuestion;
+		expect(question("en")).toBe("What does this mean?");
+		expect(question("es")).toBe("¿Qué significa esto?");
+		expect(question("fr")).toBe("Qu'est-ce que ça veut dire ?");
+		expect(question("zh")).toBe("这是什么意思？");
+		expect(question("ja")).toBe("どういう意味？");
+	});
+});
+
+describe("getLanguages / findLanguage", () => {
+	it("appends custom languages and lets one replace a built-in", () => {
+		const germanQuestion = { ...BUILT_IN_LANGUAGES[3], defaultQuestion: "Was heißt das?" } as Language;
+		const languages = getLanguages([swissGerman, { ...germanQuestion, tag: "DE" }]);
+		expect(languages).toHaveLength(BUILT_IN_LANGUAGES.length + 1);
+		expect(findLanguage("de", languages).defaultQuestion).toBe("Was heißt das?");
+		expect(languages[languages.length - 1]).toBe(swissGerman);
+	});
+
+	it("falls back to the primary subtag, then English", () => {
+		expect(findLanguage("de-AT", BUILT_IN_LANGUAGES).name).toBe("German");
+		expect(findLanguage("PT-br", BUILT_IN_LANGUAGES).name).toBe("Brazilian Portuguese");
+		expect(findLanguage("xx", BUILT_IN_LANGUAGES).name).toBe("English");
+	});
+
+	it("resolves the response and translation languages from settings", () => {
+		const settings = {
+			responseLanguage: "gsw",
+			translateLanguage: "ko",
+			customLanguages: [swissGerman],
+		} as unknown as CooSettings;
+		expect(getResponseLanguage(settings).name).toBe("Swiss German");
+		expect(getTranslateLanguage(settings).nativeName).toBe("한국어");
+	});
+});
+
+describe("normalizeTag / validateLanguage / migrateLanguageTag", () => {
+	it("normalizes tag casing and separators", () => {
+		expect(normalizeTag(" PT_br ")).toBe("pt-BR");
+		expect(normalizeTag("zh-hant-tw")).toBe("zh-Hant-TW");
+	});
+
+	it("rejects a malformed tag and empty fields", () => {
+		expect(validateLanguage({ ...swissGerman, tag: "Swiss German", name: " ", defaultQuestion: "" })).toHaveLength(3);
+	});
+
+	it("maps translation languages saved by name to tags", () => {
+		expect(migrateLanguageTag("Chinese")).toBe("zh");
+		expect(migrateLanguageTag("Japanese")).toBe("ja");
+		expect(migrateLanguageTag("pt-BR")).toBe("pt-BR");
+	});
+});
@@ -0,0 +1,204 @@
+import { describe, it, expect } from "vitest";
+import {
+	columnsTranslation,
+	findHeadingSection,
+	interleaveTranslation,
+	isTranslatable,
+	splitNoteBlocks,
+	translatedNote,
+	translatedNotePath,
+	type NoteBlock,
+} from "../src/note-translation";
+
+const NOTE = [
+	"---",
+	"tags: [demo]",
+	"---",
+	"# Title",
+	"",
+	"First paragraph,",
+	"on two lines.",
+	"",
+	"```js",
+	"const x = 1;",
+	"",
+	"```",
+	"",
+	"$$",
+	"a^2 + b^2",
+	"$$",
+	"",
+	"- one",
+	"- [ ] two",
+	"  continued",
+	"",
+	"> Quoted",
+	"> text",
+	"",
+	"> [!coo]- Why?",
+	"> Because.",
+	"",
+	"| a | b |",
+	"| - | - |",
+	"",
+	"![[image.png]]",
+	"",
+	"## Part",
+	"",
+	"Last.",
+].join("\n");
+
+/** A translation for every translated block: its body in upper case. */
+function upper(blocks: NoteBlock[]): Array<string | undefined> {
+	return blocks.map((b) => (isTranslatable(b) ? b.body.toUpperCase() : undefined));
+}
+
+describe("splitNoteBlocks", () => {
+	it("partitions the note", () => {
+		const blocks = splitNoteBlocks(NOTE);
+		expect(blocks.map((b) => b.text).join("\n")).toBe(NOTE);
+	});
+
+	it("translates prose and keeps code, math, callouts, tables and embeds", () => {
+		const blocks = splitNoteBlocks(NOTE).filter((b) => b.kind !== "blank");
+		expect(blocks.map((b) => [b.kind, b.body])).toEqual([
+			["frontmatter", ""],
+			["heading", "Title"],
+			["paragraph", "First paragraph,\non two lines."],
+			["keep", ""],
+			["keep", ""],
+			["item", "one"],
+			["item", "two\ncontinued"],
+			["quote", "Quoted\ntext"],
+			["keep", ""],
+			["keep", ""],
+			["keep", ""],
+			["heading", "Part"],
+			["paragraph", "Last."],
+		]);
+	});
+
+	it("records each block's prefix and first line", () => {
+		const blocks = splitNoteBlocks(NOTE);
+		const todo = blocks.find((b) => b.body.startsWith("two"));
+		expect(todo).toMatchObject({ prefix: "- [ ] ", line: 18 });
+		expect(blocks.find((b) => b.kind === "quote")?.prefix).toBe("> ");
+	});
+
+	it("does not mistake a rule at the top for frontmatter", () => {
+		const blocks = splitNoteBlocks("---\nText.");
+		expect(blocks.map((b) => b.kind)).toEqual(["keep", "paragraph"]);
+	});
+});
+
+describe("findHeadingSection", () => {
+	const blocks = splitNoteBlocks("# A\n\nIntro.\n\n## B\n\nInside.\n\n### C\n\nDeeper.\n\n## D\n\nOther.");
+
+	it("runs to the next heading of the same or a higher level", () => {
+		const range = findHeadingSection(blocks, 6);
+		expect(range).not.toBeNull();
+		const text = blocks
+			.slice(range?.start, range?.end)
+			.map((b) => b.text)
+			.join("\n");
+		expect(text).toBe("## B\n\nInside.\n\n### C\n\nDeeper.\n");
+	});
+
+	it("is null above the first heading", () => {
+		expect(findHeadingSection(splitNoteBlocks("Text.\n\n# A"), 0)).toBeNull();
+	});
+});
+
+describe("interleaveTranslation", () => {
+	it("follows each block with its translation", () => {
+		const blocks = splitNoteBlocks("# Title\n\nText.\n\n- item\n\n> quote\n\n```\ncode\n```");
+		expect(interleaveTranslation(blocks, upper(blocks))).toBe(
+			[
+				"# Title / TITLE",
+				"",
+				"Text.",
+				"",
+				"TEXT.",
+				"",
+				"- item",
+				"  ITEM",
+				"",
+				"> quote",
+				">",
+				"> QUOTE",
+				"",
+				"```",
+				"code",
+				"```",
+			].join("\n"),
+		);
+	});
+
+	it("leaves blocks without a translation as they are", () => {
+		const blocks = splitNoteBlocks("One.\n\nTwo.");
+		expect(interleaveTranslation(blocks, [undefined, undefined, "ZWEI."])).toBe(
+			"One.\n\nTwo.\n\nZWEI.",
+		);
+	});
+});
+
+describe("columnsTranslation", () => {
+	it("puts runs of blocks in tables and keeps headings and code between them", () => {
+		const blocks = splitNoteBlocks("# Title\n\nOne | two.\n\n- item\n\n```\ncode\n```\n\nLast.\n");
+		expect(columnsTranslation(blocks, upper(blocks), ["Original", "Deutsch"])).toBe(
+			[
+				"# Title / TITLE",
+				"",
+				"| Original | Deutsch |",
+				"| --- | --- |",
+				"| One \\| two. | ONE \\| TWO. |",
+				"| • item | ITEM |",
+				"",
+				"```",
+				"code",
+				"```",
+				"",
+				"| Original | Deutsch |",
+				"| --- | --- |",
+				"| Last. | LAST. |",
+				"",
+			].join("\n"),
+		);
+	});
+
+	it("writes a block's lines as line breaks in its cell", () => {
+		const blocks = splitNoteBlocks("Line one\nline two");
+		expect(columnsTranslation(blocks, ["EINS\nZWEI"], ["A", "B"])).toBe(
+			"| A | B |\n| --- | --- |\n| Line one<br>line two | EINS<br>ZWEI |",
+		);
+	});
+});
+
+describe("translatedNote", () => {
+	it("adds the backlink to existing frontmatter", () => {
+		const blocks = splitNoteBlocks("---\ntags: [a]\n---\n# Title\n\n- item\n\n$$x$$");
+		expect(translatedNote(blocks, upper(blocks), "[[Notes/Source]]")).toBe(
+			'---\ntags: [a]\ntranslated-from: "[[Notes/Source]]"\n---\n# TITLE\n\n- ITEM\n\n$$x$$',
+		);
+	});
+
+	it("starts a frontmatter when there is none", () => {
+		const blocks = splitNoteBlocks("> Quote\n> more");
+		expect(translatedNote(blocks, ["ZITAT\nMEHR"], "[[Source]]")).toBe(
+			'---\ntranslated-from: "[[Source]]"\n---\n> ZITAT\n> MEHR',
+		);
+	});
+});
+
+describe("translatedNotePath", () => {
+	it("names the sibling note after the language", () => {
+		expect(translatedNotePath("Notes/Essay.md", "ja")).toBe("Notes/Essay (ja).md");
+	});
+
+	it("numbers the name past translations already there", () => {
+		const taken = new Set(["Notes/Essay (ja).md", "Notes/Essay (ja) 2.md"]);
+		expect(translatedNotePath("Notes/Essay.md", "ja", (p) => taken.has(p))).toBe(
+			"Notes/Essay (ja) 3.md",
+		);
+	});
+});
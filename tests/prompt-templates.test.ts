@@ -0,0 +1,157 @@
+import { describe, it, expect, vi } from "vitest";
+import type { DataAdapter } from "obsidian";
+import {
+	PromptTemplates,
+	TEMPLATE_ACTIONS,
+	validateTemplate,
+	fillTemplate,
+	stripFrontmatter,
+	noteTitleOf,
+} from "../src/prompt-templates";
+import {
+	getDefaultTemplate,
+	getBlockActionSystemPrompt,
+	getRewriteSystemPrompt,
+	getTranslateSystemPrompt,
+	getRegisterDocumentPrompt,
+} from "../src/prompts";
+import { setUiLanguage } from "../src/i18n";
+import { makeSettings } from "./helpers";
+
+const settings = makeSettings({ responseLanguage: "zh", translateLanguage: "ja" });
+
+function makeTemplates(files: Record<string, string>) {
+	const adapter = {
+		exists: vi.fn(async (p: string) => p in files),
+		read: vi.fn(async (p: string) => files[p] ?? ""),
+	};
+	return new PromptTemplates(adapter as unknown as DataAdapter);
+}
+
+describe("validateTemplate", () => {
+	it("accepts the action's own variables", () => {
+		expect(validateTemplate("ask", "Q: {{question}} on {{ noteTitle }} in {{language}}")).toEqual([]);
+	});
+
+	it("rejects variables the action doesn't offer", () => {
+		expect(validateTemplate("register", "{{question}} {{foo}} {{foo}}")).toEqual([
+			"unknown variable {{question}}",
+			"unknown variable {{foo}}",
+		]);
+	});
+
+	it("rejects unbalanced braces and empty templates", () => {
+		expect(validateTemplate("ask", "Hello {{question")).toEqual(["unbalanced {{ or }}"]);
+		expect(validateTemplate("ask", "  \n")).toEqual(["the template is empty"]);
+	});
+
+	it("words the problems in the UI language", () => {
+		setUiLanguage("de");
+		try {
+			expect(validateTemplate("ask", "{{foo}}")).toEqual(["unbekannte Variable {{foo}}"]);
+		} finally {
+			setUiLanguage("en");
+		}
+	});
+
+	it("accepts every built-in prompt as a template", () => {
+		for (const { action } of TEMPLATE_ACTIONS) {
+			expect(validateTemplate(action, getDefaultTemplate(action))).toEqual([]);
+		}
+	});
+});
+
+describe("fillTemplate", () => {
+	it("fills placeholders and empties missing values", () => {
+		expect(fillTemplate("{{question}} / {{ selection }}.", { question: "Why?" })).toBe("Why? / .");
+	});
+});
+
+describe("stripFrontmatter", () => {
+	it("drops a leading frontmatter block", () => {
+		expect(stripFrontmatter("---\ntags: [coo]\n---\n\nPrompt.\n")).toBe("Prompt.");
+		expect(stripFrontmatter("Prompt --- text")).toBe("Prompt --- text");
+	});
+});
+
+describe("noteTitleOf", () => {
+	it("strips folders and the .md extension", () => {
+		expect(noteTitleOf("notes/Deep Work.md")).toBe("Deep Work");
+	});
+});
+
+describe("getDefaultTemplate", () => {
+	it("fills to the built-in prompt for a non-English language", () => {
+		expect(fillTemplate(getDefaultTemplate("ask"), { language: "Simplified Chinese" })).toBe(
+			getBlockActionSystemPrompt("Simplified Chinese"),
+		);
+		expect(fillTemplate(getDefaultTemplate("translate"), { language: "Japanese" })).toBe(
+			getTranslateSystemPrompt("Japanese"),
+		);
+	});
+});
+
+describe("PromptTemplates", () => {
+	it("uses the built-in prompts without template files", async () => {
+		const templates = makeTemplates({});
+		expect(await templates.load("coo/prompts")).toEqual([]);
+		expect(templates.systemPrompt("ask", settings)).toBe(getBlockActionSystemPrompt("Simplified Chinese"));
+		expect(templates.systemPrompt("rewrite", settings)).toBe(getRewriteSystemPrompt("Simplified Chinese"));
+		expect(templates.systemPrompt("translate", settings)).toBe(getTranslateSystemPrompt("Japanese"));
+		expect(templates.systemPrompt("register", settings)).toBe(getRegisterDocumentPrompt());
+		expect(templates.status("ask")).toEqual({ kind: "built-in" });
+	});
+
+	it("fills a valid override with the request's variables", async () => {
+		const templates = makeTemplates({
+			"coo/prompts/ask.md": "---\nkind: prompt\n---\nAnswer {{question}} about {{noteTitle}} in {{language}}.",
+			"coo/prompts/translate.md": "Into {{language}}.",
+		});
+		await templates.load("/coo/prompts/");
+		expect(
+			templates.systemPrompt("ask", settings, { question: "why", noteTitle: "Note" }),
+		).toBe("Answer why about Note in Simplified Chinese.");
+		expect(templates.systemPrompt("translate", settings)).toBe("Into Japanese.");
+		expect(templates.status("ask")).toEqual({ kind: "custom" });
+	});
+
+	it("gives translate templates the glossary, placed or appended", async () => {
+		const glossary = "- qubit → 量子ビット";
+		expect(makeTemplates({}).systemPrompt("translate", settings, { glossary })).toBe(
+			getTranslateSystemPrompt("Japanese", glossary),
+		);
+
+		const placed = makeTemplates({ "p/translate.md": "Into {{language}}.\n{{glossary}}" });
+		await placed.load("p");
+		expect(placed.systemPrompt("translate", settings, { glossary })).toBe(`Into Japanese.\n${glossary}`);
+
+		const appended = makeTemplates({ "p/translate.md": "Into {{language}}." });
+		await appended.load("p");
+		expect(appended.systemPrompt("translate", settings, { glossary })).toContain(
+			`Into Japanese.\n\n<glossary>`,
+		);
+	});
+
+	it("falls back to the built-in prompt for an invalid template and reports it", async () => {
+		const templates = makeTemplates({ "p/rewrite.md": "Use {{question}}." });
+		expect(await templates.load("p")).toEqual([
+			{ action: "rewrite", problems: ["unknown variable {{question}}"] },
+		]);
+		expect(templates.systemPrompt("rewrite", settings)).toBe(getRewriteSystemPrompt("Simplified Chinese"));
+		expect(templates.status("rewrite").kind).toBe("invalid");
+	});
+
+	it("reads nothing when the folder is empty", async () => {
+		const templates = makeTemplates({ "ask.md": "Custom." });
+		await templates.load("");
+		expect(templates.status("ask")).toEqual({ kind: "built-in" });
+		expect(templates.pathOf("ask")).toBe("");
+	});
+
+	it("recognizes its template paths", async () => {
+		const templates = makeTemplates({});
+		await templates.load("coo/prompts");
+		expect(templates.isTemplatePath("coo/prompts/register.md")).toBe(true);
+		expect(templates.isTemplatePath("coo/prompts/other.md")).toBe(false);
+	});
+});
@@ -8,15 +8,26 @@ import {
 	getRegisterDocumentPrompt,
 	buildAskInput,
 	buildRewriteInput,
+	getRewriteTask,
+	REWRITE_MODES,
+	DEFAULT_SHORTEN_PERCENT,
 	buildTranslateInput,
+	buildNoteTranslateInput,
+	getNoteTranslateSystemPrompt,
+	withGlossary,
+	buildTransformInput,
+	getTransformSystemPrompt,
 	parseMinorTag,
+	buildLocalHistory,
+	buildSnapshotUpdateInput,
+	getSnapshotUpdatePrompt,
 } from "../src/prompts";
 
 describe("replaceLanguageTag", () => {
 	const template = "Hello.\n<language></language>\nWorld.";
 
 	it("removes the tag entirely for English", () => {
-		const result = replaceLanguageTag(template, "en");
+		const result = replaceLanguageTag(template, "English");
 		expect(result).not.toContain("<language>");
 		expect(result).not.toContain("</language>");
 		expect(result).toContain("Hello.");
@@ -24,22 +35,22 @@ describe("replaceLanguageTag", () => {
 	});
 
 	it("fills the tag for Chinese", () => {
-		const result = replaceLanguageTag(template, "zh");
+		const result = replaceLanguageTag(template, "Simplified Chinese");
 		expect(result).toContain("Always respond in Simplified Chinese.");
 	});
 
 	it("fills the tag for Japanese", () => {
-		const result = replaceLanguageTag(template, "ja");
+		const result = replaceLanguageTag(template, "Japanese");
 		expect(result).toContain("Always respond in Japanese.");
 	});
 
 	it("fills the tag for Spanish", () => {
-		const result = replaceLanguageTag(template, "es");
+		const result = replaceLanguageTag(template, "Spanish");
 		expect(result).toContain("Always respond in Spanish.");
 	});
 
 	it("fills the tag for French", () => {
-		const result = replaceLanguageTag(template, "fr");
+		const result = replaceLanguageTag(template, "French");
 		expect(result).toContain("Always respond in French.");
 	});
 });
@@ -66,14 +77,14 @@ describe("replaceTranslationLanguageTag", () => {
 
 describe("getBlockActionSystemPrompt", () => {
 	it("contains the passage scope and ask section for English", () => {
-		const result = getBlockActionSystemPrompt("en");
+		const result = getBlockActionSystemPrompt("English");
 		expect(result).toContain("<passage>");
 		expect(result).toContain("<ask>");
 		expect(result).not.toContain("Always respond in");
 	});
 
 	it("instructs the model to use $…$ math delimiters, not TeX \\(…\\)", () => {
-		const result = getBlockActionSystemPrompt("en");
+		const result = getBlockActionSystemPrompt("English");
 		expect(result).toContain("display math");
 		// Backslashes must survive the template literal — the model should see
 		// the literal \(...\) it is told to avoid, not (...).
@@ -82,13 +93,13 @@ describe("getBlockActionSystemPrompt", () => {
 	});
 
 	it("applies language directive for Chinese", () => {
-		const result = getBlockActionSystemPrompt("zh");
+		const result = getBlockActionSystemPrompt("Simplified Chinese");
 		expect(result).toContain("Always respond in Simplified Chinese.");
 		expect(result).toContain("<passage>");
 	});
 
 	it("applies language directive for Japanese", () => {
-		const result = getBlockActionSystemPrompt("ja");
+		const result = getBlockActionSystemPrompt("Japanese");
 		expect(result).toContain("Always respond in Japanese.");
 	});
 });
@@ -109,19 +120,19 @@ describe("getTranslateSystemPrompt", () => {
 
 describe("getRewriteSystemPrompt", () => {
 	it("contains rewrite rules for English", () => {
-		const result = getRewriteSystemPrompt("en");
+		const result = getRewriteSystemPrompt("English");
 		expect(result).toContain("revise a passage");
 		expect(result).not.toContain("Always respond in");
 	});
 
 	it("tells rewrite to keep math in $…$ / $$…$$ form", () => {
-		const result = getRewriteSystemPrompt("en");
+		const result = getRewriteSystemPrompt("English");
 		expect(result).toContain("$$…$$");
 		expect(result).toContain("\\(...\\)");
 	});
 
 	it("applies language directive for Chinese", () => {
-		const result = getRewriteSystemPrompt("zh");
+		const result = getRewriteSystemPrompt("Simplified Chinese");
 		expect(result).toContain("Always respond in Simplified Chinese.");
 	});
 });
@@ -201,6 +212,13 @@ describe("parseMinorTag", () => {
 		expect(isMinor).toBe(true);
 		expect(body).toBe("line one\nline two");
 	});
+
+	it("reports where the body starts in the text", () => {
+		const text = "**Minor** — GCC is a C compiler.";
+		const { body, offset } = parseMinorTag(text);
+		expect(text.slice(offset)).toBe(body);
+		expect(parseMinorTag("No tag.").offset).toBe(0);
+	});
 });
 
 describe("buildRewriteInput", () => {
@@ -225,6 +243,45 @@ describe("buildRewriteInput", () => {
 		expect(result).toContain("<passage>");
 		expect(result).not.toContain("<notes>");
 	});
+
+	it("orders task, passage, notes, context and instruction", () => {
+		const result = buildRewriteInput(
+			passage,
+			[{ question: "Q", answer: "A" }],
+			{ task: "Do it.", context: " Rest of note. ", instruction: " Keep it short. " },
+		);
+		const order = ["<task>", "<passage>", "<notes>", "<context>", "<instruction>"].map((tag) =>
+			result.indexOf(tag),
+		);
+		expect(order.every((at) => at >= 0)).toBe(true);
+		expect([...order].sort((a, b) => a - b)).toEqual(order);
+		expect(result).toContain("<context>\nRest of note.\n</context>");
+		expect(result).toContain("<instruction>\nKeep it short.\n</instruction>");
+	});
+
+	it("skips blank context and instruction", () => {
+		const result = buildRewriteInput(passage, [], { context: "  ", instruction: "" });
+		expect(result).toBe("<passage>\nSome paragraph text.\n</passage>");
+	});
+});
+
+describe("getRewriteTask", () => {
+	it("has a task for every mode", () => {
+		for (const { mode } of REWRITE_MODES) {
+			expect(getRewriteTask(mode)).not.toBe("");
+		}
+	});
+
+	it("clamps the shorten percentage and defaults it", () => {
+		expect(getRewriteTask("shorten")).toContain(`${DEFAULT_SHORTEN_PERCENT}%`);
+		expect(getRewriteTask("shorten", { percent: 150 })).toContain("90%");
+		expect(getRewriteTask("shorten", { percent: 0 })).toContain("1%");
+	});
+
+	it("defaults the tone to formal", () => {
+		expect(getRewriteTask("tone", { tone: "  " })).toContain("formal tone");
+		expect(getRewriteTask("tone", { tone: "playful" })).toContain("playful tone");
+	});
 });
 
 describe("buildTranslateInput", () => {
@@ -232,4 +289,100 @@ describe("buildTranslateInput", () => {
 		const result = buildTranslateInput("  entanglement  ");
 		expect(result).toBe("<passage>\nentanglement\n</passage>");
 	});
+
+	it("asks for segment|annotation lines when annotating with ruby", () => {
+		const result = buildTranslateInput("漢字", true);
+		expect(result).toContain("segment|annotation");
+		expect(result.endsWith("<passage>\n漢字\n</passage>")).toBe(true);
+	});
+});
+
+describe("withGlossary", () => {
+	it("adds the terms in a <glossary> section", () => {
+		const prompt = getTranslateSystemPrompt("Japanese", "- qubit → 量子ビット");
+		expect(prompt.startsWith(getTranslateSystemPrompt("Japanese"))).toBe(true);
+		expect(prompt).toContain("<glossary>\nTranslate these terms as given:\n- qubit → 量子ビット\n</glossary>");
+	});
+
+	it("leaves the prompt alone without terms", () => {
+		expect(withGlossary("Prompt.", "  ")).toBe("Prompt.");
+	});
+});
+
+describe("note translation prompt", () => {
+	it("always names the target language, English included", () => {
+		expect(getNoteTranslateSystemPrompt("English")).toContain(
+			"<translationlanguage>Translate into English.</translationlanguage>",
+		);
+	});
+
+	it("puts the section heading before the passage", () => {
+		expect(buildNoteTranslateInput(" Text. ", "Intro")).toBe(
+			"<section>\nIntro\n</section>\n\n<passage>\nText.\n</passage>",
+		);
+		expect(buildNoteTranslateInput("Text.")).toBe("<passage>\nText.\n</passage>");
+	});
+});
+
+describe("buildTransformInput", () => {
+	it("puts the instruction before the trimmed passage", () => {
+		expect(buildTransformInput("  Text.  ", " Simplify. ")).toBe(
+			"<instruction>\nSimplify.\n</instruction>\n\n<passage>\nText.\n</passage>",
+		);
+	});
+});
+
+describe("getTransformSystemPrompt", () => {
+	it("applies the response language", () => {
+		expect(getTransformSystemPrompt("English")).not.toContain("<language>");
+		expect(getTransformSystemPrompt("Japanese")).toContain("Always respond in Japanese.");
+	});
+});
+
+describe("buildLocalHistory", () => {
+	it("shares the document first, then each Q&A as a user/assistant exchange", () => {
+		const messages = buildLocalHistory({
+			document: "The note.",
+			pairs: [
+				{ question: "Q1?", answer: "A1" },
+				{ question: "Q2?", answer: "A2" },
+			],
+		});
+		expect(messages).toEqual([
+			{ role: "user", content: "<document>\nThe note.\n</document>" },
+			{ role: "assistant", content: "I've received the document." },
+			{ role: "user", content: "Q1?" },
+			{ role: "assistant", content: "A1" },
+			{ role: "user", content: "Q2?" },
+			{ role: "assistant", content: "A2" },
+		]);
+	});
+
+	it("sends just the document when there is no Q&A yet", () => {
+		expect(buildLocalHistory({ document: "Doc", pairs: [] })).toHaveLength(2);
+	});
+});
+
+describe("buildSnapshotUpdateInput", () => {
+	it("wraps each changed paragraph and notes removals", () => {
+		expect(buildSnapshotUpdateInput(["A", "B"], 2)).toBe(
+			"<changed>\n<paragraph>\nA\n</paragraph>\n<paragraph>\nB\n</paragraph>\n</changed>\n\nParagraphs removed: 2",
+		);
+	});
+
+	it("omits the removal line when nothing was removed", () => {
+		expect(buildSnapshotUpdateInput(["A"], 0)).not.toContain("removed");
+	});
+
+	it("sends no empty <changed> block for a removal-only edit", () => {
+		const input = buildSnapshotUpdateInput([], 1);
+		expect(input).not.toContain("<changed>");
+		expect(input).toContain("Paragraphs removed: 1");
+	});
+});
+
+describe("getSnapshotUpdatePrompt", () => {
+	it("has no language tag", () => {
+		expect(getSnapshotUpdatePrompt()).not.toContain("<language>");
+	});
 });
@@ -0,0 +1,453 @@
+import { describe, it, expect } from "vitest";
+import type { CooSettings } from "../src/types";
+import type { ChatCompletionParams } from "../src/ai-client";
+import { getProvider } from "../src/providers";
+import { extractApiError } from "../src/providers/shared";
+import { makeSettings } from "./helpers";
+
+function makeParams(
+	settings: CooSettings,
+	overrides: Partial<ChatCompletionParams> = {},
+): ChatCompletionParams {
+	return { settings, systemPrompt: "SYS", userPrompt: "USER", ...overrides };
+}
+
+describe("getProvider", () => {
+	it("only the OpenAI provider supports chaining", () => {
+		expect(getProvider(makeSettings()).supportsChaining).toBe(true);
+		for (const provider of ["openai-compatible", "anthropic", "ollama"] as const) {
+			expect(getProvider(makeSettings({ provider })).supportsChaining).toBe(false);
+		}
+	});
+
+	it("falls back to OpenAI for an unknown provider id", () => {
+		const settings = makeSettings({ provider: "bogus" as CooSettings["provider"] });
+		expect(getProvider(settings).label).toBe("OpenAI");
+	});
+});
+
+describe("OpenAI Responses provider", () => {
+	const provider = getProvider(makeSettings());
+
+	it("builds a Responses API request with chaining, reasoning and web search", () => {
+		const req = provider.buildRequest(
+			makeParams(makeSettings(), { previousResponseId: "resp_1" }),
+			false,
+		);
+		expect(req.url).toBe("https://api.openai.com/v1/responses");
+		expect(req.headers.Authorization).toBe("Bearer key");
+		expect(req.body).toMatchObject({
+			model: "gpt-5.6-terra",
+			input: "USER",
+			instructions: "SYS",
+			store: true,
+			previous_response_id: "resp_1",
+			reasoning: { effort: "low" },
+			tools: [{ type: "web_search" }],
+		});
+	});
+
+	it("omits reasoning and tools when overridden off", () => {
+		const req = provider.buildRequest(
+			makeParams(makeSettings(), {
+				reasoningEffort: "none",
+				webSearchEnabled: false,
+				store: false,
+			}),
+			false,
+		);
+		expect(req.body.reasoning).toBeUndefined();
+		expect(req.body.tools).toBeUndefined();
+		expect(req.body.store).toBe(false);
+	});
+
+	it("honors a base URL override, trimming trailing slashes", () => {
+		const req = provider.buildRequest(
+			makeParams(makeSettings({ baseUrl: "https://proxy.example/v1/" })),
+			false,
+		);
+		expect(req.url).toBe("https://proxy.example/v1/responses");
+	});
+
+	it("maps 401 to an API key message", () => {
+		expect(provider.mapHttpError(401, "")).toContain("Invalid API key");
+	});
+
+	it("sends explicit history as an input message list", () => {
+		const req = provider.buildRequest(
+			makeParams(makeSettings(), {
+				history: [
+					{ role: "user", content: "Q1" },
+					{ role: "assistant", content: "A1" },
+				],
+			}),
+			false,
+		);
+		expect(req.body.input).toEqual([
+			{ role: "user", content: "Q1" },
+			{ role: "assistant", content: "A1" },
+			{ role: "user", content: "USER" },
+		]);
+	});
+
+	it("sets stream: true for streaming requests", () => {
+		expect(provider.buildRequest(makeParams(makeSettings()), true).body.stream).toBe(true);
+	});
+
+	it("parses stream events", () => {
+		expect(
+			provider.parseStreamEvent(
+				JSON.stringify({ type: "response.created", response: { id: "resp_9" } }),
+			),
+		).toEqual({ responseId: "resp_9" });
+		expect(
+			provider.parseStreamEvent(
+				JSON.stringify({ type: "response.output_text.delta", delta: "Hel" }),
+			),
+		).toEqual({ delta: "Hel" });
+		expect(
+			provider.parseStreamEvent(
+				JSON.stringify({
+					type: "response.failed",
+					response: { error: { message: "boom" } },
+				}),
+			),
+		).toEqual({ error: "boom" });
+		expect(
+			provider.parseStreamEvent(JSON.stringify({ type: "response.in_progress" })),
+		).toBeNull();
+	});
+
+	it("reports token usage", () => {
+		const usage = { input_tokens: 120, output_tokens: 30 };
+		expect(
+			provider.parseResponse(JSON.stringify({ id: "r", output_text: "A", usage })).usage,
+		).toEqual({ inputTokens: 120, outputTokens: 30 });
+		expect(
+			provider.parseStreamEvent(
+				JSON.stringify({ type: "response.completed", response: { usage } }),
+			),
+		).toEqual({ usage: { inputTokens: 120, outputTokens: 30 } });
+	});
+
+	it("reads url_citation annotations, re-based onto the trimmed text", () => {
+		const text = "\nRain (example.com)";
+		const annotations = [
+			{ type: "url_citation", url: "https://example.com", title: "Ex", start_index: 6, end_index: 19 },
+			{ type: "file_citation", file_id: "f" },
+		];
+		const result = provider.parseResponse(
+			JSON.stringify({
+				id: "r",
+				output: [
+					{ type: "web_search_call" },
+					{ type: "message", content: [{ type: "output_text", text, annotations }] },
+				],
+			}),
+		);
+		expect(result.text).toBe("Rain (example.com)");
+		expect(result.citations).toEqual([
+			{ url: "https://example.com", title: "Ex", start: 5, end: 18 },
+		]);
+		expect(
+			provider.parseStreamEvent(
+				JSON.stringify({
+					type: "response.output_text.annotation.added",
+					annotation: annotations[0],
+				}),
+			),
+		).toEqual({
+			citation: { url: "https://example.com", title: "Ex", start: 6, end: 19 },
+		});
+	});
+
+	it("omits citations when there are none", () => {
+		expect(
+			provider.parseResponse(JSON.stringify({ id: "r", output_text: "A" })).citations,
+		).toBeUndefined();
+	});
+});
+
+describe("OpenAI-compatible provider", () => {
+	const settings = makeSettings({
+		provider: "openai-compatible",
+		baseUrl: "http://gpu-box:8000/v1",
+		customModel: "llama-3-70b",
+		apiKey: "",
+	});
+	const provider = getProvider(settings);
+
+	it("builds a Chat Completions request against the base URL", () => {
+		const req = provider.buildRequest(makeParams(settings), false);
+		expect(req.url).toBe("http://gpu-box:8000/v1/chat/completions");
+		expect(req.headers.Authorization).toBeUndefined();
+		expect(req.body).toEqual({
+			model: "llama-3-70b",
+			messages: [
+				{ role: "system", content: "SYS" },
+				{ role: "user", content: "USER" },
+			],
+		});
+	});
+
+	it("sends a bearer token when a key is set", () => {
+		const req = provider.buildRequest(makeParams({ ...settings, apiKey: "tok" }), false);
+		expect(req.headers.Authorization).toBe("Bearer tok");
+	});
+
+	it("throws when no model is configured", () => {
+		expect(() =>
+			provider.buildRequest(makeParams({ ...settings, customModel: "" }), false),
+		).toThrow("Model not configured");
+	});
+
+	it("parses the first choice", () => {
+		const result = provider.parseResponse(
+			JSON.stringify({
+				id: "chatcmpl-1",
+				choices: [{ message: { content: "  Hi there  " } }],
+			}),
+		);
+		expect(result).toEqual({ text: "Hi there", responseId: "chatcmpl-1" });
+	});
+
+	it("returns empty text for a null content", () => {
+		const result = provider.parseResponse(
+			JSON.stringify({ choices: [{ message: { content: null } }] }),
+		);
+		expect(result.text).toBe("");
+	});
+
+	it("parses stream chunks and skips [DONE]", () => {
+		expect(
+			provider.parseStreamEvent(
+				JSON.stringify({ id: "c1", choices: [{ delta: { content: "Hi" } }] }),
+			),
+		).toEqual({ delta: "Hi", responseId: "c1" });
+		expect(provider.parseStreamEvent("[DONE]")).toBeNull();
+	});
+
+	it("asks for usage in streams and reports it", () => {
+		const req = provider.buildRequest(makeParams(settings), true);
+		expect(req.body.stream_options).toEqual({ include_usage: true });
+		const usage = { prompt_tokens: 50, completion_tokens: 7 };
+		expect(
+			provider.parseResponse(JSON.stringify({ choices: [], usage })).usage,
+		).toEqual({ inputTokens: 50, outputTokens: 7 });
+		expect(
+			provider.parseStreamEvent(JSON.stringify({ id: "c1", choices: [], usage })),
+		).toMatchObject({ usage: { inputTokens: 50, outputTokens: 7 } });
+	});
+
+	it("maps 404 to a base URL / model hint", () => {
+		expect(provider.mapHttpError(404, "")).toContain("base URL and model");
+	});
+});
+
+describe("Anthropic provider", () => {
+	const settings = makeSettings({
+		provider: "anthropic",
+		customModel: "claude-model",
+	});
+	const provider = getProvider(settings);
+
+	it("builds a Messages request with thinking and web search", () => {
+		const req = provider.buildRequest(makeParams(settings), false);
+		expect(req.url).toBe("https://api.anthropic.com/v1/messages");
+		expect(req.headers["x-api-key"]).toBe("key");
+		expect(req.headers["anthropic-version"]).toBe("2023-06-01");
+		expect(req.body).toMatchObject({
+			model: "claude-model",
+			system: "SYS",
+			messages: [{ role: "user", content: "USER" }],
+			thinking: { type: "enabled", budget_tokens: 1024 },
+			tools: [{ type: "web_search_20250305", name: "web_search" }],
+		});
+		expect(req.body.max_tokens).toBeGreaterThan(1024);
+	});
+
+	it("puts explicit history ahead of the prompt", () => {
+		const req = provider.buildRequest(
+			makeParams(settings, { history: [{ role: "assistant", content: "A0" }] }),
+			false,
+		);
+		expect(req.body.messages).toEqual([
+			{ role: "assistant", content: "A0" },
+			{ role: "user", content: "USER" },
+		]);
+	});
+
+	it("omits thinking and tools when overridden off", () => {
+		const req = provider.buildRequest(
+			makeParams(settings, { reasoningEffort: "none", webSearchEnabled: false }),
+			false,
+		);
+		expect(req.body.thinking).toBeUndefined();
+		expect(req.body.tools).toBeUndefined();
+	});
+
+	it("joins text blocks and skips thinking/tool blocks", () => {
+		const result = provider.parseResponse(
+			JSON.stringify({
+				id: "msg_1",
+				content: [
+					{ type: "thinking", thinking: "hmm" },
+					{ type: "text", text: "Part one. " },
+					{ type: "server_tool_use", name: "web_search" },
+					{ type: "text", text: "Part two." },
+				],
+			}),
+		);
+		expect(result).toEqual({ text: "Part one. Part two.", responseId: "msg_1" });
+	});
+
+	it("spans each text block's citations over that block", () => {
+		const result = provider.parseResponse(
+			JSON.stringify({
+				id: "msg_1",
+				content: [
+					{ type: "text", text: "Intro. " },
+					{ type: "web_search_tool_result", content: [] },
+					{
+						type: "text",
+						text: "Cited fact.\n",
+						citations: [{ type: "web_search_result_location", url: "https://a.example", title: "A" }],
+					},
+				],
+			}),
+		);
+		expect(result.text).toBe("Intro. Cited fact.");
+		expect(result.citations).toEqual([
+			{ url: "https://a.example", title: "A", start: 7, end: 18 },
+		]);
+	});
+
+	it("streams citations without a position", () => {
+		expect(
+			provider.parseStreamEvent(
+				JSON.stringify({
+					type: "content_block_delta",
+					delta: {
+						type: "citations_delta",
+						citation: { url: "https://a.example", title: "A" },
+					},
+				}),
+			),
+		).toEqual({ citation: { url: "https://a.example", title: "A" } });
+	});
+
+	it("parses text deltas and skips thinking deltas", () => {
+		expect(
+			provider.parseStreamEvent(
+				JSON.stringify({ type: "message_start", message: { id: "msg_2" } }),
+			),
+		).toEqual({ responseId: "msg_2" });
+		expect(
+			provider.parseStreamEvent(
+				JSON.stringify({
+					type: "content_block_delta",
+					delta: { type: "text_delta", text: "Hi" },
+				}),
+			),
+		).toEqual({ delta: "Hi" });
+		expect(
+			provider.parseStreamEvent(
+				JSON.stringify({
+					type: "content_block_delta",
+					delta: { type: "thinking_delta", thinking: "hmm" },
+				}),
+			),
+		).toBeNull();
+	});
+
+	it("reports usage split across message_start and message_delta", () => {
+		expect(
+			provider.parseResponse(
+				JSON.stringify({
+					content: [],
+					usage: { input_tokens: 10, output_tokens: 4 },
+				}),
+			).usage,
+		).toEqual({ inputTokens: 10, outputTokens: 4 });
+		expect(
+			provider.parseStreamEvent(
+				JSON.stringify({
+					type: "message_start",
+					message: { id: "m", usage: { input_tokens: 10 } },
+				}),
+			),
+		).toEqual({ responseId: "m", usage: { inputTokens: 10 } });
+		expect(
+			provider.parseStreamEvent(
+				JSON.stringify({ type: "message_delta", usage: { output_tokens: 4 } }),
+			),
+		).toEqual({ usage: { outputTokens: 4 } });
+	});
+
+	it("maps 529 to an overloaded message", () => {
+		expect(provider.mapHttpError(529, "")).toContain("overloaded");
+	});
+});
+
+describe("Ollama provider", () => {
+	const settings = makeSettings({
+		provider: "ollama",
+		customModel: "llama3",
+		apiKey: "",
+	});
+	const provider = getProvider(settings);
+
+	it("does not require an API key", () => {
+		expect(provider.requiresApiKey).toBe(false);
+	});
+
+	it("builds a non-streaming /api/chat request on the default URL", () => {
+		const req = provider.buildRequest(makeParams(settings), false);
+		expect(req.url).toBe("http://localhost:11434/api/chat");
+		expect(req.body).toMatchObject({ model: "llama3", stream: false });
+	});
+
+	it("parses message content with an empty response id", () => {
+		const result = provider.parseResponse(
+			JSON.stringify({ message: { role: "assistant", content: " Hello " } }),
+		);
+		expect(result).toEqual({ text: "Hello", responseId: "" });
+	});
+
+	it("parses NDJSON stream lines", () => {
+		expect(
+			provider.parseStreamEvent(JSON.stringify({ message: { content: "Hi" }, done: false })),
+		).toEqual({ delta: "Hi" });
+		expect(provider.parseStreamEvent(JSON.stringify({ error: "oops" }))).toEqual({
+			error: "oops",
+		});
+	});
+
+	it("reports eval counts as usage on the final line", () => {
+		expect(
+			provider.parseStreamEvent(
+				JSON.stringify({ done: true, prompt_eval_count: 26, eval_count: 9 }),
+			),
+		).toEqual({ delta: "", usage: { inputTokens: 26, outputTokens: 9 } });
+	});
+
+	it("surfaces Ollama's string error", () => {
+		expect(
+			provider.mapHttpError(404, JSON.stringify({ error: "model 'x' not found" })),
+		).toContain("model 'x' not found");
+	});
+});
+
+describe("extractApiError", () => {
+	it("reads a nested error message", () => {
+		expect(extractApiError(JSON.stringify({ error: { message: "nope" } }))).toBe("nope");
+	});
+
+	it("reads a string error", () => {
+		expect(extractApiError(JSON.stringify({ error: "nope" }))).toBe("nope");
+	});
+
+	it("falls back to the truncated raw body", () => {
+		expect(extractApiError("x".repeat(300))).toHaveLength(200);
+	});
+});
@@ -0,0 +1,192 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+	QaIndex,
+	indexNote,
+	parseCooCallouts,
+	parseQaIndex,
+	searchQa,
+	type QaIndexMap,
+	type QaQuery,
+} from "../src/qa-index";
+import { makeAdapter } from "./helpers";
+
+const INDEX_PATH = "/plugin/qa-index.json";
+
+function makeIndex(initial: Record<string, string> = {}) {
+	const { adapter, mock, files } = makeAdapter(initial);
+	const index = new QaIndex(adapter, INDEX_PATH, 60_000);
+	return { index, files, adapter: mock };
+}
+
+const NOTE = [
+	"Bayes paragraph.",
+	"",
+	"> [!coo]- What is a prior?",
+	"> The belief before seeing data.",
+	"> %%coo-id: resp_1%%",
+	"",
+	"> [!coo]- [Minor] Typo?",
+	"> Yes.",
+	"> %%coo-parent: resp_1%%",
+	"",
+	"> [!note] Not coo",
+	"> ignored",
+].join("\n");
+
+const query = (q: Partial<QaQuery> = {}): QaQuery => ({
+	text: "",
+	field: "all",
+	minor: "any",
+	since: 0,
+	folder: "",
+	...q,
+});
+
+describe("parseCooCallouts", () => {
+	it("reads each coo callout's question, answer and minor flag", () => {
+		expect(parseCooCallouts(NOTE)).toEqual([
+			{
+				line: 2,
+				question: "What is a prior?",
+				answer: "The belief before seeing data.",
+				minor: false,
+			},
+			{ line: 6, question: "Typo?", answer: "Yes.", minor: true },
+		]);
+	});
+});
+
+describe("indexNote", () => {
+	it("dates new callouts by the note's mtime and keeps earlier dates", () => {
+		const first = indexNote(NOTE, 1000);
+		expect(first.callouts.map((c) => c.at)).toEqual([1000, 1000]);
+		const edited = `${NOTE}\n\n> [!coo]- Another?\n> Sure.`;
+		const second = indexNote(`Intro.\n\n${edited}`, 5000, first);
+		expect(second.mtime).toBe(5000);
+		expect(second.callouts.map((c) => [c.question, c.at, c.line])).toEqual([
+			["What is a prior?", 1000, 4],
+			["Typo?", 1000, 8],
+			["Another?", 5000, 15],
+		]);
+	});
+});
+
+describe("indexNote with sidecar answers", () => {
+	const entry = { id: "e1", at: 700, block: "coo-abc123", question: "[Minor] Why?", answer: " So. " };
+
+	it("adds them dated as added, at the paragraph they annotate", () => {
+		const note = indexNote("Intro.\n\nBody. ^coo-abc123", 1000, undefined, [entry]);
+		expect(note.callouts).toEqual([
+			{ line: 2, question: "Why?", answer: "So.", minor: true, at: 700, block: "coo-abc123" },
+		]);
+		expect(note.sidecar).toBeTruthy();
+		expect(indexNote("Intro.", 1000).sidecar).toBeUndefined();
+	});
+});
+
+describe("searchQa", () => {
+	const map: QaIndexMap = {
+		"stats/bayes.md": indexNote(NOTE, 1000),
+		"stats/deep/more.md": indexNote("P\n\n> [!coo]- Prior odds?\n> Ratio.", 3000),
+		"history/rome.md": indexNote("P\n\n> [!coo]- When?\n> A prior era.", 2000),
+	};
+
+	it("matches every word in the question or answer, newest first", () => {
+		expect(searchQa(map, query({ text: "PRIOR" })).map((h) => h.notePath)).toEqual([
+			"stats/deep/more.md",
+			"history/rome.md",
+			"stats/bayes.md",
+		]);
+		expect(searchQa(map, query({ text: "prior data" })).map((h) => h.question)).toEqual([
+			"What is a prior?",
+		]);
+	});
+
+	it("filters by field, minor flag, date and folder", () => {
+		const questions = (q: Partial<QaQuery>) => searchQa(map, query(q)).map((h) => h.question);
+		expect(questions({ text: "prior", field: "question" })).toEqual([
+			"Prior odds?",
+			"What is a prior?",
+		]);
+		expect(questions({ text: "prior", field: "answer" })).toEqual(["When?"]);
+		expect(questions({ minor: "only" })).toEqual(["Typo?"]);
+		expect(questions({ minor: "exclude", since: 2000 })).toEqual(["Prior odds?", "When?"]);
+		expect(questions({ folder: "/stats/deep/" })).toEqual(["Prior odds?"]);
+		expect(questions({ folder: "stat" })).toEqual([]);
+	});
+
+	it("stops at the limit", () => {
+		expect(searchQa(map, query(), 2)).toHaveLength(2);
+	});
+});
+
+describe("QaIndex", () => {
+	it("indexes changed notes, skips unchanged ones and drops missing ones", async () => {
+		const { index } = makeIndex();
+		const read = vi.fn(async (path: string) => (path === "a.md" ? NOTE : "Plain."));
+		expect(
+			await index.sync(
+				[
+					{ path: "a.md", mtime: 1 },
+					{ path: "b.md", mtime: 1 },
+				],
+				read,
+			),
+		).toBe(2);
+		expect(await index.search(query({ text: "prior" }))).toHaveLength(1);
+
+		read.mockClear();
+		expect(await index.sync([{ path: "a.md", mtime: 1 }], read)).toBe(0);
+		expect(read).not.toHaveBeenCalled();
+		expect(await index.sync([{ path: "a.md", mtime: 2 }], read)).toBe(1);
+		expect(read).toHaveBeenCalledWith("a.md");
+	});
+
+	it("re-indexes a note whose sidecar answers changed", async () => {
+		const { index } = makeIndex();
+		const read = vi.fn(async () => "Plain.");
+		const entry = { id: "e1", at: 5, block: "", question: "Why?", answer: "Because." };
+		let sidecar: typeof entry[] = [];
+		const notes = [{ path: "a.md", mtime: 1 }];
+		await index.sync(notes, read, () => sidecar);
+		expect(await index.sync(notes, read, () => sidecar)).toBe(0);
+
+		sidecar = [entry];
+		expect(await index.sync(notes, read, () => sidecar)).toBe(1);
+		expect((await index.search(query({ text: "because" })))[0]).toMatchObject({ line: 0, at: 5 });
+	});
+
+	it("updates one note and follows renames and deletes", async () => {
+		const { index } = makeIndex();
+		await index.update("dir/a.md", 1, NOTE);
+		await index.move("dir", "moved");
+		expect((await index.search(query())).map((h) => h.notePath)).toEqual([
+			"moved/a.md",
+			"moved/a.md",
+		]);
+		await index.update("moved/a.md", 2, "No answers left.");
+		expect(await index.search(query())).toEqual([]);
+		await index.update("b.md", 3, NOTE);
+		await index.drop("b.md");
+		expect(await index.search(query())).toEqual([]);
+	});
+
+	it("debounces writes and flushes on demand", async () => {
+		const { index, files, adapter } = makeIndex();
+		await index.update("a.md", 1, NOTE);
+		expect(adapter.write).not.toHaveBeenCalled();
+		await index.flush();
+		expect(parseQaIndex(files[INDEX_PATH] ?? null)["a.md"]?.callouts).toHaveLength(2);
+	});
+});
+
+describe("parseQaIndex", () => {
+	it("tolerates a missing, corrupt or malformed file", () => {
+		expect(parseQaIndex(null)).toEqual({});
+		expect(parseQaIndex("{not json")).toEqual({});
+		expect(parseQaIndex("[]")).toEqual({});
+		expect(
+			parseQaIndex(JSON.stringify({ "a.md": { mtime: 1, callouts: [{ line: "x" }] } })),
+		).toEqual({});
+	});
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import type { CooSettings, QuickAction } from "../src/types";
+import {
+	DEFAULT_QUICK_ACTIONS,
+	fillQuickActionPrompt,
+	newQuickActionId,
+	quickActionCommandId,
+	quickActionOverrides,
+	validateQuickAction,
+} from "../src/quick-actions";
+
+const action: QuickAction = {
+	id: "explain",
+	name: "Explain",
+	icon: "zap",
+	prompt: "Explain {{selection}} from {{noteTitle}} in {{language}}.",
+	target: "callout",
+	reasoningEffort: "default",
+	webSearch: "default",
+};
+
+describe("validateQuickAction", () => {
+	it("accepts every default action", () => {
+		for (const a of DEFAULT_QUICK_ACTIONS) {
+			expect(validateQuickAction(a)).toEqual([]);
+		}
+	});
+
+	it("rejects a blank name, a blank prompt and unknown variables", () => {
+		expect(validateQuickAction({ ...action, name: " ", prompt: "" })).toEqual([
+			"the name is empty",
+			"the prompt is empty",
+		]);
+		expect(validateQuickAction({ ...action, prompt: "Use {{question}} and {{template}}." })).toEqual([
+			"unknown variable {{question}}",
+			"unknown variable {{template}}",
+		]);
+	});
+});
+
+describe("fillQuickActionPrompt", () => {
+	it("fills the selection, note title and response language", () => {
+		const settings = { responseLanguage: "fr" } as CooSettings;
+		expect(
+			fillQuickActionPrompt(action, settings, {
+				passage: "P",
+				selection: "entropy",
+				noteTitle: "Physics",
+			}),
+		).toBe("Explain entropy from Physics in French.");
+	});
+});
+
+describe("quickActionOverrides", () => {
+	it("leaves defaults to the settings", () => {
+		expect(quickActionOverrides(action)).toEqual({});
+	});
+
+	it("maps explicit reasoning and web search", () => {
+		expect(
+			quickActionOverrides({ ...action, reasoningEffort: "high", webSearch: "off" }),
+		).toEqual({ reasoningEffort: "high", webSearchEnabled: false });
+	});
+});
+
+describe("newQuickActionId", () => {
+	it("slugs the name and avoids taken ids", () => {
+		expect(newQuickActionId("Explain like I'm 5", [])).toBe("explain-like-i-m-5");
+		expect(newQuickActionId("Explain", [action])).toBe("explain-2");
+		expect(newQuickActionId("？", [])).toBe("action");
+	});
+
+	it("gives command ids that follow the id, not the name", () => {
+		expect(quickActionCommandId({ ...action, name: "Renamed" })).toBe("quick-action-explain");
+	});
+});
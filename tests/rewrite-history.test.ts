@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import {
+	RewriteHistory,
+	MAX_REWRITES_PER_NOTE,
+	parseRewriteHistory,
+	findRewrites,
+	locateRewrite,
+	restoredText,
+} from "../src/rewrite-history";
+import { makeAdapter } from "./helpers";
+
+const HISTORY_PATH = "/plugin/rewrite-history.json";
+
+function makeHistory(initial: Record<string, string> = {}) {
+	const { adapter, mock, files } = makeAdapter(initial);
+	const history = new RewriteHistory(adapter, HISTORY_PATH, 60_000);
+	return { history, files, adapter: mock };
+}
+
+const entry = {
+	label: "Fold in notes",
+	original: "- Old text.",
+	callouts: "\n\n> [!coo]- Why?\n> Because.",
+	rewritten: "- New text.",
+};
+
+describe("RewriteHistory", () => {
+	it("records rewrites per note, newest first", async () => {
+		const { history } = makeHistory();
+		await history.record("a.md", entry, 1000);
+		await history.record("a.md", { ...entry, rewritten: "- Newer." }, 2000);
+		await history.record("b.md", entry, 3000);
+
+		const list = await history.list("a.md");
+		expect(list.map((r) => r.rewritten)).toEqual(["- Newer.", "- New text."]);
+		expect(list[1]).toMatchObject({ at: 1000, label: "Fold in notes", callouts: entry.callouts });
+		expect(await history.list("missing.md")).toEqual([]);
+	});
+
+	it("keeps only the newest records of a note", async () => {
+		const { history } = makeHistory();
+		for (let i = 0; i < MAX_REWRITES_PER_NOTE + 5; i++) {
+			await history.record("a.md", { ...entry, rewritten: `v${i}` }, i);
+		}
+		const list = await history.list("a.md");
+		expect(list).toHaveLength(MAX_REWRITES_PER_NOTE);
+		expect(list[0]?.rewritten).toBe(`v${MAX_REWRITES_PER_NOTE + 4}`);
+	});
+
+	it("removes a restored record", async () => {
+		const { history } = makeHistory();
+		const record = await history.record("a.md", entry, 1000);
+		await history.remove("a.md", record.id);
+		expect(await history.list("a.md")).toEqual([]);
+	});
+
+	it("follows renames and deletes", async () => {
+		const { history } = makeHistory();
+		await history.record("dir/a.md", entry, 1000);
+		await history.record("b.md", entry, 1000);
+		await history.move("dir", "moved");
+		expect(await history.list("moved/a.md")).toHaveLength(1);
+		expect(await history.list("dir/a.md")).toEqual([]);
+		await history.drop("b.md");
+		expect(await history.list("b.md")).toEqual([]);
+	});
+
+	it("debounces writes and flushes on demand", async () => {
+		const { history, files, adapter } = makeHistory();
+		await history.record("a.md", entry, 1000);
+		expect(adapter.write).not.toHaveBeenCalled();
+		await history.flush();
+		expect(parseRewriteHistory(files[HISTORY_PATH] ?? null)["a.md"]).toHaveLength(1);
+	});
+});
+
+describe("parseRewriteHistory", () => {
+	it("tolerates a missing, corrupt or malformed file", () => {
+		expect(parseRewriteHistory(null)).toEqual({});
+		expect(parseRewriteHistory("{not json")).toEqual({});
+		expect(parseRewriteHistory("[]")).toEqual({});
+		expect(
+			parseRewriteHistory(JSON.stringify({ "a.md": [{ id: 1 }], "b.md": "x" })),
+		).toEqual({});
+	});
+});
+
+describe("locateRewrite / restoredText", () => {
+	it("finds the rewritten block and restores the paragraph with its notes", async () => {
+		const { history } = makeHistory();
+		const record = await history.record("a.md", entry, 1000);
+		const document = "# Title\n\n- New text.\n\nAfter.";
+		const range = locateRewrite(document, record);
+		expect(range).toEqual({ from: 9, to: 20 });
+		const restored =
+			document.slice(0, range?.from) + restoredText(record) + document.slice(range?.to);
+		expect(restored).toBe("# Title\n\n- Old text.\n\n> [!coo]- Why?\n> Because.\n\nAfter.");
+	});
+
+	it("returns null once the rewritten block has been edited", async () => {
+		const { history } = makeHistory();
+		const record = await history.record("a.md", entry, 1000);
+		expect(locateRewrite("- New text, edited.", record)).toBeNull();
+	});
+
+	it("only matches whole paragraphs", async () => {
+		const { history } = makeHistory();
+		const record = await history.record("a.md", entry, 1000);
+		expect(locateRewrite("Intro - New text.\n\n- New text. More.", record)).toBeNull();
+	});
+
+	it("refuses a block that appears more than once", async () => {
+		const { history } = makeHistory();
+		const record = await history.record("a.md", entry, 1000);
+		const document = "- New text.\n\nBetween.\n\n- New text.";
+		expect(findRewrites(document, record)).toHaveLength(2);
+		expect(locateRewrite(document, record)).toBeNull();
+	});
+
+	it("finds a block of several paragraphs", async () => {
+		const { history } = makeHistory();
+		const record = await history.record("a.md", { ...entry, rewritten: "One.\n\nTwo." }, 1000);
+		expect(locateRewrite("Before.\n\nOne.\n\nTwo.\n\nAfter.", record)).toEqual({
+			from: 9,
+			to: 19,
+		});
+	});
+});
@@ -22,8 +22,9 @@ describe("mapLocaleToResponseLanguage", () => {
 		expect(mapLocaleToResponseLanguage("zh-CN")).toBe("zh");
 	});
 
-	it('maps "zh-TW" to "zh"', () => {
-		expect(mapLocaleToResponseLanguage("zh-TW")).toBe("zh");
+	it('maps "zh-TW" and "zh-HK" to Traditional Chinese', () => {
+		expect(mapLocaleToResponseLanguage("zh-TW")).toBe("zh-TW");
+		expect(mapLocaleToResponseLanguage("zh-hk")).toBe("zh-TW");
 	});
 
 	it('maps "ja" to "ja"', () => {
@@ -46,8 +47,29 @@ describe("mapLocaleToResponseLanguage", () => {
 		expect(mapLocaleToResponseLanguage("fr-CA")).toBe("fr");
 	});
 
+	it("maps the other Obsidian UI locales", () => {
+		expect(mapLocaleToResponseLanguage("de")).toBe("de");
+		expect(mapLocaleToResponseLanguage("ko")).toBe("ko");
+		expect(mapLocaleToResponseLanguage("pt")).toBe("pt");
+		expect(mapLocaleToResponseLanguage("pt-br")).toBe("pt-BR");
+		expect(mapLocaleToResponseLanguage("pt_BR")).toBe("pt-BR");
+		expect(mapLocaleToResponseLanguage("no")).toBe("nb");
+		expect(mapLocaleToResponseLanguage("ar")).toBe("ar");
+	});
+
 	it('falls back to "en" for unknown locale', () => {
-		expect(mapLocaleToResponseLanguage("de")).toBe("en");
+		expect(mapLocaleToResponseLanguage("xx")).toBe("en");
+	});
+
+	it("matches custom languages", () => {
+		const custom = {
+			tag: "gsw",
+			name: "Swiss German",
+			nativeName: "Schwiizerdütsch",
+			defaultQuestion: "Was heisst das?",
+			direction: "ltr" as const,
+		};
+		expect(mapLocaleToResponseLanguage("gsw-CH", [custom])).toBe("gsw");
 	});
 
 	it('falls back to "en" for empty string', () => {
@@ -62,56 +84,63 @@ describe("mapLocaleToResponseLanguage", () => {
 
 describe("isLanguageConflict", () => {
 	it("detects English response with English translate as conflict", () => {
-		expect(isLanguageConflict("en", "English")).toBe(true);
+		expect(isLanguageConflict("en", "en")).toBe(true);
 	});
 
 	it("detects Chinese response with Chinese translate as conflict", () => {
-		expect(isLanguageConflict("zh", "Chinese")).toBe(true);
+		expect(isLanguageConflict("zh", "zh")).toBe(true);
 	});
 
 	it("detects Japanese response with Japanese translate as conflict", () => {
-		expect(isLanguageConflict("ja", "Japanese")).toBe(true);
+		expect(isLanguageConflict("ja", "ja")).toBe(true);
 	});
 
 	it("detects Spanish response with Spanish translate as conflict", () => {
-		expect(isLanguageConflict("es", "Spanish")).toBe(true);
+		expect(isLanguageConflict("es", "es")).toBe(true);
 	});
 
 	it("detects French response with French translate as conflict", () => {
-		expect(isLanguageConflict("fr", "French")).toBe(true);
+		expect(isLanguageConflict("fr", "fr")).toBe(true);
 	});
 
 	it("returns false for English response with Chinese translate", () => {
-		expect(isLanguageConflict("en", "Chinese")).toBe(false);
+		expect(isLanguageConflict("en", "zh")).toBe(false);
 	});
 
 	it("returns false for Chinese response with English translate", () => {
-		expect(isLanguageConflict("zh", "English")).toBe(false);
+		expect(isLanguageConflict("zh", "en")).toBe(false);
 	});
 
 	it("returns false for Japanese response with French translate", () => {
-		expect(isLanguageConflict("ja", "French")).toBe(false);
+		expect(isLanguageConflict("ja", "fr")).toBe(false);
+	});
+});
+
+describe("isLanguageConflict with regional tags", () => {
+	it("compares whole tags, case-insensitively", () => {
+		expect(isLanguageConflict("pt-BR", "pt-br")).toBe(true);
+		expect(isLanguageConflict("zh", "zh-TW")).toBe(false);
 	});
 });
 
 describe("getDefaultTranslateLanguage", () => {
 	it("returns Chinese for English response language", () => {
-		expect(getDefaultTranslateLanguage("en")).toBe("Chinese");
+		expect(getDefaultTranslateLanguage("en")).toBe("zh");
 	});
 
 	it("returns English for Chinese response language", () => {
-		expect(getDefaultTranslateLanguage("zh")).toBe("English");
+		expect(getDefaultTranslateLanguage("zh")).toBe("en");
 	});
 
 	it("returns English for Japanese response language", () => {
-		expect(getDefaultTranslateLanguage("ja")).toBe("English");
+		expect(getDefaultTranslateLanguage("ja")).toBe("en");
 	});
 
 	it("returns English for Spanish response language", () => {
-		expect(getDefaultTranslateLanguage("es")).toBe("English");
+		expect(getDefaultTranslateLanguage("es")).toBe("en");
 	});
 
 	it("returns English for French response language", () => {
-		expect(getDefaultTranslateLanguage("fr")).toBe("English");
+		expect(getDefaultTranslateLanguage("fr")).toBe("en");
 	});
 });
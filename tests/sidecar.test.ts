@@ -0,0 +1,84 @@
+import { describe, it, expect, vi } from "vitest";
+import { SidecarStore, newBlockId, parseSidecar } from "../src/sidecar";
+import { makeAdapter } from "./helpers";
+
+const SIDECAR_PATH = "/plugin/sidecar-data.json";
+
+function makeSidecar(initial: Record<string, string> = {}) {
+	const { adapter, mock, files } = makeAdapter(initial);
+	const sidecar = new SidecarStore(adapter, SIDECAR_PATH, 60_000);
+	return { sidecar, files, adapter: mock };
+}
+
+const answer = { block: "coo-abc123", question: "Why?", answer: "Because." };
+
+describe("SidecarStore", () => {
+	it("adds answers per note, in order, and peeks once loaded", async () => {
+		const { sidecar } = makeSidecar();
+		expect(sidecar.peek("a.md")).toEqual([]);
+		await sidecar.add("a.md", [answer, { ...answer, question: "How?" }], 1000);
+		await sidecar.add("b.md", [answer], 2000);
+
+		const list = await sidecar.list("a.md");
+		expect(list.map((e) => e.question)).toEqual(["Why?", "How?"]);
+		expect(list[0]).toMatchObject({ ...answer, at: 1000 });
+		expect(new Set(list.map((e) => e.id)).size).toBe(2);
+		expect(sidecar.peek("b.md")).toHaveLength(1);
+	});
+
+	it("removes an entry and tells listeners about the note", async () => {
+		const { sidecar } = makeSidecar();
+		const listener = vi.fn();
+		sidecar.onChange(listener);
+		const [entry] = await sidecar.add("a.md", [answer]);
+		await sidecar.remove("a.md", entry?.id ?? "");
+		await sidecar.remove("a.md", "missing");
+		expect(await sidecar.list("a.md")).toEqual([]);
+		expect(listener.mock.calls).toEqual([["a.md"], ["a.md"]]);
+	});
+
+	it("removes several entries in one change", async () => {
+		const { sidecar } = makeSidecar();
+		const listener = vi.fn();
+		const [why, how] = await sidecar.add("a.md", [answer, { ...answer, question: "How?" }, answer]);
+		sidecar.onChange(listener);
+		await sidecar.removeMany("a.md", [why?.id ?? "", how?.id ?? ""]);
+		expect(await sidecar.list("a.md")).toHaveLength(1);
+		expect(listener).toHaveBeenCalledOnce();
+	});
+
+	it("follows renames and deletes", async () => {
+		const { sidecar } = makeSidecar();
+		await sidecar.add("dir/a.md", [answer]);
+		await sidecar.add("b.md", [answer]);
+		await sidecar.move("dir", "moved");
+		expect(await sidecar.list("moved/a.md")).toHaveLength(1);
+		await sidecar.drop("b.md");
+		expect(await sidecar.list("b.md")).toEqual([]);
+	});
+
+	it("loads what it saved", async () => {
+		const { sidecar, files } = makeSidecar();
+		await sidecar.add("a.md", [answer], 1000);
+		await sidecar.flush();
+		const reloaded = makeSidecar(files).sidecar;
+		await reloaded.ready();
+		expect(reloaded.peek("a.md")).toMatchObject([answer]);
+	});
+});
+
+describe("parseSidecar", () => {
+	it("tolerates a missing, corrupt or malformed file", () => {
+		expect(parseSidecar(null)).toEqual({});
+		expect(parseSidecar("oops")).toEqual({});
+		expect(parseSidecar(JSON.stringify({ "a.md": [{ id: "x" }], "b.md": 3 }))).toEqual({});
+	});
+});
+
+describe("newBlockId", () => {
+	it("avoids ids already in the note", () => {
+		const id = newBlockId("");
+		expect(id).toMatch(/^coo-[a-z0-9]{6}$/);
+		expect(newBlockId(`Text ^${id}`)).not.toBe(id);
+	});
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import {
+	hashText,
+	splitParagraphs,
+	snapshotOf,
+	diffSnapshot,
+} from "../src/snapshot";
+
+describe("hashText", () => {
+	it("is stable and 8 hex chars", () => {
+		expect(hashText("hello")).toBe(hashText("hello"));
+		expect(hashText("hello")).toMatch(/^[0-9a-f]{8}$/);
+	});
+
+	it("differs for different text", () => {
+		expect(hashText("hello")).not.toBe(hashText("hello!"));
+	});
+});
+
+describe("splitParagraphs", () => {
+	it("splits on blank lines and drops empties", () => {
+		expect(splitParagraphs("A\nB\n\n\n  \nC\n")).toEqual(["A\nB", "C"]);
+	});
+});
+
+describe("diffSnapshot", () => {
+	const original = "P1\n\nP2\n\nP3\n\nP4";
+
+	it("reports no divergence for an unchanged document", () => {
+		const diff = diffSnapshot(snapshotOf(original), original);
+		expect(diff).toEqual({ added: [], removedCount: 0, divergence: 0 });
+	});
+
+	it("counts an edited paragraph once", () => {
+		const diff = diffSnapshot(snapshotOf(original), "P1\n\nP2!\n\nP3\n\nP4");
+		expect(diff.added).toEqual(["P2!"]);
+		expect(diff.removedCount).toBe(1);
+		expect(diff.divergence).toBe(0.25);
+	});
+
+	it("ignores whitespace-only differences between paragraphs", () => {
+		const diff = diffSnapshot(snapshotOf(original), "P1\n\n\n\nP2\n\nP3\n\nP4\n");
+		expect(diff.divergence).toBe(0);
+	});
+
+	it("counts added paragraphs against the larger document", () => {
+		const diff = diffSnapshot(snapshotOf("P1"), "P1\n\nP2\n\nP3");
+		expect(diff.added).toEqual(["P2", "P3"]);
+		expect(diff.divergence).toBeCloseTo(2 / 3);
+	});
+
+	it("handles an empty snapshot and document", () => {
+		expect(diffSnapshot([], "").divergence).toBe(0);
+	});
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import {
+	MAX_MEMORY_ENTRIES,
+	TranslationMemory,
+	memoryKey,
+	normalizeSource,
+	parseTranslationMemory,
+} from "../src/translation-memory";
+import { makeAdapter } from "./helpers";
+
+const MEMORY_PATH = "/plugin/translation-memory.json";
+
+function makeMemory(initial: Record<string, string> = {}) {
+	const { adapter, files } = makeAdapter(initial);
+	const memory = new TranslationMemory(adapter, MEMORY_PATH, 60_000);
+	return { memory, files };
+}
+
+describe("normalizeSource", () => {
+	it("collapses whitespace and keeps case", () => {
+		expect(normalizeSource("  Quantum\n  Entanglement ")).toBe("Quantum Entanglement");
+		expect(memoryKey("Spin", "ja")).toBe(memoryKey(" Spin", "JA"));
+		expect(memoryKey("Polish", "ja")).not.toBe(memoryKey("polish", "ja"));
+	});
+});
+
+describe("TranslationMemory", () => {
+	it("finds a translation by normalized text and language", async () => {
+		const { memory } = makeMemory();
+		await memory.remember("Entanglement", "ja", " 量子もつれ ", "", 1000);
+
+		expect(await memory.lookup("Entanglement ", "ja")).toBe("量子もつれ");
+		expect(await memory.lookup("entanglement", "ja")).toBeNull();
+		expect(await memory.lookup("entanglement", "fr")).toBeNull();
+		expect(await memory.lookup("spin", "ja")).toBeNull();
+	});
+
+	it("reuses a translation only with the same glossary terms", async () => {
+		const { memory } = makeMemory();
+		await memory.remember("spin up", "ja", "スピン上向き", "- spin → スピン", 1000);
+
+		expect(await memory.lookup("spin up", "ja", "- spin → スピン")).toBe("スピン上向き");
+		expect(await memory.lookup("spin up", "ja")).toBeNull();
+		expect(await memory.lookup("spin up", "ja", "- spin → 自転")).toBeNull();
+	});
+
+	it("searches texts and translations, most recently used first", async () => {
+		const { memory } = makeMemory();
+		await memory.remember("spin", "ja", "スピン", "", 1000);
+		await memory.remember("entanglement", "ja", "量子もつれ", "", 2000);
+		await memory.lookup("spin", "ja", "", 3000);
+
+		expect((await memory.search()).map((e) => e.source)).toEqual(["spin", "entanglement"]);
+		expect((await memory.search("もつれ")).map((e) => e.source)).toEqual(["entanglement"]);
+	});
+
+	it("corrects and removes entries", async () => {
+		const { memory } = makeMemory();
+		await memory.remember("spin", "ja", "スピン", "", 1000);
+		await memory.remember("qubit", "ja", "キュービット", "", 1000);
+		const [spin, qubit] = await memory.search("i");
+
+		if (!spin || !qubit) throw new Error("missing entries");
+		await memory.update(qubit, "量子ビット");
+		await memory.remove(spin);
+		expect(await memory.lookup("qubit", "ja")).toBe("量子ビット");
+		expect(await memory.lookup("spin", "ja")).toBeNull();
+
+		await memory.update(qubit, " ");
+		expect(await memory.search()).toEqual([]);
+	});
+
+	it("drops the least recently used entries past the limit", async () => {
+		const { memory } = makeMemory();
+		for (let i = 0; i <= MAX_MEMORY_ENTRIES; i++) {
+			await memory.remember(`term ${i}`, "ja", `訳 ${i}`, "", i);
+		}
+		expect(await memory.lookup("term 0", "ja")).toBeNull();
+		expect(await memory.lookup("term 1", "ja")).toBe("訳 1");
+	});
+
+	it("persists on flush and reloads", async () => {
+		const { memory, files } = makeMemory();
+		await memory.remember("spin", "ja", "スピン", "", 1000);
+		await memory.flush();
+
+		const reloaded = makeMemory(files).memory;
+		expect(await reloaded.lookup("spin", "ja")).toBe("スピン");
+	});
+});
+
+describe("parseTranslationMemory", () => {
+	it("tolerates a missing or corrupt file and drops malformed entries", () => {
+		expect(parseTranslationMemory(null)).toEqual({});
+		expect(parseTranslationMemory("{nope")).toEqual({});
+		const raw = JSON.stringify({
+			a: { source: "spin", language: "ja", translation: "スピン", at: 1 },
+			b: { source: "qubit", language: "ja" },
+		});
+		expect(Object.values(parseTranslationMemory(raw)).map((e) => e.source)).toEqual(["spin"]);
+	});
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import { TranslationProgress, parseTranslationProgress } from "../src/translation-progress";
+import { makeAdapter } from "./helpers";
+
+const PROGRESS_PATH = "/plugin/translation-progress.json";
+
+function makeProgress(initial: Record<string, string> = {}) {
+	const { adapter, files } = makeAdapter(initial);
+	const progress = new TranslationProgress(
+		adapter,
+		PROGRESS_PATH,
+		60_000,
+	);
+	return { progress, files };
+}
+
+describe("TranslationProgress", () => {
+	it("keeps translated blocks per note and language", async () => {
+		const { progress } = makeProgress();
+		await progress.keep("a.md", "ja", "h1", "一");
+		await progress.keep("a.md", "ja", "h2", "二");
+
+		expect(await progress.done("a.md", "ja")).toEqual({ h1: "一", h2: "二" });
+		expect(await progress.done("a.md", "fr")).toEqual({});
+		expect(await progress.done("b.md", "ja")).toEqual({});
+	});
+
+	it("starts over when the language changes", async () => {
+		const { progress } = makeProgress();
+		await progress.keep("a.md", "ja", "h1", "一");
+		await progress.keep("a.md", "fr", "h2", "deux");
+		expect(await progress.done("a.md", "ja")).toEqual({});
+		expect(await progress.done("a.md", "fr")).toEqual({ h2: "deux" });
+	});
+
+	it("clears, moves and drops notes", async () => {
+		const { progress } = makeProgress();
+		await progress.keep("a.md", "ja", "h", "一");
+		await progress.keep("dir/b.md", "ja", "h", "二");
+		await progress.keep("c.md", "ja", "h", "三");
+
+		await progress.clear("a.md");
+		await progress.move("dir", "moved");
+		await progress.drop("c.md");
+
+		expect(await progress.done("a.md", "ja")).toEqual({});
+		expect(await progress.done("moved/b.md", "ja")).toEqual({ h: "二" });
+		expect(await progress.done("c.md", "ja")).toEqual({});
+	});
+
+	it("persists on flush and reloads", async () => {
+		const { progress, files } = makeProgress();
+		await progress.keep("a.md", "ja", "h", "一", 1000);
+		await progress.flush();
+
+		const reloaded = makeProgress(files).progress;
+		expect(await reloaded.done("a.md", "ja")).toEqual({ h: "一" });
+	});
+});
+
+describe("parseTranslationProgress", () => {
+	it("tolerates a missing or corrupt file", () => {
+		expect(parseTranslationProgress(null)).toEqual({});
+		expect(parseTranslationProgress("{nope")).toEqual({});
+		expect(parseTranslationProgress("[]")).toEqual({});
+	});
+
+	it("drops malformed entries", () => {
+		const raw = JSON.stringify({
+			"a.md": { language: "ja", at: 1, blocks: { h: "一" } },
+			"b.md": { language: "ja", at: 1, blocks: { h: 2 } },
+			"c.md": { language: "ja" },
+		});
+		expect(Object.keys(parseTranslationProgress(raw))).toEqual(["a.md"]);
+	});
+});
@@ -0,0 +1,265 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+	UsageLedger,
+	CooBudgetError,
+	parsePriceTable,
+	formatPriceTable,
+	priceUsage,
+	sumUsage,
+	formatCost,
+	formatTokens,
+	parseLedger,
+	rollUpLedger,
+	type UsageRecord,
+} from "../src/usage-ledger";
+import { makeAdapter, makeSettings } from "./helpers";
+
+const LEDGER_PATH = "/plugin/usage-ledger.json";
+
+function makeLedger(initial: Record<string, string> = {}) {
+	const { adapter, mock, files } = makeAdapter(initial);
+	const ledger = new UsageLedger(adapter, LEDGER_PATH, 60_000);
+	return { ledger, files, adapter: mock };
+}
+
+// Local-time timestamps, so day/month boundaries match the ledger's.
+const at = (month: number, day: number, hour = 12): number =>
+	new Date(2026, month - 1, day, hour).getTime();
+
+describe("parsePriceTable", () => {
+	it("parses model = input, output lines", () => {
+		expect(parsePriceTable("a = 1.25, 10\nb-2 = 0.1,0.4")).toEqual({
+			a: { input: 1.25, output: 10 },
+			"b-2": { input: 0.1, output: 0.4 },
+		});
+	});
+
+	it("skips blank, comment and malformed lines", () => {
+		expect(parsePriceTable("# prices\n\nbroken line\nc = x, 1\nd = 1, 2 # cheap")).toEqual({
+			d: { input: 1, output: 2 },
+		});
+	});
+
+	it("round-trips through formatPriceTable", () => {
+		const table = { a: { input: 1.25, output: 10 } };
+		expect(parsePriceTable(formatPriceTable(table))).toEqual(table);
+	});
+});
+
+describe("priceUsage", () => {
+	it("prices input and output per million tokens", () => {
+		const prices = { m: { input: 2, output: 10 } };
+		expect(priceUsage(prices, "m", { inputTokens: 500_000, outputTokens: 100_000 })).toBeCloseTo(2);
+	});
+
+	it("returns null for a model without a price", () => {
+		expect(priceUsage({}, "m", { inputTokens: 1, outputTokens: 1 })).toBeNull();
+	});
+});
+
+describe("sumUsage", () => {
+	const record = (cost: number | null): UsageRecord => ({
+		at: 0,
+		kind: "ask",
+		provider: "openai",
+		model: "m",
+		inputTokens: 10,
+		outputTokens: 5,
+		cost,
+	});
+
+	it("totals tokens and cost, counting unpriced calls", () => {
+		expect(sumUsage([record(0.5), record(null), record(0.25)])).toEqual({
+			calls: 3,
+			inputTokens: 30,
+			outputTokens: 15,
+			cost: 0.75,
+			unpriced: 1,
+		});
+	});
+});
+
+describe("rollUpLedger", () => {
+	const record = (day: number, cost: number | null, notePath?: string): UsageRecord => ({
+		at: at(9, day),
+		kind: "ask",
+		...(notePath ? { notePath } : {}),
+		provider: "openai",
+		model: "m",
+		inputTokens: 10,
+		outputTokens: 5,
+		cost,
+	});
+
+	it("merges older records per note and pricing, keeping their sums", () => {
+		const records = [
+			record(1, 0.5, "a.md"),
+			record(2, 0.25, "a.md"),
+			record(3, null, "a.md"),
+			record(4, 1, "b.md"),
+			record(20, 2, "a.md"),
+		];
+		const rolled = rollUpLedger(records, at(9, 10));
+		expect(rolled).toHaveLength(4);
+		expect(rolled[0]).toMatchObject({ at: at(9, 2), calls: 2, inputTokens: 20, cost: 0.75 });
+		expect(rolled[3]).toBe(records[4]);
+		for (const notePath of ["a.md", "b.md"]) {
+			const ofNote = (r: UsageRecord) => r.notePath === notePath;
+			expect(sumUsage(rolled, ofNote)).toEqual(sumUsage(records, ofNote));
+		}
+	});
+});
+
+describe("formatting", () => {
+	it("formats costs", () => {
+		expect(formatCost(0)).toBe("$0.00");
+		expect(formatCost(0.004)).toBe("<$0.01");
+		expect(formatCost(1.5)).toBe("$1.50");
+	});
+
+	it("formats token counts", () => {
+		expect(formatTokens(950)).toBe("950");
+		expect(formatTokens(12_340)).toBe("12.3k");
+		expect(formatTokens(1_200_000)).toBe("1.2M");
+	});
+});
+
+describe("parseLedger", () => {
+	it("tolerates a missing, corrupt or non-array file", () => {
+		expect(parseLedger(null)).toEqual([]);
+		expect(parseLedger("not json")).toEqual([]);
+		expect(parseLedger("{}")).toEqual([]);
+	});
+
+	it("drops malformed records", () => {
+		expect(parseLedger(JSON.stringify([{ at: 1 }, "x"]))).toEqual([]);
+	});
+});
+
+describe("UsageLedger", () => {
+	const usage = { inputTokens: 1000, outputTokens: 100 };
+
+	it("records priced usage and sums it by day and month", async () => {
+		const { ledger } = makeLedger();
+		const settings = makeSettings();
+		await ledger.record(settings, { kind: "ask", notePath: "a.md" }, usage, at(10, 1));
+		await ledger.record(settings, { kind: "translate" }, usage, at(10, 18));
+
+		const { today, month, note } = await ledger.summary("a.md", at(10, 18, 20));
+		expect(today.calls).toBe(1);
+		expect(today.cost).toBeCloseTo(0.003);
+		expect(month.calls).toBe(2);
+		expect(note?.calls).toBe(1);
+	});
+
+	it("records a call on an unpriced model with a null cost", async () => {
+		const { ledger } = makeLedger();
+		await ledger.record(makeSettings({ priceTable: {} }), { kind: "ask" }, usage);
+		const { today } = await ledger.summary();
+		expect(today.unpriced).toBe(1);
+		expect(today.cost).toBe(0);
+	});
+
+	it("records the free-form model for other providers", async () => {
+		const { ledger, files } = makeLedger();
+		await ledger.record(
+			makeSettings({ provider: "ollama", customModel: " llama3 " }),
+			{ kind: "ask" },
+			usage,
+		);
+		await ledger.flush();
+		expect(parseLedger(files[LEDGER_PATH] ?? null)[0]?.model).toBe("llama3");
+	});
+
+	it("notifies listeners after each record", async () => {
+		const { ledger } = makeLedger();
+		const listener = vi.fn();
+		ledger.onChange(listener);
+		await ledger.record(makeSettings(), { kind: "ask" }, usage);
+		expect(listener).toHaveBeenCalledOnce();
+	});
+
+	it("loads existing records and persists new ones on flush", async () => {
+		const existing: UsageRecord = {
+			at: at(10, 18),
+			kind: "ask",
+			provider: "openai",
+			model: "m",
+			inputTokens: 1,
+			outputTokens: 1,
+			cost: 1,
+		};
+		const { ledger, files, adapter } = makeLedger({
+			[LEDGER_PATH]: JSON.stringify([existing]),
+		});
+		await ledger.record(makeSettings(), { kind: "rewrite" }, usage, at(10, 18));
+		expect(adapter.write).not.toHaveBeenCalled();
+		await ledger.flush();
+		expect(parseLedger(files[LEDGER_PATH] ?? null)).toHaveLength(2);
+	});
+
+	it("rolls up last month's records once a new month starts", async () => {
+		const { ledger, files } = makeLedger();
+		const settings = makeSettings();
+		await ledger.record(settings, { kind: "ask", notePath: "a.md" }, usage, at(9, 1));
+		await ledger.record(settings, { kind: "ask", notePath: "a.md" }, usage, at(9, 30));
+		await ledger.record(settings, { kind: "ask", notePath: "a.md" }, usage, at(10, 1));
+		await ledger.flush();
+		expect(parseLedger(files[LEDGER_PATH] ?? null).map((r) => r.calls)).toEqual([2, undefined]);
+		const { month, note } = await ledger.summary("a.md", at(10, 1));
+		expect(month.calls).toBe(1);
+		expect(note?.calls).toBe(3);
+	});
+});
+
+describe("UsageLedger.checkBudget", () => {
+	const now = at(10, 18);
+
+	async function ledgerWithSpend(cost: number, when = now, notePath = "a.md") {
+		const { ledger } = makeLedger({
+			[LEDGER_PATH]: JSON.stringify([
+				{ at: when, kind: "ask", notePath, provider: "openai", model: "m", inputTokens: 1, outputTokens: 1, cost },
+			]),
+		});
+		return ledger;
+	}
+
+	it("passes when no budget is set", async () => {
+		const ledger = await ledgerWithSpend(100);
+		await expect(ledger.checkBudget(makeSettings(), "a.md", now)).resolves.toBeUndefined();
+	});
+
+	it("refuses once today's spend reaches the daily budget", async () => {
+		const ledger = await ledgerWithSpend(1);
+		await expect(
+			ledger.checkBudget(makeSettings({ dailyBudget: 1 }), undefined, now),
+		).rejects.toThrow(/Daily budget reached \(\$1\.00 of \$1\.00\)/);
+	});
+
+	it("ignores yesterday's spend for the daily budget but not the monthly one", async () => {
+		const ledger = await ledgerWithSpend(5, at(10, 17));
+		await expect(
+			ledger.checkBudget(makeSettings({ dailyBudget: 1 }), undefined, now),
+		).resolves.toBeUndefined();
+		await expect(
+			ledger.checkBudget(makeSettings({ monthlyBudget: 5 }), undefined, now),
+		).rejects.toBeInstanceOf(CooBudgetError);
+	});
+
+	it("ignores last month's spend", async () => {
+		const ledger = await ledgerWithSpend(5, at(9, 30));
+		await expect(
+			ledger.checkBudget(makeSettings({ monthlyBudget: 5 }), undefined, now),
+		).resolves.toBeUndefined();
+	});
+
+	it("applies the per-note budget only to that note", async () => {
+		const ledger = await ledgerWithSpend(2, at(1, 1));
+		const settings = makeSettings({ noteBudget: 2 });
+		await expect(ledger.checkBudget(settings, "a.md", now)).rejects.toThrow(
+			/this note/,
+		);
+		await expect(ledger.checkBudget(settings, "b.md", now)).resolves.toBeUndefined();
+		await expect(ledger.checkBudget(settings, undefined, now)).resolves.toBeUndefined();
+	});
+});